@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "failed_events" (
+    "id" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "rawEvent" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "failedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "failed_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "failed_events_status_idx" ON "failed_events"("status");
+
+-- CreateIndex
+CREATE INDEX "failed_events_failedAt_idx" ON "failed_events"("failedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "failed_events_txDigest_eventSeq_key" ON "failed_events"("txDigest", "eventSeq");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "indexer_leases" (
+    "id" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "heartbeatAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "indexer_leases_pkey" PRIMARY KEY ("id")
+);
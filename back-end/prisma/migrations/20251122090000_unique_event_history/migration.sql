@@ -0,0 +1,28 @@
+-- Remove duplicate history rows left by events applied more than once,
+-- keeping the first row indexed for each (txDigest, eventSeq)
+DELETE FROM "storage_listed_events" a
+USING "storage_listed_events" b
+WHERE a."txDigest" = b."txDigest"
+  AND a."eventSeq" = b."eventSeq"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+DELETE FROM "storage_purchased_events" a
+USING "storage_purchased_events" b
+WHERE a."txDigest" = b."txDigest"
+  AND a."eventSeq" = b."eventSeq"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+DELETE FROM "storage_delisted_events" a
+USING "storage_delisted_events" b
+WHERE a."txDigest" = b."txDigest"
+  AND a."eventSeq" = b."eventSeq"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_listed_events_txDigest_eventSeq_key" ON "storage_listed_events"("txDigest", "eventSeq");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_purchased_events_txDigest_eventSeq_key" ON "storage_purchased_events"("txDigest", "eventSeq");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_delisted_events_txDigest_eventSeq_key" ON "storage_delisted_events"("txDigest", "eventSeq");
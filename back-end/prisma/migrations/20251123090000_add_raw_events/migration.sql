@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "raw_events" (
+    "sequence" BIGSERIAL NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "sender" TEXT NOT NULL,
+    "timestampMs" BIGINT,
+    "rawEvent" JSONB NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "raw_events_pkey" PRIMARY KEY ("sequence")
+);
+
+-- CreateIndex
+CREATE INDEX "raw_events_eventType_idx" ON "raw_events"("eventType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "raw_events_txDigest_eventSeq_key" ON "raw_events"("txDigest", "eventSeq");
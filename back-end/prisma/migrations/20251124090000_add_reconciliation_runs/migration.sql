@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "onChainCount" INTEGER,
+    "dbCount" INTEGER,
+    "missingCount" INTEGER NOT NULL DEFAULT 0,
+    "extraCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchedCount" INTEGER NOT NULL DEFAULT 0,
+    "repairedCount" INTEGER NOT NULL DEFAULT 0,
+    "discrepancies" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_startedAt_idx" ON "reconciliation_runs"("startedAt");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "raw_events" ADD COLUMN "packageId" TEXT;
+ALTER TABLE "storage_delisted_events" ADD COLUMN "packageId" TEXT;
+ALTER TABLE "storage_listed_events" ADD COLUMN "packageId" TEXT;
+ALTER TABLE "storage_purchased_events" ADD COLUMN "packageId" TEXT;
+
+-- Backfill from the archived SuiEvents
+UPDATE "raw_events" SET "packageId" = "rawEvent"->>'packageId';
+ALTER TABLE "raw_events" ALTER COLUMN "packageId" SET NOT NULL;
+
+UPDATE "storage_listed_events" h SET "packageId" = r."packageId"
+FROM "raw_events" r
+WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq";
+
+UPDATE "storage_purchased_events" h SET "packageId" = r."packageId"
+FROM "raw_events" r
+WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq";
+
+UPDATE "storage_delisted_events" h SET "packageId" = r."packageId"
+FROM "raw_events" r
+WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq";
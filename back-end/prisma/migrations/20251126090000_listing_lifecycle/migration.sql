@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "listed_storage" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE "listed_storage" ADD COLUMN "closedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "listed_storage_status_idx" ON "listed_storage"("status");
+
+-- CreateIndex
+CREATE INDEX "listed_storage_seller_status_idx" ON "listed_storage"("seller", "status");
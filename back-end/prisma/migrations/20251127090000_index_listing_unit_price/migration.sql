@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "listed_storage_pricePerSizePerEpoch_idx" ON "listed_storage"("pricePerSizePerEpoch");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "storage_purchased_events_buyer_blockTime_idx" ON "storage_purchased_events"("buyer", "blockTime");
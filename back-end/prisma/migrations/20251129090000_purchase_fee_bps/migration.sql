@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "storage_purchased_events" ADD COLUMN "feeBps" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "storage_purchased_events_seller_blockTime_idx" ON "storage_purchased_events"("seller", "blockTime");
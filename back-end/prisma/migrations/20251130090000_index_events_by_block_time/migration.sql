@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "storage_listed_events_blockTime_idx" ON "storage_listed_events"("blockTime");
+
+-- CreateIndex
+CREATE INDEX "storage_purchased_events_blockTime_idx" ON "storage_purchased_events"("blockTime");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "storage_lineage" (
+    "id" TEXT NOT NULL,
+    "parentStorageId" TEXT NOT NULL,
+    "childStorageId" TEXT,
+    "kind" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "startEpoch" INTEGER NOT NULL,
+    "endEpoch" INTEGER NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "blockTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "storage_lineage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "storage_lineage_parentStorageId_idx" ON "storage_lineage"("parentStorageId");
+
+-- CreateIndex
+CREATE INDEX "storage_lineage_childStorageId_idx" ON "storage_lineage"("childStorageId");
+
+-- CreateIndex
+CREATE INDEX "storage_lineage_txDigest_idx" ON "storage_lineage"("txDigest");
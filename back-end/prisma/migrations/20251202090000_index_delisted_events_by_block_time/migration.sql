@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "storage_delisted_events_blockTime_idx" ON "storage_delisted_events"("blockTime");
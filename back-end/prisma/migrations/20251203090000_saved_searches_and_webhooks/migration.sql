@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT,
+    "name" TEXT,
+    "minSize" BIGINT,
+    "maxSize" BIGINT,
+    "coverStartEpoch" INTEGER,
+    "coverEndEpoch" INTEGER,
+    "maxPricePerMibPerEpoch" BIGINT,
+    "webhookUrl" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "savedSearchId" TEXT NOT NULL,
+    "storageId" TEXT NOT NULL,
+    "txDigest" TEXT NOT NULL,
+    "eventSeq" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastStatusCode" INTEGER,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_owner_idx" ON "saved_searches"("owner");
+
+-- CreateIndex
+CREATE INDEX "saved_searches_active_idx" ON "saved_searches"("active");
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_status_nextAttemptAt_idx" ON "webhook_deliveries"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_savedSearchId_createdAt_idx" ON "webhook_deliveries"("savedSearchId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_deliveries_savedSearchId_txDigest_eventSeq_key" ON "webhook_deliveries"("savedSearchId", "txDigest", "eventSeq");
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
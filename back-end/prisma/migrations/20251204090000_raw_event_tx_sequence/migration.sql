@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "raw_events" ADD COLUMN "txSequence" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "raw_events_txSequence_idx" ON "raw_events"("txSequence");
@@ -5,6 +5,7 @@ import { AppService } from './app.service';
 import { SuiIndexerModule } from './sui-indexer/sui-indexer.module';
 import { WalrusModule } from './walrus/walrus.module';
 import { StorageOptimizerModule } from './storage-optimizer/storage-optimizer.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { StorageOptimizerModule } from './storage-optimizer/storage-optimizer.mo
       isGlobal: true,
       envFilePath: '.env',
     }),
+    MetricsModule,
     // Conditionally import SuiIndexerModule based on environment variable
     ...(process.env.SUI_INDEXER_ENABLED === 'true' ? [SuiIndexerModule] : []),
     WalrusModule,
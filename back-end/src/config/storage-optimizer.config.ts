@@ -0,0 +1,15 @@
+import { registerAs } from '@nestjs/config';
+import { DEFAULT_OPERATION_COST } from '../storage-optimizer/optimizer/walrus-storage-optimizer';
+
+export interface StorageOptimizerConfig {
+  operationCost: bigint; // Gas estimate per PTB command, in FROST
+}
+
+export default registerAs(
+  'storageOptimizer',
+  (): StorageOptimizerConfig => ({
+    operationCost: process.env.OPTIMIZER_OPERATION_COST
+      ? BigInt(process.env.OPTIMIZER_OPERATION_COST)
+      : DEFAULT_OPERATION_COST,
+  }),
+);
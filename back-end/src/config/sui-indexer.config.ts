@@ -3,12 +3,14 @@ import { registerAs } from '@nestjs/config';
 export interface SuiIndexerConfig {
   enabled: boolean;
   network: 'mainnet' | 'testnet' | 'devnet';
-  packageId: string;
+  packageIds: string[]; // Original package first, then each upgrade in order
+  marketplaceId: string; // Shared Marketplace object, for reconciliation and sale fees
   pollingIntervalMs: number;
   rpcUrl?: string;
   batchSize: number;
   maxRetries: number;
   retryDelayMs: number;
+  reconcileAutoRepair: boolean;
 }
 
 export default registerAs('suiIndexer', (): SuiIndexerConfig => {
@@ -26,7 +28,15 @@ export default registerAs('suiIndexer', (): SuiIndexerConfig => {
   return {
     enabled: process.env.SUI_INDEXER_ENABLED === 'true',
     network,
-    packageId: process.env.SUI_PACKAGE_ID || '',
+    packageIds: (
+      process.env.SUI_PACKAGE_IDS ||
+      process.env.SUI_PACKAGE_ID ||
+      ''
+    )
+      .split(',')
+      .map((packageId) => packageId.trim())
+      .filter(Boolean),
+    marketplaceId: process.env.SUI_MARKETPLACE_ID || '',
     pollingIntervalMs: parseInt(
       process.env.SUI_INDEXER_POLLING_INTERVAL_MS || '5000',
       10,
@@ -38,5 +48,6 @@ export default registerAs('suiIndexer', (): SuiIndexerConfig => {
       process.env.SUI_INDEXER_RETRY_DELAY_MS || '1000',
       10,
     ),
+    reconcileAutoRepair: process.env.SUI_RECONCILE_AUTO_REPAIR === 'true',
   };
 });
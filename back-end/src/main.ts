@@ -24,6 +24,9 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Run onModuleDestroy on SIGTERM so indexer leases are handed over at once
+  app.enableShutdownHooks();
+
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
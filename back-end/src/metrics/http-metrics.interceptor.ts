@@ -0,0 +1,49 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Records the latency of every HTTP request
+ *
+ * The timer stops when the response has been sent, so the status code
+ * includes @HttpCode overrides and errors mapped by exception filters.
+ *
+ * Requests are labelled with the route pattern (e.g.
+ * /indexer/listings/:storageId), not the URL, to keep label cardinality
+ * bounded.
+ */
+@Injectable()
+export class HttpMetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const stopTimer = this.metricsService.httpRequestDuration.startTimer({
+      method: request.method,
+      route: this.getRoute(request),
+    });
+
+    response.once('finish', () => {
+      stopTimer({ status_code: response.statusCode });
+    });
+
+    return next.handle();
+  }
+
+  private getRoute(request: Request): string {
+    const route = request.route as { path?: string } | undefined;
+    return route?.path ? `${request.baseUrl}${route.path}` : 'unmatched';
+  }
+}
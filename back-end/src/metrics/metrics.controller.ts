@@ -0,0 +1,31 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * Prometheus scrape endpoint
+   */
+  @Get()
+  async getMetrics(@Res({ passthrough: true }) res: Response) {
+    try {
+      const metrics = await this.metricsService.getMetrics();
+      res.setHeader('Content-Type', this.metricsService.getContentType());
+      return metrics;
+    } catch {
+      throw new HttpException(
+        'Failed to collect metrics',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
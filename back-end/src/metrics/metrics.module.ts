@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { MetricsService } from './metrics.service';
+import { MetricsController } from './metrics.controller';
+import { HttpMetricsInterceptor } from './http-metrics.interceptor';
+
+@Global()
+@Module({
+  providers: [
+    MetricsService,
+    { provide: APP_INTERCEPTOR, useClass: HttpMetricsInterceptor },
+  ],
+  controllers: [MetricsController],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+
+const METRIC_PREFIX = 'marketplace_';
+
+/**
+ * Refreshes gauges that are sampled at scrape time
+ */
+export type MetricsCollector = () => Promise<void> | void;
+
+/**
+ * Prometheus metrics registry shared by all modules
+ *
+ * Counters and histograms are updated where the work happens. Gauges that
+ * describe current state (indexer lag, WebSocket clients) are refreshed by
+ * collectors right before each scrape.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly registry = new Registry();
+  private readonly collectors: MetricsCollector[] = [];
+
+  // Indexer
+  readonly eventsProcessed = new Counter({
+    name: `${METRIC_PREFIX}indexer_events_processed_total`,
+    help: 'Marketplace events applied to the database, by event type',
+    labelNames: ['event_type'],
+    registers: [this.registry],
+  });
+
+  readonly handlerFailures = new Counter({
+    name: `${METRIC_PREFIX}indexer_handler_failures_total`,
+    help: 'Event handler errors, by event type (each retry counts)',
+    labelNames: ['event_type'],
+    registers: [this.registry],
+  });
+
+  readonly eventsDeadLettered = new Counter({
+    name: `${METRIC_PREFIX}indexer_events_dead_lettered_total`,
+    help: 'Events moved to the dead-letter queue after exhausting retries',
+    labelNames: ['event_type'],
+    registers: [this.registry],
+  });
+
+  readonly pollDuration = new Histogram({
+    name: `${METRIC_PREFIX}indexer_poll_duration_seconds`,
+    help: 'Duration of one indexer poll (fetch and apply a batch)',
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  readonly indexerLag = new Gauge({
+    name: `${METRIC_PREFIX}indexer_lag_seconds`,
+    help: 'Time between the latest on-chain marketplace event and the latest indexed one',
+    registers: [this.registry],
+  });
+
+  // Optimizer & Walrus
+  readonly optimizerDuration = new Histogram({
+    name: `${METRIC_PREFIX}optimizer_duration_seconds`,
+    help: 'Duration of storage optimization requests',
+    labelNames: ['mode', 'outcome'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  readonly walrusStorageCostDuration = new Histogram({
+    name: `${METRIC_PREFIX}walrus_storage_cost_duration_seconds`,
+    help: 'Duration of WalrusService.storageCost calls',
+    labelNames: ['outcome'],
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+
+  // HTTP API
+  readonly httpRequestDuration = new Histogram({
+    name: `${METRIC_PREFIX}http_request_duration_seconds`,
+    help: 'HTTP request latency, by route',
+    labelNames: ['method', 'route', 'status_code'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  // WebSocket gateway
+  readonly websocketClients = new Gauge({
+    name: `${METRIC_PREFIX}websocket_clients`,
+    help: 'Connected /marketplace-events WebSocket clients',
+    registers: [this.registry],
+  });
+
+  readonly websocketSubscriptions = new Gauge({
+    name: `${METRIC_PREFIX}websocket_subscriptions`,
+    help: 'WebSocket clients subscribed to each event type',
+    labelNames: ['event_type'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: METRIC_PREFIX });
+  }
+
+  /**
+   * Register a collector to run before each scrape
+   */
+  addCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Content type of the exposition format
+   */
+  getContentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Run the collectors and render all metrics in the Prometheus text format
+   *
+   * A failing collector leaves its gauges at their previous values rather
+   * than failing the scrape.
+   */
+  async getMetrics(): Promise<string> {
+    await Promise.all(
+      this.collectors.map(async (collector) => {
+        try {
+          await collector();
+        } catch (error) {
+          this.logger.warn('Metrics collector failed:', error);
+        }
+      }),
+    );
+
+    return this.registry.metrics();
+  }
+}
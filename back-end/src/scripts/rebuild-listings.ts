@@ -0,0 +1,54 @@
+import { NestFactory } from '@nestjs/core';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ProcessingLockService } from '../sui-indexer/services/processing-lock.service';
+import { EventArchiveService } from '../sui-indexer/services/event-archive.service';
+import { ProjectionRebuildService } from '../sui-indexer/services/projection-rebuild.service';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    ScheduleModule.forRoot(), // Keeps the marketplace lock lease renewed
+    PrismaModule,
+  ],
+  providers: [
+    ProcessingLockService,
+    EventArchiveService,
+    ProjectionRebuildService,
+  ],
+})
+class RebuildModule {}
+
+async function rebuildListings() {
+  console.log('🔨 Rebuilding listed_storage from the raw event archive...\n');
+
+  const app = await NestFactory.createApplicationContext(RebuildModule, {
+    logger: ['error', 'warn'],
+  });
+
+  const rebuild = app.get(ProjectionRebuildService);
+
+  try {
+    const result = await rebuild.rebuildListedStorage();
+
+    console.log(`📊 Replayed ${result.eventsReplayed} archived events`);
+    if (result.eventsSkipped > 0) {
+      console.log(`⏭️  Skipped ${result.eventsSkipped} dead-lettered events`);
+    }
+    console.log(`✅ ${result.listings} listings in listed_storage`);
+    console.log(`🌳 ${result.splits} split pieces in storage_lineage\n`);
+    console.log(`✨ Rebuild completed in ${result.durationMs}ms!\n`);
+  } catch (error) {
+    console.error('❌ Rebuild failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+void rebuildListings();
@@ -0,0 +1,56 @@
+import { createServer } from 'http';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  verifyWebhookSignature,
+} from '../sui-indexer/services/webhook-delivery.service';
+
+/**
+ * Local webhook receiver for saved search alerts
+ *
+ * Prints each request and checks its signature against WEBHOOK_SECRET (the
+ * secret returned when the saved search was created). Answers 200, 401 for
+ * bad signatures, or WEBHOOK_RESPONSE_STATUS to exercise retries.
+ *
+ *   WEBHOOK_SECRET=<secret> npm run webhook:receiver
+ */
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4000', 10);
+const secret = process.env.WEBHOOK_SECRET;
+const responseStatus = parseInt(
+  process.env.WEBHOOK_RESPONSE_STATUS || '200',
+  10,
+);
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+  req.on('end', () => {
+    const signature = req.headers[SIGNATURE_HEADER] as string | undefined;
+    const verified = secret
+      ? verifyWebhookSignature(secret, signature, body)
+      : null;
+
+    console.log(
+      `📨 ${req.method} ${req.url} - ${String(req.headers[EVENT_HEADER])} ${String(req.headers[DELIVERY_HEADER])}`,
+    );
+    console.log(
+      verified === null
+        ? '⚠️  Signature not checked (WEBHOOK_SECRET not set)'
+        : verified
+          ? '✅ Signature valid'
+          : '❌ Signature invalid',
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2), '\n');
+    } catch {
+      console.log(body, '\n');
+    }
+
+    res.writeHead(verified === false ? 401 : responseStatus).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`👂 Webhook receiver listening on http://localhost:${port}\n`);
+});
@@ -0,0 +1,14 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayNotEmpty, ValidateNested } from 'class-validator';
+import { OptimizeStorageDto } from './optimize-storage.dto';
+
+// Requests planned per batch - each runs the optimizer once
+export const MAX_BATCH_REQUESTS = 100;
+
+export class BatchOptimizeStorageDto {
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_REQUESTS)
+  @ValidateNested({ each: true })
+  @Type(() => OptimizeStorageDto)
+  requests: OptimizeStorageDto[];
+}
@@ -0,0 +1,35 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export type MaximizeDimension = 'size' | 'duration';
+
+export class MaximizeStorageDto {
+  @IsString()
+  @IsNotEmpty()
+  budget: string; // bigint as string (in FROST)
+
+  @IsIn(['size', 'duration'])
+  maximize: MaximizeDimension;
+
+  // Fixed when maximizing duration
+  @ValidateIf((dto: MaximizeStorageDto) => dto.maximize === 'duration')
+  @IsString()
+  @IsNotEmpty()
+  size?: string; // bigint as string (in bytes)
+
+  @IsNumber()
+  @Min(0)
+  startEpoch: number;
+
+  // Fixed when maximizing size
+  @ValidateIf((dto: MaximizeStorageDto) => dto.maximize === 'size')
+  @IsNumber()
+  @Min(0)
+  endEpoch?: number;
+}
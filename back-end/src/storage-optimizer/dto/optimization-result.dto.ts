@@ -1,3 +1,9 @@
+import {
+  PurchaseType,
+  SolverType,
+} from '../optimizer/walrus-storage-optimizer';
+import { MaximizeDimension } from './maximize-storage.dto';
+
 export class StorageOperationDto {
   type: string;
   description: string;
@@ -17,6 +23,7 @@ export class AllocationDto {
   usedSize: string; // bigint as string
   usedStartEpoch: number;
   usedEndEpoch: number;
+  purchaseType: PurchaseType;
   cost: string; // bigint as string
   sellerPayment: string; // bigint as string
   seller?: string;
@@ -24,6 +31,8 @@ export class AllocationDto {
 
 export class NewReservationDto {
   size: string; // bigint as string
+  startEpoch: number;
+  endEpoch: number;
   epochs: number;
   cost: string; // bigint as string
 }
@@ -35,7 +44,7 @@ export class ExecutionFlowDto {
   storageRef?: string; // Variable name like "storage_0", "storage_1"
   paymentIndex?: number; // Index into paymentAmounts array (for buy/reserve operations)
   sellerAddress?: string; // For marketplace purchases
-  inputStorageFromOperation?: number; // For split operations - which operation produced the input
+  inputStorageFromOperation?: number; // For split operations - which operation produced the input (modified in-place, the split produces the other part)
   fuseTargets?: {
     first: number; // Operation index producing first storage (modified in-place)
     second: number; // Operation index producing second storage (consumed)
@@ -52,6 +61,30 @@ export class OptimizationResultDto {
   totalCost: string; // bigint as string (in FROST, smallest unit)
   systemOnlyPrice: string; // bigint as string - price if using all system storage
   allocations: AllocationDto[];
-  needsNewReservation?: NewReservationDto;
+  reservations: NewReservationDto[]; // System storage for the epochs listings don't fill
+  needsNewReservation?: NewReservationDto; // First of reservations, for older clients
+  solver: SolverType; // exact if no cheaper plan exists
   ptbMetadata: PTBMetadataDto; // Metadata for constructing Programmable Transaction Blocks
 }
+
+export class MaximizeResultDto extends OptimizationResultDto {
+  budget: string; // bigint as string (in FROST)
+  maximize: MaximizeDimension;
+  size: string; // bigint as string - size the plan stores
+  startEpoch: number;
+  endEpoch: number; // Exclusive - end of the epochs the plan stores
+}
+
+export class BatchTransactionDto {
+  requests: number[]; // Indexes of the requests whose operations it runs
+  operations: StorageOperationDto[];
+  totalCost: string; // bigint as string (in FROST)
+  ptbMetadata: PTBMetadataDto;
+}
+
+export class BatchOptimizationResultDto {
+  results: OptimizationResultDto[]; // Per request, in request order
+  totalCost: string; // bigint as string (in FROST)
+  systemOnlyPrice: string; // bigint as string - sum of the requests' system-only prices
+  transactions: BatchTransactionDto[]; // PTBs to execute, in order
+}
@@ -0,0 +1,419 @@
+import type {
+  AllocationPlan,
+  PurchaseType,
+  StorageAllocation,
+  StorageObject,
+  StorageRequest,
+} from './walrus-storage-optimizer';
+import {
+  assemblyCommands,
+  calculateProRatedPrice,
+  PlanPiece,
+  planReservations,
+  PRECISION_SCALE,
+  purchaseCommands,
+  RESERVATION_COMMANDS,
+  StorageCostFn,
+} from './pricing';
+
+// Epoch segment of the request, between consecutive listing boundaries
+interface Segment {
+  startEpoch: number;
+  endEpoch: number;
+}
+
+// One way to buy a candidate: usedSize bytes over segments [first, last)
+interface Purchase {
+  candidate: number;
+  purchaseType: PurchaseType;
+  usedSize: bigint;
+  first: number;
+  last: number;
+  cost: bigint;
+  commands: number; // PTB commands buying it and splitting off the excess
+}
+
+export interface ExactSearchResult {
+  plan: AllocationPlan | null; // Plan cheaper than the upper bound, if any
+  complete: boolean; // false if the time budget ran out
+  nodes: number; // Search nodes visited
+}
+
+/**
+ * BRANCH-AND-BOUND SOLVER
+ *
+ * Minimises the real total of a plan - what the contract charges for each
+ * purchase, epochs outside the request included, plus what Walrus charges
+ * for each reservation, rounded up to storage units - plus operationCost
+ * for each PTB command the plan takes (see assemblyCommands).
+ *
+ * Candidates are decided one by one, cheapest first: skip, buy by size
+ * (filling a segment's remaining need, or the whole listing) or buy by
+ * epochs (the whole listing over stretches of segments still needing
+ * storage). What candidates leave unfilled is reserved from the system.
+ * Pieces may cover more than a segment needs; the excess is split off.
+ *
+ * A branch is cut when its cost so far plus a lower bound on filling the
+ * rest can't beat the best plan: remaining listings charge at least the
+ * next candidate's price, the system at least half its price per byte for
+ * the whole request (Walrus prices are monotone and subadditive in size),
+ * and filling them takes at least one more command (and a fuse).
+ */
+export class BranchAndBoundSolver {
+  private readonly segments: Segment[];
+  private readonly ranges: { first: number; last: number }[]; // Segments each candidate overlaps
+  private systemRate = 0n; // Lower bound, per byte per epoch, scaled by PRECISION_SCALE
+  private deadline = 0;
+  private timedOut = false;
+  private nodes = 0;
+  private bestCost = 0n;
+  private best: Purchase[] | null = null;
+
+  constructor(
+    private readonly request: StorageRequest,
+    private readonly candidates: StorageObject[],
+    private readonly storageCostFn: StorageCostFn,
+    private readonly operationCost: bigint,
+  ) {
+    const boundaries = new Set([request.startEpoch, request.endEpoch]);
+    for (const candidate of candidates) {
+      for (const epoch of [candidate.startEpoch, candidate.endEpoch]) {
+        if (epoch > request.startEpoch && epoch < request.endEpoch) {
+          boundaries.add(epoch);
+        }
+      }
+    }
+    const epochs = [...boundaries].sort((a, b) => a - b);
+    this.segments = epochs
+      .slice(0, -1)
+      .map((startEpoch, i) => ({ startEpoch, endEpoch: epochs[i + 1] }));
+
+    this.ranges = candidates.map((candidate) => {
+      const first = this.segments.findIndex(
+        (s) =>
+          s.startEpoch === Math.max(candidate.startEpoch, request.startEpoch),
+      );
+      const last =
+        this.segments.findIndex(
+          (s) => s.endEpoch === Math.min(candidate.endEpoch, request.endEpoch),
+        ) + 1;
+      return first === -1 || last <= first
+        ? { first: 0, last: 0 }
+        : { first, last };
+    });
+  }
+
+  /**
+   * Search for a plan whose objective is below upperBound
+   */
+  async solve(
+    upperBound: bigint,
+    timeBudgetMs: number,
+  ): Promise<ExactSearchResult> {
+    this.deadline = Date.now() + timeBudgetMs;
+    this.bestCost = upperBound;
+
+    // For any size up to the request's, the system charges at least half
+    // its price per byte for the whole request
+    const { storageCost } = await this.storageCostFn(
+      Number(this.request.size),
+      1,
+    );
+    this.systemRate =
+      (storageCost * PRECISION_SCALE) / (2n * this.request.size);
+
+    await this.search(
+      0,
+      this.segments.map(() => this.request.size),
+      0n,
+      [],
+    );
+
+    return {
+      plan: this.best ? await this.toPlan(this.best) : null,
+      complete: !this.timedOut,
+      nodes: this.nodes,
+    };
+  }
+
+  private async search(
+    index: number,
+    deficits: bigint[],
+    cost: bigint,
+    purchases: Purchase[],
+  ): Promise<void> {
+    if (this.timedOut || Date.now() > this.deadline) {
+      this.timedOut = true;
+      return;
+    }
+    this.nodes++;
+
+    if (
+      cost + this.lowerBound(index, deficits, purchases.length) >=
+      this.bestCost
+    ) {
+      return;
+    }
+
+    // Leaf: reserve what's left, and count the commands assembling the
+    // pieces takes
+    if (
+      index === this.candidates.length ||
+      deficits.every((deficit) => deficit === 0n)
+    ) {
+      const pieces = [
+        ...purchases.map((purchase) => ({
+          startEpoch: this.segments[purchase.first].startEpoch,
+          endEpoch: this.segments[purchase.last - 1].endEpoch,
+          size: purchase.usedSize,
+          commands: purchase.commands,
+        })),
+        ...this.reservationPieces(deficits),
+      ];
+      const total =
+        purchases.reduce((sum, purchase) => sum + purchase.cost, 0n) +
+        (await this.reservationCost(deficits)) +
+        this.operationCost *
+          BigInt(assemblyCommands(pieces, this.request.size));
+      if (total < this.bestCost) {
+        this.bestCost = total;
+        this.best = [...purchases];
+      }
+      return;
+    }
+
+    for (const purchase of this.purchaseOptions(index, deficits)) {
+      // At least a fuse for each piece after the first
+      const commands = purchase.commands + (purchases.length > 0 ? 1 : 0);
+      purchases.push(purchase);
+      await this.search(
+        index + 1,
+        this.fill(deficits, purchase),
+        cost + purchase.cost + this.operationCost * BigInt(commands),
+        purchases,
+      );
+      purchases.pop();
+    }
+    await this.search(index + 1, deficits, cost, purchases);
+  }
+
+  /**
+   * Least the remaining segments can cost: remaining candidates charge at
+   * least the next one's price (cheapest first), rounded down by less than
+   * 1 FROST each, and one more piece - fused into the others, if any - is
+   * at least one more command
+   */
+  private lowerBound(
+    index: number,
+    deficits: bigint[],
+    pieces: number,
+  ): bigint {
+    let byteEpochs = 0n;
+    deficits.forEach((deficit, s) => {
+      byteEpochs +=
+        deficit *
+        BigInt(this.segments[s].endEpoch - this.segments[s].startEpoch);
+    });
+
+    const remaining = this.candidates.length - index;
+    const listingRate =
+      remaining > 0 ? this.candidates[index].pricePerSizePerEpoch : undefined;
+    const rate =
+      listingRate !== undefined && listingRate < this.systemRate
+        ? listingRate
+        : this.systemRate;
+
+    const commands = byteEpochs > 0n ? 1 + (pieces > 0 ? 1 : 0) : 0;
+
+    return (
+      (byteEpochs * rate) / PRECISION_SCALE -
+      BigInt(remaining) +
+      this.operationCost * BigInt(commands)
+    );
+  }
+
+  /**
+   * Ways to buy a candidate that fill storage still needed
+   */
+  private purchaseOptions(index: number, deficits: bigint[]): Purchase[] {
+    const storage = this.candidates[index];
+    const { first, last } = this.ranges[index];
+
+    // Stretches of segments still needing storage within the listing
+    const stretches: { first: number; last: number }[] = [];
+    for (let s = first; s < last; s++) {
+      if (deficits[s] === 0n) {
+        continue;
+      }
+      const previous = stretches[stretches.length - 1];
+      if (previous && previous.last === s) {
+        previous.last = s + 1;
+      } else {
+        stretches.push({ first: s, last: s + 1 });
+      }
+    }
+    if (stretches.length === 0) {
+      return [];
+    }
+
+    const options: Purchase[] = [];
+    const size =
+      storage.storageSize < this.request.size
+        ? storage.storageSize
+        : this.request.size;
+
+    // By epochs: the listing's whole size from the start of one stretch to
+    // the end of another, longest first
+    for (let i = 0; i < stretches.length; i++) {
+      for (let j = stretches.length - 1; j >= i; j--) {
+        const startEpoch = this.segments[stretches[i].first].startEpoch;
+        const endEpoch = this.segments[stretches[j].last - 1].endEpoch;
+        const whole =
+          startEpoch === storage.startEpoch && endEpoch === storage.endEpoch;
+        options.push({
+          candidate: index,
+          purchaseType: whole ? 'full' : 'partial_epoch',
+          usedSize: size,
+          first: stretches[i].first,
+          last: stretches[j].last,
+          cost: calculateProRatedPrice(
+            storage,
+            storage.storageSize,
+            startEpoch,
+            endEpoch,
+          ),
+          commands: purchaseCommands(
+            storage,
+            whole ? 'full' : 'partial_epoch',
+            size,
+            startEpoch,
+            endEpoch,
+          ),
+        });
+      }
+    }
+
+    // By size: pays for the listing's whole epochs and fills its overlap -
+    // enough to fill one of the segments, largest first
+    const sizes = new Set<bigint>();
+    for (let s = first; s < last; s++) {
+      if (deficits[s] > 0n) {
+        sizes.add(
+          deficits[s] < storage.storageSize ? deficits[s] : storage.storageSize,
+        );
+      }
+    }
+    for (const usedSize of [...sizes].sort((a, b) => (a > b ? -1 : 1))) {
+      const full = usedSize === storage.storageSize;
+      if (full && options.some((o) => o.purchaseType === 'full')) {
+        continue;
+      }
+      const purchaseType = full ? 'full' : 'partial_size';
+      options.push({
+        candidate: index,
+        purchaseType,
+        usedSize,
+        first,
+        last,
+        cost: calculateProRatedPrice(
+          storage,
+          usedSize,
+          storage.startEpoch,
+          storage.endEpoch,
+        ),
+        commands: purchaseCommands(
+          storage,
+          purchaseType,
+          usedSize,
+          this.segments[first].startEpoch,
+          this.segments[last - 1].endEpoch,
+        ),
+      });
+    }
+
+    return options;
+  }
+
+  private fill(deficits: bigint[], purchase: Purchase): bigint[] {
+    return deficits.map((deficit, s) =>
+      s < purchase.first || s >= purchase.last
+        ? deficit
+        : deficit > purchase.usedSize
+          ? deficit - purchase.usedSize
+          : 0n,
+    );
+  }
+
+  /**
+   * Reservations the remaining deficits take - one per run of adjacent
+   * segments needing the same size, as planReservations makes them
+   */
+  private reservationPieces(deficits: bigint[]): PlanPiece[] {
+    const pieces: PlanPiece[] = [];
+    deficits.forEach((deficit, s) => {
+      if (deficit === 0n) {
+        return;
+      }
+      const previous = pieces[pieces.length - 1];
+      if (previous && deficits[s - 1] === deficit) {
+        previous.endEpoch = this.segments[s].endEpoch;
+      } else {
+        pieces.push({
+          ...this.segments[s],
+          size: deficit,
+          commands: RESERVATION_COMMANDS,
+        });
+      }
+    });
+    return pieces;
+  }
+
+  /**
+   * System price of the remaining deficits - Walrus charges per epoch, so
+   * each segment is priced for one epoch
+   */
+  private async reservationCost(deficits: bigint[]): Promise<bigint> {
+    let total = 0n;
+    for (let s = 0; s < deficits.length; s++) {
+      if (deficits[s] === 0n) {
+        continue;
+      }
+      const { storageCost } = await this.storageCostFn(Number(deficits[s]), 1);
+      total +=
+        storageCost *
+        BigInt(this.segments[s].endEpoch - this.segments[s].startEpoch);
+    }
+    return total;
+  }
+
+  private async toPlan(purchases: Purchase[]): Promise<AllocationPlan> {
+    let deficits = this.segments.map(() => this.request.size);
+    const allocations: StorageAllocation[] = purchases.map((purchase) => {
+      const storage = this.candidates[purchase.candidate];
+      deficits = this.fill(deficits, purchase);
+      return {
+        storageObject: storage,
+        usedSize: purchase.usedSize,
+        usedStartEpoch: this.segments[purchase.first].startEpoch,
+        usedEndEpoch: this.segments[purchase.last - 1].endEpoch,
+        purchaseType: purchase.purchaseType,
+        cost: purchase.cost,
+        sellerPayment: purchase.cost,
+        seller: storage.owner,
+      };
+    });
+
+    const reservations = await planReservations(
+      this.segments.map((segment, s) => ({ ...segment, need: deficits[s] })),
+      this.storageCostFn,
+    );
+
+    return {
+      allocations,
+      totalCost:
+        allocations.reduce((sum, a) => sum + a.cost, 0n) +
+        reservations.reduce((sum, r) => sum + r.cost, 0n),
+      reservations,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import type {
+  AllocationPlan,
+  NewReservation,
+  PurchaseType,
+  StorageObject,
+} from './walrus-storage-optimizer';
+
+// Contract's PRECISION_SCALE for pricePerSizePerEpoch
+export const PRECISION_SCALE = 1_000_000_000n;
+
+// PTB commands per reservation: reserve_space_for_epochs, then returning
+// its payment coin
+export const RESERVATION_COMMANDS = 2;
+
+export type StorageCostFn = (
+  size: number,
+  epochs: number,
+) => Promise<{ storageCost: bigint }>;
+
+// Storage piece a plan assembles: the epochs and size it fills, and the
+// PTB commands that produce it
+export interface PlanPiece {
+  startEpoch: number;
+  endEpoch: number;
+  size: bigint;
+  commands: number;
+}
+
+// Storage still needed over an epoch segment of the request
+export interface NeedSegment {
+  startEpoch: number;
+  endEpoch: number;
+  need: bigint;
+}
+
+export function calculateProRatedPrice(
+  storage: StorageObject,
+  usedSize: bigint,
+  usedStartEpoch: number,
+  usedEndEpoch: number,
+): bigint {
+  // CRITICAL: Must match contract's calculation exactly
+  // Contract uses: (price_per_size_per_epoch * size * duration) / PRECISION_SCALE
+  // where PRECISION_SCALE = 1_000_000_000 (1e9)
+  const usedEpochs = BigInt(usedEndEpoch - usedStartEpoch);
+
+  // Use pricePerSizePerEpoch directly from storage object (already scaled)
+  // Formula: (pricePerSizePerEpoch * usedSize * usedEpochs) / PRECISION_SCALE
+  const result =
+    (storage.pricePerSizePerEpoch * usedSize * usedEpochs) / PRECISION_SCALE;
+
+  return result;
+}
+
+/**
+ * Cache system storage prices - the optimizer asks for the same size and
+ * epochs many times, and each price is a Walrus RPC
+ */
+export function memoizeStorageCost(
+  storageCostFn: StorageCostFn,
+): StorageCostFn {
+  const cache = new Map<string, Promise<{ storageCost: bigint }>>();
+  return (size, epochs) => {
+    const key = `${size}:${epochs}`;
+    let cost = cache.get(key);
+    if (!cost) {
+      cost = storageCostFn(size, epochs);
+      cache.set(key, cost);
+    }
+    return cost;
+  };
+}
+
+/**
+ * Reserve the segments still needing storage from the system, one
+ * reservation per run of adjacent segments needing the same size
+ *
+ * Walrus charges per epoch and per storage unit (rounded up), so reserving
+ * each segment at its own size never costs more than merging segments of
+ * different sizes into larger reservations.
+ */
+export async function planReservations(
+  segments: NeedSegment[],
+  storageCostFn: StorageCostFn,
+): Promise<NewReservation[]> {
+  const reservations: NewReservation[] = [];
+  for (const segment of segments) {
+    if (segment.need === 0n) {
+      continue;
+    }
+    const previous = reservations[reservations.length - 1];
+    if (
+      previous &&
+      previous.endEpoch === segment.startEpoch &&
+      previous.size === segment.need
+    ) {
+      previous.endEpoch = segment.endEpoch;
+      previous.epochs = previous.endEpoch - previous.startEpoch;
+    } else {
+      reservations.push({
+        size: segment.need,
+        startEpoch: segment.startEpoch,
+        endEpoch: segment.endEpoch,
+        epochs: segment.endEpoch - segment.startEpoch,
+        cost: 0n,
+      });
+    }
+  }
+
+  for (const reservation of reservations) {
+    const reserveCost = await storageCostFn(
+      Number(reservation.size),
+      reservation.epochs,
+    );
+    reservation.cost = reserveCost.storageCost;
+  }
+  return reservations;
+}
+
+/**
+ * PTB commands a purchase takes: the buy, then a split for each of the
+ * size, leading epochs and trailing epochs it pays for but doesn't use
+ */
+export function purchaseCommands(
+  storage: StorageObject,
+  purchaseType: PurchaseType,
+  usedSize: bigint,
+  usedStartEpoch: number,
+  usedEndEpoch: number,
+): number {
+  const bySize = purchaseType !== 'partial_epoch';
+  const pieceSize =
+    purchaseType === 'partial_size' ? usedSize : storage.storageSize;
+  const pieceStart = bySize ? storage.startEpoch : usedStartEpoch;
+  const pieceEnd = bySize ? storage.endEpoch : usedEndEpoch;
+  return (
+    1 +
+    (pieceSize > usedSize ? 1 : 0) +
+    (pieceStart < usedStartEpoch ? 1 : 0) +
+    (pieceEnd > usedEndEpoch ? 1 : 0)
+  );
+}
+
+/**
+ * PTB commands it takes to assemble pieces into one Storage object of the
+ * given size - the pieces' own commands, then as
+ * StorageOptimizerService.generateStorageOperations wires them: splits at
+ * segment boundaries, a split for each piece covering more than its
+ * segment still needs, a fuse for each piece after the first of a segment,
+ * and a fuse for each segment after the first
+ */
+export function assemblyCommands(pieces: PlanPiece[], size: bigint): number {
+  const boundaries = [
+    ...new Set(pieces.flatMap((p) => [p.startEpoch, p.endEpoch])),
+  ].sort((a, b) => a - b);
+  const missing = boundaries.slice(0, -1).map(() => size);
+
+  let commands = Math.max(missing.length - 1, 0);
+  for (const piece of pieces) {
+    commands += piece.commands;
+    for (let s = 0; s < missing.length; s++) {
+      if (
+        boundaries[s] < piece.startEpoch ||
+        boundaries[s + 1] > piece.endEpoch
+      ) {
+        continue;
+      }
+      if (boundaries[s] > piece.startEpoch) {
+        commands++; // Split at the segment boundary
+      }
+      if (missing[s] === 0n) {
+        continue; // Not needed - goes to the buyer
+      }
+      if (piece.size > missing[s]) {
+        commands++; // Split off the excess
+      }
+      if (missing[s] < size) {
+        commands++; // Fuse into the segment's first piece
+      }
+      missing[s] -= piece.size < missing[s] ? piece.size : missing[s];
+    }
+  }
+  return commands;
+}
+
+/**
+ * PTB commands a plan takes, in the order its operations are generated:
+ * purchases, then reservations
+ */
+export function planCommands(plan: AllocationPlan, size: bigint): number {
+  return assemblyCommands(
+    [
+      ...plan.allocations.map((a) => ({
+        startEpoch: a.usedStartEpoch,
+        endEpoch: a.usedEndEpoch,
+        size: a.usedSize,
+        commands: purchaseCommands(
+          a.storageObject,
+          a.purchaseType,
+          a.usedSize,
+          a.usedStartEpoch,
+          a.usedEndEpoch,
+        ),
+      })),
+      ...plan.reservations.map((r) => ({
+        startEpoch: r.startEpoch,
+        endEpoch: r.endEpoch,
+        size: r.size,
+        commands: RESERVATION_COMMANDS,
+      })),
+    ],
+    size,
+  );
+}
+
+/**
+ * What the optimizer minimises: the plan's total plus the gas estimate of
+ * its PTB commands
+ */
+export function planObjective(
+  plan: AllocationPlan,
+  size: bigint,
+  operationCost: bigint,
+): bigint {
+  return plan.totalCost + operationCost * BigInt(planCommands(plan, size));
+}
@@ -0,0 +1,148 @@
+import {
+  StorageObject,
+  WalrusStorageOptimizer,
+} from './walrus-storage-optimizer';
+
+const PRICE_SCALE = 1_000_000_000n;
+const MIB = 1_048_576n;
+
+const listing = (
+  id: string,
+  size: bigint,
+  startEpoch: number,
+  endEpoch: number,
+  pricePerByteEpoch: bigint,
+): StorageObject => ({
+  id,
+  startEpoch,
+  endEpoch,
+  storageSize: size,
+  price: pricePerByteEpoch * size * BigInt(endEpoch - startEpoch),
+  pricePerSizePerEpoch: pricePerByteEpoch * PRICE_SCALE,
+  owner: `0xseller-${id}`,
+});
+
+// System storage: 200 FROST per byte per epoch, rounded up to whole MiB
+const storageCost = (size: number, epochs: number) =>
+  Promise.resolve({
+    storageCost:
+      ((BigInt(size) + MIB - 1n) / MIB) * MIB * BigInt(epochs) * 200n,
+  });
+
+describe('WalrusStorageOptimizer', () => {
+  // A cheap listing in the middle of the request, then one covering it all
+  const middle = listing('middle', MIB, 5, 15, 10n);
+  const whole = listing('whole', MIB, 0, 20, 11n);
+  const request = { size: MIB, startEpoch: 0, endEpoch: 20 };
+
+  it('buys one listing rather than a cheaper one splitting the request', async () => {
+    const optimizer = new WalrusStorageOptimizer([middle, whole], storageCost);
+
+    const result = await optimizer.findOptimalAllocation(request);
+
+    // Greedy: middle (100), whole over 0-5 (55), reserve 15-20 (1000)
+    expect(result.solver).toBe('exact');
+    expect(result.allocations).toEqual([
+      expect.objectContaining({ storageObject: whole, purchaseType: 'full' }),
+    ]);
+    expect(result.reservations).toEqual([]);
+    expect(result.totalCost).toBe(220n * MIB);
+  });
+
+  it('counts the whole listing a purchase pays for', async () => {
+    const large = listing('large', 10n * MIB, 0, 100, 10n);
+    const exact = listing('exact', MIB, 40, 50, 20n);
+    const optimizer = new WalrusStorageOptimizer([large, exact], storageCost);
+
+    const result = await optimizer.findOptimalAllocation({
+      size: MIB,
+      startEpoch: 40,
+      endEpoch: 50,
+    });
+
+    // 1 MiB of the large listing pays for 10 MiB, or for 100 epochs
+    expect(result.allocations).toEqual([
+      expect.objectContaining({ storageObject: exact, purchaseType: 'full' }),
+    ]);
+    expect(result.totalCost).toBe(200n * MIB);
+  });
+
+  it('counts reservations in whole storage units', async () => {
+    const partial = listing('partial', (3n * MIB) / 2n, 0, 10, 100n);
+    const long = listing('long', 2n * MIB, 0, 100, 160n);
+    const optimizer = new WalrusStorageOptimizer([partial, long], storageCost);
+
+    const result = await optimizer.findOptimalAllocation({
+      size: 2n * MIB,
+      startEpoch: 0,
+      endEpoch: 10,
+    });
+
+    // Greedy: partial (1500), and the missing 0.5 MiB reserved as 1 MiB (2000)
+    expect(result.allocations).toEqual([
+      expect.objectContaining({
+        storageObject: long,
+        purchaseType: 'partial_epoch',
+        usedStartEpoch: 0,
+        usedEndEpoch: 10,
+      }),
+    ]);
+    expect(result.reservations).toEqual([]);
+    expect(result.totalCost).toBe(3200n * MIB);
+  });
+
+  it('weighs the gas of each PTB command against the price', async () => {
+    const first = listing('first', MIB, 0, 10, 10n);
+    const second = listing('second', MIB, 10, 20, 10n);
+    const single = listing('single', MIB, 0, 20, 11n);
+    const candidates = [first, second, single];
+
+    // Two purchases and a fuse_periods save 20 FROST per byte
+    const cheap = await new WalrusStorageOptimizer(
+      candidates,
+      storageCost,
+    ).findOptimalAllocation(request);
+    expect(cheap.allocations.map((a) => a.storageObject)).toEqual([
+      first,
+      second,
+    ]);
+    expect(cheap.totalCost).toBe(200n * MIB);
+
+    // ... unless two more commands cost more than that
+    const costly = await new WalrusStorageOptimizer(candidates, storageCost, {
+      operationCost: 20n * MIB,
+    }).findOptimalAllocation(request);
+    expect(costly.solver).toBe('exact');
+    expect(costly.allocations.map((a) => a.storageObject)).toEqual([single]);
+    expect(costly.totalCost).toBe(220n * MIB);
+  });
+
+  it('keeps the heuristic plan when the time budget runs out', async () => {
+    const optimizer = new WalrusStorageOptimizer([middle, whole], storageCost, {
+      timeBudgetMs: -1,
+    });
+
+    const result = await optimizer.findOptimalAllocation(request);
+
+    expect(result.solver).toBe('heuristic');
+    expect(result.allocations.map((a) => a.storageObject)).toEqual([
+      middle,
+      whole,
+    ]);
+    expect(result.reservations).toEqual([
+      expect.objectContaining({ size: MIB, startEpoch: 15, endEpoch: 20 }),
+    ]);
+    expect(result.totalCost).toBe(1155n * MIB);
+  });
+
+  it('is not exact when the order book has more candidates than the search', async () => {
+    const optimizer = new WalrusStorageOptimizer([middle, whole], storageCost, {
+      maxExactCandidates: 1,
+    });
+
+    const result = await optimizer.findOptimalAllocation(request);
+
+    expect(result.solver).toBe('heuristic');
+    expect(result.totalCost).toBe(1155n * MIB);
+  });
+});
@@ -1,3 +1,23 @@
+import { BranchAndBoundSolver } from './exact-solver';
+import {
+  calculateProRatedPrice,
+  memoizeStorageCost,
+  NeedSegment,
+  planObjective,
+  planReservations,
+  purchaseCommands,
+  RESERVATION_COMMANDS,
+  StorageCostFn,
+} from './pricing';
+
+// Exact search: cheapest candidates considered, and how long it may run
+// before the heuristic plan is kept
+export const EXACT_SOLVER_MAX_CANDIDATES = 40;
+export const EXACT_SOLVER_TIME_BUDGET_MS = 200;
+
+// Gas estimate per PTB command, in FROST, weighed against what a plan pays
+export const DEFAULT_OPERATION_COST = 1_000_000n;
+
 // Types and Interfaces
 export interface StorageObject {
   id: string;
@@ -9,211 +29,441 @@ export interface StorageObject {
   owner?: string; // seller address
 }
 
+// Listings to buy from, cheapest pricePerSizePerEpoch first
+export type StorageCandidates =
+  | Iterable<StorageObject>
+  | AsyncIterable<StorageObject>;
+
 export interface StorageRequest {
   size: bigint; // bytes needed
   startEpoch: number;
   endEpoch: number;
 }
 
+// How a listing is bought - the contract's purchase types:
+// - full: the whole listing
+// - partial_size: usedSize bytes for the listing's whole epoch range
+// - partial_epoch: the listing's whole size for usedStartEpoch-usedEndEpoch
+export type PurchaseType = 'full' | 'partial_size' | 'partial_epoch';
+
 export interface StorageAllocation {
   storageObject: StorageObject;
   usedSize: bigint;
-  usedStartEpoch: number;
+  usedStartEpoch: number; // Epochs of the request this piece fills
   usedEndEpoch: number;
+  purchaseType: PurchaseType;
   cost: bigint;
   sellerPayment: bigint; // pro-rated payment to the seller for the portion used
   seller?: string; // seller address (owner of the storage object)
 }
 
-export interface OptimizationResult {
+export interface NewReservation {
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+  epochs: number;
+  cost: bigint;
+}
+
+export interface AllocationPlan {
   allocations: StorageAllocation[];
   totalCost: bigint;
-  needsNewReservation?: {
-    size: bigint;
-    startEpoch: number;
-    endEpoch: number;
-    epochs: number;
-    cost: bigint;
-  };
+  reservations: NewReservation[]; // System storage for the epochs listings don't fill
+}
+
+// exact: no cheaper plan exists; heuristic: the search ran out of time, or
+// the order book has more candidates than it considers
+export type SolverType = 'exact' | 'heuristic';
+
+export interface OptimizationResult extends AllocationPlan {
+  solver: SolverType;
+}
+
+export interface OptimizerOptions {
+  maxExactCandidates: number;
+  timeBudgetMs: number;
+  operationCost: bigint; // FROST per PTB command
 }
 
 // Helper functions
-function calculateProRatedPrice(
-  storage: StorageObject,
-  usedSize: bigint,
-  usedStartEpoch: number,
-  usedEndEpoch: number,
-): bigint {
-  // CRITICAL: Must match contract's calculation exactly
-  // Contract uses: (price_per_size_per_epoch * size * duration) / PRECISION_SCALE
-  // where PRECISION_SCALE = 1_000_000_000 (1e9)
-  const PRECISION_SCALE = 1_000_000_000n;
-  const usedEpochs = BigInt(usedEndEpoch - usedStartEpoch);
-
-  // Use pricePerSizePerEpoch directly from storage object (already scaled)
-  // Formula: (pricePerSizePerEpoch * usedSize * usedEpochs) / PRECISION_SCALE
-  const result =
-    (storage.pricePerSizePerEpoch * usedSize * usedEpochs) / PRECISION_SCALE;
-
-  return result;
+
+/**
+ * Make sure a segment boundary exists at the given epoch
+ */
+function splitSegmentsAt(segments: NeedSegment[], epoch: number): void {
+  const index = segments.findIndex(
+    (s) => s.startEpoch < epoch && s.endEpoch > epoch,
+  );
+  if (index === -1) {
+    return;
+  }
+  const segment = segments[index];
+  segments.splice(
+    index,
+    1,
+    { startEpoch: segment.startEpoch, endEpoch: epoch, need: segment.need },
+    { startEpoch: epoch, endEpoch: segment.endEpoch, need: segment.need },
+  );
+}
+
+/**
+ * Longest run of consecutive segments still needing storage within
+ * [startEpoch, endEpoch) - a listing can only be bought once, so it fills a
+ * single contiguous range
+ */
+function findNeededRun(
+  segments: NeedSegment[],
+  startEpoch: number,
+  endEpoch: number,
+): NeedSegment[] {
+  let best: NeedSegment[] = [];
+  let run: NeedSegment[] = [];
+  const length = (r: NeedSegment[]) =>
+    r.length ? r[r.length - 1].endEpoch - r[0].startEpoch : 0;
+
+  for (const segment of segments) {
+    if (
+      segment.startEpoch >= startEpoch &&
+      segment.endEpoch <= endEpoch &&
+      segment.need > 0n
+    ) {
+      run.push(segment);
+      if (length(run) > length(best)) {
+        best = [...run];
+      }
+    } else {
+      run = [];
+    }
+  }
+  return best;
+}
+
+/**
+ * Candidates already read, then the rest of the stream
+ */
+async function* resumeCandidates(
+  read: StorageObject[],
+  rest: AsyncIterator<StorageObject>,
+): AsyncGenerator<StorageObject> {
+  try {
+    yield* read;
+    for (let next = await rest.next(); !next.done; next = await rest.next()) {
+      yield next.value;
+    }
+  } finally {
+    await rest.return?.();
+  }
+}
+
+async function* iterateCandidates(
+  candidates: StorageCandidates,
+): AsyncGenerator<StorageObject> {
+  yield* candidates;
 }
 
 // Main optimization algorithm
 export class WalrusStorageOptimizer {
-  private storageObjects: StorageObject[];
-  private storageCostFn: (
-    size: number,
-    epochs: number,
-  ) => Promise<{ storageCost: bigint }>;
+  private storageObjects: StorageCandidates;
+  private storageCostFn: StorageCostFn;
+  private options: OptimizerOptions;
 
   constructor(
-    storageObjects: StorageObject[],
-    storageCostFn: (
-      size: number,
-      epochs: number,
-    ) => Promise<{ storageCost: bigint }>,
+    storageObjects: StorageCandidates,
+    storageCostFn: StorageCostFn,
+    options: Partial<OptimizerOptions> = {},
   ) {
     this.storageObjects = storageObjects;
-    this.storageCostFn = storageCostFn;
+    this.storageCostFn = memoizeStorageCost(storageCostFn);
+    this.options = {
+      maxExactCandidates: EXACT_SOLVER_MAX_CANDIDATES,
+      timeBudgetMs: EXACT_SOLVER_TIME_BUDGET_MS,
+      operationCost: DEFAULT_OPERATION_COST,
+      ...options,
+    };
   }
 
   /**
-   * SIMPLIFIED OPTIMIZER
+   * Find the cheapest plan for a request
    *
-   * Strategy: Only use storage that FULLY covers the request period
-   * - No cross-epoch optimization (no splits needed)
-   * - Simple greedy selection by price per byte
-   * - Fall back to system storage if no full coverage available
+   * 1. Read the cheapest candidates for the exact search
+   * 2. Heuristic plan over the whole order book (time-segmented greedy)
+   * 3. Exact search over the candidates read (BranchAndBoundSolver), for a
+   *    plan cheaper than the heuristic one. If it runs out of time, the
+   *    best plan found so far is kept.
    *
-   * This guarantees:
-   * - All pieces have same epoch range → fuse_amount works perfectly
-   * - No split operations needed → No remainder tracking
-   * - Simple, linear flow → Easy to verify
+   * Plans are compared by their total plus operationCost per PTB command
+   * (planObjective); totalCost is still what the plan pays.
    */
   async findOptimalAllocation(
     request: StorageRequest,
   ): Promise<OptimizationResult> {
-    console.log(`\n[OPTIMIZER] Simplified optimizer starting`);
+    console.log(`\n[OPTIMIZER] Optimizer starting`);
     console.log(
       `  Request: ${request.size} bytes, epochs ${request.startEpoch}-${request.endEpoch}`,
     );
 
-    // 1. Filter to ONLY storage that FULLY COVERS the request period
-    const fullCoverageStorage = this.storageObjects.filter(
-      (s) =>
-        s.startEpoch <= request.startEpoch && s.endEpoch >= request.endEpoch,
+    // 1. One candidate more than the search considers tells whether it
+    // sees the whole order book
+    const stream = iterateCandidates(this.storageObjects);
+    const read: StorageObject[] = [];
+    while (read.length <= this.options.maxExactCandidates) {
+      const next = await stream.next();
+      if (next.done) {
+        break;
+      }
+      read.push(next.value);
+    }
+    const wholeBook = read.length <= this.options.maxExactCandidates;
+
+    // 2. Heuristic plan
+    const heuristic = await this.greedyAllocation(
+      request,
+      resumeCandidates(read, stream),
+    );
+
+    // 3. Exact search
+    const { operationCost } = this.options;
+    const solver = new BranchAndBoundSolver(
+      request,
+      read.slice(0, this.options.maxExactCandidates),
+      this.storageCostFn,
+      operationCost,
+    );
+    const heuristicObjective = planObjective(
+      heuristic,
+      request.size,
+      operationCost,
     );
+    const { plan, complete, nodes } = await solver.solve(
+      heuristicObjective,
+      this.options.timeBudgetMs,
+    );
+    const solverType: SolverType =
+      complete && wholeBook ? 'exact' : 'heuristic';
 
     console.log(
-      `  Found ${fullCoverageStorage.length} storage objects with full epoch coverage`,
+      `  Exact search: ${nodes} nodes, ${complete ? 'complete' : 'out of time'}`,
     );
 
-    // 2. If no full coverage available, just reserve from system
-    if (fullCoverageStorage.length === 0) {
-      console.log(`  No full-coverage storage available, using system storage`);
-      return this.createNewReservation(request);
+    const objective = plan
+      ? planObjective(plan, request.size, operationCost)
+      : null;
+    if (plan && objective !== null && objective < heuristicObjective) {
+      console.log(
+        `  Using exact plan (saves ${heuristicObjective - objective} FROST over heuristic, gas included)`,
+      );
+      return { ...plan, solver: solverType };
     }
+    return { ...heuristic, solver: solverType };
+  }
 
-    // 3. Sort by price per byte (cheapest first)
-    const sorted = fullCoverageStorage.sort((a, b) => {
-      const pricePerByteA = Number(a.price / a.storageSize);
-      const pricePerByteB = Number(b.price / b.storageSize);
-      return pricePerByteA - pricePerByteB;
-    });
+  /**
+   * TIME-SEGMENTED GREEDY
+   *
+   * Strategy: Stitch listings across consecutive epoch ranges
+   * - The request is tracked as epoch segments with the size still needed
+   * - Greedy selection by price per byte per epoch: candidates must come
+   *   cheapest first, and are only read until the request is filled (see
+   *   DatabaseOperationsService.streamOptimizerCandidates)
+   * - A listing fills the longest run of needed epochs it overlaps, bought
+   *   whole, by size or by epochs - whichever costs less - and only if
+   *   cheaper than reserving the same piece from the system, gas of the
+   *   commands each takes included
+   * - Segments left unfilled are reserved from the system
+   *
+   * Pieces are then cut to their segments (split_by_size / split_by_epoch),
+   * fused per segment (fuse_amount) and the segments fused in order
+   * (fuse_periods) into a single Storage object.
+   */
+  private async greedyAllocation(
+    request: StorageRequest,
+    candidates: AsyncIterable<StorageObject>,
+  ): Promise<AllocationPlan> {
+    console.log(`  Time-segmented greedy starting`);
 
-    // 4. Greedy selection: take cheapest pieces until request is filled
+    const segments: NeedSegment[] = [
+      {
+        startEpoch: request.startEpoch,
+        endEpoch: request.endEpoch,
+        need: request.size,
+      },
+    ];
     const allocations: StorageAllocation[] = [];
-    let remainingSize = request.size;
     let totalCost = 0n;
 
-    for (const storage of sorted) {
-      if (remainingSize <= 0n) break;
+    // 1. Greedy selection: take the cheapest pieces until every segment is filled
+    for await (const storage of candidates) {
+      const overlapStart = Math.max(storage.startEpoch, request.startEpoch);
+      const overlapEnd = Math.min(storage.endEpoch, request.endEpoch);
+      if (overlapStart >= overlapEnd) {
+        continue;
+      }
 
+      splitSegmentsAt(segments, overlapStart);
+      splitSegmentsAt(segments, overlapEnd);
+      const run = findNeededRun(segments, overlapStart, overlapEnd);
+      if (run.length === 0) {
+        continue;
+      }
+
+      const usedStartEpoch = run[0].startEpoch;
+      const usedEndEpoch = run[run.length - 1].endEpoch;
+      const minNeed = run.reduce(
+        (min, s) => (s.need < min ? s.need : min),
+        run[0].need,
+      );
       const usedSize =
-        storage.storageSize < remainingSize
-          ? storage.storageSize
-          : remainingSize;
+        storage.storageSize < minNeed ? storage.storageSize : minNeed;
 
-      // CRITICAL: buy_partial_storage_size charges for the listing's FULL epoch range
-      const cost = calculateProRatedPrice(
+      const { purchaseType, cost } = this.choosePurchase(
         storage,
         usedSize,
-        storage.startEpoch,
-        storage.endEpoch,
+        usedStartEpoch,
+        usedEndEpoch,
+      );
+
+      // Skip pieces the system sells for less, counting the gas of the
+      // commands each takes
+      const reserveCost = await this.storageCostFn(
+        Number(usedSize),
+        usedEndEpoch - usedStartEpoch,
       );
+      const extraCommands =
+        purchaseCommands(
+          storage,
+          purchaseType,
+          usedSize,
+          usedStartEpoch,
+          usedEndEpoch,
+        ) - RESERVATION_COMMANDS;
+      if (
+        reserveCost.storageCost <=
+        cost + this.options.operationCost * BigInt(extraCommands)
+      ) {
+        console.log(
+          `  Skipping storage ${storage.id}: ${cost} FROST vs ${reserveCost.storageCost} FROST from system`,
+        );
+        continue;
+      }
 
       console.log(
-        `  Selecting storage ${storage.id}: ${usedSize} bytes for ${cost} FROST`,
+        `  Selecting storage ${storage.id} (${purchaseType}): ${usedSize} bytes, epochs ${usedStartEpoch}-${usedEndEpoch} for ${cost} FROST`,
       );
 
       allocations.push({
         storageObject: storage,
         usedSize,
-        usedStartEpoch: request.startEpoch, // What user needs (for later splits if needed)
-        usedEndEpoch: request.endEpoch, // What user needs (for later splits if needed)
+        usedStartEpoch,
+        usedEndEpoch,
+        purchaseType,
         cost,
         sellerPayment: cost,
         seller: storage.owner,
       });
-
-      remainingSize -= usedSize;
+      for (const segment of run) {
+        segment.need -= usedSize;
+      }
       totalCost += cost;
+
+      // Stop before reading further candidates
+      if (segments.every((s) => s.need === 0n)) break;
     }
 
-    // 5. Reserve any remaining size from system
-    let needsNewReservation:
-      | {
-          size: bigint;
-          startEpoch: number;
-          endEpoch: number;
-          epochs: number;
-          cost: bigint;
-        }
-      | undefined = undefined;
-    if (remainingSize > 0n) {
-      const epochs = request.endEpoch - request.startEpoch;
-      const reserveCost = await this.storageCostFn(
-        Number(remainingSize),
-        epochs,
-      );
+    console.log(`  Selected ${allocations.length} storage objects`);
+
+    // 2. If no marketplace storage is usable, just reserve from system
+    if (allocations.length === 0) {
+      console.log(`  No usable marketplace storage, using system storage`);
+      return this.createNewReservation(request);
+    }
+
+    // 3. Reserve the unfilled segments from system
+    const reservations = await planReservations(segments, this.storageCostFn);
+    for (const reservation of reservations) {
+      totalCost += reservation.cost;
 
       console.log(
-        `  Need to reserve ${remainingSize} bytes from system for ${reserveCost.storageCost} FROST`,
+        `  Need to reserve ${reservation.size} bytes from system, epochs ${reservation.startEpoch}-${reservation.endEpoch} for ${reservation.cost} FROST`,
       );
-
-      needsNewReservation = {
-        size: remainingSize,
-        startEpoch: request.startEpoch,
-        endEpoch: request.endEpoch,
-        epochs,
-        cost: reserveCost.storageCost,
-      };
-      totalCost += reserveCost.storageCost;
     }
 
-    // 6. Compare with system-only cost
+    // 4. Compare with system-only cost, gas of the commands included
     const systemOnlyCost = await this.storageCostFn(
       Number(request.size),
       request.endEpoch - request.startEpoch,
     );
+    const { operationCost } = this.options;
+    const marketplaceObjective = planObjective(
+      { allocations, totalCost, reservations },
+      request.size,
+      operationCost,
+    );
+    const systemOnlyObjective =
+      systemOnlyCost.storageCost + operationCost * BigInt(RESERVATION_COMMANDS);
 
     console.log(`  Marketplace total cost: ${totalCost} FROST`);
     console.log(`  System-only cost: ${systemOnlyCost.storageCost} FROST`);
 
     // If system is cheaper or similar, just use system
-    if (systemOnlyCost.storageCost <= totalCost) {
+    if (systemOnlyObjective <= marketplaceObjective) {
       console.log(`  System storage is cheaper, using system-only`);
       return this.createNewReservation(request);
     }
 
     console.log(
-      `  Using marketplace strategy (saves ${systemOnlyCost.storageCost - totalCost} FROST)`,
+      `  Using marketplace strategy (saves ${systemOnlyObjective - marketplaceObjective} FROST, gas included)`,
     );
 
     return {
       allocations,
       totalCost,
-      needsNewReservation,
+      reservations,
+    };
+  }
+
+  /**
+   * Cheapest way to buy a piece of a listing
+   *
+   * A purchase by size pays for the listing's whole epoch range, a purchase
+   * by epochs for the listing's whole size; the excess goes to the buyer
+   * as separate Storage objects.
+   */
+  private choosePurchase(
+    storage: StorageObject,
+    usedSize: bigint,
+    usedStartEpoch: number,
+    usedEndEpoch: number,
+  ): { purchaseType: PurchaseType; cost: bigint } {
+    const wholeRange =
+      usedStartEpoch === storage.startEpoch &&
+      usedEndEpoch === storage.endEpoch;
+    const bySize = calculateProRatedPrice(
+      storage,
+      usedSize,
+      storage.startEpoch,
+      storage.endEpoch,
+    );
+    if (wholeRange) {
+      return {
+        purchaseType:
+          usedSize === storage.storageSize ? 'full' : 'partial_size',
+        cost: bySize,
+      };
+    }
+
+    const byEpoch = calculateProRatedPrice(
+      storage,
+      storage.storageSize,
+      usedStartEpoch,
+      usedEndEpoch,
+    );
+    if (byEpoch <= bySize) {
+      return { purchaseType: 'partial_epoch', cost: byEpoch };
+    }
+    // The contract only sells part of a listing's size
+    return {
+      purchaseType: usedSize === storage.storageSize ? 'full' : 'partial_size',
+      cost: bySize,
     };
   }
 
@@ -222,20 +472,22 @@ export class WalrusStorageOptimizer {
    */
   private async createNewReservation(
     request: StorageRequest,
-  ): Promise<OptimizationResult> {
+  ): Promise<AllocationPlan> {
     const epochs = request.endEpoch - request.startEpoch;
     const cost = await this.storageCostFn(Number(request.size), epochs);
 
     return {
       allocations: [],
       totalCost: cost.storageCost,
-      needsNewReservation: {
-        size: request.size,
-        startEpoch: request.startEpoch,
-        endEpoch: request.endEpoch,
-        epochs,
-        cost: cost.storageCost,
-      },
+      reservations: [
+        {
+          size: request.size,
+          startEpoch: request.startEpoch,
+          endEpoch: request.endEpoch,
+          epochs,
+          cost: cost.storageCost,
+        },
+      ],
     };
   }
 }
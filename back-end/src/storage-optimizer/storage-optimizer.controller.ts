@@ -8,7 +8,16 @@ import {
 } from '@nestjs/common';
 import { StorageOptimizerService } from './storage-optimizer.service';
 import { OptimizeStorageDto } from './dto/optimize-storage.dto';
-import { OptimizationResultDto } from './dto/optimization-result.dto';
+import { MaximizeStorageDto } from './dto/maximize-storage.dto';
+import {
+  BatchOptimizeStorageDto,
+  MAX_BATCH_REQUESTS,
+} from './dto/batch-optimize-storage.dto';
+import {
+  BatchOptimizationResultDto,
+  MaximizeResultDto,
+  OptimizationResultDto,
+} from './dto/optimization-result.dto';
 
 @Controller('storage-optimizer')
 export class StorageOptimizerController {
@@ -63,4 +72,114 @@ export class StorageOptimizerController {
       );
     }
   }
+
+  /**
+   * Maximize storage for a budget
+   * POST /storage-optimizer/maximize
+   *
+   * @param dto Request with budget, the dimension to maximize, and the other
+   * one fixed: endEpoch to maximize size, size to maximize duration
+   * @returns Optimization result for the largest size or duration the
+   * budget buys
+   */
+  @Post('maximize')
+  @HttpCode(HttpStatus.OK)
+  async maximize(@Body() dto: MaximizeStorageDto): Promise<MaximizeResultDto> {
+    try {
+      // Convert string to bigint
+      const budget = BigInt(dto.budget);
+
+      if (budget <= 0n) {
+        throw new HttpException(
+          'Budget must be greater than 0',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      if (dto.maximize === 'size') {
+        if (dto.endEpoch === undefined || dto.endEpoch <= dto.startEpoch) {
+          throw new HttpException(
+            'End epoch must be greater than start epoch',
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+
+        return await this.storageOptimizerService.maximizeSize(
+          budget,
+          dto.startEpoch,
+          dto.endEpoch,
+        );
+      }
+
+      const size = BigInt(dto.size ?? 0);
+      if (size <= 0n) {
+        throw new HttpException(
+          'Size must be greater than 0',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      return await this.storageOptimizerService.maximizeDuration(
+        budget,
+        size,
+        dto.startEpoch,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        `Maximization failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Optimize a batch of storage requests together
+   * POST /storage-optimizer/batch
+   *
+   * @param dto Requests, each with size, startEpoch, endEpoch
+   * @returns Per-request results, and the PTBs running them all
+   */
+  @Post('batch')
+  @HttpCode(HttpStatus.OK)
+  async optimizeBatch(
+    @Body() dto: BatchOptimizeStorageDto,
+  ): Promise<BatchOptimizationResultDto> {
+    try {
+      if (!Array.isArray(dto.requests) || dto.requests.length === 0) {
+        throw new HttpException(
+          'At least one request is required',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      if (dto.requests.length > MAX_BATCH_REQUESTS) {
+        throw new HttpException(
+          `At most ${MAX_BATCH_REQUESTS} requests per batch`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      // Convert strings to bigint
+      const requests = dto.requests.map((request) => ({
+        size: BigInt(request.size),
+        startEpoch: request.startEpoch,
+        endEpoch: request.endEpoch,
+      }));
+
+      return await this.storageOptimizerService.optimizeBatch(requests);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        `Batch optimization failed: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
@@ -1,11 +1,17 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { StorageOptimizerService } from './storage-optimizer.service';
 import { StorageOptimizerController } from './storage-optimizer.controller';
 import { SuiIndexerModule } from '../sui-indexer/sui-indexer.module';
 import { WalrusModule } from '../walrus/walrus.module';
+import storageOptimizerConfig from '../config/storage-optimizer.config';
 
 @Module({
-  imports: [SuiIndexerModule, WalrusModule],
+  imports: [
+    ConfigModule.forFeature(storageOptimizerConfig),
+    SuiIndexerModule,
+    WalrusModule,
+  ],
   providers: [StorageOptimizerService],
   controllers: [StorageOptimizerController],
   exports: [StorageOptimizerService],
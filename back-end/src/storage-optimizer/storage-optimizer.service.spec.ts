@@ -0,0 +1,491 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAX_PTB_OPERATIONS,
+  StorageOptimizerService,
+} from './storage-optimizer.service';
+import { DatabaseOperationsService } from '../sui-indexer/services/database-operations.service';
+import { WalrusService } from '../walrus/walrus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { EXACT_SOLVER_MAX_CANDIDATES } from './optimizer/walrus-storage-optimizer';
+import {
+  OptimizerCandidate,
+  OptimizerCandidateQuery,
+} from '../sui-indexer/types/listing-search.types';
+
+const PRICE_SCALE = 1_000_000_000n;
+const MIB = 1_048_576n;
+
+// Seller payment as computed by the contract
+const calc = (
+  pricePerSizePerEpoch: bigint,
+  size: bigint,
+  startEpoch: number,
+  endEpoch: number,
+) =>
+  (pricePerSizePerEpoch * size * BigInt(endEpoch - startEpoch)) / PRICE_SCALE;
+
+const listing = (
+  id: string,
+  size: bigint,
+  startEpoch: number,
+  endEpoch: number,
+  pricePerSizePerEpoch: bigint,
+): OptimizerCandidate => ({
+  id,
+  storageId: `0x${id}`,
+  seller: `0xseller-${id}`,
+  pricePerSizePerEpoch,
+  size,
+  startEpoch,
+  endEpoch,
+  totalPrice: calc(pricePerSizePerEpoch, size, startEpoch, endEpoch),
+});
+
+describe('StorageOptimizerService', () => {
+  // 120 listings of 1 MiB covering epochs 10-60, newest first - the
+  // cheapest ones are the oldest, beyond the first page of 50
+  const orderBook: OptimizerCandidate[] = Array.from({ length: 120 }, (_, i) =>
+    listing(
+      i.toString(16).padStart(4, '0'),
+      MIB,
+      10,
+      60,
+      BigInt(1000 - i) * PRICE_SCALE,
+    ),
+  );
+
+  let book: OptimizerCandidate[];
+  let queries: OptimizerCandidateQuery[];
+  let read: number;
+  let service: StorageOptimizerService;
+
+  beforeEach(() => {
+    book = orderBook;
+    queries = [];
+    read = 0;
+
+    // Candidate query: overlapping listings below the ceiling, cheapest first
+    const databaseOps = {
+      streamOptimizerCandidates: async function* (
+        query: OptimizerCandidateQuery,
+      ) {
+        queries.push(query);
+        const candidates = book
+          .filter(
+            (l) =>
+              l.startEpoch < query.endEpoch &&
+              l.endEpoch > query.startEpoch &&
+              (query.maxPricePerSizePerEpoch === undefined ||
+                l.pricePerSizePerEpoch < query.maxPricePerSizePerEpoch),
+          )
+          .sort((a, b) =>
+            Number(a.pricePerSizePerEpoch - b.pricePerSizePerEpoch),
+          );
+        for (const candidate of candidates) {
+          read++;
+          yield await Promise.resolve(candidate);
+        }
+      },
+    };
+    // System storage: 100,000 FROST per byte per epoch, reservable up to
+    // epoch 58
+    const walrus = {
+      storageCost: jest.fn((size: number, epochs: number) =>
+        Promise.resolve({
+          storageCost: BigInt(size) * BigInt(epochs) * 100_000n,
+        }),
+      ),
+      getSystemState: jest
+        .fn()
+        .mockResolvedValue({ epoch: 5n, maxEpochsAhead: 53 }),
+    };
+    const metrics = {
+      optimizerDuration: { startTimer: () => () => undefined },
+    };
+    // Default gas estimate per PTB command
+    const config = { get: () => undefined };
+
+    service = new StorageOptimizerService(
+      databaseOps as unknown as DatabaseOperationsService,
+      walrus as unknown as WalrusService,
+      metrics as unknown as MetricsService,
+      config as unknown as ConfigService,
+    );
+  });
+
+  it('buys the cheapest listings of the whole order book', async () => {
+    const result = await service.optimizeStorage(3n * MIB, 20, 30);
+
+    const cheapest = [orderBook[119], orderBook[118], orderBook[117]];
+    expect(result.allocations.map((a) => a.storageObjectId)).toEqual(
+      cheapest.map((l) => l.storageId),
+    );
+    expect(result.allocations.map((a) => a.purchaseType)).toEqual([
+      'partial_epoch',
+      'partial_epoch',
+      'partial_epoch',
+    ]);
+    expect(result.reservations).toEqual([]);
+    expect(result.needsNewReservation).toBeUndefined();
+    expect(result.totalCost).toBe(
+      cheapest
+        .reduce((sum, l) => sum + calc(l.pricePerSizePerEpoch, MIB, 20, 30), 0n)
+        .toString(),
+    );
+    expect(result.operations.map((op) => op.type)).toEqual([
+      'buy_partial_storage_epoch',
+      'buy_partial_storage_epoch',
+      'buy_partial_storage_epoch',
+      'fuse_amount',
+      'fuse_amount',
+    ]);
+  });
+
+  it('reads no further than the exact search candidates once the request is filled', async () => {
+    await service.optimizeStorage(2n * MIB, 20, 30);
+
+    // One more than the search considers, to tell if it saw the whole book
+    expect(read).toBe(EXACT_SOLVER_MAX_CANDIDATES + 1);
+  });
+
+  it('queries listings overlapping the request below the system price per byte', async () => {
+    await service.optimizeStorage(MIB, 20, 30);
+
+    expect(queries).toEqual([
+      {
+        startEpoch: 20,
+        endEpoch: 30,
+        maxPricePerSizePerEpoch: 100_000n * PRICE_SCALE,
+      },
+    ]);
+  });
+
+  it('never reads a listing priced at or above the system price per byte', async () => {
+    book = [listing('dear', MIB, 10, 60, 100_000n * PRICE_SCALE)];
+
+    const result = await service.optimizeStorage(MIB, 20, 30);
+
+    expect(read).toBe(0);
+    expect(result.allocations).toEqual([]);
+    expect(result.reservations).toEqual([
+      expect.objectContaining({ size: MIB.toString() }),
+    ]);
+  });
+
+  it('reserves the remainder when the book runs out', async () => {
+    const result = await service.optimizeStorage(121n * MIB, 20, 30);
+
+    expect(result.allocations).toHaveLength(120);
+    expect(result.solver).toBe('heuristic');
+    expect(result.reservations).toEqual([
+      expect.objectContaining({
+        size: MIB.toString(),
+        startEpoch: 20,
+        endEpoch: 30,
+      }),
+    ]);
+    expect(result.needsNewReservation).toEqual(result.reservations[0]);
+  });
+
+  describe('across epoch ranges', () => {
+    it('stitches listings covering consecutive epochs', async () => {
+      const early = listing('early', 4n * MIB, 10, 20, PRICE_SCALE);
+      const late = listing('late', 4n * MIB, 20, 40, 2n * PRICE_SCALE);
+      book = [early, late];
+
+      const result = await service.optimizeStorage(4n * MIB, 10, 30);
+
+      expect(result.allocations).toEqual([
+        expect.objectContaining({
+          storageObjectId: early.storageId,
+          purchaseType: 'full',
+          usedStartEpoch: 10,
+          usedEndEpoch: 20,
+        }),
+        expect.objectContaining({
+          storageObjectId: late.storageId,
+          purchaseType: 'partial_epoch',
+          usedStartEpoch: 20,
+          usedEndEpoch: 30,
+        }),
+      ]);
+      expect(result.reservations).toEqual([]);
+      expect(result.solver).toBe('exact');
+      expect(result.operations).toEqual([
+        expect.objectContaining({
+          type: 'buy_full_storage',
+          storageObjectId: early.storageId,
+        }),
+        expect.objectContaining({
+          type: 'buy_partial_storage_epoch',
+          storageObjectId: late.storageId,
+          splitStartEpoch: 20,
+          splitEndEpoch: 30,
+        }),
+        expect.objectContaining({ type: 'fuse_periods' }),
+      ]);
+      expect(result.ptbMetadata.paymentAmounts).toEqual([
+        early.totalPrice.toString(),
+        calc(late.pricePerSizePerEpoch, 4n * MIB, 20, 30).toString(),
+      ]);
+      expect(result.ptbMetadata.executionFlow[2]).toEqual(
+        expect.objectContaining({
+          producesStorage: false,
+          fuseTargets: { first: 0, second: 1 },
+        }),
+      );
+    });
+
+    it('reserves only the epochs no listing covers', async () => {
+      const early = listing('early', 4n * MIB, 10, 15, PRICE_SCALE);
+      const late = listing('late', 4n * MIB, 20, 30, 2n * PRICE_SCALE);
+      book = [early, late];
+
+      const result = await service.optimizeStorage(4n * MIB, 10, 30);
+
+      expect(result.reservations).toEqual([
+        {
+          size: (4n * MIB).toString(),
+          startEpoch: 15,
+          endEpoch: 20,
+          epochs: 5,
+          cost: (4n * MIB * 5n * 100_000n).toString(),
+        },
+      ]);
+      expect(result.operations.map((op) => op.type)).toEqual([
+        'buy_full_storage',
+        'buy_full_storage',
+        'reserve_space',
+        'fuse_periods',
+        'fuse_periods',
+      ]);
+      // Segments are fused in epoch order: 10-15, 15-20, 20-30
+      expect(
+        result.ptbMetadata.executionFlow
+          .filter((flow) => flow.fuseTargets)
+          .map((flow) => flow.fuseTargets),
+      ).toEqual([
+        { first: 0, second: 2 },
+        { first: 0, second: 1 },
+      ]);
+    });
+
+    it('splits the excess size off an epoch purchase', async () => {
+      const exact = listing('exact', 2n * MIB, 10, 30, PRICE_SCALE);
+      const long = listing('long', 3n * MIB, 0, 100, 2n * PRICE_SCALE);
+      book = [exact, long];
+
+      const result = await service.optimizeStorage(4n * MIB, 10, 30);
+
+      expect(result.allocations[1]).toEqual(
+        expect.objectContaining({
+          storageObjectId: long.storageId,
+          purchaseType: 'partial_epoch',
+          usedSize: (2n * MIB).toString(),
+        }),
+      );
+      expect(result.operations.map((op) => op.type)).toEqual([
+        'buy_full_storage',
+        'buy_partial_storage_epoch',
+        'split_by_size',
+        'fuse_amount',
+      ]);
+      expect(result.operations[2].splitSize).toBe((2n * MIB).toString());
+      // The purchased object keeps the used size, the split returns the excess
+      expect(
+        result.ptbMetadata.executionFlow[2].inputStorageFromOperation,
+      ).toBe(1);
+      expect(result.ptbMetadata.executionFlow[3].fuseTargets).toEqual({
+        first: 0,
+        second: 1,
+      });
+    });
+
+    it('splits the unused epochs off a size purchase', async () => {
+      const exact = listing('exact', 2n * MIB, 10, 30, PRICE_SCALE);
+      const early = listing('early', 4n * MIB, 5, 30, 2n * PRICE_SCALE);
+      book = [exact, early];
+
+      const result = await service.optimizeStorage(4n * MIB, 10, 30);
+
+      expect(result.allocations[1].purchaseType).toBe('partial_size');
+      expect(result.operations.map((op) => op.type)).toEqual([
+        'buy_full_storage',
+        'buy_partial_storage_size',
+        'split_by_epoch',
+        'fuse_amount',
+      ]);
+      expect(result.operations[2].splitEpoch).toBe(10);
+      // The split returns epochs 10-30, which are fused
+      expect(
+        result.ptbMetadata.executionFlow[2].inputStorageFromOperation,
+      ).toBe(1);
+      expect(result.ptbMetadata.executionFlow[3].fuseTargets).toEqual({
+        first: 0,
+        second: 2,
+      });
+    });
+  });
+
+  describe('maximizing for a budget', () => {
+    const cheap = listing('cheap', 4n * MIB, 10, 30, PRICE_SCALE);
+
+    beforeEach(() => {
+      book = [cheap];
+    });
+
+    it('buys the largest size the budget covers', async () => {
+      // The listing, and one more MiB from the system
+      const budget = cheap.totalPrice + MIB * 20n * 100_000n;
+
+      const result = await service.maximizeSize(budget, 10, 30);
+
+      expect(result.size).toBe((5n * MIB).toString());
+      expect(result.totalCost).toBe(budget.toString());
+      expect(result.operations.map((op) => op.type)).toEqual([
+        'buy_full_storage',
+        'reserve_space',
+        'fuse_amount',
+      ]);
+      expect(result.ptbMetadata.paymentAmounts).toEqual([
+        cheap.totalPrice.toString(),
+        (MIB * 20n * 100_000n).toString(),
+      ]);
+    });
+
+    it('buys the latest end epoch the budget covers', async () => {
+      const result = await service.maximizeDuration(
+        cheap.totalPrice,
+        4n * MIB,
+        10,
+      );
+
+      expect(result.endEpoch).toBe(30);
+      expect(result.allocations).toEqual([
+        expect.objectContaining({
+          storageObjectId: cheap.storageId,
+          purchaseType: 'full',
+        }),
+      ]);
+      expect(result.reservations).toEqual([]);
+    });
+
+    it('stops at the last epoch Walrus can reserve', async () => {
+      const result = await service.maximizeDuration(10n ** 18n, MIB, 10);
+
+      expect(result.endEpoch).toBe(58);
+    });
+
+    it('rejects a budget that buys nothing', async () => {
+      await expect(service.maximizeSize(1n, 10, 30)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('optimizing a batch', () => {
+    it('allocates each listing to one request only', async () => {
+      const cheap = listing('cheap', 4n * MIB, 10, 30, PRICE_SCALE);
+      const pricier = listing('pricier', 4n * MIB, 10, 30, 2n * PRICE_SCALE);
+      book = [cheap, pricier];
+
+      const batch = await service.optimizeBatch([
+        { size: 4n * MIB, startEpoch: 10, endEpoch: 30 },
+        { size: 8n * MIB, startEpoch: 10, endEpoch: 30 },
+      ]);
+
+      expect(
+        batch.results[0].allocations.map((a) => a.storageObjectId),
+      ).toEqual([cheap.storageId]);
+      expect(
+        batch.results[1].allocations.map((a) => a.storageObjectId),
+      ).toEqual([pricier.storageId]);
+      expect(batch.results[1].reservations).toEqual([
+        expect.objectContaining({ size: (4n * MIB).toString() }),
+      ]);
+      expect(batch.totalCost).toBe(
+        (
+          BigInt(batch.results[0].totalCost) +
+          BigInt(batch.results[1].totalCost)
+        ).toString(),
+      );
+
+      // One PTB running both requests, the second's indexes shifted
+      expect(batch.transactions).toHaveLength(1);
+      const [transaction] = batch.transactions;
+      expect(transaction.requests).toEqual([0, 1]);
+      expect(transaction.operations.map((op) => op.type)).toEqual([
+        'buy_full_storage',
+        'buy_full_storage',
+        'reserve_space',
+        'fuse_amount',
+      ]);
+      expect(transaction.ptbMetadata.paymentAmounts).toEqual([
+        cheap.totalPrice.toString(),
+        pricier.totalPrice.toString(),
+        (4n * MIB * 20n * 100_000n).toString(),
+      ]);
+      expect(transaction.ptbMetadata.executionFlow[3].fuseTargets).toEqual({
+        first: 1,
+        second: 2,
+      });
+    });
+
+    it('splits the operations across PTBs when one cannot hold them', async () => {
+      book = Array.from({ length: 2 * MAX_PTB_OPERATIONS }, (_, i) =>
+        listing(`small-${i}`, MIB, 10, 60, BigInt(i + 1) * PRICE_SCALE),
+      );
+      // Each request buys 100 listings and fuses them: 199 operations, two
+      // fit in a PTB
+      const size = BigInt(MAX_PTB_OPERATIONS / 5) * MIB;
+
+      const batch = await service.optimizeBatch([
+        { size, startEpoch: 10, endEpoch: 60 },
+        { size, startEpoch: 10, endEpoch: 60 },
+        { size, startEpoch: 10, endEpoch: 60 },
+      ]);
+
+      expect(batch.transactions.map((t) => t.requests)).toEqual([[0, 1], [2]]);
+      for (const transaction of batch.transactions) {
+        expect(transaction.operations.length).toBeLessThanOrEqual(
+          MAX_PTB_OPERATIONS,
+        );
+      }
+      const bought = batch.results.flatMap((r) =>
+        r.allocations.map((a) => a.storageObjectId),
+      );
+      expect(new Set(bought).size).toBe(bought.length);
+    });
+
+    it('rejects a request that needs more operations than a PTB holds', async () => {
+      book = Array.from({ length: MAX_PTB_OPERATIONS }, (_, i) =>
+        listing(`small-${i}`, MIB, 10, 60, BigInt(i + 1) * PRICE_SCALE),
+      );
+      // 300 purchases and 299 fuses
+      const size = 300n * MIB;
+
+      await expect(
+        service.optimizeBatch([
+          { size: MIB, startEpoch: 10, endEpoch: 60 },
+          { size, startEpoch: 10, endEpoch: 60 },
+        ]),
+      ).rejects.toThrow(
+        new BadRequestException(
+          `Request 1: needs 599 operations, more than a PTB holds (${MAX_PTB_OPERATIONS}) - split it into smaller requests`,
+        ),
+      );
+    });
+
+    it('rejects an invalid request', async () => {
+      await expect(
+        service.optimizeBatch([
+          { size: MIB, startEpoch: 10, endEpoch: 30 },
+          { size: MIB, startEpoch: 30, endEpoch: 30 },
+        ]),
+      ).rejects.toThrow(
+        'Request 1: end epoch must be greater than start epoch',
+      );
+    });
+  });
+});
@@ -1,12 +1,18 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { DatabaseOperationsService } from '../sui-indexer/services/database-operations.service';
 import { WalrusService } from '../walrus/walrus.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { StorageOptimizerConfig } from '../config/storage-optimizer.config';
 import {
+  DEFAULT_OPERATION_COST,
   WalrusStorageOptimizer,
   StorageObject,
   StorageRequest,
   OptimizationResult,
+  OptimizerOptions,
 } from './optimizer/walrus-storage-optimizer';
+import { memoizeStorageCost, StorageCostFn } from './optimizer/pricing';
 import {
   OptimizationResultDto,
   StorageOperationDto,
@@ -14,16 +20,66 @@ import {
   NewReservationDto,
   PTBMetadataDto,
   ExecutionFlowDto,
+  MaximizeResultDto,
+  BatchOptimizationResultDto,
+  BatchTransactionDto,
 } from './dto/optimization-result.dto';
+import { MaximizeDimension } from './dto/maximize-storage.dto';
+
+const PRICE_SCALE = 1_000_000_000n; // pricePerSizePerEpoch scale (contract)
+const MIB = 1_048_576n; // Size step when maximizing size
+
+// Maximize mode: optimizer time budget per probe, and largest size searched
+export const MAXIMIZE_PROBE_TIME_BUDGET_MS = 50;
+export const MAXIMIZE_MAX_SIZE_UNITS = 1_048_576; // 1 TiB, in MiB
+
+// Operations per batch PTB: Sui allows 1,024 commands per transaction, and
+// each operation takes up to two (reserve_space returns its payment coin),
+// plus the payment split and the final transfer
+export const MAX_PTB_OPERATIONS = 500;
+
+// Operation with its PTB wiring (not serialized)
+interface PlannedOperation {
+  type: string;
+  description: string;
+  storageObjectId?: string;
+  splitSize?: bigint;
+  splitStartEpoch?: number;
+  splitEndEpoch?: number;
+  splitEpoch?: number;
+  reserveSize?: bigint;
+  startEpoch?: number;
+  endEpoch?: number;
+  cost?: bigint;
+  payment?: bigint; // Payment coin amount
+  seller?: string;
+  input?: number; // Operation that produced the Storage to split
+  fuse?: { first: number; second: number };
+}
+
+// Storage object produced by an operation, over the epochs it covers
+interface StoragePiece {
+  operationIndex: number;
+  startEpoch: number;
+  endEpoch: number;
+  size: bigint;
+}
 
 @Injectable()
 export class StorageOptimizerService {
   private readonly logger = new Logger(StorageOptimizerService.name);
+  private readonly operationCost: bigint;
 
   constructor(
     private readonly databaseOpsService: DatabaseOperationsService,
     private readonly walrusService: WalrusService,
-  ) {}
+    private readonly metrics: MetricsService,
+    configService: ConfigService,
+  ) {
+    this.operationCost =
+      configService.get<StorageOptimizerConfig>('storageOptimizer')
+        ?.operationCost ?? DEFAULT_OPERATION_COST;
+  }
 
   /**
    * Optimize storage allocation combining marketplace listings and new Walrus storage
@@ -33,6 +89,9 @@ export class StorageOptimizerService {
     startEpoch: number,
     endEpoch: number,
   ): Promise<OptimizationResultDto> {
+    const stopTimer = this.metrics.optimizerDuration.startTimer({
+      mode: 'optimize',
+    });
     try {
       this.logger.log(
         `Optimizing storage: ${size} bytes, epochs ${startEpoch}-${endEpoch}`,
@@ -46,134 +105,612 @@ export class StorageOptimizerService {
         throw new Error('End epoch must be greater than start epoch');
       }
 
-      // 1. Fetch marketplace listings from database
-      const listingsResult = await this.databaseOpsService.getAllListedStorage();
-      this.logger.log(`Found ${listingsResult.listings.length} marketplace listings`);
+      // 1-6. Find optimal allocation
+      const { result, systemOnlyPrice } = await this.planStorage(
+        { size, startEpoch, endEpoch },
+        this.createStorageCostFn(),
+      );
 
-      // 2. Convert Prisma ListedStorage to StorageObject format
-      const storageObjects: StorageObject[] = listingsResult.listings.map((listing) => ({
-        id: listing.storageId,
-        startEpoch: listing.startEpoch,
-        endEpoch: listing.endEpoch,
-        storageSize: BigInt(listing.size),
-        price: BigInt(listing.totalPrice),
-        pricePerSizePerEpoch: BigInt(listing.pricePerSizePerEpoch),
-        owner: listing.seller,
-      }));
-
-      // 3. Create storage cost function using Walrus SDK
-      const storageCostFn = async (
-        sizeBytes: number,
-        epochs: number,
-      ): Promise<{ storageCost: bigint }> => {
-        return await this.walrusService.storageCost(sizeBytes, epochs);
-      };
+      this.logger.log(
+        `Optimization complete (${result.solver}): ${result.allocations.length} allocations, total cost: ${result.totalCost}`,
+      );
 
-      // 4. Initialize optimizer
-      const optimizer = new WalrusStorageOptimizer(
-        storageObjects,
-        storageCostFn,
+      // 7. Generate simplified operations
+      const operations = this.generateStorageOperations(result, size);
+
+      // 8. Convert to DTO format (BigInt → string for JSON serialization)
+      const dto = this.convertToDto(result, operations, systemOnlyPrice);
+      stopTimer({ outcome: 'success' });
+      return dto;
+    } catch (error) {
+      stopTimer({ outcome: 'error' });
+      this.logger.error(`Optimization failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Largest storage size a budget buys over fixed epochs
+   */
+  async maximizeSize(
+    budget: bigint,
+    startEpoch: number,
+    endEpoch: number,
+  ): Promise<MaximizeResultDto> {
+    if (endEpoch <= startEpoch) {
+      throw new BadRequestException(
+        'End epoch must be greater than start epoch',
       );
+    }
 
-      // 5. Create request
-      const request: StorageRequest = {
-        size,
-        startEpoch,
-        endEpoch,
+    return this.maximize(
+      budget,
+      'size',
+      (units) => ({ size: BigInt(units) * MIB, startEpoch, endEpoch }),
+      MAXIMIZE_MAX_SIZE_UNITS,
+    );
+  }
+
+  /**
+   * Latest end epoch a budget buys for a fixed size, up to the furthest
+   * epoch Walrus can reserve storage for
+   */
+  async maximizeDuration(
+    budget: bigint,
+    size: bigint,
+    startEpoch: number,
+  ): Promise<MaximizeResultDto> {
+    if (size <= 0n) {
+      throw new BadRequestException('Size must be greater than 0');
+    }
+
+    const { epoch, maxEpochsAhead } = await this.walrusService.getSystemState();
+    const lastEpoch = Number(epoch) + maxEpochsAhead;
+    if (startEpoch >= lastEpoch) {
+      throw new BadRequestException(
+        `Start epoch must be before epoch ${lastEpoch}, the last Walrus can reserve`,
+      );
+    }
+
+    return this.maximize(
+      budget,
+      'duration',
+      (epochs) => ({ size, startEpoch, endEpoch: startEpoch + epochs }),
+      lastEpoch - startEpoch,
+    );
+  }
+
+  /**
+   * Search for the largest value of the free dimension whose plan fits the
+   * budget - doubling it until a plan costs too much, then bisecting.
+   *
+   * Each probe runs the optimizer with a shorter time budget; the plan of
+   * the largest probe that fits is returned, so its cost never exceeds the
+   * budget.
+   */
+  private async maximize(
+    budget: bigint,
+    maximize: MaximizeDimension,
+    requestFor: (value: number) => StorageRequest,
+    maxValue: number,
+  ): Promise<MaximizeResultDto> {
+    const stopTimer = this.metrics.optimizerDuration.startTimer({
+      mode: 'maximize',
+    });
+    try {
+      this.logger.log(`Maximizing storage ${maximize} for ${budget} FROST`);
+
+      if (budget <= 0n) {
+        throw new BadRequestException('Budget must be greater than 0');
+      }
+
+      // Probes share system prices - most are asked for again
+      const storageCostFn = memoizeStorageCost(this.createStorageCostFn());
+      const probe = async (value: number) => {
+        const request = requestFor(value);
+        const plan = await this.planStorage(request, storageCostFn, {
+          timeBudgetMs: MAXIMIZE_PROBE_TIME_BUDGET_MS,
+        });
+        return plan.result.totalCost <= budget ? { request, ...plan } : null;
       };
 
-      // 6. Find optimal allocation
-      const result: OptimizationResult =
-        await optimizer.findOptimalAllocation(request);
+      let best = await probe(1);
+      if (!best) {
+        throw new BadRequestException(
+          `Budget buys no storage: 1 ${maximize === 'size' ? 'MiB' : 'epoch'} costs more than ${budget} FROST`,
+        );
+      }
+
+      // Double until a plan costs more than the budget...
+      let low = 1;
+      let high = maxValue + 1;
+      while (low < maxValue) {
+        const value = Math.min(low * 2, maxValue);
+        const fits = await probe(value);
+        if (!fits) {
+          high = value;
+          break;
+        }
+        best = fits;
+        low = value;
+      }
+
+      // ...then bisect between the last plan that fits and the first that doesn't
+      while (high - low > 1) {
+        const value = Math.floor((low + high) / 2);
+        const fits = await probe(value);
+        if (fits) {
+          best = fits;
+          low = value;
+        } else {
+          high = value;
+        }
+      }
 
+      const { request, result, systemOnlyPrice } = best;
       this.logger.log(
-        `Optimization complete: ${result.allocations.length} allocations, total cost: ${result.totalCost}`,
+        `Maximization complete (${result.solver}): ${request.size} bytes, epochs ${request.startEpoch}-${request.endEpoch}, total cost: ${result.totalCost}`,
       );
 
-      // 7. Generate simplified operations
-      const operations = this.generateStorageOperations(result);
+      const operations = this.generateStorageOperations(result, request.size);
+      const dto: MaximizeResultDto = {
+        ...this.convertToDto(result, operations, systemOnlyPrice),
+        budget: budget.toString(),
+        maximize,
+        size: request.size.toString(),
+        startEpoch: request.startEpoch,
+        endEpoch: request.endEpoch,
+      };
+      stopTimer({ outcome: 'success' });
+      return dto;
+    } catch (error) {
+      stopTimer({ outcome: 'error' });
+      this.logger.error(`Maximization failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Optimize a batch of requests together, each listing going to one
+   * request at most - earlier requests get first pick
+   *
+   * Any purchase delists the listing. What is left is re-listed as new
+   * listings - under new IDs, except the start of a partial_epoch purchase
+   * starting after the listing's, which keeps the ID over fewer epochs -
+   * so a listing can be bought once per batch: each request is planned
+   * without the listings claimed by the requests before it.
+   */
+  async optimizeBatch(
+    requests: StorageRequest[],
+  ): Promise<BatchOptimizationResultDto> {
+    const stopTimer = this.metrics.optimizerDuration.startTimer({
+      mode: 'batch',
+    });
+    try {
+      this.logger.log(`Optimizing batch of ${requests.length} requests`);
+
+      requests.forEach((request, i) => {
+        if (request.size <= 0n) {
+          throw new BadRequestException(
+            `Request ${i}: size must be greater than 0`,
+          );
+        }
+        if (request.endEpoch <= request.startEpoch) {
+          throw new BadRequestException(
+            `Request ${i}: end epoch must be greater than start epoch`,
+          );
+        }
+      });
+
+      // Requests share system prices - sizes and durations often repeat
+      const storageCostFn = memoizeStorageCost(this.createStorageCostFn());
+      const claimed = new Set<string>();
+      const plans: PlannedOperation[][] = [];
+      const costs: bigint[] = [];
+      const results: OptimizationResultDto[] = [];
+      let systemOnlyPrice = 0n;
+
+      for (const [i, request] of requests.entries()) {
+        const plan = await this.planStorage(
+          request,
+          storageCostFn,
+          {},
+          claimed,
+        );
+        for (const allocation of plan.result.allocations) {
+          claimed.add(allocation.storageObject.id);
+        }
 
-      // 8. Calculate system-only price for comparison (frontend display)
-      const epochs = endEpoch - startEpoch;
-      const systemOnlyCost = await this.walrusService.storageCost(
-        Number(size),
-        epochs,
+        const operations = this.generateStorageOperations(
+          plan.result,
+          request.size,
+        );
+        // A request's operations pass Storage objects to each other, so
+        // they can't be split across PTBs
+        if (operations.length > MAX_PTB_OPERATIONS) {
+          throw new BadRequestException(
+            `Request ${i}: needs ${operations.length} operations, more than a PTB holds (${MAX_PTB_OPERATIONS}) - split it into smaller requests`,
+          );
+        }
+        plans.push(operations);
+        costs.push(plan.result.totalCost);
+        results.push(
+          this.convertToDto(plan.result, operations, plan.systemOnlyPrice),
+        );
+        systemOnlyPrice += plan.systemOnlyPrice;
+      }
+
+      const transactions = this.packTransactions(plans, costs);
+      const totalCost = costs.reduce((sum, cost) => sum + cost, 0n);
+      this.logger.log(
+        `Batch optimization complete: ${claimed.size} listings, ${transactions.length} transactions, total cost: ${totalCost}`,
       );
 
-      // 9. Convert to DTO format (BigInt → string for JSON serialization)
-      return this.convertToDto(result, operations, systemOnlyCost.storageCost);
+      stopTimer({ outcome: 'success' });
+      return {
+        results,
+        totalCost: totalCost.toString(),
+        systemOnlyPrice: systemOnlyPrice.toString(),
+        transactions,
+      };
     } catch (error) {
-      this.logger.error(`Optimization failed: ${error.message}`, error.stack);
+      stopTimer({ outcome: 'error' });
+      this.logger.error(
+        `Batch optimization failed: ${error.message}`,
+        error.stack,
+      );
       throw error;
     }
   }
 
   /**
-   * SIMPLIFIED: Generate storage operations
+   * Pack the requests' operations into as few PTBs as fit, in request
+   * order - a request's operations stay in one PTB, as they pass Storage
+   * objects to each other
+   */
+  private packTransactions(
+    plans: PlannedOperation[][],
+    costs: bigint[],
+  ): BatchTransactionDto[] {
+    const transactions: BatchTransactionDto[] = [];
+    let requests: number[] = [];
+    let operations: PlannedOperation[] = [];
+
+    const flush = () => {
+      if (requests.length === 0) {
+        return;
+      }
+      transactions.push({
+        requests,
+        operations: this.toOperationDtos(operations),
+        totalCost: requests.reduce((sum, i) => sum + costs[i], 0n).toString(),
+        ptbMetadata: this.generatePTBMetadata(operations),
+      });
+      requests = [];
+      operations = [];
+    };
+
+    plans.forEach((plan, i) => {
+      if (operations.length + plan.length > MAX_PTB_OPERATIONS) {
+        flush();
+      }
+
+      // Operation indexes are per PTB
+      const offset = operations.length;
+      for (const op of plan) {
+        const shifted: PlannedOperation = { ...op };
+        if (op.input !== undefined) {
+          shifted.input = op.input + offset;
+        }
+        if (op.fuse) {
+          shifted.fuse = {
+            first: op.fuse.first + offset,
+            second: op.fuse.second + offset,
+          };
+        }
+        operations.push(shifted);
+      }
+      requests.push(i);
+    });
+    flush();
+
+    return transactions;
+  }
+
+  /**
+   * Cheapest allocation for a request, and the system-only price it is
+   * compared against
+   */
+  private async planStorage(
+    request: StorageRequest,
+    storageCostFn: StorageCostFn,
+    options: Partial<OptimizerOptions> = {},
+    claimed: ReadonlySet<string> = new Set(),
+  ): Promise<{ result: OptimizationResult; systemOnlyPrice: bigint }> {
+    // 1. System-only price, for comparison (frontend display)
+    const epochs = request.endEpoch - request.startEpoch;
+    const systemOnlyCost = await storageCostFn(Number(request.size), epochs);
+
+    // Price ceiling: Walrus rounds a reservation up to whole storage units,
+    // so no reservation costs more per byte per epoch than one byte for one
+    // epoch. A listing charging at least that is never cheaper than
+    // reserving the piece it would sell.
+    const maxUnitCost = await storageCostFn(1, 1);
+
+    // 2. Stream marketplace listings overlapping the request, cheapest
+    // first, as StorageObjects - less those already claimed
+    const storageObjects = this.streamStorageObjects(
+      request.startEpoch,
+      request.endEpoch,
+      maxUnitCost.storageCost * PRICE_SCALE,
+      claimed,
+    );
+
+    // 3-4. Initialize optimizer
+    const optimizer = new WalrusStorageOptimizer(
+      storageObjects,
+      storageCostFn,
+      { operationCost: this.operationCost, ...options },
+    );
+
+    // 5-6. Find optimal allocation
+    const result = await optimizer.findOptimalAllocation(request);
+    return { result, systemOnlyPrice: systemOnlyCost.storageCost };
+  }
+
+  /**
+   * Storage cost function using Walrus SDK
+   */
+  private createStorageCostFn(): StorageCostFn {
+    return async (
+      sizeBytes: number,
+      epochs: number,
+    ): Promise<{ storageCost: bigint }> => {
+      return await this.walrusService.storageCost(sizeBytes, epochs);
+    };
+  }
+
+  /**
+   * Marketplace listings the optimizer can buy from, cheapest
+   * pricePerSizePerEpoch first
+   */
+  private async *streamStorageObjects(
+    startEpoch: number,
+    endEpoch: number,
+    maxPricePerSizePerEpoch: bigint,
+    claimed: ReadonlySet<string>,
+  ): AsyncGenerator<StorageObject> {
+    const candidates = this.databaseOpsService.streamOptimizerCandidates({
+      startEpoch,
+      endEpoch,
+      maxPricePerSizePerEpoch,
+    });
+    for await (const listing of candidates) {
+      if (claimed.has(listing.storageId)) {
+        continue;
+      }
+      yield {
+        id: listing.storageId,
+        startEpoch: listing.startEpoch,
+        endEpoch: listing.endEpoch,
+        storageSize: listing.size,
+        price: listing.totalPrice,
+        pricePerSizePerEpoch: listing.pricePerSizePerEpoch,
+        owner: listing.seller,
+      };
+    }
+  }
+
+  /**
+   * Generate storage operations
    *
    * Strategy:
-   * 1. Buy storage pieces (full or partial size)
-   * 2. Reserve from system if needed
-   * 3. Fuse all pieces together if multiple
+   * 1. Buy storage pieces (full, partial size or partial epochs) and split
+   *    off the size and epochs not needed - they go to the buyer
+   * 2. Reserve from system for the segments listings don't fill
+   * 3. Split pieces spanning several segments at the segment boundaries
+   * 4. Fuse the pieces of each segment (fuse_amount), up to the requested
+   *    size - pieces covering more than a segment needs are split, and
+   *    pieces it doesn't need go to the buyer
+   * 5. Fuse the segments in epoch order (fuse_periods)
    *
-   * Only uses 4 operation types:
-   * - buy_full_storage
-   * - buy_partial_storage_size
-   * - reserve_space
-   * - fuse_amount
+   * Operations refer to the Storage they act on by the index of the
+   * operation that produced it (PTB wiring, not serialized).
    */
   private generateStorageOperations(
     result: OptimizationResult,
-  ): any[] {
-    const operations: any[] = [];
+    size: bigint,
+  ): PlannedOperation[] {
+    const operations: PlannedOperation[] = [];
+    const pieces: StoragePiece[] = [];
 
     // Step 1: Buy storage pieces from marketplace
     for (const allocation of result.allocations) {
       const storage = allocation.storageObject;
+      let piece: StoragePiece;
 
-      if (allocation.usedSize === storage.storageSize) {
+      if (allocation.purchaseType === 'full') {
         // Buy the full storage object
         operations.push({
           type: 'buy_full_storage',
           storageObjectId: storage.id,
+          payment: storage.price,
+          seller: allocation.seller,
           description: `Buy full storage (${storage.storageSize} bytes)`,
         });
-      } else {
+        piece = {
+          operationIndex: operations.length - 1,
+          startEpoch: storage.startEpoch,
+          endEpoch: storage.endEpoch,
+          size: storage.storageSize,
+        };
+      } else if (allocation.purchaseType === 'partial_size') {
         // Buy partial size (marketplace keeps the remainder)
         operations.push({
           type: 'buy_partial_storage_size',
           storageObjectId: storage.id,
           splitSize: allocation.usedSize,
+          payment: allocation.sellerPayment,
+          seller: allocation.seller,
           description: `Buy ${allocation.usedSize} bytes from ${storage.id.slice(0, 10)}...`,
         });
+        piece = {
+          operationIndex: operations.length - 1,
+          startEpoch: storage.startEpoch,
+          endEpoch: storage.endEpoch,
+          size: allocation.usedSize,
+        };
+      } else {
+        // Buy partial epochs (marketplace keeps the remainders)
+        operations.push({
+          type: 'buy_partial_storage_epoch',
+          storageObjectId: storage.id,
+          splitStartEpoch: allocation.usedStartEpoch,
+          splitEndEpoch: allocation.usedEndEpoch,
+          payment: allocation.sellerPayment,
+          seller: allocation.seller,
+          description: `Buy epochs ${allocation.usedStartEpoch}-${allocation.usedEndEpoch} from ${storage.id.slice(0, 10)}...`,
+        });
+        piece = {
+          operationIndex: operations.length - 1,
+          startEpoch: allocation.usedStartEpoch,
+          endEpoch: allocation.usedEndEpoch,
+          size: storage.storageSize,
+        };
+      }
+
+      // The piece keeps usedSize, the new object is the excess
+      if (piece.size > allocation.usedSize) {
+        operations.push({
+          type: 'split_by_size',
+          splitSize: allocation.usedSize,
+          input: piece.operationIndex,
+          description: `Split off ${piece.size - allocation.usedSize} unused bytes`,
+        });
+        piece.size = allocation.usedSize;
+      }
+      // The piece keeps the epochs before the split, the new object the rest
+      if (piece.startEpoch < allocation.usedStartEpoch) {
+        operations.push({
+          type: 'split_by_epoch',
+          splitEpoch: allocation.usedStartEpoch,
+          input: piece.operationIndex,
+          description: `Split off unused epochs ${piece.startEpoch}-${allocation.usedStartEpoch}`,
+        });
+        piece = {
+          operationIndex: operations.length - 1,
+          startEpoch: allocation.usedStartEpoch,
+          endEpoch: piece.endEpoch,
+          size: piece.size,
+        };
+      }
+      if (piece.endEpoch > allocation.usedEndEpoch) {
+        operations.push({
+          type: 'split_by_epoch',
+          splitEpoch: allocation.usedEndEpoch,
+          input: piece.operationIndex,
+          description: `Split off unused epochs ${allocation.usedEndEpoch}-${piece.endEpoch}`,
+        });
+        piece.endEpoch = allocation.usedEndEpoch;
       }
+
+      pieces.push(piece);
     }
 
     // Step 2: Reserve new storage from system if needed
-    if (result.needsNewReservation) {
+    for (const reservation of result.reservations) {
       operations.push({
         type: 'reserve_space',
-        reserveSize: result.needsNewReservation.size,
-        startEpoch: result.needsNewReservation.startEpoch,
-        endEpoch: result.needsNewReservation.endEpoch,
-        cost: result.needsNewReservation.cost,
-        description: `Reserve ${result.needsNewReservation.size} bytes from system`,
+        reserveSize: reservation.size,
+        startEpoch: reservation.startEpoch,
+        endEpoch: reservation.endEpoch,
+        cost: reservation.cost,
+        payment: reservation.cost,
+        description: `Reserve ${reservation.size} bytes from system for epochs ${reservation.startEpoch}-${reservation.endEpoch}`,
+      });
+      pieces.push({
+        operationIndex: operations.length - 1,
+        startEpoch: reservation.startEpoch,
+        endEpoch: reservation.endEpoch,
+        size: reservation.size,
       });
     }
 
-    // Step 3: Fuse all pieces if we have multiple
-    const totalPieces =
-      result.allocations.length + (result.needsNewReservation ? 1 : 0);
-
-    if (totalPieces > 1) {
-      // All pieces have SAME epoch range (by design), so use fuse_amount
-      // Fuse all pieces into the first one
-      for (let i = 1; i < totalPieces; i++) {
+    // Step 3: Split pieces at the segment boundaries
+    const boundaries = [
+      ...new Set(pieces.flatMap((p) => [p.startEpoch, p.endEpoch])),
+    ].sort((a, b) => a - b);
+    const segments = new Map<
+      number,
+      { operationIndex: number; size: bigint }[]
+    >(boundaries.slice(0, -1).map((epoch) => [epoch, []]));
+
+    for (const piece of pieces) {
+      let current = piece.operationIndex;
+      let currentStart = piece.startEpoch;
+      for (const boundary of boundaries) {
+        if (boundary <= piece.startEpoch || boundary >= piece.endEpoch) {
+          continue;
+        }
         operations.push({
-          type: 'fuse_amount',
-          description: `Fuse piece ${i} into piece 0`,
+          type: 'split_by_epoch',
+          splitEpoch: boundary,
+          input: current,
+          description: `Split at epoch ${boundary}`,
         });
+        segments
+          .get(currentStart)!
+          .push({ operationIndex: current, size: piece.size });
+        current = operations.length - 1;
+        currentStart = boundary;
+      }
+      segments
+        .get(currentStart)!
+        .push({ operationIndex: current, size: piece.size });
+    }
+
+    // Step 4: Fuse the pieces of each segment into its first piece, up to
+    // the requested size
+    const segmentHeads: number[] = [];
+    for (const [startEpoch, segmentPieces] of segments) {
+      let head: number | undefined;
+      let missing = size;
+      for (const { operationIndex, size: pieceSize } of segmentPieces) {
+        if (missing === 0n) {
+          break;
+        }
+        // The piece keeps what's missing, the new object is the excess
+        if (pieceSize > missing) {
+          operations.push({
+            type: 'split_by_size',
+            splitSize: missing,
+            input: operationIndex,
+            description: `Split off ${pieceSize - missing} bytes not needed from epoch ${startEpoch}`,
+          });
+        }
+        missing -= pieceSize > missing ? missing : pieceSize;
+
+        if (head === undefined) {
+          head = operationIndex;
+        } else {
+          operations.push({
+            type: 'fuse_amount',
+            fuse: { first: head, second: operationIndex },
+            description: `Fuse piece ${operationIndex} into piece ${head} (from epoch ${startEpoch})`,
+          });
+        }
       }
+      segmentHeads.push(head!);
+    }
+
+    // Step 5: Fuse the segments, in epoch order, into the first one
+    const [first, ...later] = segmentHeads;
+    for (const second of later) {
+      operations.push({
+        type: 'fuse_periods',
+        fuse: { first, second },
+        description: `Fuse periods of piece ${second} into piece ${first}`,
+      });
     }
 
     this.logger.log(`Generated ${operations.length} operations`);
@@ -181,86 +718,44 @@ export class StorageOptimizerService {
   }
 
   /**
-   * SIMPLIFIED: Generate PTB metadata for frontend transaction construction
+   * Generate PTB metadata for frontend transaction construction
    *
-   * Handles only 4 operation types:
-   * - buy_full_storage / buy_partial_storage_size
-   * - reserve_space
-   * - fuse_amount
+   * Storage produced by buy, reserve and split operations is referenced by
+   * operation index; fuses modify their first target in place.
    */
-  private generatePTBMetadata(
-    result: OptimizationResult,
-    operations: any[],
-  ): PTBMetadataDto {
+  private generatePTBMetadata(operations: PlannedOperation[]): PTBMetadataDto {
     const paymentAmounts: string[] = [];
     const executionFlow: ExecutionFlowDto[] = [];
-    let paymentIndex = 0;
-
-    // Total number of storage-producing operations
-    const totalPieces =
-      result.allocations.length + (result.needsNewReservation ? 1 : 0);
-
-    for (let i = 0; i < operations.length; i++) {
-      const op = operations[i];
-
-      if (op.type === 'buy_full_storage' || op.type === 'buy_partial_storage_size') {
-        // Find the allocation that corresponds to this operation
-        const allocation = result.allocations.find(
-          (a) => a.storageObject.id === op.storageObjectId,
-        );
-
-        if (allocation) {
-          // For buy_full_storage, use the full storage object's total price
-          // For partial purchases, use the pro-rated seller payment
-          const paymentAmount =
-            op.type === 'buy_full_storage'
-              ? allocation.storageObject.price.toString()
-              : allocation.sellerPayment.toString();
-
-          paymentAmounts.push(paymentAmount);
-
-          executionFlow.push({
-            operationIndex: i,
-            type: op.type,
-            producesStorage: true,
-            storageRef: `storage_${i}`,
-            paymentIndex: paymentIndex++,
-            sellerAddress: allocation.seller,
-          });
-        }
-      } else if (op.type === 'reserve_space') {
-        // Add payment amount from the operation's cost
-        paymentAmounts.push(op.cost.toString());
-
-        executionFlow.push({
-          operationIndex: i,
-          type: op.type,
-          producesStorage: true,
-          storageRef: `storage_${i}`,
-          paymentIndex: paymentIndex++,
-        });
-      } else if (op.type === 'fuse_amount') {
-        // Fuse operations: always fuse into first piece (storage_0)
-        // The second piece index is: current_operation_index - (total_operations - total_pieces)
-        // This gives us which storage-producing operation created the piece to fuse
-
-        // Calculate which piece we're fusing
-        // If we have 3 pieces and 5 total operations (3 buys/reserves + 2 fuses):
-        // - Operation 3 (first fuse): fuses piece 1 into piece 0
-        // - Operation 4 (second fuse): fuses piece 2 into piece 0
-        const fuseIndex = i - totalPieces + 1;
 
+    operations.forEach((op, i) => {
+      if (op.type === 'fuse_amount' || op.type === 'fuse_periods') {
         executionFlow.push({
           operationIndex: i,
           type: op.type,
           producesStorage: false,
-          fuseTargets: {
-            first: 0, // Always fuse into the first piece
-            second: fuseIndex,
-          },
+          fuseTargets: op.fuse,
         });
+        return;
       }
-    }
+
+      const flow: ExecutionFlowDto = {
+        operationIndex: i,
+        type: op.type,
+        producesStorage: true,
+        storageRef: `storage_${i}`,
+      };
+      if (op.payment !== undefined) {
+        flow.paymentIndex = paymentAmounts.length;
+        paymentAmounts.push(op.payment.toString());
+      }
+      if (op.seller !== undefined) {
+        flow.sellerAddress = op.seller;
+      }
+      if (op.input !== undefined) {
+        flow.inputStorageFromOperation = op.input;
+      }
+      executionFlow.push(flow);
+    });
 
     return {
       paymentAmounts,
@@ -273,51 +768,60 @@ export class StorageOptimizerService {
    */
   private convertToDto(
     result: OptimizationResult,
-    operations: any[],
+    operations: PlannedOperation[],
     systemOnlyPrice: bigint,
   ): OptimizationResultDto {
-    const operationsDto: StorageOperationDto[] = operations.map((op) => ({
-      type: op.type,
-      description: op.description,
-      storageObjectId: op.storageObjectId,
-      splitSize: op.splitSize?.toString(),
-      reserveSize: op.reserveSize?.toString(),
-      startEpoch: op.startEpoch,
-      endEpoch: op.endEpoch,
-      cost: op.cost?.toString(),
+    const allocationsDto: AllocationDto[] = result.allocations.map((alloc) => ({
+      storageObjectId: alloc.storageObject.id,
+      usedSize: alloc.usedSize.toString(),
+      usedStartEpoch: alloc.usedStartEpoch,
+      usedEndEpoch: alloc.usedEndEpoch,
+      purchaseType: alloc.purchaseType,
+      cost: alloc.cost.toString(),
+      sellerPayment: alloc.sellerPayment.toString(),
+      seller: alloc.seller,
     }));
 
-    const allocationsDto: AllocationDto[] = result.allocations.map(
-      (alloc) => ({
-        storageObjectId: alloc.storageObject.id,
-        usedSize: alloc.usedSize.toString(),
-        usedStartEpoch: alloc.usedStartEpoch,
-        usedEndEpoch: alloc.usedEndEpoch,
-        cost: alloc.cost.toString(),
-        sellerPayment: alloc.sellerPayment.toString(),
-        seller: alloc.seller,
+    const reservationsDto: NewReservationDto[] = result.reservations.map(
+      (reservation) => ({
+        size: reservation.size.toString(),
+        startEpoch: reservation.startEpoch,
+        endEpoch: reservation.endEpoch,
+        epochs: reservation.epochs,
+        cost: reservation.cost.toString(),
       }),
     );
 
-    const needsNewReservationDto: NewReservationDto | undefined =
-      result.needsNewReservation
-        ? {
-            size: result.needsNewReservation.size.toString(),
-            epochs: result.needsNewReservation.epochs,
-            cost: result.needsNewReservation.cost.toString(),
-          }
-        : undefined;
-
     // Generate PTB metadata for frontend transaction construction
-    const ptbMetadata = this.generatePTBMetadata(result, operations);
+    const ptbMetadata = this.generatePTBMetadata(operations);
 
     return {
-      operations: operationsDto,
+      operations: this.toOperationDtos(operations),
       totalCost: result.totalCost.toString(),
       systemOnlyPrice: systemOnlyPrice.toString(),
       allocations: allocationsDto,
-      needsNewReservation: needsNewReservationDto,
+      reservations: reservationsDto,
+      needsNewReservation: reservationsDto[0],
+      solver: result.solver,
       ptbMetadata,
     };
   }
+
+  private toOperationDtos(
+    operations: PlannedOperation[],
+  ): StorageOperationDto[] {
+    return operations.map((op) => ({
+      type: op.type,
+      description: op.description,
+      storageObjectId: op.storageObjectId,
+      splitSize: op.splitSize?.toString(),
+      reserveSize: op.reserveSize?.toString(),
+      splitStartEpoch: op.splitStartEpoch,
+      splitEndEpoch: op.splitEndEpoch,
+      splitEpoch: op.splitEpoch,
+      startEpoch: op.startEpoch,
+      endEpoch: op.endEpoch,
+      cost: op.cost?.toString(),
+    }));
+  }
 }
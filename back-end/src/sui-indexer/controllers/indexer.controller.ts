@@ -2,20 +2,178 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
+  Sse,
+  Body,
   Param,
   Query,
+  Headers,
+  HttpCode,
   HttpException,
   HttpStatus,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable, map } from 'rxjs';
 import { SuiIndexerService } from '../sui-indexer.service';
 import { DatabaseOperationsService } from '../services/database-operations.service';
+import { ProjectionRebuildService } from '../services/projection-rebuild.service';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { SellerEarningsService } from '../services/seller-earnings.service';
+import { MarketAnalyticsService } from '../services/market-analytics.service';
+import { StorageLineageService } from '../services/storage-lineage.service';
+import { ActivityFeedService } from '../services/activity-feed.service';
+import { EventReplayService } from '../services/event-replay.service';
+import { MarketplaceEventStream } from '../services/marketplace-event-stream.service';
+import { SavedSearchService } from '../services/saved-search.service';
+import { WebhookDeliveryService } from '../services/webhook-delivery.service';
+import {
+  FailedEventService,
+  FailedEventStatus,
+} from '../services/failed-event.service';
 import { EventsGateway } from '../gateway/events.gateway';
+import { parseSubscriptionFilter } from '../gateway/subscription-filter';
+import {
+  LISTING_STATUSES,
+  ListingStatus,
+  ON_CHAIN_LISTING_STATUSES,
+} from '../types/marketplace-events.types';
+import {
+  LISTING_SORT_FIELDS,
+  ListingSearchFilters,
+  ListingSort,
+  ListingSortField,
+} from '../types/listing-search.types';
+import { PurchaseHistoryFilters } from '../types/purchase-history.types';
+import {
+  EARNINGS_BUCKETS,
+  EarningsBucket,
+} from '../types/seller-earnings.types';
+import {
+  TIMESERIES_INTERVALS,
+  TimeSeriesInterval,
+} from '../types/market-analytics.types';
+import {
+  ACTIVITY_KINDS,
+  ActivityFilters,
+  ActivityKind,
+} from '../types/activity-feed.types';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookDeliveryStatus,
+} from '../types/saved-search.types';
+import type { SavedSearchInput } from '../types/saved-search.types';
+
+/**
+ * Raw query parameters of GET /indexer/listings
+ */
+interface ListingSearchQuery {
+  status?: string | string[];
+  seller?: string | string[];
+  excludeSeller?: string | string[];
+  minSize?: string;
+  maxSize?: string;
+  coverStartEpoch?: string;
+  coverEndEpoch?: string;
+  maxPricePerMibPerEpoch?: string;
+  sort?: string;
+  order?: string;
+  cursor?: string;
+  limit?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/buyers/:address/purchases
+ */
+interface PurchaseHistoryQuery {
+  from?: string;
+  to?: string;
+  fromEpoch?: string;
+  toEpoch?: string;
+  cursor?: string;
+  limit?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/activity
+ */
+interface ActivityQuery {
+  address?: string;
+  kind?: string | string[];
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/events/stream
+ */
+interface EventStreamQuery {
+  type?: string | string[];
+  seller?: string | string[];
+  buyer?: string | string[];
+  storageId?: string | string[];
+  minSize?: string;
+  maxSize?: string;
+  coverStartEpoch?: string;
+  coverEndEpoch?: string;
+  lastEventId?: string; // For clients that can't set the Last-Event-ID header
+}
+
+/**
+ * Raw query parameters of GET /indexer/saved-searches/:id/deliveries
+ */
+interface WebhookDeliveryQuery {
+  status?: string;
+  cursor?: string;
+  limit?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/sellers/:address/earnings
+ */
+interface SellerEarningsQuery {
+  bucket?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/analytics/timeseries
+ */
+interface MarketTimeSeriesQuery {
+  interval?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Raw query parameters of GET /indexer/analytics/depth
+ */
+interface SupplyDepthRequestQuery {
+  fromEpoch?: string;
+  toEpoch?: string;
+  bucketEpochs?: string;
+  excludeSeller?: string | string[];
+}
 
 @Controller('indexer')
 export class IndexerController {
   constructor(
     private readonly indexerService: SuiIndexerService,
     private readonly dbOps: DatabaseOperationsService,
+    private readonly failedEventService: FailedEventService,
+    private readonly projectionRebuild: ProjectionRebuildService,
+    private readonly reconciliation: ReconciliationService,
+    private readonly sellerEarnings: SellerEarningsService,
+    private readonly marketAnalytics: MarketAnalyticsService,
+    private readonly storageLineage: StorageLineageService,
+    private readonly activityFeed: ActivityFeedService,
+    private readonly eventReplay: EventReplayService,
+    private readonly eventStream: MarketplaceEventStream,
+    private readonly savedSearches: SavedSearchService,
+    private readonly webhookDelivery: WebhookDeliveryService,
     private readonly eventsGateway: EventsGateway,
   ) {}
 
@@ -58,51 +216,244 @@ export class IndexerController {
   }
 
   /**
-   * Manually trigger indexing for an event type
+   * Manually trigger indexing of the next batch of marketplace events
+   */
+  @Post('index')
+  async indexEvents() {
+    try {
+      await this.indexerService.indexEvents();
+      return { success: true, message: 'Indexing triggered' };
+    } catch (error) {
+      throw new HttpException(
+        'Failed to index marketplace events',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Reindex marketplace events from genesis
    */
-  @Post('index/:eventType')
-  async indexEventType(@Param('eventType') eventType: string) {
+  @Post('reindex')
+  async reindex() {
     try {
-      await this.indexerService.indexEventType(eventType);
-      return { success: true, message: `Indexing triggered for ${eventType}` };
+      await this.indexerService.reindex();
+      return { success: true, message: 'Reindexing started from genesis' };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
-        `Failed to index ${eventType}`,
+        'Failed to reindex marketplace events',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   /**
-   * Reindex an event type from genesis
+   * Rebuild the listings projection from the raw event archive
    */
-  @Post('reindex/:eventType')
-  async reindexEventType(@Param('eventType') eventType: string) {
+  @Post('rebuild')
+  async rebuildListings() {
     try {
-      await this.indexerService.reindexEventType(eventType);
-      return { success: true, message: `Reindexing complete for ${eventType}` };
+      const result = await this.projectionRebuild.rebuildListedStorage();
+      return { success: true, ...result };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
-        `Failed to reindex ${eventType}`,
+        'Failed to rebuild listings',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
 
   /**
-   * Get all current listings (optionally filtered by seller)
+   * Get the reconciliation status and the latest run's report
    */
-  @Get('listings')
-  async getAllListings(
-    @Query('seller') seller?: string,
+  @Get('reconcile')
+  async getReconciliationStatus() {
+    try {
+      const latestRun = await this.reconciliation.getLatestRun();
+      return {
+        running: this.reconciliation.isRunning(),
+        latestRun,
+      };
+    } catch {
+      throw new HttpException(
+        'Failed to fetch reconciliation status',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List recent reconciliation runs
+   */
+  @Get('reconcile/runs')
+  async getReconciliationRuns(@Query('limit') limit?: string) {
+    try {
+      const limitNum = limit ? parseInt(limit, 10) : 20;
+      return await this.reconciliation.listRuns(limitNum);
+    } catch {
+      throw new HttpException(
+        'Failed to fetch reconciliation runs',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Reconcile listings against the chain now
+   * @param repair "true" to fix confirmed discrepancies
+   */
+  @Post('reconcile')
+  async reconcile(@Query('repair') repair?: string) {
+    try {
+      return await this.reconciliation.reconcile(repair === 'true');
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to reconcile listings',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List dead-lettered events (optionally filtered by status)
+   */
+  @Get('failed-events')
+  async getFailedEvents(
+    @Query('status') status?: string,
     @Query('cursor') cursor?: string,
     @Query('limit') limit?: string,
   ) {
+    if (status && !['pending', 'replayed', 'discarded'].includes(status)) {
+      throw new HttpException(
+        'status must be one of: pending, replayed, discarded',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
       const limitNum = limit ? parseInt(limit, 10) : 50;
-      const result = seller
-        ? await this.dbOps.getListingsBySeller(seller, cursor, limitNum)
-        : await this.dbOps.getAllListedStorage(cursor, limitNum);
+      const result = await this.failedEventService.listFailedEvents(
+        status as FailedEventStatus | undefined,
+        cursor,
+        limitNum,
+      );
+
+      return {
+        data: result.failedEvents,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      };
+    } catch {
+      throw new HttpException(
+        'Failed to fetch failed events',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get a dead-lettered event by ID, including the raw event and last error
+   */
+  @Get('failed-events/:id')
+  async getFailedEvent(@Param('id') id: string) {
+    try {
+      const failedEvent = await this.failedEventService.getFailedEvent(id);
+      if (!failedEvent) {
+        throw new HttpException('Failed event not found', HttpStatus.NOT_FOUND);
+      }
+      return failedEvent;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch failed event',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Replay a dead-lettered event together with the other pending events of
+   * its transaction
+   */
+  @Post('failed-events/:id/replay')
+  async replayFailedEvent(@Param('id') id: string) {
+    try {
+      const result = await this.indexerService.replayFailedEvent(id);
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to replay event: ${error instanceof Error ? error.message : String(error)}`,
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+  }
+
+  /**
+   * Discard a pending dead-lettered event
+   */
+  @Post('failed-events/:id/discard')
+  async discardFailedEvent(@Param('id') id: string) {
+    try {
+      const failedEvent = await this.failedEventService.discard(id);
+      if (!failedEvent) {
+        throw new HttpException(
+          'Pending failed event not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      return { success: true, failedEvent };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to discard event',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Search listings
+   *
+   * Query parameters (all optional; lists are comma-separated):
+   * - status: lifecycle statuses. Default: the open order book (active,
+   *   partially_filled), or with seller, every listing still on chain
+   *   (active, partially_filled, expired)
+   * - seller / excludeSeller: seller addresses to include / exclude
+   * - minSize / maxSize: size in bytes
+   * - coverStartEpoch / coverEndEpoch: listing covers these epochs
+   * - maxPricePerMibPerEpoch: FROST per MiB per epoch
+   * - sort: listedAt (default), unitPrice, size, endEpoch, totalPrice
+   * - order: asc or desc (default: desc for listedAt, otherwise asc)
+   */
+  @Get('listings')
+  async getAllListings(@Query() query: ListingSearchQuery) {
+    const filters = this.parseListingFilters(query);
+    const sort = this.parseListingSort(query);
+
+    try {
+      const limitNum = query.limit ? parseInt(query.limit, 10) : 50;
+      const result = await this.dbOps.searchListings(
+        filters,
+        sort,
+        query.cursor,
+        limitNum,
+      );
 
       return {
         data: result.listings,
@@ -139,6 +490,28 @@ export class IndexerController {
     }
   }
 
+  /**
+   * Get the split tree of a storage ID
+   */
+  @Get('listings/:storageId/lineage')
+  async getListingLineage(@Param('storageId') storageId: string) {
+    try {
+      const lineage = await this.storageLineage.getLineage(storageId);
+      if (!lineage) {
+        throw new HttpException('Listing not found', HttpStatus.NOT_FOUND);
+      }
+      return lineage;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch listing lineage',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * Get purchase history for a storage ID
    */
@@ -155,6 +528,213 @@ export class IndexerController {
     }
   }
 
+  /**
+   * Get the purchases of a buyer, newest first
+   *
+   * Query parameters (all optional):
+   * - from / to: block time range (ISO timestamps, to exclusive)
+   * - fromEpoch / toEpoch: purchased period overlaps [fromEpoch, toEpoch)
+   */
+  @Get('buyers/:address/purchases')
+  async getPurchasesByBuyer(
+    @Param('address') address: string,
+    @Query() query: PurchaseHistoryQuery,
+  ) {
+    const filters: PurchaseHistoryFilters = {
+      from: this.parseDateParam('from', query.from),
+      to: this.parseDateParam('to', query.to),
+      fromEpoch: this.parseEpochParam('fromEpoch', query.fromEpoch),
+      toEpoch: this.parseEpochParam('toEpoch', query.toEpoch),
+    };
+
+    try {
+      const limitNum = query.limit ? parseInt(query.limit, 10) : 50;
+      const result = await this.dbOps.getPurchasesByBuyer(
+        address,
+        filters,
+        query.cursor,
+        limitNum,
+      );
+
+      return {
+        data: result.purchases,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      };
+    } catch {
+      throw new HttpException(
+        'Failed to fetch purchases',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get listed, purchased and delisted events as one feed, newest first
+   *
+   * Query parameters (all optional):
+   * - address: seller of listed/delisted events, buyer or seller of purchases
+   * - kind: listed, purchased and/or delisted (comma-separated or repeated)
+   * - from / to: block time range (ISO timestamps, to exclusive)
+   * - cursor / limit: pagination (cursor is the previous page's nextCursor)
+   */
+  @Get('activity')
+  async getActivity(@Query() query: ActivityQuery) {
+    const kinds = this.parseListParam(query.kind);
+    if (
+      kinds?.some(
+        (kind) => !(ACTIVITY_KINDS as readonly string[]).includes(kind),
+      )
+    ) {
+      throw new HttpException(
+        `kind must be one of: ${ACTIVITY_KINDS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const filters: ActivityFilters = {
+      address: query.address,
+      kinds: kinds as ActivityKind[] | undefined,
+      from: this.parseDateParam('from', query.from),
+      to: this.parseDateParam('to', query.to),
+    };
+
+    try {
+      const limitNum = query.limit ? parseInt(query.limit, 10) : 50;
+      const result = await this.activityFeed.getActivity(
+        filters,
+        query.cursor,
+        limitNum,
+      );
+
+      return {
+        data: result.activity,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch activity',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Server-Sent Events stream of committed marketplace events, with the
+   * event names and payloads of the /marketplace-events WebSocket namespace
+   *
+   * Query parameters (all optional) - a subscription filter:
+   * - type: listed, purchased, delisted and/or expired
+   * - seller / buyer / storageId: comma-separated or repeated
+   * - minSize / maxSize: bytes of the listing or purchased piece
+   * - coverStartEpoch / coverEndEpoch: period covering these epochs
+   *
+   * Each message's id is the archive sequence reached. On reconnect, the
+   * Last-Event-ID header (or lastEventId parameter) replays the events
+   * missed since, followed by a "replay" summary message whose id is the
+   * last sequence scanned. A truncated replay ends the stream there, so the
+   * client reconnects and continues the replay from that id.
+   */
+  @Sse('events/stream')
+  async streamEvents(
+    @Query() query: EventStreamQuery,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+  ): Promise<Observable<MessageEvent>> {
+    const after = this.parseBigIntParam(
+      'Last-Event-ID',
+      lastEventIdHeader ?? query.lastEventId,
+    );
+    const filter = parseSubscriptionFilter({
+      eventTypes: this.parseListParam(query.type),
+      sellers: this.parseListParam(query.seller),
+      buyers: this.parseListParam(query.buyer),
+      storageIds: this.parseListParam(query.storageId),
+      minSize: query.minSize,
+      maxSize: query.maxSize,
+      coverStartEpoch: this.parseEpochParam(
+        'coverStartEpoch',
+        query.coverStartEpoch,
+      ),
+      coverEndEpoch: this.parseEpochParam('coverEndEpoch', query.coverEndEpoch),
+    });
+
+    try {
+      // Messages without a sequence of their own (expiries, replay summary)
+      // repeat the last one, so a reconnect resumes from the right place
+      let lastEventId =
+        after?.toString() ??
+        (await this.eventReplay.getLatestSequence()) ??
+        '0';
+
+      return this.eventStream.follow([filter], after).pipe(
+        map((item): MessageEvent => {
+          if (item.type === 'replay') {
+            // Events the replay scanned past didn't match the filter
+            lastEventId = item.replay.scannedTo;
+            return { type: 'replay', id: lastEventId, data: item.replay };
+          }
+          const { payload } = item;
+          if (payload.type !== 'expired' && payload.sequence !== null) {
+            lastEventId = payload.sequence;
+          }
+          return {
+            type: `storage:${payload.type}`,
+            id: lastEventId,
+            data: payload,
+          };
+        }),
+      );
+    } catch {
+      throw new HttpException(
+        'Failed to open event stream',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get the earnings of a seller: gross proceeds, marketplace fees, net
+   * proceeds, byte-epochs sold and average realised price
+   *
+   * Query parameters (all optional):
+   * - bucket: day (default), week or epoch
+   * - from / to: block time range (ISO timestamps, to exclusive)
+   */
+  @Get('sellers/:address/earnings')
+  async getSellerEarnings(
+    @Param('address') address: string,
+    @Query() query: SellerEarningsQuery,
+  ) {
+    const bucket = query.bucket ?? 'day';
+    if (!(EARNINGS_BUCKETS as readonly string[]).includes(bucket)) {
+      throw new HttpException(
+        `bucket must be one of: ${EARNINGS_BUCKETS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const filters = {
+      from: this.parseDateParam('from', query.from),
+      to: this.parseDateParam('to', query.to),
+    };
+
+    try {
+      return await this.sellerEarnings.getSellerEarnings(
+        address,
+        bucket as EarningsBucket,
+        filters,
+      );
+    } catch {
+      throw new HttpException(
+        'Failed to fetch seller earnings',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   /**
    * Get listing history for a storage ID
    */
@@ -186,4 +766,367 @@ export class IndexerController {
       );
     }
   }
+
+  /**
+   * Get OHLC prices (per MiB per epoch), traded volume and newly listed
+   * supply over time
+   *
+   * Query parameters (all optional):
+   * - interval: hour, day (default) or epoch
+   * - from / to: block time range (ISO timestamps, to exclusive; defaults to
+   *   the last 7 days, 90 days or 30 epochs)
+   */
+  @Get('analytics/timeseries')
+  async getMarketTimeSeries(@Query() query: MarketTimeSeriesQuery) {
+    const interval = query.interval ?? 'day';
+    if (!(TIMESERIES_INTERVALS as readonly string[]).includes(interval)) {
+      throw new HttpException(
+        `interval must be one of: ${TIMESERIES_INTERVALS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const range = {
+      from: this.parseDateParam('from', query.from),
+      to: this.parseDateParam('to', query.to),
+    };
+
+    try {
+      return await this.marketAnalytics.getMarketTimeSeries(
+        interval as TimeSeriesInterval,
+        range,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch market time series',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Get the storage available per future epoch and its cumulative cost
+   * curve, cheapest listing first
+   *
+   * Query parameters (all optional):
+   * - fromEpoch / toEpoch: epoch range (toEpoch exclusive; defaults to the
+   *   current epoch and the last epoch covered by a listing)
+   * - bucketEpochs: epochs per bucket (default: 1)
+   * - excludeSeller: sellers to leave out (comma-separated or repeated)
+   */
+  @Get('analytics/depth')
+  async getSupplyDepth(@Query() query: SupplyDepthRequestQuery) {
+    const depthQuery = {
+      fromEpoch: this.parseEpochParam('fromEpoch', query.fromEpoch),
+      toEpoch: this.parseEpochParam('toEpoch', query.toEpoch),
+      bucketEpochs: this.parseEpochParam('bucketEpochs', query.bucketEpochs),
+      excludeSellers: this.parseListParam(query.excludeSeller),
+    };
+
+    try {
+      return await this.marketAnalytics.getSupplyDepth(depthQuery);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch supply depth',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Register a saved search - listings matching it are POSTed to its
+   * webhook URL. The response carries the webhook signing secret, which is
+   * not returned again.
+   */
+  @Post('saved-searches')
+  async createSavedSearch(@Body() body: SavedSearchInput) {
+    try {
+      return await this.savedSearches.createSearch(body ?? {});
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to create saved search',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * List saved searches, optionally of one owner
+   */
+  @Get('saved-searches')
+  async getSavedSearches(@Query('owner') owner?: string) {
+    try {
+      return await this.savedSearches.listSearches(owner);
+    } catch {
+      throw new HttpException(
+        'Failed to fetch saved searches',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('saved-searches/:id')
+  async getSavedSearch(@Param('id') id: string) {
+    try {
+      const search = await this.savedSearches.getSearch(id);
+      if (!search) {
+        throw new HttpException('Saved search not found', HttpStatus.NOT_FOUND);
+      }
+      return search;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch saved search',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Update the criteria, webhook URL or active flag of a saved search
+   */
+  @Patch('saved-searches/:id')
+  async updateSavedSearch(
+    @Param('id') id: string,
+    @Body() body: SavedSearchInput,
+  ) {
+    try {
+      const search = await this.savedSearches.updateSearch(id, body ?? {});
+      if (!search) {
+        throw new HttpException('Saved search not found', HttpStatus.NOT_FOUND);
+      }
+      return search;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to update saved search',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Delete a saved search and its delivery log
+   */
+  @Delete('saved-searches/:id')
+  async deleteSavedSearch(@Param('id') id: string) {
+    try {
+      if (!(await this.savedSearches.deleteSearch(id))) {
+        throw new HttpException('Saved search not found', HttpStatus.NOT_FOUND);
+      }
+      return { success: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to delete saved search',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Webhook delivery log of a saved search, newest first
+   *
+   * Query parameters (all optional):
+   * - status: pending, delivered or failed
+   * - cursor / limit: pagination (cursor is the previous page's nextCursor)
+   */
+  @Get('saved-searches/:id/deliveries')
+  async getWebhookDeliveries(
+    @Param('id') id: string,
+    @Query() query: WebhookDeliveryQuery,
+  ) {
+    if (
+      query.status &&
+      !(WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(query.status)
+    ) {
+      throw new HttpException(
+        `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const limitNum = query.limit ? parseInt(query.limit, 10) : 50;
+      const result = await this.savedSearches.getDeliveries(
+        id,
+        query.status as WebhookDeliveryStatus | undefined,
+        query.cursor,
+        limitNum,
+      );
+
+      return {
+        data: result.deliveries,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      };
+    } catch {
+      throw new HttpException(
+        'Failed to fetch webhook deliveries',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Queue a failed webhook delivery for another round of attempts
+   */
+  @Post('saved-searches/:id/deliveries/:deliveryId/retry')
+  async retryWebhookDelivery(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    try {
+      if (!(await this.webhookDelivery.retryDelivery(id, deliveryId))) {
+        throw new HttpException(
+          'Failed delivery not found',
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      return { success: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to retry webhook delivery',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * Send a signed "ping" to the saved search's webhook URL and report the
+   * response - for checking a receiver before alerts arrive
+   */
+  @Post('saved-searches/:id/test')
+  @HttpCode(HttpStatus.OK)
+  async testWebhook(@Param('id') id: string) {
+    try {
+      const result = await this.webhookDelivery.sendTestPing(id);
+      if (!result) {
+        throw new HttpException('Saved search not found', HttpStatus.NOT_FOUND);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to send test webhook',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private parseListingFilters(query: ListingSearchQuery): ListingSearchFilters {
+    const statuses = this.parseListParam(query.status);
+    const invalid = statuses?.filter(
+      (value) => !(LISTING_STATUSES as readonly string[]).includes(value),
+    );
+    if (invalid?.length) {
+      throw new HttpException(
+        `status must be one of: ${LISTING_STATUSES.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const sellers = this.parseListParam(query.seller);
+    return {
+      statuses:
+        (statuses as ListingStatus[] | undefined) ??
+        (sellers ? ON_CHAIN_LISTING_STATUSES : undefined),
+      sellers,
+      excludeSellers: this.parseListParam(query.excludeSeller),
+      minSize: this.parseBigIntParam('minSize', query.minSize),
+      maxSize: this.parseBigIntParam('maxSize', query.maxSize),
+      coverStartEpoch: this.parseEpochParam(
+        'coverStartEpoch',
+        query.coverStartEpoch,
+      ),
+      coverEndEpoch: this.parseEpochParam('coverEndEpoch', query.coverEndEpoch),
+      maxPricePerMibPerEpoch: this.parseBigIntParam(
+        'maxPricePerMibPerEpoch',
+        query.maxPricePerMibPerEpoch,
+      ),
+    };
+  }
+
+  private parseListingSort(query: ListingSearchQuery): ListingSort {
+    const field = query.sort ?? 'listedAt';
+    if (!(LISTING_SORT_FIELDS as readonly string[]).includes(field)) {
+      throw new HttpException(
+        `sort must be one of: ${LISTING_SORT_FIELDS.join(', ')}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const order = query.order ?? (field === 'listedAt' ? 'desc' : 'asc');
+    if (order !== 'asc' && order !== 'desc') {
+      throw new HttpException(
+        'order must be asc or desc',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return { field: field as ListingSortField, order };
+  }
+
+  /**
+   * Accepts comma-separated values and repeated parameters
+   */
+  private parseListParam(value?: string | string[]): string[] | undefined {
+    const values = [value ?? []]
+      .flat()
+      .flatMap((item) => item.split(','))
+      .map((item) => item.trim())
+      .filter(Boolean);
+    return values.length ? values : undefined;
+  }
+
+  private parseBigIntParam(name: string, value?: string): bigint | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+      throw new HttpException(
+        `${name} must be a non-negative integer`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return BigInt(value);
+  }
+
+  private parseEpochParam(name: string, value?: string): number | undefined {
+    const epoch = this.parseBigIntParam(name, value);
+    return epoch === undefined ? undefined : Number(epoch);
+  }
+
+  private parseDateParam(name: string, value?: string): Date | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpException(
+        `${name} must be an ISO timestamp`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return date;
+  }
 }
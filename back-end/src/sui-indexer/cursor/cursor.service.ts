@@ -1,11 +1,33 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
 
 export interface EventId {
   eventSeq: string;
   txDigest: string;
 }
 
+/**
+ * Cursor covering every event struct the original package version defines in
+ * the marketplace module.
+ * Rows keyed "marketplace::EventName" are legacy per-event-type cursors.
+ */
+export const MARKETPLACE_CURSOR_ID = 'marketplace';
+
+/**
+ * Cursor of the event stream of one package version
+ * The original package keeps the "marketplace" cursor; upgrades that define
+ * new event structs get "marketplace@<packageId>".
+ */
+export function getStreamCursorId(
+  packageId: string,
+  originalPackageId: string,
+): string {
+  return packageId === originalPackageId
+    ? MARKETPLACE_CURSOR_ID
+    : `${MARKETPLACE_CURSOR_ID}@${packageId}`;
+}
+
 @Injectable()
 export class CursorService {
   private readonly logger = new Logger(CursorService.name);
@@ -13,8 +35,8 @@ export class CursorService {
   constructor(private readonly prisma: PrismaService) {}
 
   /**
-   * Get the latest cursor for an event type
-   * @param eventType Format: "marketplace::EventName"
+   * Get the latest cursor
+   * @param eventType Format: "marketplace" or legacy "marketplace::EventName"
    * @returns EventId cursor or null if not found
    */
   async getLatestCursor(eventType: string): Promise<EventId | null> {
@@ -41,13 +63,18 @@ export class CursorService {
   }
 
   /**
-   * Save the latest cursor for an event type
-   * @param eventType Format: "marketplace::EventName"
+   * Save the latest cursor
+   * @param eventType Format: "marketplace" or legacy "marketplace::EventName"
    * @param cursor EventId with eventSeq and txDigest
+   * @param tx Optional transaction client to save atomically with projections
    */
-  async saveLatestCursor(eventType: string, cursor: EventId): Promise<void> {
+  async saveLatestCursor(
+    eventType: string,
+    cursor: EventId,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
     try {
-      await this.prisma.eventCursor.upsert({
+      await tx.eventCursor.upsert({
         where: { id: eventType },
         update: {
           eventSeq: cursor.eventSeq,
@@ -68,11 +95,14 @@ export class CursorService {
   }
 
   /**
-   * Delete cursor for an event type (for reindexing)
+   * Delete a cursor (for reindexing or retiring legacy cursors)
    */
-  async deleteCursor(eventType: string): Promise<void> {
+  async deleteCursor(
+    eventType: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
     try {
-      await this.prisma.eventCursor.delete({
+      await tx.eventCursor.delete({
         where: { id: eventType },
       });
       this.logger.log(`Cursor deleted for ${eventType}`);
@@ -0,0 +1,106 @@
+import { Namespace, Socket } from 'socket.io';
+import { EventsGateway } from './events.gateway';
+import {
+  EventReplayService,
+  ReplayResult,
+} from '../services/event-replay.service';
+import { MarketplaceEventStream } from '../services/marketplace-event-stream.service';
+import { StorageDelistedPayload } from '../types/marketplace-events.types';
+
+describe('EventsGateway.handleSubscribe', () => {
+  const delisted = (sequence: string): StorageDelistedPayload => ({
+    type: 'delisted',
+    storageId: `0x${sequence}`,
+    seller: '0xseller',
+    txDigest: `tx-${sequence}`,
+    eventSeq: '0',
+    blockTime: null,
+    sequence,
+    listing: null,
+    removed: true,
+  });
+
+  let client: { id: string; rooms: Set<string>; emit: jest.Mock };
+  let getEventsAfter: jest.Mock;
+  let gateway: EventsGateway;
+
+  beforeEach(() => {
+    const rooms = new Set(['client-1']);
+    client = {
+      id: 'client-1',
+      rooms,
+      emit: jest.fn(),
+      join: jest.fn((room: string) => rooms.add(room)),
+      leave: jest.fn((room: string) => rooms.delete(room)),
+    } as typeof client;
+    getEventsAfter = jest.fn();
+
+    gateway = new EventsGateway(
+      { getEventsAfter } as unknown as EventReplayService,
+      {} as MarketplaceEventStream,
+    );
+    gateway.server = {
+      to: () => ({ except: () => ({ emit: jest.fn() }) }),
+      sockets: new Map([[client.id, client]]),
+    } as unknown as Namespace;
+  });
+
+  // Replay two events, with a live event committed while it runs
+  const replay = (truncated: boolean, live: StorageDelistedPayload) =>
+    getEventsAfter.mockImplementation((): Promise<ReplayResult> => {
+      gateway.broadcastEvent(live);
+      return Promise.resolve({
+        events: [delisted('11'), delisted('12')],
+        scannedTo: '15',
+        truncated,
+      });
+    });
+
+  const subscribe = () =>
+    gateway.handleSubscribe(
+      { lastSequence: '10' },
+      client as unknown as Socket,
+    );
+
+  const emitted = () =>
+    (client.emit.mock.calls as [string, StorageDelistedPayload][]).map(
+      ([, payload]) => payload.sequence,
+    );
+
+  it('sends live events held back during the replay after it', async () => {
+    replay(false, delisted('16'));
+
+    const ack = await subscribe();
+
+    expect(emitted()).toEqual(['11', '12', '16']);
+    expect(ack.subscriptions).toHaveLength(1);
+    expect(ack.replay).toEqual({
+      events: 2,
+      scannedTo: '15',
+      truncated: false,
+    });
+  });
+
+  it('drops live events the replay already covered', async () => {
+    replay(false, delisted('14'));
+
+    await subscribe();
+
+    expect(emitted()).toEqual(['11', '12']);
+  });
+
+  it('unsubscribes the client instead of skipping past a truncated replay', async () => {
+    replay(true, delisted('40'));
+
+    const ack = await subscribe();
+
+    expect(emitted()).toEqual(['11', '12']);
+    expect(ack).toEqual({
+      success: true,
+      subscriptions: [],
+      replay: { events: 2, scannedTo: '15', truncated: true },
+    });
+    // Left every subscription room, so later live events don't reach it
+    expect([...client.rooms]).toEqual(['client-1']);
+  });
+});
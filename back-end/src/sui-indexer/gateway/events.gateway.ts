@@ -3,22 +3,60 @@ import {
   WebSocketServer,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   SubscribeMessage,
   MessageBody,
   ConnectedSocket,
+  WsException,
 } from '@nestjs/websockets';
-import { Logger } from '@nestjs/common';
-import { Server, Socket } from 'socket.io';
+import { BadRequestException, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Namespace, Socket } from 'socket.io';
+import { Subscription } from 'rxjs';
+import {
+  MarketplaceEventPayload,
+  StorageDelistedPayload,
+  StorageExpiredPayload,
+  StorageListedPayload,
+  StoragePurchasedPayload,
+  SUBSCRIPTION_EVENT_TYPES,
+  SubscriptionFilter,
+} from '../types/marketplace-events.types';
+import { EventReplayService } from '../services/event-replay.service';
+import { MarketplaceEventStream } from '../services/marketplace-event-stream.service';
+import {
+  getSubscriptionRoom,
+  matchesSubscriptionFilter,
+  parseSubscriptionFilter,
+} from './subscription-filter';
+
+const MAX_FILTERS_PER_CLIENT = 20;
+
+/**
+ * Clients catching up on missed events - live events are held back from
+ * them until their replay has been sent
+ */
+const REPLAYING_ROOM = 'replaying';
+
+interface SubscribeRequest {
+  filters?: unknown[]; // SubscriptionFilter[]
+  lastSequence?: string; // Resume after this archive sequence
+}
 
 /**
  * WebSocket Gateway for real-time marketplace events
  *
- * Events emitted:
- * - storage:listed - When storage is listed
- * - storage:purchased - When storage is purchased
- * - storage:delisted - When storage is delisted
+ * Events emitted (from MarketplaceEventStream, after the indexer commits the
+ * projection):
+ * - storage:listed - When storage is listed (StorageListedPayload)
+ * - storage:purchased - When storage is purchased (StoragePurchasedPayload)
+ * - storage:delisted - When storage is delisted (StorageDelistedPayload)
+ * - storage:expired - When a listing reaches its end epoch, published by the
+ *   expiry sweeper (StorageExpiredPayload)
  *
- * Clients can subscribe to specific event types or all events
+ * Each distinct subscription filter is a socket.io room shared by every
+ * client that subscribed with it; an event is emitted once to the union of
+ * matching rooms, so a client with overlapping filters receives it once.
+ * Clients join the unfiltered room on connect.
  */
 @WebSocketGateway({
   cors: {
@@ -26,56 +64,157 @@ import { Server, Socket } from 'socket.io';
   },
   namespace: '/marketplace-events',
 })
-export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class EventsGateway
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
+{
   @WebSocketServer()
-  server: Server;
+  server: Namespace;
 
   private readonly logger = new Logger(EventsGateway.name);
-  private readonly subscriptions = new Map<string, Set<string>>();
+  private readonly rooms = new Map<string, SubscriptionFilter>(); // Room -> filter
+  private readonly replayBuffers = new Map<string, MarketplaceEventPayload[]>(); // Client -> live events held back
+
+  private eventsSubscription?: Subscription;
 
-  handleConnection(client: Socket) {
+  constructor(
+    private readonly eventReplay: EventReplayService,
+    private readonly eventStream: MarketplaceEventStream,
+  ) {}
+
+  afterInit(server: Namespace) {
+    // Forget filters once their last client has left
+    server.adapter.on('delete-room', (room: string) => {
+      this.rooms.delete(room);
+    });
+
+    this.eventsSubscription = this.eventStream
+      .observe()
+      .subscribe((payload) => this.broadcastEvent(payload));
+  }
+
+  onModuleDestroy() {
+    this.eventsSubscription?.unsubscribe();
+  }
+
+  async handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
-    this.subscriptions.set(client.id, new Set(['all'])); // Subscribe to all by default
+    await this.joinFilters(client, [{}]); // Subscribe to all by default
   }
 
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
-    this.subscriptions.delete(client.id);
+    this.replayBuffers.delete(client.id);
   }
 
   /**
-   * Subscribe to specific event types
-   * @param eventTypes Array of event types: ['listed', 'purchased', 'delisted', 'all']
+   * Replace the client's subscriptions
+   *
+   * Accepts a single filter, { filters: [...] }, or the legacy
+   * { eventTypes: [...] }. With lastSequence, events committed after it are
+   * replayed before live events resume. A truncated replay leaves the client
+   * without subscriptions; it subscribes again from the replay's scannedTo.
    */
   @SubscribeMessage('subscribe')
-  handleSubscribe(
-    @MessageBody() data: { eventTypes: string[] },
+  async handleSubscribe(
+    @MessageBody() data: (SubscriptionFilter & SubscribeRequest) | undefined,
     @ConnectedSocket() client: Socket,
   ) {
-    const eventTypes = data.eventTypes || ['all'];
-    this.subscriptions.set(client.id, new Set(eventTypes));
-    this.logger.log(
-      `Client ${client.id} subscribed to: ${eventTypes.join(', ')}`,
-    );
-    return { success: true, subscriptions: eventTypes };
+    const { filters: rawFilters, lastSequence, ...single } = data ?? {};
+    const filters = this.parseFilters(rawFilters ?? [single]);
+    const after = this.parseSequence(lastSequence);
+
+    if (after === undefined) {
+      const subscriptions = await this.joinFilters(client, filters);
+      this.logger.log(
+        `Client ${client.id} subscribed to ${subscriptions.length} filter(s)`,
+      );
+      return { success: true, subscriptions };
+    }
+
+    // Hold live events back while the missed ones are sent
+    this.replayBuffers.set(client.id, []);
+    await client.join(REPLAYING_ROOM);
+    try {
+      const subscriptions = await this.joinFilters(client, filters);
+      const replay = await this.eventReplay.getEventsAfter(after, filters);
+
+      for (const payload of replay.events) {
+        client.emit(`storage:${payload.type}`, payload);
+      }
+      const summary = {
+        events: replay.events.length,
+        scannedTo: replay.scannedTo,
+        truncated: replay.truncated,
+      };
+
+      // Live events past the gap would move the client beyond events it
+      // never received: unsubscribe it, to resume from scannedTo
+      if (replay.truncated) {
+        await this.joinFilters(client, []);
+        this.logger.log(
+          `Client ${client.id} replayed ${replay.events.length} event(s) after ${after}, truncated at ${replay.scannedTo}`,
+        );
+        return { success: true, subscriptions: [], replay: summary };
+      }
+
+      // Live events the replay already covered are dropped
+      const scannedTo = BigInt(replay.scannedTo);
+      for (const payload of this.replayBuffers.get(client.id) ?? []) {
+        const sequence = payload.type === 'expired' ? null : payload.sequence;
+        if (sequence === null || BigInt(sequence) > scannedTo) {
+          client.emit(`storage:${payload.type}`, payload);
+        }
+      }
+
+      this.logger.log(
+        `Client ${client.id} subscribed to ${subscriptions.length} filter(s), replayed ${replay.events.length} event(s) after ${after}`,
+      );
+      return { success: true, subscriptions, replay: summary };
+    } finally {
+      this.replayBuffers.delete(client.id);
+      await client.leave(REPLAYING_ROOM);
+    }
   }
 
   /**
-   * Unsubscribe from specific event types
+   * Leave the given subscriptions, or all of them
+   *
+   * The legacy { eventTypes: [...] } removes those types from every filter.
    */
   @SubscribeMessage('unsubscribe')
-  handleUnsubscribe(
-    @MessageBody() data: { eventTypes: string[] },
+  async handleUnsubscribe(
+    @MessageBody()
+    data: { subscriptionIds?: string[]; eventTypes?: string[] } | undefined,
     @ConnectedSocket() client: Socket,
   ) {
-    const subs = this.subscriptions.get(client.id);
-    if (subs) {
-      data.eventTypes.forEach((type) => subs.delete(type));
-      this.logger.log(
-        `Client ${client.id} unsubscribed from: ${data.eventTypes.join(', ')}`,
-      );
+    const current = this.getClientRooms(client);
+
+    if (data?.eventTypes) {
+      const removed = new Set(data.eventTypes);
+      const narrowed = current
+        .map(({ filter }) => {
+          const eventTypes = (
+            filter.eventTypes ?? [...SUBSCRIPTION_EVENT_TYPES]
+          )
+            .filter((type) => !removed.has(type) && !removed.has('all'))
+            .sort();
+          return { ...filter, eventTypes };
+        })
+        .filter((filter) => filter.eventTypes.length > 0);
+      await this.joinFilters(client, narrowed);
+    } else {
+      const ids = data?.subscriptionIds ?? current.map(({ id }) => id);
+      for (const id of ids) {
+        await client.leave(id);
+      }
     }
-    return { success: true };
+
+    this.logger.log(`Client ${client.id} unsubscribed`);
+    return { success: true, subscriptions: this.getClientRooms(client) };
   }
 
   /**
@@ -83,71 +222,166 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
    */
   @SubscribeMessage('getSubscriptions')
   handleGetSubscriptions(@ConnectedSocket() client: Socket) {
-    const subs = this.subscriptions.get(client.id);
-    return { subscriptions: subs ? Array.from(subs) : [] };
+    return { subscriptions: this.getClientRooms(client) };
+  }
+
+  /**
+   * Broadcast a committed marketplace event to its subscribers
+   */
+  broadcastEvent(payload: MarketplaceEventPayload) {
+    switch (payload.type) {
+      case 'listed':
+        this.broadcastStorageListed(payload);
+        break;
+      case 'purchased':
+        this.broadcastStoragePurchased(payload);
+        break;
+      case 'delisted':
+        this.broadcastStorageDelisted(payload);
+        break;
+      case 'expired':
+        this.broadcastStorageExpired(payload);
+        break;
+    }
   }
 
   /**
    * Broadcast storage listed event
    */
-  broadcastStorageListed(data: any) {
-    this.broadcast('storage:listed', 'listed', data);
+  broadcastStorageListed(data: StorageListedPayload) {
+    this.broadcast('storage:listed', data);
   }
 
   /**
    * Broadcast storage purchased event
    */
-  broadcastStoragePurchased(data: any) {
-    this.broadcast('storage:purchased', 'purchased', data);
+  broadcastStoragePurchased(data: StoragePurchasedPayload) {
+    this.broadcast('storage:purchased', data);
   }
 
   /**
    * Broadcast storage delisted event
    */
-  broadcastStorageDelisted(data: any) {
-    this.broadcast('storage:delisted', 'delisted', data);
+  broadcastStorageDelisted(data: StorageDelistedPayload) {
+    this.broadcast('storage:delisted', data);
   }
 
   /**
-   * Generic broadcast helper
+   * Broadcast storage expired event
    */
-  private broadcast(eventName: string, eventType: string, data: any) {
-    // Get all connected clients
-    const clients = Array.from(this.subscriptions.entries());
-
-    // Filter clients subscribed to this event type or 'all'
-    const targetClients = clients
-      .filter(([_, subs]) => subs.has(eventType) || subs.has('all'))
-      .map(([clientId]) => clientId);
-
-    // Broadcast to target clients
-    targetClients.forEach((clientId) => {
-      this.server.to(clientId).emit(eventName, data);
-    });
+  broadcastStorageExpired(data: StorageExpiredPayload) {
+    this.broadcast('storage:expired', data);
+  }
+
+  /**
+   * Emit to every room whose filter matches - socket.io delivers once per
+   * client across rooms
+   */
+  private broadcast(eventName: string, data: MarketplaceEventPayload) {
+    const targetRooms = Array.from(this.rooms.entries())
+      .filter(([, filter]) => matchesSubscriptionFilter(filter, data))
+      .map(([room]) => room);
+    if (targetRooms.length === 0) {
+      return;
+    }
+
+    this.server.to(targetRooms).except(REPLAYING_ROOM).emit(eventName, data);
+
+    // Queue for clients still receiving their replay
+    for (const [clientId, buffer] of this.replayBuffers) {
+      const clientRooms = this.server.sockets.get(clientId)?.rooms;
+      if (clientRooms && targetRooms.some((room) => clientRooms.has(room))) {
+        buffer.push(data);
+      }
+    }
 
     this.logger.debug(
-      `📡 Broadcasted ${eventName} to ${targetClients.length} clients`,
+      `📡 Broadcasted ${eventName} to ${targetRooms.length} rooms`,
     );
   }
 
   /**
-   * Get connection stats
+   * Move the client from its current subscription rooms to those of the
+   * given filters
+   */
+  private async joinFilters(
+    client: Socket,
+    filters: SubscriptionFilter[],
+  ): Promise<{ id: string; filter: SubscriptionFilter }[]> {
+    const targets = new Map(
+      filters.map((filter) => [getSubscriptionRoom(filter), filter]),
+    );
+
+    for (const { id } of this.getClientRooms(client)) {
+      if (!targets.has(id)) {
+        await client.leave(id);
+      }
+    }
+    for (const [room, filter] of targets) {
+      this.rooms.set(room, filter);
+      await client.join(room);
+    }
+
+    return this.getClientRooms(client);
+  }
+
+  private getClientRooms(
+    client: Socket,
+  ): { id: string; filter: SubscriptionFilter }[] {
+    return Array.from(client.rooms)
+      .filter((room) => this.rooms.has(room))
+      .map((room) => ({ id: room, filter: this.rooms.get(room)! }));
+  }
+
+  private parseFilters(rawFilters: unknown[]): SubscriptionFilter[] {
+    if (!Array.isArray(rawFilters) || rawFilters.length === 0) {
+      throw new WsException('filters must be a non-empty array');
+    }
+    if (rawFilters.length > MAX_FILTERS_PER_CLIENT) {
+      throw new WsException(
+        `At most ${MAX_FILTERS_PER_CLIENT} filters per client`,
+      );
+    }
+    try {
+      return rawFilters.map((raw) => parseSubscriptionFilter(raw));
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw new WsException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private parseSequence(value: unknown): bigint | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const text = typeof value === 'number' ? String(value) : value;
+    if (typeof text !== 'string' || !/^\d+$/.test(text)) {
+      throw new WsException('lastSequence must be a non-negative integer');
+    }
+    return BigInt(text);
+  }
+
+  /**
+   * Get connection stats - clients per subscribed event type ('all' for
+   * filters without an event type criterion)
    */
   getStats() {
-    const totalClients = this.subscriptions.size;
+    const totalClients = this.server.sockets.size;
     const subscriptionCounts = {
       all: 0,
       listed: 0,
       purchased: 0,
       delisted: 0,
+      expired: 0,
     };
 
-    this.subscriptions.forEach((subs) => {
-      subs.forEach((sub) => {
-        if (subscriptionCounts[sub] !== undefined) {
-          subscriptionCounts[sub]++;
-        }
-      });
+    this.rooms.forEach((filter, room) => {
+      const clients = this.server.adapter.rooms.get(room)?.size ?? 0;
+      for (const type of filter.eventTypes ?? ['all' as const]) {
+        subscriptionCounts[type] += clients;
+      }
     });
 
     return {
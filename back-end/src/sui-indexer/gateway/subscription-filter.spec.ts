@@ -0,0 +1,160 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  getSubscriptionRoom,
+  matchesSubscriptionFilter,
+  parseSubscriptionFilter,
+} from './subscription-filter';
+import {
+  StorageDelistedPayload,
+  StorageListedPayload,
+  StoragePurchasedPayload,
+} from '../types/marketplace-events.types';
+
+describe('parseSubscriptionFilter', () => {
+  it('normalizes lists so equal filters share a room', () => {
+    const a = parseSubscriptionFilter({
+      sellers: ['0xB', '0xa', '0xb'],
+      eventTypes: ['purchased', 'listed'],
+    });
+    const b = parseSubscriptionFilter({
+      eventTypes: ['listed', 'purchased'],
+      sellers: ['0xa', '0xB'],
+    });
+
+    expect(a).toEqual({
+      eventTypes: ['listed', 'purchased'],
+      sellers: ['0xa', '0xb'],
+    });
+    expect(getSubscriptionRoom(a)).toBe(getSubscriptionRoom(b));
+    expect(getSubscriptionRoom(a)).not.toBe(getSubscriptionRoom({}));
+  });
+
+  it("treats 'all' and a missing filter as every event type", () => {
+    expect(parseSubscriptionFilter({ eventTypes: ['listed', 'all'] })).toEqual(
+      {},
+    );
+    expect(parseSubscriptionFilter(undefined)).toEqual({});
+  });
+
+  it('accepts sizes as numbers or digit strings', () => {
+    expect(parseSubscriptionFilter({ minSize: 1024, maxSize: '2048' })).toEqual(
+      { minSize: '1024', maxSize: '2048' },
+    );
+  });
+
+  it.each([
+    ['a non-object filter', ['listed']],
+    ['an unknown event type', { eventTypes: ['sold'] }],
+    ['an empty list', { sellers: [] }],
+    ['too many values', { sellers: Array.from({ length: 101 }, String) }],
+    ['a negative size', { minSize: '-1' }],
+    ['minSize above maxSize', { minSize: '10', maxSize: '9' }],
+    ['a fractional epoch', { coverStartEpoch: 1.5 }],
+  ])('rejects %s', (_, raw) => {
+    expect(() => parseSubscriptionFilter(raw)).toThrow(BadRequestException);
+  });
+});
+
+describe('matchesSubscriptionFilter', () => {
+  const base = {
+    storageId: '0xStorage',
+    txDigest: 'tx',
+    eventSeq: '0',
+    blockTime: null,
+    sequence: '1',
+  };
+
+  // 1 MiB for epochs 10-50
+  const listed: StorageListedPayload = {
+    ...base,
+    type: 'listed',
+    seller: '0xSeller',
+    listing: {
+      storageId: '0xStorage',
+      seller: '0xSeller',
+      pricePerSizePerEpoch: '1000',
+      size: '1048576',
+      startEpoch: 10,
+      endEpoch: 50,
+      totalPrice: '40000',
+    },
+    removed: false,
+  };
+
+  // 512 KiB for epochs 20-30 of it
+  const purchased: StoragePurchasedPayload = {
+    ...base,
+    type: 'purchased',
+    buyer: '0xBuyer',
+    seller: '0xSeller',
+    amountPaid: '5000',
+    purchaseType: 'partial_epoch',
+    purchasedSize: '524288',
+    purchasedStartEpoch: 20,
+    purchasedEndEpoch: 30,
+    listing: null,
+    removed: true,
+  };
+
+  const delisted: StorageDelistedPayload = {
+    ...base,
+    type: 'delisted',
+    seller: '0xSeller',
+    listing: null,
+    removed: true,
+  };
+
+  it('matches addresses case-insensitively', () => {
+    const filter = parseSubscriptionFilter({
+      sellers: ['0xSELLER'],
+      storageIds: ['0xstorage'],
+    });
+
+    expect(matchesSubscriptionFilter(filter, listed)).toBe(true);
+    expect(matchesSubscriptionFilter(filter, delisted)).toBe(true);
+  });
+
+  it('only delivers purchases to buyer filters', () => {
+    const filter = parseSubscriptionFilter({ buyers: ['0xbuyer'] });
+
+    expect(matchesSubscriptionFilter(filter, purchased)).toBe(true);
+    expect(matchesSubscriptionFilter(filter, listed)).toBe(false);
+    expect(matchesSubscriptionFilter(filter, delisted)).toBe(false);
+  });
+
+  it('applies size and period to the listing or the purchased piece', () => {
+    const covering = parseSubscriptionFilter({
+      minSize: '1048576',
+      coverStartEpoch: 10,
+      coverEndEpoch: 50,
+    });
+
+    expect(matchesSubscriptionFilter(covering, listed)).toBe(true);
+    expect(matchesSubscriptionFilter(covering, purchased)).toBe(false);
+    expect(matchesSubscriptionFilter({ coverStartEpoch: 20 }, purchased)).toBe(
+      true,
+    );
+    expect(matchesSubscriptionFilter({ coverStartEpoch: 19 }, purchased)).toBe(
+      false,
+    );
+    expect(matchesSubscriptionFilter({ maxSize: '524287' }, purchased)).toBe(
+      false,
+    );
+  });
+
+  it('lets delists through size and period criteria', () => {
+    expect(
+      matchesSubscriptionFilter(
+        { minSize: '1073741824', coverEndEpoch: 1000 },
+        delisted,
+      ),
+    ).toBe(true);
+  });
+
+  it('filters by event type', () => {
+    const filter = parseSubscriptionFilter({ eventTypes: ['delisted'] });
+
+    expect(matchesSubscriptionFilter(filter, delisted)).toBe(true);
+    expect(matchesSubscriptionFilter(filter, listed)).toBe(false);
+  });
+});
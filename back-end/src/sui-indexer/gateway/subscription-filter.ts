@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { BadRequestException } from '@nestjs/common';
+import {
+  MarketplaceEventPayload,
+  SUBSCRIPTION_EVENT_TYPES,
+  SubscriptionEventType,
+  SubscriptionFilter,
+} from '../types/marketplace-events.types';
+
+const MAX_FILTER_VALUES = 100;
+
+/**
+ * Validate and normalize a subscription filter sent by a client
+ *
+ * Lists are deduplicated and sorted, addresses and object IDs lowercased, so
+ * equal filters share a room. The legacy 'all' event type means every type.
+ * Shared by the WebSocket gateway and the SSE endpoint.
+ */
+export function parseSubscriptionFilter(raw: unknown): SubscriptionFilter {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new BadRequestException('Subscription filter must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const filter: SubscriptionFilter = {};
+
+  const eventTypes = parseList(input.eventTypes, 'eventTypes');
+  if (eventTypes && !eventTypes.includes('all')) {
+    for (const type of eventTypes) {
+      if (!SUBSCRIPTION_EVENT_TYPES.includes(type as SubscriptionEventType)) {
+        throw new BadRequestException(
+          `Invalid event type "${type}". Allowed: ${SUBSCRIPTION_EVENT_TYPES.join(', ')}, all`,
+        );
+      }
+    }
+    filter.eventTypes = eventTypes as SubscriptionEventType[];
+  }
+
+  const sellers = parseList(input.sellers, 'sellers');
+  if (sellers) filter.sellers = sellers;
+  const buyers = parseList(input.buyers, 'buyers');
+  if (buyers) filter.buyers = buyers;
+  const storageIds = parseList(input.storageIds, 'storageIds');
+  if (storageIds) filter.storageIds = storageIds;
+
+  const minSize = parseSize(input.minSize, 'minSize');
+  if (minSize !== undefined) filter.minSize = minSize;
+  const maxSize = parseSize(input.maxSize, 'maxSize');
+  if (maxSize !== undefined) filter.maxSize = maxSize;
+  if (
+    filter.minSize !== undefined &&
+    filter.maxSize !== undefined &&
+    BigInt(filter.minSize) > BigInt(filter.maxSize)
+  ) {
+    throw new BadRequestException('minSize must not exceed maxSize');
+  }
+
+  const coverStartEpoch = parseEpoch(input.coverStartEpoch, 'coverStartEpoch');
+  if (coverStartEpoch !== undefined) filter.coverStartEpoch = coverStartEpoch;
+  const coverEndEpoch = parseEpoch(input.coverEndEpoch, 'coverEndEpoch');
+  if (coverEndEpoch !== undefined) filter.coverEndEpoch = coverEndEpoch;
+
+  return filter;
+}
+
+/**
+ * Whether a payload is delivered to subscribers of the filter
+ *
+ * Size and epoch criteria apply to the listed storage or the purchased
+ * piece; delisted and expired events have neither and always pass them.
+ */
+export function matchesSubscriptionFilter(
+  filter: SubscriptionFilter,
+  payload: MarketplaceEventPayload,
+): boolean {
+  if (filter.eventTypes && !filter.eventTypes.includes(payload.type)) {
+    return false;
+  }
+  if (
+    filter.storageIds &&
+    !filter.storageIds.includes(payload.storageId.toLowerCase())
+  ) {
+    return false;
+  }
+  if (
+    filter.sellers &&
+    !filter.sellers.includes(payload.seller.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.buyers) {
+    if (
+      payload.type !== 'purchased' ||
+      !filter.buyers.includes(payload.buyer.toLowerCase())
+    ) {
+      return false;
+    }
+  }
+
+  let storage: { size: string; startEpoch: number; endEpoch: number };
+  switch (payload.type) {
+    case 'listed':
+      storage = payload.listing;
+      break;
+    case 'purchased':
+      storage = {
+        size: payload.purchasedSize,
+        startEpoch: payload.purchasedStartEpoch,
+        endEpoch: payload.purchasedEndEpoch,
+      };
+      break;
+    default:
+      return true;
+  }
+
+  const size = BigInt(storage.size);
+  if (filter.minSize !== undefined && size < BigInt(filter.minSize)) {
+    return false;
+  }
+  if (filter.maxSize !== undefined && size > BigInt(filter.maxSize)) {
+    return false;
+  }
+  if (
+    filter.coverStartEpoch !== undefined &&
+    storage.startEpoch > filter.coverStartEpoch
+  ) {
+    return false;
+  }
+  if (
+    filter.coverEndEpoch !== undefined &&
+    storage.endEpoch < filter.coverEndEpoch
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Room shared by every client with an identical (normalized) filter
+ */
+export function getSubscriptionRoom(filter: SubscriptionFilter): string {
+  const canonical = JSON.stringify([
+    filter.eventTypes ?? null,
+    filter.sellers ?? null,
+    filter.buyers ?? null,
+    filter.storageIds ?? null,
+    filter.minSize ?? null,
+    filter.maxSize ?? null,
+    filter.coverStartEpoch ?? null,
+    filter.coverEndEpoch ?? null,
+  ]);
+  const hash = createHash('sha1').update(canonical).digest('hex');
+  return `sub:${hash.slice(0, 16)}`;
+}
+
+function parseList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((item) => typeof item === 'string' && item.length > 0)
+  ) {
+    throw new BadRequestException(
+      `${name} must be a non-empty array of strings`,
+    );
+  }
+  if (value.length > MAX_FILTER_VALUES) {
+    throw new BadRequestException(
+      `${name} accepts at most ${MAX_FILTER_VALUES} values`,
+    );
+  }
+  return [
+    ...new Set((value as string[]).map((item) => item.toLowerCase())),
+  ].sort();
+}
+
+function parseSize(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d+$/.test(text)) {
+    throw new BadRequestException(
+      `${name} must be a non-negative integer (bytes)`,
+    );
+  }
+  return BigInt(text).toString();
+}
+
+function parseEpoch(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new BadRequestException(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SuiEvent } from '@mysten/sui/client';
+import { Prisma } from '../../../generated/prisma';
 import { DatabaseOperationsService } from '../services/database-operations.service';
 import {
   StorageDelistedDto,
   StorageDelistedInsertData,
+  StorageDelistedPayload,
 } from '../types/marketplace-events.types';
 
 @Injectable()
@@ -14,8 +16,13 @@ export class StorageDelistedHandler {
 
   /**
    * Handle StorageDelisted event
+   * @returns Payload to broadcast once the transaction commits, or null if
+   * the event was already applied
    */
-  async handle(event: SuiEvent): Promise<void> {
+  async handle(
+    event: SuiEvent,
+    tx: Prisma.TransactionClient,
+  ): Promise<StorageDelistedPayload | null> {
     try {
       const parsedContent = event.parsedJson as StorageDelistedDto;
 
@@ -31,17 +38,33 @@ export class StorageDelistedHandler {
         seller: parsedContent.seller,
         txDigest: event.id.txDigest,
         eventSeq: event.id.eventSeq,
+        packageId: event.packageId,
         blockTime: event.timestampMs
           ? new Date(Number(event.timestampMs))
           : undefined,
       };
 
       // Process the event
-      await this.dbOps.processStorageDelisted(data);
+      const applied = await this.dbOps.processStorageDelisted(data, tx);
+      if (!applied) {
+        return null;
+      }
 
       this.logger.debug(
         `✅ StorageDelisted handled: ${data.storageId} by ${data.seller}`,
       );
+
+      return {
+        type: 'delisted',
+        storageId: data.storageId,
+        seller: data.seller,
+        txDigest: data.txDigest,
+        eventSeq: data.eventSeq,
+        blockTime: data.blockTime?.toISOString() ?? null,
+        sequence: null, // Set by the indexer from the archive
+        listing: null,
+        removed: true,
+      };
     } catch (error) {
       this.logger.error('Error handling StorageDelisted event:', error);
       throw error;
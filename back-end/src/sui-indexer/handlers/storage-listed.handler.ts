@@ -1,8 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SuiEvent } from '@mysten/sui/client';
+import { Prisma } from '../../../generated/prisma';
 import { DatabaseOperationsService } from '../services/database-operations.service';
+import { SavedSearchService } from '../services/saved-search.service';
 import {
   StorageListedDto,
+  StorageListedPayload,
   StorageListedUpsertData,
 } from '../types/marketplace-events.types';
 
@@ -10,12 +13,20 @@ import {
 export class StorageListedHandler {
   private readonly logger = new Logger(StorageListedHandler.name);
 
-  constructor(private readonly dbOps: DatabaseOperationsService) {}
+  constructor(
+    private readonly dbOps: DatabaseOperationsService,
+    private readonly savedSearches: SavedSearchService,
+  ) {}
 
   /**
    * Handle StorageListed event
+   * @returns Payload to broadcast once the transaction commits, or null if
+   * the event was already applied
    */
-  async handle(event: SuiEvent): Promise<void> {
+  async handle(
+    event: SuiEvent,
+    tx: Prisma.TransactionClient,
+  ): Promise<StorageListedPayload | null> {
     try {
       const parsedContent = event.parsedJson as StorageListedDto;
 
@@ -36,17 +47,44 @@ export class StorageListedHandler {
         totalPrice: BigInt(parsedContent.total_price),
         txDigest: event.id.txDigest,
         eventSeq: event.id.eventSeq,
+        packageId: event.packageId,
         blockTime: event.timestampMs
           ? new Date(Number(event.timestampMs))
           : undefined,
       };
 
       // Process the event
-      await this.dbOps.processStorageListed(data);
+      const applied = await this.dbOps.processStorageListed(data, tx);
+      if (!applied) {
+        return null;
+      }
+
+      // Alert matching saved searches once this transaction commits
+      await this.savedSearches.enqueueAlerts(data, tx);
 
       this.logger.debug(
         `✅ StorageListed handled: ${data.storageId} by ${data.seller}`,
       );
+
+      return {
+        type: 'listed',
+        storageId: data.storageId,
+        seller: data.seller,
+        txDigest: data.txDigest,
+        eventSeq: data.eventSeq,
+        blockTime: data.blockTime?.toISOString() ?? null,
+        sequence: null, // Set by the indexer from the archive
+        listing: {
+          storageId: data.storageId,
+          seller: data.seller,
+          pricePerSizePerEpoch: data.pricePerSizePerEpoch.toString(),
+          size: data.size.toString(),
+          startEpoch: data.startEpoch,
+          endEpoch: data.endEpoch,
+          totalPrice: data.totalPrice.toString(),
+        },
+        removed: false,
+      };
     } catch (error) {
       this.logger.error('Error handling StorageListed event:', error);
       throw error;
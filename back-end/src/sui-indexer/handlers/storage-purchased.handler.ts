@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SuiEvent } from '@mysten/sui/client';
+import { Prisma } from '../../../generated/prisma';
 import { DatabaseOperationsService } from '../services/database-operations.service';
 import {
   StoragePurchasedDto,
   StoragePurchasedInsertData,
+  StoragePurchasedPayload,
 } from '../types/marketplace-events.types';
 
 @Injectable()
@@ -14,8 +16,13 @@ export class StoragePurchasedHandler {
 
   /**
    * Handle StoragePurchased event
+   * @returns Payload to broadcast once the transaction commits, or null if
+   * the event was already applied
    */
-  async handle(event: SuiEvent): Promise<void> {
+  async handle(
+    event: SuiEvent,
+    tx: Prisma.TransactionClient,
+  ): Promise<StoragePurchasedPayload | null> {
     try {
       const parsedContent = event.parsedJson as StoragePurchasedDto;
 
@@ -37,17 +44,39 @@ export class StoragePurchasedHandler {
         purchasedEndEpoch: parsedContent.purchased_end_epoch,
         txDigest: event.id.txDigest,
         eventSeq: event.id.eventSeq,
+        packageId: event.packageId,
         blockTime: event.timestampMs
           ? new Date(Number(event.timestampMs))
           : undefined,
       };
 
       // Process the event
-      await this.dbOps.processStoragePurchased(data);
+      const outcome = await this.dbOps.processStoragePurchased(data, tx);
+      if (!outcome) {
+        return null;
+      }
 
       this.logger.debug(
         `✅ StoragePurchased handled: ${data.storageId} (${data.purchaseType}) by ${data.buyer}`,
       );
+
+      return {
+        type: 'purchased',
+        storageId: data.storageId,
+        buyer: data.buyer,
+        seller: data.seller,
+        amountPaid: data.amountPaid.toString(),
+        purchaseType: data.purchaseType,
+        purchasedSize: data.purchasedSize.toString(),
+        purchasedStartEpoch: data.purchasedStartEpoch,
+        purchasedEndEpoch: data.purchasedEndEpoch,
+        txDigest: data.txDigest,
+        eventSeq: data.eventSeq,
+        blockTime: data.blockTime?.toISOString() ?? null,
+        sequence: null, // Set by the indexer from the archive
+        listing: null,
+        removed: outcome.listingSold,
+      };
     } catch (error) {
       this.logger.error('Error handling StoragePurchased event:', error);
       throw error;
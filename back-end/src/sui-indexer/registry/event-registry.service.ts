@@ -1,11 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SuiEvent } from '@mysten/sui/client';
+import { Prisma } from '../../../generated/prisma';
+import { MarketplaceEventPayload } from '../types/marketplace-events.types';
 
 /**
  * Event handler function type
- * Processes a single Sui event and returns success status
+ * Projects a single Sui event inside the transaction of the Sui transaction
+ * that emitted it and returns the payload to broadcast after commit, or null
+ * if the event was already applied
  */
-export type EventHandler = (event: SuiEvent) => Promise<void>;
+export type EventHandler = (
+  event: SuiEvent,
+  tx: Prisma.TransactionClient,
+) => Promise<MarketplaceEventPayload | null>;
+
+/**
+ * Sui event paired with its registered event type
+ */
+export interface RegisteredEvent {
+  eventType: string; // Format: "marketplace::EventName"
+  event: SuiEvent;
+}
 
 /**
  * Event handler registration
@@ -13,7 +28,7 @@ export type EventHandler = (event: SuiEvent) => Promise<void>;
 export interface EventHandlerRegistration {
   eventType: string; // Format: "marketplace::EventName"
   handler: EventHandler;
-  fullEventType: string; // Full package event type for filtering
+  fullEventTypes: string[]; // Full event type per package version, oldest first
 }
 
 @Injectable()
@@ -23,19 +38,26 @@ export class EventRegistryService {
 
   /**
    * Register an event handler
-   * @param packageId The Sui package ID
+   *
+   * A struct keeps the ID of the package version that first defined it across
+   * upgrades, so the handler is registered for the event type of every
+   * version: later versions can only add new event structs.
+   *
+   * @param packageIds The Sui package IDs, original first, then each upgrade
    * @param moduleName The module name (e.g., "marketplace")
    * @param eventName The event struct name (e.g., "StorageListed")
    * @param handler The handler function
    */
   registerHandler(
-    packageId: string,
+    packageIds: string[],
     moduleName: string,
     eventName: string,
     handler: EventHandler,
   ): void {
     const eventType = `${moduleName}::${eventName}`;
-    const fullEventType = `${packageId}::${moduleName}::${eventName}`;
+    const fullEventTypes = packageIds.map(
+      (packageId) => `${packageId}::${moduleName}::${eventName}`,
+    );
 
     if (this.handlers.has(eventType)) {
       this.logger.warn(
@@ -46,7 +68,7 @@ export class EventRegistryService {
     this.handlers.set(eventType, {
       eventType,
       handler,
-      fullEventType,
+      fullEventTypes,
     });
 
     this.logger.log(`✅ Registered handler for ${eventType}`);
@@ -74,10 +96,23 @@ export class EventRegistryService {
   }
 
   /**
-   * Get full event type for filtering (includes package ID)
+   * Get the full event types for filtering (one per package version)
    */
-  getFullEventType(eventType: string): string | undefined {
-    return this.handlers.get(eventType)?.fullEventType;
+  getFullEventTypes(eventType: string): string[] {
+    return this.handlers.get(eventType)?.fullEventTypes ?? [];
+  }
+
+  /**
+   * Resolve a full on-chain event type (e.g. "0x...::marketplace::StorageListed")
+   * to its registered event type
+   */
+  getEventTypeFor(fullEventType: string): string | undefined {
+    for (const registration of this.handlers.values()) {
+      if (registration.fullEventTypes.includes(fullEventType)) {
+        return registration.eventType;
+      }
+    }
+    return undefined;
   }
 
   /**
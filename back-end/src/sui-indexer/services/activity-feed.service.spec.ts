@@ -0,0 +1,133 @@
+import { BadRequestException } from '@nestjs/common';
+import { ActivityFeedService } from './activity-feed.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+
+describe('ActivityFeedService', () => {
+  const row = (txDigest: string, eventSeq: string, blockTime: string) => ({
+    kind: 'purchased',
+    rowId: `${txDigest}-${eventSeq}`,
+    storageId: '0xstorage',
+    seller: '0x1111111111111111',
+    buyer: '0x2222222222222222',
+    size: '10485760',
+    startEpoch: 12,
+    endEpoch: 40,
+    amount: '1250000000',
+    purchaseType: 'partial_epoch',
+    txDigest,
+    eventSeq,
+    blockTime: new Date(blockTime),
+  });
+
+  let queries: Prisma.Sql[];
+  let rows: unknown[];
+  let service: ActivityFeedService;
+
+  beforeEach(() => {
+    queries = [];
+    rows = [];
+    const prisma = {
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          queries.push(Prisma.sql(strings, ...values));
+          return Promise.resolve(rows);
+        },
+      ),
+    };
+    service = new ActivityFeedService(prisma as unknown as PrismaService);
+  });
+
+  it('pages newest first and resumes after the last item', async () => {
+    // One block, as Postgres orders it: by txDigest, then eventSeq numerically
+    rows = [
+      row('tx-b', '0', '2025-12-01T10:00:00Z'),
+      row('tx-a', '10', '2025-12-01T10:00:00Z'),
+      row('tx-a', '9', '2025-12-01T10:00:00Z'),
+    ];
+
+    const first = await service.getActivity({}, undefined, 2);
+
+    expect(queries[0].sql).toContain(
+      'ORDER BY "blockTime" DESC, "txDigest" DESC, "eventSeq"::int DESC',
+    );
+    expect(queries[0].values[queries[0].values.length - 1]).toBe(3);
+    expect(first.activity.map((item) => item.txDigest)).toEqual([
+      'tx-b',
+      'tx-a',
+    ]);
+    expect(first.hasMore).toBe(true);
+
+    rows = [];
+    await service.getActivity({}, first.nextCursor!, 2);
+
+    // Every event table continues strictly after (blockTime, txDigest, eventSeq)
+    const keyset =
+      '(e."blockTime", e."txDigest", e."eventSeq"::int) < (?, ?, ?)';
+    expect(queries[1].sql.split(keyset)).toHaveLength(4);
+    expect(queries[1].values).toEqual(
+      expect.arrayContaining([new Date('2025-12-01T10:00:00Z'), 'tx-a', 10]),
+    );
+  });
+
+  it('ends without a cursor on the last page', async () => {
+    rows = [row('tx-a', '0', '2025-12-01T10:00:00Z')];
+
+    const page = await service.getActivity({}, undefined, 2);
+
+    expect(page.nextCursor).toBeNull();
+    expect(page.hasMore).toBe(false);
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-a-cursor'],
+    [
+      'a non-numeric eventSeq',
+      Buffer.from(
+        JSON.stringify(['2025-12-01T10:00:00.000Z', 'tx-a', '1; --']),
+      ).toString('base64url'),
+    ],
+    [
+      'an invalid date',
+      Buffer.from(JSON.stringify(['yesterday', 'tx-a', '1'])).toString(
+        'base64url',
+      ),
+    ],
+  ])('rejects a cursor with %s', async (_, cursor) => {
+    await expect(service.getActivity({}, cursor)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(queries).toHaveLength(0);
+  });
+
+  it('leaves out the delist and re-list of a partial purchase', async () => {
+    await service.getActivity();
+
+    const [listed, purchased, delisted] = queries[0].sql.split(' UNION ALL ');
+    const splitOfPurchase = 'WHERE p."txDigest" = e."txDigest"';
+    expect(listed).toContain(splitOfPurchase);
+    expect(purchased).not.toContain(splitOfPurchase);
+    expect(delisted).toContain(splitOfPurchase);
+  });
+
+  it('queries only the requested kinds and address', async () => {
+    await service.getActivity({ kinds: ['purchased'], address: '0xme' });
+
+    expect(queries[0].sql).not.toContain('UNION ALL');
+    expect(queries[0].sql).toContain('(e."buyer" = ? OR e."seller" = ?)');
+    expect(queries[0].values).toEqual(expect.arrayContaining(['0xme', '0xme']));
+  });
+
+  it('summarizes each event', async () => {
+    rows = [row('tx-a', '0', '2025-12-01T10:00:00Z')];
+
+    const {
+      activity: [item],
+    } = await service.getActivity();
+
+    expect(item.id).toBe('purchased:tx-a-0');
+    expect(item.summary).toBe(
+      '0x2222…2222 bought 10 MiB for epochs 12-40 from 0x1111…1111 for 1.25 WAL (partial)',
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import {
+  ACTIVITY_KINDS,
+  ActivityFilters,
+  ActivityItem,
+  ActivityKind,
+} from '../types/activity-feed.types';
+
+const FROST_PER_WAL = 1_000_000_000n;
+const BYTES_PER_MIB = 1_048_576n;
+
+/**
+ * Whether a listed/delisted event (alias "e") was emitted by a purchase of
+ * the seller's storage in the same transaction
+ */
+const SPLIT_OF_PURCHASE = Prisma.sql`EXISTS (
+  SELECT 1 FROM "storage_purchased_events" p
+  WHERE p."txDigest" = e."txDigest" AND p."seller" = e."seller"
+)`;
+
+/**
+ * Event history row as returned by Postgres (BigInt values as text)
+ */
+interface ActivityRow {
+  kind: ActivityKind;
+  rowId: string;
+  storageId: string;
+  seller: string;
+  buyer: string | null;
+  size: string | null;
+  startEpoch: number | null;
+  endEpoch: number | null;
+  amount: string | null;
+  purchaseType: string | null;
+  txDigest: string;
+  eventSeq: string;
+  blockTime: Date;
+}
+
+/**
+ * Position of the last item of a page: events are ordered by
+ * (blockTime, txDigest, eventSeq), newest first
+ */
+type ActivityCursor = [blockTime: string, txDigest: string, eventSeq: string];
+
+/**
+ * Unified feed of listed, purchased and delisted events, from the event
+ * history tables
+ *
+ * A partial purchase emits StorageDelisted + StorageListed (remainders) +
+ * StoragePurchased; the feed shows it as the purchase alone, so the delist
+ * and re-list of the seller in a purchase transaction are left out.
+ */
+@Injectable()
+export class ActivityFeedService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getActivity(
+    filters: ActivityFilters = {},
+    cursor?: string,
+    limit: number = 50,
+  ) {
+    const after = cursor ? this.decodeCursor(cursor) : undefined;
+    const kinds = filters.kinds ?? [...ACTIVITY_KINDS];
+
+    const queries = kinds.map((kind) => {
+      switch (kind) {
+        case 'listed':
+          return Prisma.sql`
+            SELECT 'listed' AS "kind", e."id" AS "rowId", e."storageId", e."seller", NULL AS "buyer",
+              e."size"::text AS "size", e."startEpoch", e."endEpoch", e."totalPrice"::text AS "amount",
+              NULL AS "purchaseType", e."txDigest", e."eventSeq", e."blockTime"
+            FROM "storage_listed_events" e
+            WHERE ${this.buildConditions(filters, after, Prisma.sql`e."seller" = ${filters.address}`)}
+              AND NOT ${SPLIT_OF_PURCHASE}
+          `;
+        case 'purchased':
+          return Prisma.sql`
+            SELECT 'purchased' AS "kind", e."id" AS "rowId", e."storageId", e."seller", e."buyer",
+              e."purchasedSize"::text AS "size", e."purchasedStartEpoch" AS "startEpoch",
+              e."purchasedEndEpoch" AS "endEpoch", e."amountPaid"::text AS "amount",
+              e."purchaseType", e."txDigest", e."eventSeq", e."blockTime"
+            FROM "storage_purchased_events" e
+            WHERE ${this.buildConditions(filters, after, Prisma.sql`(e."buyer" = ${filters.address} OR e."seller" = ${filters.address})`)}
+          `;
+        case 'delisted':
+          // Size and period of the listing that was withdrawn
+          return Prisma.sql`
+            SELECT 'delisted' AS "kind", e."id" AS "rowId", e."storageId", e."seller", NULL AS "buyer",
+              listing."size"::text AS "size", listing."startEpoch", listing."endEpoch",
+              listing."totalPrice"::text AS "amount", NULL AS "purchaseType",
+              e."txDigest", e."eventSeq", e."blockTime"
+            FROM "storage_delisted_events" e
+            LEFT JOIN LATERAL (
+              SELECT l."size", l."startEpoch", l."endEpoch", l."totalPrice"
+              FROM "storage_listed_events" l
+              WHERE l."storageId" = e."storageId" AND l."blockTime" <= e."blockTime"
+              ORDER BY l."blockTime" DESC, l."eventSeq"::int DESC
+              LIMIT 1
+            ) listing ON true
+            WHERE ${this.buildConditions(filters, after, Prisma.sql`e."seller" = ${filters.address}`)}
+              AND NOT ${SPLIT_OF_PURCHASE}
+          `;
+      }
+    });
+
+    const rows = await this.prisma.$queryRaw<ActivityRow[]>`
+      SELECT * FROM (${Prisma.join(queries, ' UNION ALL ')}) activity
+      ORDER BY "blockTime" DESC, "txDigest" DESC, "eventSeq"::int DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      activity: page.map((row) => this.toActivityItem(row)),
+      nextCursor: hasMore ? this.encodeCursor(last) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Filters shared by every event table (alias "e")
+   */
+  private buildConditions(
+    filters: ActivityFilters,
+    after: ActivityCursor | undefined,
+    addressCondition: Prisma.Sql,
+  ): Prisma.Sql {
+    const conditions = [Prisma.sql`TRUE`];
+
+    if (filters.address) {
+      conditions.push(addressCondition);
+    }
+    if (filters.from) {
+      conditions.push(Prisma.sql`e."blockTime" >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(Prisma.sql`e."blockTime" < ${filters.to}`);
+    }
+    if (after) {
+      const [blockTime, txDigest, eventSeq] = after;
+      conditions.push(
+        Prisma.sql`(e."blockTime", e."txDigest", e."eventSeq"::int) < (${new Date(blockTime)}, ${txDigest}, ${Number(eventSeq)})`,
+      );
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private encodeCursor(row: ActivityRow): string {
+    const cursor: ActivityCursor = [
+      row.blockTime.toISOString(),
+      row.txDigest,
+      row.eventSeq,
+    ];
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): ActivityCursor {
+    try {
+      const decoded: unknown = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString(),
+      );
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 3 &&
+        decoded.every((part) => typeof part === 'string') &&
+        !isNaN(new Date(decoded[0]).getTime()) &&
+        /^\d+$/.test(decoded[2])
+      ) {
+        return decoded as ActivityCursor;
+      }
+    } catch {
+      // Fall through
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  private toActivityItem(row: ActivityRow): ActivityItem {
+    return {
+      id: `${row.kind}:${row.rowId}`,
+      kind: row.kind,
+      storageId: row.storageId,
+      seller: row.seller,
+      buyer: row.buyer,
+      size: row.size,
+      startEpoch: row.startEpoch,
+      endEpoch: row.endEpoch,
+      amount: row.amount,
+      purchaseType: row.purchaseType,
+      txDigest: row.txDigest,
+      eventSeq: row.eventSeq,
+      blockTime: row.blockTime,
+      summary: this.summarize(row),
+    };
+  }
+
+  /**
+   * e.g. "0x1a2b…9f0e bought 10 MiB for epochs 12-40 from 0x3c4d…7a8b for 1.25 WAL"
+   */
+  private summarize(row: ActivityRow): string {
+    const storage =
+      row.size !== null
+        ? `${this.formatSize(row.size)} for epochs ${row.startEpoch}-${row.endEpoch}`
+        : `storage ${this.shortAddress(row.storageId)}`;
+    const price = row.amount !== null ? this.formatWal(row.amount) : null;
+
+    switch (row.kind) {
+      case 'listed':
+        return `${this.shortAddress(row.seller)} listed ${storage} at ${price}`;
+      case 'purchased':
+        return `${this.shortAddress(row.buyer ?? '')} bought ${storage} from ${this.shortAddress(row.seller)} for ${price}${row.purchaseType !== 'full' ? ' (partial)' : ''}`;
+      case 'delisted':
+        return `${this.shortAddress(row.seller)} delisted ${storage}`;
+    }
+  }
+
+  private shortAddress(address: string): string {
+    return address.length > 12
+      ? `${address.slice(0, 6)}…${address.slice(-4)}`
+      : address;
+  }
+
+  private formatSize(bytes: string): string {
+    const mib = (BigInt(bytes) + BYTES_PER_MIB - 1n) / BYTES_PER_MIB;
+    return `${mib.toLocaleString('en-US')} MiB`;
+  }
+
+  private formatWal(frost: string): string {
+    const amount = BigInt(frost);
+    const fraction = (amount % FROST_PER_WAL)
+      .toString()
+      .padStart(9, '0')
+      .replace(/0+$/, '');
+    return `${amount / FROST_PER_WAL}${fraction ? `.${fraction}` : ''} WAL`;
+  }
+}
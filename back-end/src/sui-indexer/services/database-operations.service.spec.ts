@@ -0,0 +1,587 @@
+import { DatabaseOperationsService } from './database-operations.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WalrusService } from '../../walrus/walrus.service';
+import { Prisma } from '../../../generated/prisma';
+import { OptimizerCandidate } from '../types/listing-search.types';
+
+describe('DatabaseOperationsService.streamOptimizerCandidates', () => {
+  // Order book as returned by the candidate query: cheapest first
+  const book = Array.from({ length: 120 }, (_, i) => ({
+    id: `listing-${String(i).padStart(3, '0')}`,
+    storageId: `0x${i.toString(16)}`,
+    seller: '0xseller',
+    pricePerSizePerEpoch: BigInt(1_000_000 + i),
+    size: 1_048_576n,
+    startEpoch: 10,
+    endEpoch: 60,
+    totalPrice: 0n,
+  }));
+
+  let queries: Prisma.Sql[];
+  let service: DatabaseOperationsService;
+
+  beforeEach(() => {
+    queries = [];
+    const prisma = {
+      // Serve pages of the book in order
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const sql = Prisma.sql(strings, ...values);
+          const offset = queries.length * 50;
+          queries.push(sql);
+          return Promise.resolve(book.slice(offset, offset + 50));
+        },
+      ),
+    };
+    const walrus = {
+      getSystemState: jest.fn().mockResolvedValue({ epoch: 5n }),
+    };
+    service = new DatabaseOperationsService(
+      prisma as unknown as PrismaService,
+      walrus as unknown as WalrusService,
+    );
+  });
+
+  const query = { startEpoch: 20, endEpoch: 30 };
+
+  it('pages through more than one batch of listings', async () => {
+    const candidates: OptimizerCandidate[] = [];
+    for await (const candidate of service.streamOptimizerCandidates(
+      query,
+      50,
+    )) {
+      candidates.push(candidate);
+    }
+
+    expect(candidates.map((c) => c.id)).toEqual(book.map((l) => l.id));
+    expect(queries).toHaveLength(3);
+
+    // Each page continues after the last row of the previous one
+    expect(queries[1].values).toEqual(
+      expect.arrayContaining([book[49].pricePerSizePerEpoch, book[49].id]),
+    );
+    expect(queries[2].values).toEqual(
+      expect.arrayContaining([book[99].pricePerSizePerEpoch, book[99].id]),
+    );
+  });
+
+  it('pushes the overlap filter and price ceiling into the query', async () => {
+    const candidates = service.streamOptimizerCandidates(
+      { ...query, maxPricePerSizePerEpoch: 123_000_000_000n },
+      50,
+    );
+    await candidates.next();
+
+    expect(queries[0].values).toEqual(
+      expect.arrayContaining([30, 20, 5, 123_000_000_000n]),
+    );
+    expect(queries[0].sql).toContain('"pricePerSizePerEpoch" <');
+  });
+
+  it('stops querying once the consumer stops reading', async () => {
+    let read = 0;
+    for await (const candidate of service.streamOptimizerCandidates(
+      query,
+      50,
+    )) {
+      read++;
+      if (candidate.id === book[9].id) break;
+    }
+
+    expect(read).toBe(10);
+    expect(queries).toHaveLength(1);
+  });
+});
+
+type Row = Record<string, unknown>;
+
+// Rows match a Prisma-style where: equality, or `in` for lists
+const matches = (row: Row, where: Row = {}) =>
+  Object.entries(where).every(([key, value]) =>
+    value !== null && typeof value === 'object' && 'in' in value
+      ? (value.in as unknown[]).includes(row[key])
+      : row[key] === value,
+  );
+
+// In-memory stand-in for the tables a projection touches
+const createTransaction = () => {
+  const tables: Record<string, Row[]> = {};
+  const table = (name: string) => {
+    const rows = (tables[name] ??= []);
+    return {
+      createMany: ({ data }: { data: Row | Row[] }) => {
+        const created = (Array.isArray(data) ? data : [data]).filter(
+          (row) =>
+            !rows.some(
+              (r) =>
+                r.txDigest !== undefined &&
+                r.txDigest === row.txDigest &&
+                r.eventSeq === row.eventSeq,
+            ),
+        );
+        rows.push(...created);
+        return Promise.resolve({ count: created.length });
+      },
+      findMany: ({ where }: { where?: Row }) =>
+        Promise.resolve(rows.filter((row) => matches(row, where))),
+      upsert: ({
+        where,
+        update,
+        create,
+      }: {
+        where: Row;
+        update: Row;
+        create: Row;
+      }) => {
+        const row = rows.find((r) => matches(r, where));
+        if (row) {
+          Object.assign(row, update);
+        } else {
+          rows.push({ status: 'active', ...create });
+        }
+        return Promise.resolve(row);
+      },
+      update: ({ where, data }: { where: Row; data: Row }) => {
+        const row = rows.find((r) => matches(r, where));
+        if (!row) {
+          return Promise.reject(new Error('Record to update not found'));
+        }
+        return Promise.resolve(Object.assign(row, data));
+      },
+      updateMany: ({ where, data }: { where: Row; data: Row }) => {
+        const updated = rows.filter((row) => matches(row, where));
+        updated.forEach((row) => Object.assign(row, data));
+        return Promise.resolve({ count: updated.length });
+      },
+    };
+  };
+
+  return {
+    tables,
+    tx: {
+      listedStorage: table('listedStorage'),
+      storageListedEvent: table('storageListedEvent'),
+      storageDelistedEvent: table('storageDelistedEvent'),
+      storagePurchasedEvent: table('storagePurchasedEvent'),
+      storageLineage: table('storageLineage'),
+    } as unknown as Prisma.TransactionClient,
+  };
+};
+
+describe('DatabaseOperationsService projection of partial purchases', () => {
+  const P = '0xparent';
+  const seller = '0xseller';
+  const buyer = '0xbuyer';
+
+  let service: DatabaseOperationsService;
+  let tables: Record<string, Row[]>;
+  let tx: Prisma.TransactionClient;
+
+  const listed = (
+    storageId: string,
+    startEpoch: number,
+    endEpoch: number,
+    txDigest: string,
+    eventSeq: string,
+  ) =>
+    service.processStorageListed(
+      {
+        storageId,
+        seller,
+        pricePerSizePerEpoch: 1_000_000_000n,
+        size: 1_048_576n,
+        startEpoch,
+        endEpoch,
+        totalPrice: 1_048_576n * BigInt(endEpoch - startEpoch),
+        txDigest,
+        eventSeq,
+        packageId: '0xpackage',
+      },
+      tx,
+    );
+
+  const delisted = (storageId: string, txDigest: string, eventSeq: string) =>
+    service.processStorageDelisted(
+      { storageId, seller, txDigest, eventSeq, packageId: '0xpackage' },
+      tx,
+    );
+
+  const purchased = (
+    purchaseType: string,
+    startEpoch: number,
+    endEpoch: number,
+    txDigest: string,
+    eventSeq: string,
+  ) =>
+    service.processStoragePurchased(
+      {
+        storageId: P,
+        buyer,
+        seller,
+        amountPaid: 1n,
+        purchaseType,
+        purchasedSize: 1_048_576n,
+        purchasedStartEpoch: startEpoch,
+        purchasedEndEpoch: endEpoch,
+        txDigest,
+        eventSeq,
+        packageId: '0xpackage',
+      },
+      tx,
+    );
+
+  const listing = (storageId: string) =>
+    tables.listedStorage.find((row) => row.storageId === storageId);
+
+  beforeEach(async () => {
+    ({ tables, tx } = createTransaction());
+    service = new DatabaseOperationsService(
+      {} as PrismaService,
+      {} as WalrusService,
+    );
+    await listed(P, 10, 60, 'list', '0');
+  });
+
+  it('keeps the start remainder re-listed under the purchased ID', async () => {
+    // partial_epoch from the middle to the end: split_by_epoch leaves the
+    // start remainder in P, and the contract re-lists it as P
+    await delisted(P, 'buy', '0');
+    await listed(P, 10, 20, 'buy', '1');
+    const outcome = await purchased('partial_epoch', 20, 60, 'buy', '2');
+
+    expect(outcome).toEqual({ listingSold: false });
+    expect(listing(P)).toEqual(
+      expect.objectContaining({
+        status: 'partially_filled',
+        startEpoch: 10,
+        endEpoch: 20,
+      }),
+    );
+  });
+
+  it('keeps both remainders of a purchase in the middle', async () => {
+    await delisted(P, 'buy', '0');
+    await listed(P, 10, 20, 'buy', '1');
+    await listed('0xend', 30, 60, 'buy', '2');
+    const outcome = await purchased('partial_epoch', 20, 30, 'buy', '3');
+
+    expect(outcome).toEqual({ listingSold: false });
+    expect(listing(P)?.status).toBe('partially_filled');
+    expect(listing('0xend')?.status).toBe('partially_filled');
+  });
+
+  it('closes the listing when the sold piece keeps the purchased ID', async () => {
+    // partial_epoch from the start: the end remainder gets a new ID
+    await delisted(P, 'buy', '0');
+    await listed('0xend', 30, 60, 'buy', '1');
+    const outcome = await purchased('partial_epoch', 10, 30, 'buy', '2');
+
+    expect(outcome).toEqual({ listingSold: true });
+    expect(listing(P)?.status).toBe('sold');
+    expect(listing('0xend')?.status).toBe('partially_filled');
+  });
+
+  it('closes the listing on a full purchase', async () => {
+    const outcome = await purchased('full', 10, 60, 'buy', '0');
+
+    expect(outcome).toEqual({ listingSold: true });
+    expect(listing(P)?.status).toBe('sold');
+  });
+
+  it('sells an expired listing', async () => {
+    // The contract only checks the end epoch when listing, not when buying
+    listing(P)!.status = 'expired';
+    const outcome = await purchased('full', 10, 60, 'buy', '0');
+
+    expect(outcome).toEqual({ listingSold: true });
+    expect(listing(P)?.status).toBe('sold');
+  });
+
+  it('skips events already applied and leaves the projection unchanged', async () => {
+    const applyPurchase = async () => [
+      await delisted(P, 'buy', '0'),
+      await listed(P, 10, 20, 'buy', '1'),
+      await listed('0xend', 30, 60, 'buy', '2'),
+      await purchased('partial_epoch', 20, 30, 'buy', '3'),
+    ];
+    await applyPurchase();
+    const projection = structuredClone(tables);
+
+    // A reindex or retry replays the same (txDigest, eventSeq) pairs
+    expect(await listed(P, 10, 60, 'list', '0')).toBe(false);
+    expect(await applyPurchase()).toEqual([false, false, false, null]);
+    expect(tables).toEqual(projection);
+  });
+
+  it('skips a duplicate delisting of a relisted storage ID', async () => {
+    await delisted(P, 'delist', '0');
+    await listed(P, 10, 60, 'relist', '0');
+    const projection = structuredClone(tables);
+
+    // Re-applying the old delisting must not close the new listing
+    expect(await delisted(P, 'delist', '0')).toBe(false);
+    expect(listing(P)?.status).toBe('active');
+    expect(tables).toEqual(projection);
+  });
+});
+
+describe('DatabaseOperationsService.getPurchasesByBuyer', () => {
+  const purchase = (id: string, overrides: Row = {}) => ({
+    id,
+    storageId: `0x${id}`,
+    buyer: '0xbuyer',
+    seller: '0xseller',
+    amountPaid: 5_000_000_000n,
+    purchaseType: 'full',
+    purchasedSize: 2_097_152n, // 2 MiB
+    purchasedStartEpoch: 10,
+    purchasedEndEpoch: 15,
+    txDigest: `tx-${id}`,
+    eventSeq: '0',
+    blockTime: new Date('2025-12-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  let findMany: jest.Mock;
+  let service: DatabaseOperationsService;
+
+  beforeEach(() => {
+    findMany = jest.fn().mockResolvedValue([]);
+    service = new DatabaseOperationsService(
+      { storagePurchasedEvent: { findMany } } as unknown as PrismaService,
+      {} as WalrusService,
+    );
+  });
+
+  it('filters by block time and by overlap with the epoch range', async () => {
+    const from = new Date('2025-11-01T00:00:00Z');
+    const to = new Date('2025-12-01T00:00:00Z');
+
+    await service.getPurchasesByBuyer('0xbuyer', {
+      from,
+      to,
+      fromEpoch: 12,
+      toEpoch: 20,
+    });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          buyer: '0xbuyer',
+          blockTime: { gte: from, lt: to },
+          purchasedEndEpoch: { gt: 12 },
+          purchasedStartEpoch: { lt: 20 },
+        },
+        orderBy: [{ blockTime: 'desc' }, { id: 'desc' }],
+      }),
+    );
+  });
+
+  it('keeps a zero epoch bound instead of dropping it', async () => {
+    await service.getPurchasesByBuyer('0xbuyer', { fromEpoch: 0 });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { buyer: '0xbuyer', purchasedEndEpoch: { gt: 0 } },
+      }),
+    );
+  });
+
+  it('continues after the cursor and reports the next one', async () => {
+    findMany.mockResolvedValue([purchase('b'), purchase('c'), purchase('d')]);
+
+    const result = await service.getPurchasesByBuyer('0xbuyer', {}, 'a', 2);
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 3, cursor: { id: 'a' }, skip: 1 }),
+    );
+    expect(result.purchases.map((row) => row.id)).toEqual(['b', 'c']);
+    expect(result).toEqual(
+      expect.objectContaining({ nextCursor: 'c', hasMore: true }),
+    );
+  });
+
+  it('derives the effective unit price paid', async () => {
+    findMany.mockResolvedValue([purchase('a')]);
+
+    const {
+      purchases: [row],
+      nextCursor,
+      hasMore,
+    } = await service.getPurchasesByBuyer('0xbuyer');
+
+    // 5 WAL for 2 MiB over 5 epochs
+    expect(row).toEqual(
+      expect.objectContaining({
+        amountPaid: '5000000000',
+        purchasedSize: '2097152',
+        epochs: 5,
+        effectivePricePerSizePerEpoch: '476837158203',
+        effectivePricePerMibPerEpoch: '500000000',
+      }),
+    );
+    expect(nextCursor).toBeNull();
+    expect(hasMore).toBe(false);
+  });
+
+  it('reports a zero price for an empty purchase', async () => {
+    findMany.mockResolvedValue([
+      purchase('a', { purchasedStartEpoch: 15, purchasedEndEpoch: 15 }),
+    ]);
+
+    const {
+      purchases: [row],
+    } = await service.getPurchasesByBuyer('0xbuyer');
+
+    expect(row.effectivePricePerSizePerEpoch).toBe('0');
+    expect(row.effectivePricePerMibPerEpoch).toBe('0');
+  });
+});
+
+describe('DatabaseOperationsService.searchListings', () => {
+  const listing = (id: string, overrides: Row = {}) => ({
+    id,
+    storageId: `0x${id}`,
+    seller: '0xseller',
+    pricePerSizePerEpoch: 1_000_000_000n,
+    size: 1_048_576n,
+    startEpoch: 10,
+    endEpoch: 60,
+    totalPrice: 50n,
+    listedAt: new Date('2025-12-01T00:00:00Z'),
+    status: 'active',
+    ...overrides,
+  });
+
+  // Ties on every sort field but id
+  const book = [
+    listing('e', { pricePerSizePerEpoch: 2_000_000_000n }),
+    listing('b'),
+    listing('d'),
+    listing('a', { pricePerSizePerEpoch: 3_000_000_000n }),
+    listing('c', { pricePerSizePerEpoch: 2_000_000_000n }),
+  ];
+
+  const compare = (a: unknown, b: unknown) =>
+    (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+
+  let findMany: jest.Mock;
+  let getSystemState: jest.Mock;
+  let service: DatabaseOperationsService;
+
+  beforeEach(() => {
+    // Order, cursor and page size applied like Prisma; filters are not
+    findMany = jest.fn(
+      ({
+        orderBy,
+        take,
+        cursor,
+        skip = 0,
+      }: {
+        orderBy: Record<string, 'asc' | 'desc'>[];
+        take: number;
+        cursor?: { id: string };
+        skip?: number;
+      }) => {
+        const sorted = [...book].sort((a: Row, b: Row) => {
+          for (const [column, order] of orderBy.flatMap(Object.entries)) {
+            const result = compare(a[column], b[column]);
+            if (result !== 0) return order === 'asc' ? result : -result;
+          }
+          return 0;
+        });
+        const start = cursor
+          ? sorted.findIndex((row) => row.id === cursor.id) + skip
+          : 0;
+        return Promise.resolve(sorted.slice(start, start + take));
+      },
+    );
+    getSystemState = jest.fn().mockResolvedValue({ epoch: 5n });
+    service = new DatabaseOperationsService(
+      { listedStorage: { findMany } } as unknown as PrismaService,
+      { getSystemState } as unknown as WalrusService,
+    );
+  });
+
+  const lastQuery = () =>
+    (findMany.mock.calls as [{ where: object; orderBy: object }][]).at(-1)![0];
+
+  it('combines every filter into the query', async () => {
+    await service.searchListings({
+      sellers: ['0xa', '0xb'],
+      excludeSellers: ['0xc'],
+      minSize: 1_048_576n,
+      maxSize: 10_485_760n,
+      coverStartEpoch: 12,
+      coverEndEpoch: 40,
+      maxPricePerMibPerEpoch: 2_097_152n, // 2 FROST per byte per epoch
+    });
+
+    expect(lastQuery().where).toEqual({
+      AND: [
+        {
+          status: { in: ['active', 'partially_filled'] },
+          // Open listings past their end epoch are hidden
+          NOT: {
+            status: { in: ['active', 'partially_filled'] },
+            endEpoch: { lte: 5 },
+          },
+        },
+        { seller: { in: ['0xa', '0xb'] } },
+        { seller: { notIn: ['0xc'] } },
+        { size: { gte: 1_048_576n } },
+        { size: { lte: 10_485_760n } },
+        { startEpoch: { lte: 12 } },
+        { endEpoch: { gte: 40 } },
+        { pricePerSizePerEpoch: { lte: 2_000_000_000n } },
+      ],
+    });
+  });
+
+  it('keeps listings past their end epoch when asked for expired ones', async () => {
+    await service.searchListings({ statuses: ['active', 'expired'] });
+
+    expect(lastQuery().where).toEqual({
+      AND: [{ status: { in: ['active', 'expired'] } }],
+    });
+    expect(getSystemState).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['listedAt', 'listedAt'],
+    ['unitPrice', 'pricePerSizePerEpoch'],
+    ['size', 'size'],
+    ['endEpoch', 'endEpoch'],
+    ['totalPrice', 'totalPrice'],
+  ] as const)('sorts by %s, then by id', async (field, column) => {
+    await service.searchListings({}, { field, order: 'desc' });
+
+    expect(lastQuery().orderBy).toEqual([{ [column]: 'desc' }, { id: 'desc' }]);
+  });
+
+  it.each([
+    ['asc', ['b', 'd', 'c', 'e', 'a']],
+    ['desc', ['a', 'e', 'c', 'd', 'b']],
+  ] as const)(
+    'pages through ties in %s order without skipping or repeating',
+    async (order, expected) => {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await service.searchListings(
+          {},
+          { field: 'unitPrice', order },
+          cursor,
+          2,
+        );
+        ids.push(...page.listings.map((row) => row.id));
+        cursor = page.nextCursor ?? undefined;
+        pages++;
+      } while (cursor);
+
+      expect(ids).toEqual(expected);
+      expect(pages).toBe(3);
+    },
+  );
+});
@@ -1,12 +1,45 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { ListedStorage, Prisma } from '../../../generated/prisma';
 import {
   StorageListedUpsertData,
   StoragePurchasedInsertData,
   StorageDelistedInsertData,
+  ListingStatus,
+  LISTING_STATUSES,
+  OPEN_LISTING_STATUSES,
+  ON_CHAIN_LISTING_STATUSES,
 } from '../types/marketplace-events.types';
+import {
+  ListingSearchFilters,
+  ListingSort,
+  ListingSortField,
+  OptimizerCandidate,
+  OptimizerCandidateQuery,
+} from '../types/listing-search.types';
+import { PurchaseHistoryFilters } from '../types/purchase-history.types';
+import { SplitPiece } from '../types/storage-lineage.types';
+import { deriveSplitPieces, isListingSold } from './storage-lineage.service';
 import { WalrusService } from '../../walrus/walrus.service';
 
+const PRICE_SCALE = 1_000_000_000n; // pricePerSizePerEpoch scale (contract)
+const BYTES_PER_MIB = 1_048_576n;
+
+const OPTIMIZER_CANDIDATE_BATCH_SIZE = 500;
+
+const DEFAULT_LISTING_SORT: ListingSort = { field: 'listedAt', order: 'desc' };
+
+const LISTING_SORT_COLUMNS: Record<
+  ListingSortField,
+  keyof Prisma.ListedStorageOrderByWithRelationInput
+> = {
+  listedAt: 'listedAt',
+  unitPrice: 'pricePerSizePerEpoch',
+  size: 'size',
+  endEpoch: 'endEpoch',
+  totalPrice: 'totalPrice',
+};
+
 @Injectable()
 export class DatabaseOperationsService {
   private readonly logger = new Logger(DatabaseOperationsService.name);
@@ -18,59 +51,75 @@ export class DatabaseOperationsService {
 
   /**
    * Process StorageListed event
-   * - Upserts into listed_storage (current state)
    * - Inserts into storage_listed_history (append-only)
+   * - Upserts into listed_storage (current state) as an active listing
+   *
+   * Runs inside the transaction applying the emitting Sui transaction
+   * @returns false if the event was already applied (nothing changed)
    */
-  async processStorageListed(data: StorageListedUpsertData): Promise<void> {
+  async processStorageListed(
+    data: StorageListedUpsertData,
+    tx: Prisma.TransactionClient,
+  ): Promise<boolean> {
     try {
-      await this.prisma.$transaction(async (tx) => {
-        // Upsert into current state table
-        await tx.listedStorage.upsert({
-          where: { storageId: data.storageId },
-          update: {
-            seller: data.seller,
-            pricePerSizePerEpoch: data.pricePerSizePerEpoch,
-            size: data.size,
-            startEpoch: data.startEpoch,
-            endEpoch: data.endEpoch,
-            totalPrice: data.totalPrice,
-            lastUpdatedAt: data.blockTime || new Date(),
-            lastTxDigest: data.txDigest,
-            lastEventSeq: data.eventSeq,
-          },
-          create: {
-            storageId: data.storageId,
-            seller: data.seller,
-            pricePerSizePerEpoch: data.pricePerSizePerEpoch,
-            size: data.size,
-            startEpoch: data.startEpoch,
-            endEpoch: data.endEpoch,
-            totalPrice: data.totalPrice,
-            listedAt: data.blockTime || new Date(),
-            lastUpdatedAt: data.blockTime || new Date(),
-            lastTxDigest: data.txDigest,
-            lastEventSeq: data.eventSeq,
-          },
-        });
-
-        // Insert into history table
-        await tx.storageListedEvent.create({
-          data: {
-            storageId: data.storageId,
-            seller: data.seller,
-            pricePerSizePerEpoch: data.pricePerSizePerEpoch,
-            size: data.size,
-            startEpoch: data.startEpoch,
-            endEpoch: data.endEpoch,
-            totalPrice: data.totalPrice,
-            txDigest: data.txDigest,
-            eventSeq: data.eventSeq,
-            blockTime: data.blockTime || new Date(),
-          },
-        });
+      // Insert into history table - doubles as the idempotency check
+      const { count } = await tx.storageListedEvent.createMany({
+        data: {
+          storageId: data.storageId,
+          seller: data.seller,
+          pricePerSizePerEpoch: data.pricePerSizePerEpoch,
+          size: data.size,
+          startEpoch: data.startEpoch,
+          endEpoch: data.endEpoch,
+          totalPrice: data.totalPrice,
+          txDigest: data.txDigest,
+          eventSeq: data.eventSeq,
+          packageId: data.packageId,
+          blockTime: data.blockTime || new Date(),
+        },
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        this.logAlreadyApplied('StorageListed', data);
+        return false;
+      }
+
+      // Upsert into current state table. The contract can't list a storage ID
+      // that is already listed, so an existing row is a closed listing of the
+      // same object (e.g. a buyer re-selling it) and starts a new lifecycle.
+      await tx.listedStorage.upsert({
+        where: { storageId: data.storageId },
+        update: {
+          seller: data.seller,
+          pricePerSizePerEpoch: data.pricePerSizePerEpoch,
+          size: data.size,
+          startEpoch: data.startEpoch,
+          endEpoch: data.endEpoch,
+          totalPrice: data.totalPrice,
+          listedAt: data.blockTime || new Date(),
+          lastUpdatedAt: data.blockTime || new Date(),
+          lastTxDigest: data.txDigest,
+          lastEventSeq: data.eventSeq,
+          status: 'active',
+          closedAt: null,
+        },
+        create: {
+          storageId: data.storageId,
+          seller: data.seller,
+          pricePerSizePerEpoch: data.pricePerSizePerEpoch,
+          size: data.size,
+          startEpoch: data.startEpoch,
+          endEpoch: data.endEpoch,
+          totalPrice: data.totalPrice,
+          listedAt: data.blockTime || new Date(),
+          lastUpdatedAt: data.blockTime || new Date(),
+          lastTxDigest: data.txDigest,
+          lastEventSeq: data.eventSeq,
+        },
       });
 
       this.logger.debug(`✅ Processed StorageListed: ${data.storageId}`);
+      return true;
     } catch (error) {
       this.logger.error(
         `Error processing StorageListed: ${data.storageId}`,
@@ -82,103 +131,101 @@ export class DatabaseOperationsService {
 
   /**
    * Process StoragePurchased event
-   * - Updates listed_storage based on purchase_type
-   *   - "full": deletes the listing
-   *   - "partial_epoch": updates start_epoch
-   *   - "partial_size": updates size and total_price
    * - Inserts into storage_purchased_history (append-only)
+   * - Marks the listing as sold
+   * - Marks remainders re-listed by a partial purchase as partially_filled
+   * - Records the pieces of a split in storage_lineage
+   *
+   * Events are applied in transaction order, so split purchases
+   * ("partial_epoch" / "partial_size") have already been mirrored by the
+   * StorageDelisted + StorageListed(remainder) events the contract emits
+   * before StoragePurchased (see deriveSplitPieces). When a remainder is
+   * re-listed under the purchased storage ID, the sold piece is a new object
+   * and the listing stays open as that remainder.
+   *
+   * Runs inside the transaction applying the emitting Sui transaction
+   * @returns false if the event was already applied (nothing changed)
    */
   async processStoragePurchased(
     data: StoragePurchasedInsertData,
-  ): Promise<void> {
+    tx: Prisma.TransactionClient,
+  ): Promise<{ listingSold: boolean } | null> {
     try {
-      await this.prisma.$transaction(async (tx) => {
-        // Insert into history table first
-        await tx.storagePurchasedEvent.create({
+      // Insert into history table first - doubles as the idempotency check
+      const inserted = await tx.storagePurchasedEvent.createMany({
+        data: {
+          storageId: data.storageId,
+          buyer: data.buyer,
+          seller: data.seller,
+          amountPaid: data.amountPaid,
+          purchaseType: data.purchaseType,
+          purchasedSize: data.purchasedSize,
+          purchasedStartEpoch: data.purchasedStartEpoch,
+          purchasedEndEpoch: data.purchasedEndEpoch,
+          txDigest: data.txDigest,
+          eventSeq: data.eventSeq,
+          packageId: data.packageId,
+          blockTime: data.blockTime || new Date(),
+        },
+        skipDuplicates: true,
+      });
+      if (inserted.count === 0) {
+        this.logAlreadyApplied('StoragePurchased', data);
+        return null;
+      }
+
+      const pieces =
+        data.purchaseType === 'full' ? [] : await this.getSplitPieces(data, tx);
+
+      const listingSold = isListingSold(data.storageId, pieces);
+      if (listingSold) {
+        // The purchased storage ID now belongs to the buyer
+        await tx.listedStorage.updateMany({
+          where: { storageId: data.storageId },
           data: {
-            storageId: data.storageId,
-            buyer: data.buyer,
-            seller: data.seller,
-            amountPaid: data.amountPaid,
-            purchaseType: data.purchaseType,
-            purchasedSize: data.purchasedSize,
-            purchasedStartEpoch: data.purchasedStartEpoch,
-            purchasedEndEpoch: data.purchasedEndEpoch,
+            status: 'sold',
+            closedAt: data.blockTime || new Date(),
+            lastUpdatedAt: data.blockTime || new Date(),
+            lastTxDigest: data.txDigest,
+            lastEventSeq: data.eventSeq,
+          },
+        });
+      }
+
+      if (pieces.length > 0) {
+        await tx.storageLineage.createMany({
+          data: pieces.map((piece) => ({
+            parentStorageId: data.storageId,
+            childStorageId: piece.childStorageId,
+            kind: piece.kind,
+            owner: piece.owner,
+            size: piece.size,
+            startEpoch: piece.startEpoch,
+            endEpoch: piece.endEpoch,
             txDigest: data.txDigest,
             eventSeq: data.eventSeq,
             blockTime: data.blockTime || new Date(),
-          },
+          })),
         });
 
-        // Update current state based on purchase type
-        if (data.purchaseType === 'full') {
-          // Full purchase - remove listing
-          await tx.listedStorage.delete({
-            where: { storageId: data.storageId },
-          });
-          this.logger.debug(`Deleted full purchase: ${data.storageId}`);
-        } else if (data.purchaseType === 'partial_epoch') {
-          // Partial epoch purchase - update start epoch and pro-rate price
-          const listing = await tx.listedStorage.findUnique({
-            where: { storageId: data.storageId },
-          });
-
-          if (listing) {
-            // Pro-rate based on remaining epochs
-            const originalEpochs = BigInt(
-              listing.endEpoch - listing.startEpoch,
-            );
-            const remainingEpochs = BigInt(
-              listing.endEpoch - data.purchasedEndEpoch,
-            );
-            const newTotalPrice =
-              (listing.totalPrice * remainingEpochs) / originalEpochs;
-
-            await tx.listedStorage.update({
-              where: { storageId: data.storageId },
-              data: {
-                startEpoch: data.purchasedEndEpoch,
-                totalPrice: newTotalPrice,
-                lastUpdatedAt: data.blockTime || new Date(),
-                lastTxDigest: data.txDigest,
-                lastEventSeq: data.eventSeq,
-              },
-            });
-            this.logger.debug(
-              `Updated partial_epoch purchase: ${data.storageId}`,
-            );
-          }
-        } else if (data.purchaseType === 'partial_size') {
-          // Partial size purchase - update size and pro-rate price
-          const listing = await tx.listedStorage.findUnique({
-            where: { storageId: data.storageId },
-          });
-
-          if (listing) {
-            // Pro-rate based on remaining size
-            const newSize = listing.size - data.purchasedSize;
-            const newTotalPrice = (listing.totalPrice * newSize) / listing.size;
-
-            await tx.listedStorage.update({
-              where: { storageId: data.storageId },
-              data: {
-                size: newSize,
-                totalPrice: newTotalPrice,
-                lastUpdatedAt: data.blockTime || new Date(),
-                lastTxDigest: data.txDigest,
-                lastEventSeq: data.eventSeq,
-              },
-            });
-            this.logger.debug(
-              `Updated partial_size purchase: ${data.storageId}`,
-            );
-          }
+        const remainderIds = pieces
+          .filter((piece) => piece.kind === 'remainder')
+          .map((piece) => piece.childStorageId as string);
+        const { count } = await tx.listedStorage.updateMany({
+          where: { storageId: { in: remainderIds }, status: 'active' },
+          data: { status: 'partially_filled' },
+        });
+        if (count > 0) {
+          this.logger.debug(
+            `Marked ${count} remainder listing(s) of ${data.storageId} as partially filled`,
+          );
         }
-      });
+      }
 
       this.logger.debug(
         `✅ Processed StoragePurchased: ${data.storageId} (${data.purchaseType})`,
       );
+      return { listingSold };
     } catch (error) {
       this.logger.error(
         `Error processing StoragePurchased: ${data.storageId}`,
@@ -188,32 +235,85 @@ export class DatabaseOperationsService {
     }
   }
 
+  /**
+   * Pieces of the listing split by a partial purchase, from the StorageListed
+   * and StorageDelisted events already applied for the same transaction
+   */
+  private async getSplitPieces(
+    data: StoragePurchasedInsertData,
+    tx: Prisma.TransactionClient,
+  ): Promise<SplitPiece[]> {
+    const delisted = await tx.storageDelistedEvent.findMany({
+      where: { txDigest: data.txDigest, storageId: data.storageId },
+      select: { eventSeq: true },
+    });
+    if (delisted.length === 0) {
+      return [];
+    }
+
+    const listed = await tx.storageListedEvent.findMany({
+      where: { txDigest: data.txDigest, seller: data.seller },
+      select: {
+        storageId: true,
+        seller: true,
+        size: true,
+        startEpoch: true,
+        endEpoch: true,
+        eventSeq: true,
+      },
+    });
+
+    return deriveSplitPieces(
+      data,
+      listed,
+      delisted.map((event) => event.eventSeq),
+    );
+  }
+
   /**
    * Process StorageDelisted event
-   * - Deletes from listed_storage
    * - Inserts into storage_delisted_history (append-only)
+   * - Marks the listing as delisted
+   *
+   * Runs inside the transaction applying the emitting Sui transaction
+   * @returns false if the event was already applied (nothing changed)
    */
-  async processStorageDelisted(data: StorageDelistedInsertData): Promise<void> {
+  async processStorageDelisted(
+    data: StorageDelistedInsertData,
+    tx: Prisma.TransactionClient,
+  ): Promise<boolean> {
     try {
-      await this.prisma.$transaction(async (tx) => {
-        // Delete from current state
-        await tx.listedStorage.delete({
-          where: { storageId: data.storageId },
-        });
-
-        // Insert into history table
-        await tx.storageDelistedEvent.create({
-          data: {
-            storageId: data.storageId,
-            seller: data.seller,
-            txDigest: data.txDigest,
-            eventSeq: data.eventSeq,
-            blockTime: data.blockTime || new Date(),
-          },
-        });
+      // Insert into history table - doubles as the idempotency check
+      const { count } = await tx.storageDelistedEvent.createMany({
+        data: {
+          storageId: data.storageId,
+          seller: data.seller,
+          txDigest: data.txDigest,
+          eventSeq: data.eventSeq,
+          packageId: data.packageId,
+          blockTime: data.blockTime || new Date(),
+        },
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        this.logAlreadyApplied('StorageDelisted', data);
+        return false;
+      }
+
+      // Close the listing in the current state table
+      await tx.listedStorage.update({
+        where: { storageId: data.storageId },
+        data: {
+          status: 'delisted',
+          closedAt: data.blockTime || new Date(),
+          lastUpdatedAt: data.blockTime || new Date(),
+          lastTxDigest: data.txDigest,
+          lastEventSeq: data.eventSeq,
+        },
       });
 
       this.logger.debug(`✅ Processed StorageDelisted: ${data.storageId}`);
+      return true;
     } catch (error) {
       this.logger.error(
         `Error processing StorageDelisted: ${data.storageId}`,
@@ -223,6 +323,20 @@ export class DatabaseOperationsService {
     }
   }
 
+  /**
+   * An event's history row is written in the same transaction as its state
+   * change, so an existing row (unique on txDigest + eventSeq) means the event
+   * was fully applied. Skipping it makes reindexing and retries safe to repeat.
+   */
+  private logAlreadyApplied(
+    eventName: string,
+    data: { storageId: string; txDigest: string; eventSeq: string },
+  ): void {
+    this.logger.debug(
+      `⏭️  Skipping already applied ${eventName}: ${data.storageId} (${data.txDigest}:${data.eventSeq})`,
+    );
+  }
+
   /**
    * Get current listed storage by ID
    */
@@ -233,25 +347,89 @@ export class DatabaseOperationsService {
   }
 
   /**
-   * Get all current listings (excluding expired storage)
+   * Get all listings in the given statuses (by default, the order book)
    */
-  async getAllListedStorage(cursor?: string, limit: number = 50) {
-    // Get current epoch from Walrus
-    const systemState = await this.walrusService.getSystemState();
-    const currentEpoch = Number(systemState.epoch);
+  async getAllListedStorage(
+    cursor?: string,
+    limit: number = 50,
+    statuses: ListingStatus[] = OPEN_LISTING_STATUSES,
+  ) {
+    return this.searchListings(
+      { statuses },
+      DEFAULT_LISTING_SORT,
+      cursor,
+      limit,
+    );
+  }
 
-    this.logger.debug(
-      `Fetching listings with endEpoch >= ${currentEpoch} (current epoch)`,
+  /**
+   * Get listings by seller address
+   * By default, every listing still in the on-chain table, including expired
+   * listings the seller can still delist.
+   */
+  async getListingsBySeller(
+    sellerAddress: string,
+    cursor?: string,
+    limit: number = 50,
+    statuses: ListingStatus[] = ON_CHAIN_LISTING_STATUSES,
+  ) {
+    return this.searchListings(
+      { statuses, sellers: [sellerAddress] },
+      DEFAULT_LISTING_SORT,
+      cursor,
+      limit,
     );
+  }
 
-    // Filter out expired storage objects (endEpoch < currentEpoch)
-    const listings = await this.prisma.listedStorage.findMany({
-      where: {
-        endEpoch: {
-          gte: currentEpoch, // Only include storage that hasn't expired
+  /**
+   * Search listings
+   *
+   * Results are ordered by the sort field, then by id, so every sort order
+   * has a total order and cursor pagination neither skips nor repeats rows.
+   */
+  async searchListings(
+    filters: ListingSearchFilters,
+    sort: ListingSort = DEFAULT_LISTING_SORT,
+    cursor?: string,
+    limit: number = 50,
+  ) {
+    const statuses = filters.statuses ?? OPEN_LISTING_STATUSES;
+    const conditions: Prisma.ListedStorageWhereInput[] = [
+      await this.buildStatusFilter(statuses),
+    ];
+
+    if (filters.sellers?.length) {
+      conditions.push({ seller: { in: filters.sellers } });
+    }
+    if (filters.excludeSellers?.length) {
+      conditions.push({ seller: { notIn: filters.excludeSellers } });
+    }
+    if (filters.minSize !== undefined) {
+      conditions.push({ size: { gte: filters.minSize } });
+    }
+    if (filters.maxSize !== undefined) {
+      conditions.push({ size: { lte: filters.maxSize } });
+    }
+    if (filters.coverStartEpoch !== undefined) {
+      conditions.push({ startEpoch: { lte: filters.coverStartEpoch } });
+    }
+    if (filters.coverEndEpoch !== undefined) {
+      conditions.push({ endEpoch: { gte: filters.coverEndEpoch } });
+    }
+    if (filters.maxPricePerMibPerEpoch !== undefined) {
+      // pricePerSizePerEpoch is per byte, scaled by 1e9:
+      // price per MiB = pricePerSizePerEpoch * BYTES_PER_MIB / PRICE_SCALE
+      conditions.push({
+        pricePerSizePerEpoch: {
+          lte: (filters.maxPricePerMibPerEpoch * PRICE_SCALE) / BYTES_PER_MIB,
         },
-      },
-      orderBy: { listedAt: 'desc' },
+      });
+    }
+
+    const sortColumn = LISTING_SORT_COLUMNS[sort.field];
+    const listings = await this.prisma.listedStorage.findMany({
+      where: { AND: conditions },
+      orderBy: [{ [sortColumn]: sort.order }, { id: sort.order }],
       take: limit + 1, // Fetch one extra to determine if there are more
       ...(cursor && {
         cursor: { id: cursor },
@@ -260,41 +438,101 @@ export class DatabaseOperationsService {
     });
 
     this.logger.debug(
-      `Found ${listings.length} non-expired listings (current epoch: ${currentEpoch})`,
+      `Found ${listings.length} listings (status: ${statuses.join(', ')}, sort: ${sort.field} ${sort.order})`,
     );
 
-    // Check if there are more results
-    const hasMore = listings.length > limit;
-    const paginatedListings = hasMore ? listings.slice(0, limit) : listings;
-    const nextCursor = hasMore ? paginatedListings[paginatedListings.length - 1].id : null;
+    return this.paginateListings(listings, limit);
+  }
 
-    // Convert BigInt fields to strings for JSON serialization
-    return {
-      listings: paginatedListings.map((listing) => ({
-        ...listing,
-        pricePerSizePerEpoch: listing.pricePerSizePerEpoch.toString(),
-        size: listing.size.toString(),
-        totalPrice: listing.totalPrice.toString(),
-      })),
-      nextCursor,
-      hasMore,
-    };
+  /**
+   * Stream the listings the optimizer can buy from, cheapest
+   * pricePerSizePerEpoch first (ties by id)
+   *
+   * Overlap and price filters run in SQL and rows are fetched in keyset
+   * pages, so the whole order book is considered while at most one page is
+   * held in memory; a consumer that stops iterating stops the queries.
+   */
+  async *streamOptimizerCandidates(
+    query: OptimizerCandidateQuery,
+    batchSize: number = OPTIMIZER_CANDIDATE_BATCH_SIZE,
+  ): AsyncGenerator<OptimizerCandidate> {
+    // Storage past its end epoch is worthless to the buyer - the contract
+    // only checks expiry when listing, so it has to be filtered out here
+    const systemState = await this.walrusService.getSystemState();
+    const currentEpoch = Number(systemState.epoch);
+
+    const priceCeiling =
+      query.maxPricePerSizePerEpoch !== undefined
+        ? Prisma.sql`AND "pricePerSizePerEpoch" < ${query.maxPricePerSizePerEpoch}`
+        : Prisma.empty;
+
+    let after: { pricePerSizePerEpoch: bigint; id: string } | null = null;
+    while (true) {
+      const keyset = after
+        ? Prisma.sql`AND ("pricePerSizePerEpoch", "id") > (${after.pricePerSizePerEpoch}, ${after.id})`
+        : Prisma.empty;
+
+      const rows: OptimizerCandidate[] = await this.prisma.$queryRaw`
+        SELECT "id", "storageId", "seller", "pricePerSizePerEpoch", "size",
+          "startEpoch", "endEpoch", "totalPrice"
+        FROM "listed_storage"
+        WHERE "status" IN (${Prisma.join(OPEN_LISTING_STATUSES)})
+          AND "startEpoch" < ${query.endEpoch}::int
+          AND "endEpoch" > ${query.startEpoch}::int
+          AND "endEpoch" > ${currentEpoch}::int
+          ${priceCeiling}
+          ${keyset}
+        ORDER BY "pricePerSizePerEpoch", "id"
+        LIMIT ${batchSize}
+      `;
+
+      yield* rows;
+
+      if (rows.length < batchSize) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      after = { pricePerSizePerEpoch: last.pricePerSizePerEpoch, id: last.id };
+    }
   }
 
   /**
-   * Get listings by seller address
+   * Filter listings by status
+   *
+   * Open listings whose end epoch has been reached are hidden even before
+   * the expiry sweeper has closed them. The contract would still sell them,
+   * but their storage has no epochs left to use.
    */
-  async getListingsBySeller(sellerAddress: string, cursor?: string, limit: number = 50) {
-    const listings = await this.prisma.listedStorage.findMany({
-      where: { seller: sellerAddress },
-      orderBy: { listedAt: 'desc' },
-      take: limit + 1, // Fetch one extra to determine if there are more
-      ...(cursor && {
-        cursor: { id: cursor },
-        skip: 1, // Skip the cursor item itself
-      }),
-    });
+  private async buildStatusFilter(
+    statuses: ListingStatus[],
+  ): Promise<Prisma.ListedStorageWhereInput> {
+    const filter: Prisma.ListedStorageWhereInput = {
+      status: { in: statuses },
+    };
+    if (
+      statuses.includes('expired') ||
+      !statuses.some((status) => OPEN_LISTING_STATUSES.includes(status))
+    ) {
+      return filter;
+    }
+
+    // Get current epoch from Walrus
+    const systemState = await this.walrusService.getSystemState();
+    const currentEpoch = Number(systemState.epoch);
+
+    return {
+      ...filter,
+      NOT: {
+        status: { in: OPEN_LISTING_STATUSES },
+        endEpoch: { lte: currentEpoch },
+      },
+    };
+  }
 
+  private paginateListings<T extends ListedStorage>(
+    listings: T[],
+    limit: number,
+  ) {
     // Check if there are more results
     const hasMore = listings.length > limit;
     const paginatedListings = hasMore ? listings.slice(0, limit) : listings;
@@ -323,6 +561,76 @@ export class DatabaseOperationsService {
     });
   }
 
+  /**
+   * Get the purchases of a buyer, newest first
+   *
+   * Each purchase includes the effective unit price paid, derived from the
+   * amount, size and epochs purchased.
+   */
+  async getPurchasesByBuyer(
+    buyer: string,
+    filters: PurchaseHistoryFilters = {},
+    cursor?: string,
+    limit: number = 50,
+  ) {
+    const where: Prisma.StoragePurchasedEventWhereInput = { buyer };
+    if (filters.from || filters.to) {
+      where.blockTime = {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lt: filters.to }),
+      };
+    }
+    if (filters.fromEpoch !== undefined) {
+      where.purchasedEndEpoch = { gt: filters.fromEpoch };
+    }
+    if (filters.toEpoch !== undefined) {
+      where.purchasedStartEpoch = { lt: filters.toEpoch };
+    }
+
+    const purchases = await this.prisma.storagePurchasedEvent.findMany({
+      where,
+      orderBy: [{ blockTime: 'desc' }, { id: 'desc' }],
+      take: limit + 1, // Fetch one extra to determine if there are more
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1, // Skip the cursor item itself
+      }),
+    });
+
+    const hasMore = purchases.length > limit;
+    const paginatedPurchases = hasMore ? purchases.slice(0, limit) : purchases;
+    const nextCursor = hasMore
+      ? paginatedPurchases[paginatedPurchases.length - 1].id
+      : null;
+
+    return {
+      purchases: paginatedPurchases.map((purchase) => {
+        const epochs =
+          purchase.purchasedEndEpoch - purchase.purchasedStartEpoch;
+        const sizeEpochs = purchase.purchasedSize * BigInt(epochs);
+
+        return {
+          ...purchase,
+          amountPaid: purchase.amountPaid.toString(),
+          purchasedSize: purchase.purchasedSize.toString(),
+          epochs,
+          // Same scale as ListedStorage.pricePerSizePerEpoch
+          effectivePricePerSizePerEpoch:
+            sizeEpochs > 0n
+              ? ((purchase.amountPaid * PRICE_SCALE) / sizeEpochs).toString()
+              : '0',
+          // FROST per MiB per epoch
+          effectivePricePerMibPerEpoch:
+            sizeEpochs > 0n
+              ? ((purchase.amountPaid * BYTES_PER_MIB) / sizeEpochs).toString()
+              : '0',
+        };
+      }),
+      nextCursor,
+      hasMore,
+    };
+  }
+
   /**
    * Get listing history for a storage ID
    */
@@ -344,9 +652,12 @@ export class DatabaseOperationsService {
         uniqueStorageIds,
         activeSizeAndValue,
         purchasedAggregates,
+        statusCounts,
       ] = await Promise.all([
-        // Count of currently active listings
-        this.prisma.listedStorage.count(),
+        // Count of currently open listings
+        this.prisma.listedStorage.count({
+          where: { status: { in: OPEN_LISTING_STATUSES } },
+        }),
 
         // Get unique storage IDs that have ever been listed
         this.prisma.storageListedEvent.findMany({
@@ -354,8 +665,9 @@ export class DatabaseOperationsService {
           select: { storageId: true },
         }),
 
-        // Aggregate current active listings (size and value)
+        // Aggregate current open listings (size and value)
         this.prisma.listedStorage.aggregate({
+          where: { status: { in: OPEN_LISTING_STATUSES } },
           _sum: {
             size: true,
             totalPrice: true,
@@ -370,8 +682,21 @@ export class DatabaseOperationsService {
             amountPaid: true,
           },
         }),
+
+        // Listings per lifecycle status
+        this.prisma.listedStorage.groupBy({
+          by: ['status'],
+          _count: true,
+        }),
       ]);
 
+      const listingsByStatus = Object.fromEntries(
+        LISTING_STATUSES.map((status) => [status, 0]),
+      ) as Record<ListingStatus, number>;
+      for (const { status, _count } of statusCounts) {
+        listingsByStatus[status as ListingStatus] = _count;
+      }
+
       // Convert BigInt values to strings for JSON serialization
       return {
         totalActiveListings: activeListingsCount,
@@ -383,6 +708,7 @@ export class DatabaseOperationsService {
           purchasedAggregates._sum.purchasedSize?.toString() || '0',
         totalValuePurchased:
           purchasedAggregates._sum.amountPaid?.toString() || '0',
+        listingsByStatus,
       };
     } catch (error) {
       this.logger.error('Error fetching marketplace analytics', error);
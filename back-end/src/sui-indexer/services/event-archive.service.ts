@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { SuiEvent } from '@mysten/sui/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma, RawEvent } from '../../../generated/prisma';
+
+/**
+ * Position of an archived event in on-chain order
+ */
+export interface ArchivePosition {
+  txSequence: bigint;
+  eventSeq: string;
+}
+
+@Injectable()
+export class EventArchiveService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Append one Sui transaction's events to the raw archive
+   * Events already archived are skipped, so re-ingestion is safe. Their
+   * missing txSequence is filled in, which is how a reindex backfills it.
+   * @param txSequence Transaction's position in the chain's transaction order
+   * @param tx Transaction client - archived atomically with the cursor advance
+   */
+  async archive(
+    events: SuiEvent[],
+    txSequence: bigint,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await tx.rawEvent.createMany({
+      data: events.map((event) => ({
+        txSequence,
+        txDigest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        eventType: event.type,
+        packageId: event.packageId,
+        sender: event.sender,
+        timestampMs: event.timestampMs ? BigInt(event.timestampMs) : null,
+        rawEvent: event as unknown as Prisma.InputJsonValue,
+      })),
+      skipDuplicates: true,
+    });
+
+    await tx.rawEvent.updateMany({
+      where: { txDigest: events[0].id.txDigest, txSequence: null },
+      data: { txSequence },
+    });
+  }
+
+  /**
+   * Get a page of archived events in on-chain order
+   *
+   * Ordered by (txSequence, eventSeq), not by the archive sequence: events
+   * backfilled by a reindex are archived after newer ones.
+   * @param after Position to continue after (exclusive)
+   */
+  async getArchivedEvents(
+    after: ArchivePosition | null,
+    limit: number,
+  ): Promise<RawEvent[]> {
+    return this.prisma.$queryRaw<RawEvent[]>`
+      SELECT * FROM "raw_events"
+      ${
+        after
+          ? Prisma.sql`WHERE ("txSequence", "eventSeq"::bigint) > (${after.txSequence}, ${BigInt(after.eventSeq)})`
+          : Prisma.sql`WHERE "txSequence" IS NOT NULL`
+      }
+      ORDER BY "txSequence", "eventSeq"::bigint
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Count archived events without a txSequence
+   *
+   * Events archived before txSequence was recorded only get one once they
+   * are re-read from the chain (POST /indexer/reindex).
+   */
+  async countUnsequencedEvents(): Promise<number> {
+    return this.prisma.rawEvent.count({ where: { txSequence: null } });
+  }
+
+  /**
+   * Count projected history rows whose event is missing from the archive
+   *
+   * Events indexed before the archive existed are only archived once they
+   * are re-read from the chain (POST /indexer/reindex).
+   */
+  async countUnarchivedHistoryEvents(): Promise<number> {
+    const [{ missing }] = await this.prisma.$queryRaw<{ missing: bigint }[]>`
+      SELECT (
+        (SELECT count(*) FROM "storage_listed_events" h
+          WHERE NOT EXISTS (SELECT 1 FROM "raw_events" r
+            WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq"))
+        + (SELECT count(*) FROM "storage_purchased_events" h
+          WHERE NOT EXISTS (SELECT 1 FROM "raw_events" r
+            WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq"))
+        + (SELECT count(*) FROM "storage_delisted_events" h
+          WHERE NOT EXISTS (SELECT 1 FROM "raw_events" r
+            WHERE r."txDigest" = h."txDigest" AND r."eventSeq" = h."eventSeq"))
+      ) AS missing
+    `;
+
+    return Number(missing);
+  }
+
+  /**
+   * Count archived events
+   */
+  async countArchivedEvents(): Promise<number> {
+    return this.prisma.rawEvent.count();
+  }
+}
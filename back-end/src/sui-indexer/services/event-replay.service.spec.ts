@@ -0,0 +1,168 @@
+import { EventReplayService } from './event-replay.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import { SubscriptionFilter } from '../types/marketplace-events.types';
+
+describe('EventReplayService.getEventsAfter', () => {
+  const PAGE_SIZE = 500;
+
+  // Archived StorageListed joined to its history row
+  const listedRow = (sequence: number, seller = '0xseller') => ({
+    sequence: String(sequence),
+    txDigest: `tx-${sequence}`,
+    eventSeq: '0',
+    type: 'listed',
+    storageId: `0x${sequence.toString(16)}`,
+    seller,
+    buyer: null,
+    pricePerSizePerEpoch: '1000',
+    size: '1048576',
+    startEpoch: 10,
+    endEpoch: 50,
+    totalPrice: '40000',
+    amountPaid: null,
+    purchaseType: null,
+    listingSold: null,
+    blockTime: new Date('2025-12-01T00:00:00Z'),
+  });
+
+  let archive: { sequence: string; [column: string]: unknown }[];
+  let findFirst: jest.Mock;
+  let findUnique: jest.Mock;
+  let service: EventReplayService;
+
+  beforeEach(() => {
+    archive = [];
+    findFirst = jest.fn(({ where }: { where: { sequence: { gt: bigint } } }) =>
+      Promise.resolve(
+        archive.find((row) => BigInt(row.sequence) > where.sequence.gt) ?? null,
+      ),
+    );
+    findUnique = jest.fn().mockResolvedValue(null);
+    const prisma = {
+      // Serve the page after the `sequence > ?` bound, in archive order,
+      // from the `txSequence >= ?` bound if there is one
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const [after, ...bounds] = Prisma.sql(strings, ...values)
+            .values as bigint[];
+          const since = bounds.length > 1 ? bounds[0] : null;
+          return Promise.resolve(
+            archive
+              .filter((row) => BigInt(row.sequence) > after)
+              .filter(
+                (row) =>
+                  since === null ||
+                  row.txSequence === undefined ||
+                  (row.txSequence as bigint) >= since,
+              )
+              .slice(0, PAGE_SIZE),
+          );
+        },
+      ),
+      rawEvent: { findFirst, findUnique },
+    };
+    service = new EventReplayService(prisma as unknown as PrismaService);
+  });
+
+  const all: SubscriptionFilter[] = [{}];
+
+  it('replays matching events after the sequence in archive order', async () => {
+    archive = Array.from({ length: 700 }, (_, i) =>
+      listedRow(i + 1, i % 2 ? '0xme' : '0xother'),
+    );
+
+    const replay = await service.getEventsAfter(100n, [{ sellers: ['0xme'] }]);
+
+    expect(replay.events).toHaveLength(300);
+    expect(replay.events[0]).toEqual(
+      expect.objectContaining({ sequence: '102' }),
+    );
+    expect(replay.events[299]).toEqual(
+      expect.objectContaining({ sequence: '700' }),
+    );
+    expect(replay).toEqual(
+      expect.objectContaining({ scannedTo: '700', truncated: false }),
+    );
+  });
+
+  it('skips dead-lettered events but scans past them', async () => {
+    archive = [listedRow(1), { ...listedRow(2), type: null }];
+
+    const replay = await service.getEventsAfter(0n, all);
+
+    expect(replay.events).toEqual([expect.objectContaining({ sequence: '1' })]);
+    expect(replay.scannedTo).toBe('2');
+  });
+
+  it('stops at 1,000 matching events and reports the rest', async () => {
+    archive = Array.from({ length: 1200 }, (_, i) => listedRow(i + 1));
+
+    const replay = await service.getEventsAfter(0n, all);
+
+    expect(replay.events).toHaveLength(1000);
+    expect(replay).toEqual(
+      expect.objectContaining({ scannedTo: '1000', truncated: true }),
+    );
+  });
+
+  it('is not truncated when the limit is hit on the last event', async () => {
+    archive = Array.from({ length: 1000 }, (_, i) => listedRow(i + 1));
+
+    const replay = await service.getEventsAfter(0n, all);
+
+    expect(replay).toEqual(
+      expect.objectContaining({ scannedTo: '1000', truncated: false }),
+    );
+  });
+
+  it('stops after scanning 10,000 archived events', async () => {
+    archive = Array.from({ length: 10_500 }, (_, i) => listedRow(i + 1));
+
+    const replay = await service.getEventsAfter(0n, [{ sellers: ['0xme'] }]);
+
+    expect(replay.events).toHaveLength(0);
+    expect(replay).toEqual(
+      expect.objectContaining({ scannedTo: '10000', truncated: true }),
+    );
+  });
+
+  it('keeps a purchase that re-listed a remainder under its ID open', async () => {
+    const purchase = {
+      ...listedRow(1),
+      type: 'purchased',
+      buyer: '0xbuyer',
+      pricePerSizePerEpoch: null,
+      totalPrice: null,
+      amountPaid: '5000',
+      purchaseType: 'partial_epoch',
+    };
+    archive = [
+      { ...purchase, listingSold: false },
+      { ...purchase, sequence: '2', listingSold: true },
+    ];
+
+    const { events } = await service.getEventsAfter(0n, all);
+
+    expect(events.map((event) => [event.type, event.removed])).toEqual([
+      ['purchased', false],
+      ['purchased', true],
+    ]);
+  });
+
+  it('skips events backfilled by a reindex before the resume point', async () => {
+    // A reindex archived transactions 1-2 after transactions 3-5
+    archive = [3, 4, 5, 1, 2].map((txSequence, i) => ({
+      ...listedRow(i + 1),
+      txSequence: BigInt(txSequence),
+    }));
+    findUnique.mockResolvedValue({ txSequence: 4n });
+
+    const replay = await service.getEventsAfter(2n, all);
+
+    expect(findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { sequence: 2n } }),
+    );
+    expect(replay.events).toEqual([expect.objectContaining({ sequence: '3' })]);
+  });
+});
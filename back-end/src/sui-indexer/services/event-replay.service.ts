@@ -0,0 +1,229 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import {
+  MarketplaceEventPayload,
+  SubscriptionFilter,
+} from '../types/marketplace-events.types';
+import { matchesSubscriptionFilter } from '../gateway/subscription-filter';
+
+const REPLAY_PAGE_SIZE = 500;
+const MAX_REPLAY_EVENTS = 1000; // Matching events returned per replay
+const MAX_REPLAY_SCAN = 10_000; // Archived events read per replay
+
+/**
+ * Archived event joined to its event history row (BigInt values as text).
+ * Events without a history row (dead-lettered) have no type.
+ */
+interface ReplayRow {
+  sequence: string;
+  txDigest: string;
+  eventSeq: string;
+  type: 'listed' | 'purchased' | 'delisted' | null;
+  storageId: string | null;
+  seller: string | null;
+  buyer: string | null;
+  pricePerSizePerEpoch: string | null;
+  size: string | null;
+  startEpoch: number | null;
+  endEpoch: number | null;
+  totalPrice: string | null;
+  amountPaid: string | null;
+  purchaseType: string | null;
+  listingSold: boolean | null;
+  blockTime: Date | null;
+}
+
+export interface ReplayResult {
+  events: MarketplaceEventPayload[];
+  scannedTo: string; // Last archive sequence read - live events after it were not replayed
+  truncated: boolean; // Stopped at a replay limit before catching up
+}
+
+/**
+ * Rebuilds the WebSocket payloads of committed events from the raw event
+ * archive and the event history tables, for clients resuming a subscription
+ *
+ * Payloads are identical to the live ones, in archive order - on-chain order
+ * for events archived as they are indexed. Events backfilled by a reindex
+ * are archived after newer ones, but were applied before the client's resume
+ * point, so those earlier on-chain than it are skipped.
+ * Expiries are not on-chain events and are not replayed.
+ */
+@Injectable()
+export class EventReplayService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Events after the given archive sequence matching any of the filters
+   */
+  async getEventsAfter(
+    after: bigint,
+    filters: SubscriptionFilter[],
+  ): Promise<ReplayResult> {
+    const events: MarketplaceEventPayload[] = [];
+    let scannedTo = after;
+    let scanned = 0;
+    const resumedAt = await this.prisma.rawEvent.findUnique({
+      where: { sequence: after },
+      select: { txSequence: true },
+    });
+
+    while (scanned < MAX_REPLAY_SCAN) {
+      const rows = await this.getPage(scannedTo, resumedAt?.txSequence ?? null);
+
+      for (const row of rows) {
+        scannedTo = BigInt(row.sequence);
+        scanned++;
+
+        const payload = this.toPayload(row);
+        if (
+          payload &&
+          filters.some((filter) => matchesSubscriptionFilter(filter, payload))
+        ) {
+          events.push(payload);
+          if (events.length >= MAX_REPLAY_EVENTS) {
+            return {
+              events,
+              scannedTo: scannedTo.toString(),
+              truncated: await this.hasEventsAfter(scannedTo),
+            };
+          }
+        }
+      }
+
+      if (rows.length < REPLAY_PAGE_SIZE) {
+        return { events, scannedTo: scannedTo.toString(), truncated: false };
+      }
+    }
+
+    return {
+      events,
+      scannedTo: scannedTo.toString(),
+      truncated: await this.hasEventsAfter(scannedTo),
+    };
+  }
+
+  /**
+   * Latest archive sequence, or null while the archive is empty
+   */
+  async getLatestSequence(): Promise<string | null> {
+    const latest = await this.prisma.rawEvent.findFirst({
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true },
+    });
+    return latest?.sequence.toString() ?? null;
+  }
+
+  private async hasEventsAfter(sequence: bigint): Promise<boolean> {
+    const next = await this.prisma.rawEvent.findFirst({
+      where: { sequence: { gt: sequence } },
+      select: { sequence: true },
+    });
+    return next !== null;
+  }
+
+  /**
+   * A purchase leaves the listing open when a remainder was re-listed under
+   * the purchased storage ID (see StorageLineageService)
+   * @param since Transaction position of the resume point - events of earlier
+   * transactions were backfilled and are skipped (null: unknown, keep all)
+   */
+  private getPage(after: bigint, since: bigint | null): Promise<ReplayRow[]> {
+    const backfilled =
+      since !== null
+        ? Prisma.sql`AND (r."txSequence" IS NULL OR r."txSequence" >= ${since})`
+        : Prisma.empty;
+
+    return this.prisma.$queryRaw<ReplayRow[]>`
+      SELECT r."sequence"::text AS "sequence", r."txDigest", r."eventSeq",
+        CASE
+          WHEN l."id" IS NOT NULL THEN 'listed'
+          WHEN p."id" IS NOT NULL THEN 'purchased'
+          WHEN d."id" IS NOT NULL THEN 'delisted'
+        END AS "type",
+        COALESCE(l."storageId", p."storageId", d."storageId") AS "storageId",
+        COALESCE(l."seller", p."seller", d."seller") AS "seller",
+        p."buyer",
+        l."pricePerSizePerEpoch"::text AS "pricePerSizePerEpoch",
+        COALESCE(l."size", p."purchasedSize")::text AS "size",
+        COALESCE(l."startEpoch", p."purchasedStartEpoch") AS "startEpoch",
+        COALESCE(l."endEpoch", p."purchasedEndEpoch") AS "endEpoch",
+        l."totalPrice"::text AS "totalPrice",
+        p."amountPaid"::text AS "amountPaid",
+        p."purchaseType",
+        CASE WHEN p."id" IS NOT NULL THEN NOT EXISTS (
+          SELECT 1 FROM "storage_lineage" s
+          WHERE s."txDigest" = p."txDigest" AND s."eventSeq" = p."eventSeq"
+            AND s."kind" = 'remainder' AND s."childStorageId" = p."storageId"
+        ) END AS "listingSold",
+        COALESCE(l."blockTime", p."blockTime", d."blockTime") AS "blockTime"
+      FROM "raw_events" r
+      LEFT JOIN "storage_listed_events" l
+        ON l."txDigest" = r."txDigest" AND l."eventSeq" = r."eventSeq"
+      LEFT JOIN "storage_purchased_events" p
+        ON p."txDigest" = r."txDigest" AND p."eventSeq" = r."eventSeq"
+      LEFT JOIN "storage_delisted_events" d
+        ON d."txDigest" = r."txDigest" AND d."eventSeq" = r."eventSeq"
+      WHERE r."sequence" > ${after}
+        ${backfilled}
+      ORDER BY r."sequence"
+      LIMIT ${REPLAY_PAGE_SIZE}
+    `;
+  }
+
+  private toPayload(row: ReplayRow): MarketplaceEventPayload | null {
+    if (!row.type || !row.storageId || !row.seller) {
+      return null;
+    }
+
+    const base = {
+      storageId: row.storageId,
+      txDigest: row.txDigest,
+      eventSeq: row.eventSeq,
+      blockTime: row.blockTime?.toISOString() ?? null,
+      sequence: row.sequence,
+    };
+
+    switch (row.type) {
+      case 'listed':
+        return {
+          type: 'listed',
+          ...base,
+          seller: row.seller,
+          listing: {
+            storageId: row.storageId,
+            seller: row.seller,
+            pricePerSizePerEpoch: row.pricePerSizePerEpoch!,
+            size: row.size!,
+            startEpoch: row.startEpoch!,
+            endEpoch: row.endEpoch!,
+            totalPrice: row.totalPrice!,
+          },
+          removed: false,
+        };
+      case 'purchased':
+        return {
+          type: 'purchased',
+          ...base,
+          buyer: row.buyer!,
+          seller: row.seller,
+          amountPaid: row.amountPaid!,
+          purchaseType: row.purchaseType!,
+          purchasedSize: row.size!,
+          purchasedStartEpoch: row.startEpoch!,
+          purchasedEndEpoch: row.endEpoch!,
+          listing: null,
+          removed: row.listingSold ?? true,
+        };
+      case 'delisted':
+        return {
+          type: 'delisted',
+          ...base,
+          seller: row.seller,
+          listing: null,
+          removed: true,
+        };
+    }
+  }
+}
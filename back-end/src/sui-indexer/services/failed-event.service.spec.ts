@@ -0,0 +1,49 @@
+import { Prisma } from '../../../generated/prisma';
+import { isTransientError } from './failed-event.service';
+
+describe('isTransientError', () => {
+  const prismaError = (code: string, meta?: Record<string, unknown>) =>
+    new Prisma.PrismaClientKnownRequestError('query failed', {
+      code,
+      clientVersion: 'test',
+      meta,
+    });
+
+  it('retries database outages, timeouts and conflicts', () => {
+    expect(isTransientError(prismaError('P1001'))).toBe(true);
+    expect(isTransientError(prismaError('P2024'))).toBe(true);
+    expect(isTransientError(prismaError('P2034'))).toBe(true);
+    expect(
+      isTransientError(
+        new Prisma.PrismaClientInitializationError('no database', 'test'),
+      ),
+    ).toBe(true);
+  });
+
+  it('retries serialization failures raised by raw queries', () => {
+    expect(isTransientError(prismaError('P2010', { code: '40001' }))).toBe(
+      true,
+    );
+    expect(isTransientError(prismaError('P2010', { code: '23505' }))).toBe(
+      false,
+    );
+  });
+
+  it('retries network errors, also when wrapped', () => {
+    const reset = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+    expect(isTransientError(reset)).toBe(true);
+    expect(
+      isTransientError(new Error('handler failed', { cause: reset })),
+    ).toBe(true);
+  });
+
+  it('dead-letters errors caused by the events', () => {
+    expect(isTransientError(prismaError('P2025'))).toBe(false);
+    expect(
+      isTransientError(new Error('Invalid StoragePurchased event structure')),
+    ).toBe(false);
+    expect(isTransientError('not an error')).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SuiHTTPTransportError } from '@mysten/sui/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import { RegisteredEvent } from '../registry/event-registry.service';
+
+export type FailedEventStatus = 'pending' | 'replayed' | 'discarded';
+
+// Prisma errors that go away on their own: database unreachable or gone,
+// pool and transaction timeouts, write conflicts and deadlocks
+const TRANSIENT_PRISMA_CODES = new Set([
+  'P1001',
+  'P1002',
+  'P1008',
+  'P1017',
+  'P2024',
+  'P2028',
+  'P2034',
+]);
+
+// Postgres serialization failure and deadlock, as raised by raw queries (P2010)
+const TRANSIENT_SQLSTATES = new Set(['40001', '40P01']);
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+]);
+
+/**
+ * Whether a failure comes from the environment rather than the events -
+ * the same events may apply once the database or RPC node is back, so they
+ * must not be dead-lettered. Follows the error's cause chain.
+ */
+export function isTransientError(error: unknown): boolean {
+  for (
+    let cause: unknown = error;
+    cause instanceof Error;
+    cause = cause.cause === cause ? undefined : cause.cause
+  ) {
+    if (
+      cause instanceof Prisma.PrismaClientInitializationError ||
+      cause instanceof Prisma.PrismaClientRustPanicError ||
+      cause instanceof SuiHTTPTransportError
+    ) {
+      return true;
+    }
+    if (cause instanceof Prisma.PrismaClientKnownRequestError) {
+      const sqlState = (cause.meta as { code?: unknown } | undefined)?.code;
+      return (
+        TRANSIENT_PRISMA_CODES.has(cause.code) ||
+        (cause.code === 'P2010' &&
+          typeof sqlState === 'string' &&
+          TRANSIENT_SQLSTATES.has(sqlState))
+      );
+    }
+    if (cause.name === 'TimeoutError' || cause.name === 'AbortError') {
+      return true;
+    }
+    const code = (cause as NodeJS.ErrnoException).code;
+    if (code !== undefined && TRANSIENT_NETWORK_CODES.has(code)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+@Injectable()
+export class FailedEventService {
+  private readonly logger = new Logger(FailedEventService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record events in the dead-letter queue
+   * @param tx Transaction client - recorded atomically with the cursor advance
+   */
+  async deadLetter(
+    entries: RegisteredEvent[],
+    error: unknown,
+    attempts: number,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await tx.failedEvent.createMany({
+      data: entries.map(({ eventType, event }) => ({
+        eventType,
+        txDigest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        rawEvent: event as unknown as Prisma.InputJsonValue,
+        error: message,
+        attempts,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.warn(
+      `☠️  Dead-lettered ${entries.length} events from ${entries[0]?.event.id.txDigest} after ${attempts} attempts: ${message}`,
+    );
+  }
+
+  /**
+   * List dead-lettered events (newest first)
+   */
+  async listFailedEvents(
+    status?: FailedEventStatus,
+    cursor?: string,
+    limit: number = 50,
+  ) {
+    const failedEvents = await this.prisma.failedEvent.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { failedAt: 'desc' },
+      take: limit + 1, // Fetch one extra to determine if there are more
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1, // Skip the cursor item itself
+      }),
+    });
+
+    // Check if there are more results
+    const hasMore = failedEvents.length > limit;
+    const paginatedEvents = hasMore
+      ? failedEvents.slice(0, limit)
+      : failedEvents;
+    const nextCursor = hasMore
+      ? paginatedEvents[paginatedEvents.length - 1].id
+      : null;
+
+    return {
+      failedEvents: paginatedEvents,
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get a dead-lettered event by ID
+   */
+  async getFailedEvent(id: string) {
+    return this.prisma.failedEvent.findUnique({ where: { id } });
+  }
+
+  /**
+   * Count events waiting for replay or discard
+   */
+  async countPendingFailedEvents(): Promise<number> {
+    return this.prisma.failedEvent.count({ where: { status: 'pending' } });
+  }
+
+  /**
+   * Get the pending dead-lettered events of a transaction in eventSeq order
+   */
+  async getPendingForTransaction(txDigest: string) {
+    const failedEvents = await this.prisma.failedEvent.findMany({
+      where: { txDigest, status: 'pending' },
+    });
+
+    return failedEvents.sort((a, b) => Number(a.eventSeq) - Number(b.eventSeq));
+  }
+
+  /**
+   * Mark events as successfully replayed
+   */
+  async markReplayed(
+    ids: string[],
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    await tx.failedEvent.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: 'replayed',
+        resolvedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * Record a failed replay attempt
+   */
+  async recordReplayFailure(ids: string[], error: unknown): Promise<void> {
+    await this.prisma.failedEvent.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        error: error instanceof Error ? error.message : String(error),
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * Discard a pending event - it will never be projected
+   * @returns The updated event, or null if no pending event has this ID
+   */
+  async discard(id: string) {
+    const { count } = await this.prisma.failedEvent.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'discarded', resolvedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    this.logger.warn(`Discarded failed event ${id}`);
+    return this.getFailedEvent(id);
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MetricsService } from '../../metrics/metrics.service';
+import { SuiClientService } from '../sui-client/sui-client.service';
+import { EventsGateway } from '../gateway/events.gateway';
+import { SuiIndexerConfig } from '../../config/sui-indexer.config';
+
+const MARKETPLACE_MODULE = 'marketplace';
+
+/**
+ * Samples indexer and WebSocket gauges at scrape time
+ *
+ * Runs on every instance, not only the leader: the archive is shared, so any
+ * instance can tell how far behind the chain the indexer is.
+ */
+@Injectable()
+export class IndexerMetricsService implements OnModuleInit {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly metrics: MetricsService,
+    private readonly suiClient: SuiClientService,
+    private readonly eventsGateway: EventsGateway,
+  ) {}
+
+  onModuleInit() {
+    this.metrics.addCollector(() => this.collectWebSocketStats());
+
+    const config = this.configService.get<SuiIndexerConfig>('suiIndexer');
+    if (config?.enabled) {
+      this.metrics.addCollector(() => this.collectIndexerLag());
+    }
+  }
+
+  private collectWebSocketStats(): void {
+    const { totalClients, subscriptionCounts } = this.eventsGateway.getStats();
+
+    this.metrics.websocketClients.set(totalClients);
+    for (const [eventType, count] of Object.entries(subscriptionCounts)) {
+      this.metrics.websocketSubscriptions.set({ event_type: eventType }, count);
+    }
+  }
+
+  /**
+   * Lag = timestamp of the newest marketplace event on chain (across package
+   * versions) - timestamp of the newest archived event
+   *
+   * Every applied or dead-lettered transaction is archived, so the archive's
+   * newest event is where the cursors are. Left unset until something has
+   * been archived.
+   */
+  private async collectIndexerLag(): Promise<void> {
+    const client = this.suiClient.getClient();
+    const { packageIds } = this.suiClient.getConfig();
+
+    const [latestOnChain, latestArchived] = await Promise.all([
+      Promise.all(
+        packageIds.map(async (packageId) => {
+          const { data } = await client.queryEvents({
+            query: {
+              MoveEventModule: {
+                package: packageId,
+                module: MARKETPLACE_MODULE,
+              },
+            },
+            limit: 1,
+            order: 'descending',
+          });
+          return Number(data[0]?.timestampMs ?? 0);
+        }),
+      ),
+      this.prisma.rawEvent.aggregate({ _max: { timestampMs: true } }),
+    ]);
+
+    const archivedMs = latestArchived._max.timestampMs;
+    if (archivedMs === null) {
+      return;
+    }
+
+    const lagMs = Math.max(0, Math.max(...latestOnChain) - Number(archivedMs));
+    this.metrics.indexerLag.set(lagMs / 1000);
+  }
+}
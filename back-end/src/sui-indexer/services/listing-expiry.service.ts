@@ -0,0 +1,117 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WalrusService } from '../../walrus/walrus.service';
+import { MARKETPLACE_CURSOR_ID } from '../cursor/cursor.service';
+import { MarketplaceEventStream } from './marketplace-event-stream.service';
+import {
+  LEADER_LOCK_ID,
+  ProcessingLockService,
+} from './processing-lock.service';
+import {
+  OPEN_LISTING_STATUSES,
+  StorageExpiredPayload,
+} from '../types/marketplace-events.types';
+import { SuiIndexerConfig } from '../../config/sui-indexer.config';
+
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000; // 1 minute
+
+export interface ExpirySweepResult {
+  epoch: number;
+  expired: number;
+}
+
+/**
+ * Closes listings as Walrus epochs advance
+ *
+ * Expiry is not an on-chain event: a listing whose end epoch has been
+ * reached stays in the Marketplace listings table, and the contract still
+ * sells it (EStorageExpired is only checked by list_storage). Its storage
+ * has no epochs left, so the sweeper marks such listings as expired, which
+ * hides them from buyers, and publishes a storage:expired notification for
+ * each. A later purchase or delist still closes them as sold or delisted.
+ */
+@Injectable()
+export class ListingExpiryService {
+  private readonly logger = new Logger(ListingExpiryService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly walrusService: WalrusService,
+    private readonly lockService: ProcessingLockService,
+    private readonly eventStream: MarketplaceEventStream,
+  ) {}
+
+  /**
+   * Scheduled sweep - runs on the indexer leader only
+   */
+  @Interval(EXPIRY_SWEEP_INTERVAL_MS)
+  async scheduledSweep(): Promise<void> {
+    const config = this.configService.get<SuiIndexerConfig>('suiIndexer');
+
+    if (!config?.enabled || !this.lockService.holdsLock(LEADER_LOCK_ID)) {
+      return;
+    }
+
+    try {
+      await this.sweepExpiredListings();
+    } catch (error) {
+      this.logger.error('Listing expiry sweep failed:', error);
+    }
+  }
+
+  /**
+   * Mark open listings whose end epoch has been reached as expired
+   * @returns null if the indexer is busy (the next sweep catches up)
+   */
+  async sweepExpiredListings(): Promise<ExpirySweepResult | null> {
+    const systemState = await this.walrusService.getSystemState();
+    const epoch = Number(systemState.epoch);
+
+    // Don't race the indexer or a projection rebuild on the same rows
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      this.logger.debug('Indexer is busy - skipping listing expiry sweep');
+      return null;
+    }
+
+    let expired: { storageId: string; seller: string; endEpoch: number }[];
+    const expiredAt = new Date();
+    try {
+      expired = await this.prisma.listedStorage.updateManyAndReturn({
+        where: {
+          status: { in: OPEN_LISTING_STATUSES },
+          endEpoch: { lte: epoch },
+        },
+        data: { status: 'expired', closedAt: expiredAt },
+        select: { storageId: true, seller: true, endEpoch: true },
+      });
+    } finally {
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(
+        `⌛ Expired ${expired.length} listings at epoch ${epoch}`,
+      );
+    }
+
+    // Notify after the update has committed
+    for (const listing of expired) {
+      const payload: StorageExpiredPayload = {
+        type: 'expired',
+        storageId: listing.storageId,
+        seller: listing.seller,
+        endEpoch: listing.endEpoch,
+        epoch,
+        expiredAt: expiredAt.toISOString(),
+        listing: null,
+        removed: true,
+      };
+      this.eventStream.publish(payload);
+    }
+
+    return { epoch, expired: expired.length };
+  }
+}
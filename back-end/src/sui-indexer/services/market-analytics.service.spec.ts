@@ -0,0 +1,291 @@
+import { BadRequestException } from '@nestjs/common';
+import { MarketAnalyticsService } from './market-analytics.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WalrusService } from '../../walrus/walrus.service';
+import { Prisma } from '../../../generated/prisma';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('MarketAnalyticsService.getMarketTimeSeries', () => {
+  const schedule = {
+    firstEpochStartMs: Date.parse('2025-11-01T00:00:00Z'),
+    epochDurationMs: 14 * 24 * HOUR_MS,
+  };
+
+  let queries: Prisma.Sql[];
+  let results: unknown[][];
+  let service: MarketAnalyticsService;
+
+  beforeEach(() => {
+    queries = [];
+    results = [];
+    const prisma = {
+      // Answer the trades query, then the listings query
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          queries.push(Prisma.sql(strings, ...values));
+          return Promise.resolve(results.shift() ?? []);
+        },
+      ),
+    };
+    const walrus = {
+      getEpochSchedule: jest.fn().mockResolvedValue(schedule),
+    };
+    service = new MarketAnalyticsService(
+      prisma as unknown as PrismaService,
+      walrus as unknown as WalrusService,
+    );
+  });
+
+  const trade = (bucket: bigint) => ({
+    bucket,
+    open: '100',
+    high: '120',
+    low: '90',
+    close: '110',
+    vwap: '105',
+    trades: 3,
+    value: '3000',
+    size: '1048576',
+    byteEpochs: '5242880',
+  });
+
+  it('returns every bucket in the range, including empty ones', async () => {
+    const from = new Date('2025-12-01T10:30:00Z');
+    const to = new Date('2025-12-01T13:00:00Z');
+    results = [[trade(BigInt(Date.parse('2025-12-01T11:00:00Z')))], []];
+
+    const { points } = await service.getMarketTimeSeries('hour', { from, to });
+
+    // The first bucket starts at the hour before from
+    expect(points.map((point) => point.bucket)).toEqual([
+      '2025-12-01T10:00:00.000Z',
+      '2025-12-01T11:00:00.000Z',
+      '2025-12-01T12:00:00.000Z',
+    ]);
+    expect(points[0].price).toBeNull();
+    expect(points[0].volume).toEqual({
+      trades: 0,
+      value: '0',
+      size: '0',
+      byteEpochs: '0',
+    });
+    expect(points[1].price).toEqual({
+      open: '100',
+      high: '120',
+      low: '90',
+      close: '110',
+      vwap: '105',
+    });
+    expect(points[1].volume.trades).toBe(3);
+  });
+
+  it('prices trades in a stable on-chain order and skips empty ones', async () => {
+    await service.getMarketTimeSeries('day', {
+      from: new Date('2025-11-01T00:00:00Z'),
+      to: new Date('2025-12-01T00:00:00Z'),
+    });
+
+    const [trades, listings] = queries.map((query) => query.sql);
+    // Zero size or zero epochs would divide by zero
+    expect(trades).toContain('AND "purchasedSize" > 0');
+    expect(trades).toContain('AND "purchasedEndEpoch" > "purchasedStartEpoch"');
+    // Trades in one block are ordered by transaction and event
+    expect(trades).toContain(
+      'ORDER BY "blockTime", "txDigest", "eventSeq"::int))[1]',
+    );
+    expect(trades).toContain(
+      'ORDER BY "blockTime" DESC, "txDigest" DESC, "eventSeq"::int DESC))[1]',
+    );
+    // Remainders re-listed by a purchase are not new supply
+    expect(listings).toContain('AND NOT EXISTS');
+    expect(listings).toContain('WHERE p."txDigest" = l."txDigest"');
+  });
+
+  it('buckets by Walrus epoch, with epoch 0 before the first epoch', async () => {
+    const from = new Date(schedule.firstEpochStartMs - HOUR_MS);
+    const to = new Date(
+      schedule.firstEpochStartMs + 2 * schedule.epochDurationMs,
+    );
+    results = [[trade(1n)], []];
+
+    const { points } = await service.getMarketTimeSeries('epoch', { from, to });
+
+    expect(points.map((point) => point.bucket)).toEqual([0, 1, 2]);
+    expect(points[1].start).toBe('2025-11-01T00:00:00.000Z');
+    expect(points[1].price?.close).toBe('110');
+    expect(queries[0].values).toEqual(
+      expect.arrayContaining([
+        schedule.firstEpochStartMs,
+        schedule.epochDurationMs,
+      ]),
+    );
+  });
+
+  it('defaults to the last 30 epochs', async () => {
+    const { from, to } = await service.getMarketTimeSeries('epoch');
+
+    expect(Date.parse(to) - Date.parse(from)).toBe(
+      30 * schedule.epochDurationMs,
+    );
+  });
+
+  it('rejects an empty or oversized range', async () => {
+    const to = new Date('2025-12-01T00:00:00Z');
+
+    await expect(
+      service.getMarketTimeSeries('hour', { from: to, to }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.getMarketTimeSeries('hour', {
+        from: new Date(to.getTime() - 1001 * HOUR_MS),
+        to,
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(queries).toHaveLength(0);
+  });
+});
+
+describe('MarketAnalyticsService.getSupplyDepth', () => {
+  let queries: Prisma.Sql[];
+  let rows: unknown[];
+  let maxEndEpoch: number | null;
+  let service: MarketAnalyticsService;
+
+  beforeEach(() => {
+    queries = [];
+    rows = [];
+    maxEndEpoch = null;
+    const prisma = {
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          queries.push(Prisma.sql(strings, ...values));
+          return Promise.resolve(rows);
+        },
+      ),
+      listedStorage: {
+        aggregate: jest.fn(() =>
+          Promise.resolve({ _max: { endEpoch: maxEndEpoch } }),
+        ),
+      },
+    };
+    const walrus = {
+      getSystemState: jest.fn().mockResolvedValue({ epoch: 10n }),
+    };
+    service = new MarketAnalyticsService(
+      prisma as unknown as PrismaService,
+      walrus as unknown as WalrusService,
+    );
+  });
+
+  const level = (
+    startEpoch: number,
+    price: string,
+    size: string,
+    cumulativeSize: string,
+  ) => ({
+    startEpoch,
+    endEpoch: startEpoch + 3,
+    price,
+    pricePerMib: price,
+    listings: 1,
+    size,
+    cumulativeSize,
+    cumulativeCost: '0',
+  });
+
+  it('cuts the last bucket at toEpoch', async () => {
+    const depth = await service.getSupplyDepth({
+      fromEpoch: 10,
+      toEpoch: 17,
+      bucketEpochs: 3,
+    });
+
+    expect(
+      depth.buckets.map((bucket) => [bucket.startEpoch, bucket.endEpoch]),
+    ).toEqual([
+      [10, 13],
+      [13, 16],
+      [16, 17],
+    ]);
+    // Listings must cover the whole bucket
+    expect(queries[0].sql).toContain('ON l."startEpoch" <= bk."startEpoch"');
+    expect(queries[0].sql).toContain('AND l."endEpoch" >= bk."endEpoch"');
+  });
+
+  it('fills buckets cheapest first with running totals', async () => {
+    rows = [
+      level(10, '100', '1048576', '1048576'),
+      level(10, '200', '2097152', '3145728'),
+      level(13, '150', '1048576', '1048576'),
+    ];
+
+    const { buckets } = await service.getSupplyDepth({
+      fromEpoch: 10,
+      toEpoch: 16,
+      bucketEpochs: 3,
+    });
+
+    expect(buckets[0].listings).toBe(2);
+    expect(buckets[0].totalSize).toBe('3145728');
+    expect(
+      buckets[0].levels.map((entry) => entry.pricePerSizePerEpoch),
+    ).toEqual(['100', '200']);
+    expect(buckets[1].totalSize).toBe('1048576');
+  });
+
+  it('runs to the furthest open listing, from the current epoch', async () => {
+    maxEndEpoch = 14;
+
+    const depth = await service.getSupplyDepth();
+
+    expect(depth).toEqual(
+      expect.objectContaining({ currentEpoch: 10, fromEpoch: 10, toEpoch: 14 }),
+    );
+    expect(depth.buckets).toHaveLength(4);
+  });
+
+  it('caps the default range at 200 buckets', async () => {
+    maxEndEpoch = 10_000;
+
+    const depth = await service.getSupplyDepth({ bucketEpochs: 2 });
+
+    expect(depth.toEpoch).toBe(410);
+    expect(depth.buckets).toHaveLength(200);
+  });
+
+  it('returns no buckets without open listings', async () => {
+    const depth = await service.getSupplyDepth();
+
+    expect(depth.toEpoch).toBe(10);
+    expect(depth.buckets).toEqual([]);
+    expect(queries).toHaveLength(0);
+  });
+
+  it('excludes the given sellers', async () => {
+    await service.getSupplyDepth({
+      toEpoch: 12,
+      excludeSellers: ['0xme', '0xalt'],
+    });
+
+    expect(queries[0].sql).toContain('AND l."seller" NOT IN (?,?)');
+    expect(queries[0].values).toEqual(
+      expect.arrayContaining(['0xme', '0xalt']),
+    );
+  });
+
+  it('rejects invalid ranges', async () => {
+    await expect(service.getSupplyDepth({ fromEpoch: 9 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.getSupplyDepth({ bucketEpochs: 0 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.getSupplyDepth({ toEpoch: 10 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.getSupplyDepth({ toEpoch: 211 })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,373 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import { WalrusService } from '../../walrus/walrus.service';
+import { WalrusEpochSchedule } from '../../walrus/types/walrus.types';
+import {
+  DepthBucket,
+  MarketTimeSeries,
+  MarketTimeSeriesPoint,
+  SupplyDepth,
+  SupplyDepthQuery,
+  TimeSeriesInterval,
+  TimeSeriesRange,
+} from '../types/market-analytics.types';
+import { OPEN_LISTING_STATUSES } from '../types/marketplace-events.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_TIMESERIES_POINTS = 1000;
+const MAX_DEPTH_BUCKETS = 200;
+const DEFAULT_RANGE_BUCKETS: Record<TimeSeriesInterval, number> = {
+  hour: 7 * 24, // 7 days
+  day: 90,
+  epoch: 30,
+};
+
+/**
+ * Trades aggregated per bucket (sums as text)
+ */
+interface TradeBucketRow {
+  bucket: bigint;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  vwap: string;
+  trades: number;
+  value: string;
+  size: string;
+  byteEpochs: string;
+}
+
+/**
+ * New listings aggregated per bucket (sums as text)
+ */
+interface ListingBucketRow {
+  bucket: bigint;
+  listings: number;
+  size: string;
+  value: string;
+  averageAsk: string | null;
+}
+
+/**
+ * Open listings at one price in one depth bucket, with running totals
+ */
+interface DepthLevelRow {
+  startEpoch: number;
+  endEpoch: number;
+  price: string;
+  pricePerMib: string;
+  listings: number;
+  size: string;
+  cumulativeSize: string;
+  cumulativeCost: string;
+}
+
+/**
+ * Market-wide analytics over the event history tables and open listings
+ */
+@Injectable()
+export class MarketAnalyticsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly walrusService: WalrusService,
+  ) {}
+
+  /**
+   * OHLC prices, traded volume and new supply per hour, UTC day or Walrus
+   * epoch
+   *
+   * Every bucket in the range is returned, including empty ones. Walrus
+   * epochs are derived from block time using the epoch schedule, so a sale
+   * made while an epoch change was still in progress lands in the new
+   * epoch.
+   */
+  async getMarketTimeSeries(
+    interval: TimeSeriesInterval,
+    range: TimeSeriesRange = {},
+  ): Promise<MarketTimeSeries> {
+    const schedule =
+      interval === 'epoch' ? await this.walrusService.getEpochSchedule() : null;
+    const bucketMs = schedule
+      ? schedule.epochDurationMs
+      : interval === 'hour'
+        ? HOUR_MS
+        : DAY_MS;
+
+    const to = range.to ?? new Date();
+    const from =
+      range.from ??
+      new Date(to.getTime() - DEFAULT_RANGE_BUCKETS[interval] * bucketMs);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if ((to.getTime() - from.getTime()) / bucketMs > MAX_TIMESERIES_POINTS) {
+      throw new BadRequestException(
+        `Range too large: at most ${MAX_TIMESERIES_POINTS} ${interval} buckets`,
+      );
+    }
+
+    const bucketExpr = schedule
+      ? Prisma.sql`(CASE
+          WHEN extract(epoch from "blockTime") * 1000 < ${schedule.firstEpochStartMs} THEN 0
+          ELSE floor((extract(epoch from "blockTime") * 1000 - ${schedule.firstEpochStartMs}) / ${schedule.epochDurationMs}) + 1
+        END)::bigint`
+      : Prisma.sql`(extract(epoch from date_trunc(${interval}, "blockTime")) * 1000)::bigint`;
+    const where = Prisma.sql`WHERE "blockTime" >= ${from} AND "blockTime" < ${to}`;
+
+    const [trades, listings] = await Promise.all([
+      this.prisma.$queryRaw<TradeBucketRow[]>`
+        WITH trades AS (
+          SELECT
+            ${bucketExpr} AS "bucket",
+            "blockTime",
+            "txDigest",
+            "eventSeq",
+            "amountPaid",
+            "purchasedSize",
+            "purchasedSize"::numeric * ("purchasedEndEpoch" - "purchasedStartEpoch") AS "byteEpochs",
+            floor("amountPaid"::numeric * 1048576 / ("purchasedSize"::numeric * ("purchasedEndEpoch" - "purchasedStartEpoch"))) AS "price"
+          FROM "storage_purchased_events"
+          ${where}
+          AND "purchasedSize" > 0
+          AND "purchasedEndEpoch" > "purchasedStartEpoch"
+        )
+        SELECT
+          "bucket",
+          ((array_agg("price" ORDER BY "blockTime", "txDigest", "eventSeq"::int))[1])::text AS "open",
+          max("price")::text AS "high",
+          min("price")::text AS "low",
+          ((array_agg("price" ORDER BY "blockTime" DESC, "txDigest" DESC, "eventSeq"::int DESC))[1])::text AS "close",
+          floor(SUM("amountPaid") * 1048576 / SUM("byteEpochs"))::text AS "vwap",
+          COUNT(*)::int AS "trades",
+          SUM("amountPaid")::text AS "value",
+          SUM("purchasedSize")::text AS "size",
+          SUM("byteEpochs")::text AS "byteEpochs"
+        FROM trades
+        GROUP BY "bucket"
+      `,
+      this.prisma.$queryRaw<ListingBucketRow[]>`
+        SELECT
+          ${bucketExpr} AS "bucket",
+          COUNT(*)::int AS "listings",
+          SUM("size")::text AS "size",
+          SUM("totalPrice")::text AS "value",
+          floor(SUM("pricePerSizePerEpoch"::numeric * "size") * 1048576 / 1000000000 / NULLIF(SUM("size"), 0))::text AS "averageAsk"
+        FROM "storage_listed_events" l
+        ${where}
+        AND NOT EXISTS (
+          SELECT 1 FROM "storage_purchased_events" p
+          WHERE p."txDigest" = l."txDigest"
+        )
+        GROUP BY 1
+      `,
+    ]);
+
+    const tradesByBucket = new Map(
+      trades.map((row) => [Number(row.bucket), row]),
+    );
+    const listingsByBucket = new Map(
+      listings.map((row) => [Number(row.bucket), row]),
+    );
+
+    const points: MarketTimeSeriesPoint[] = [];
+    for (const { key, start } of this.enumerateBuckets(
+      interval,
+      from,
+      to,
+      schedule,
+    )) {
+      const trade = tradesByBucket.get(key);
+      const listing = listingsByBucket.get(key);
+
+      points.push({
+        bucket: schedule ? key : start.toISOString(),
+        start: start.toISOString(),
+        price: trade
+          ? {
+              open: trade.open,
+              high: trade.high,
+              low: trade.low,
+              close: trade.close,
+              vwap: trade.vwap,
+            }
+          : null,
+        volume: {
+          trades: trade?.trades ?? 0,
+          value: trade?.value ?? '0',
+          size: trade?.size ?? '0',
+          byteEpochs: trade?.byteEpochs ?? '0',
+        },
+        listed: {
+          listings: listing?.listings ?? 0,
+          size: listing?.size ?? '0',
+          value: listing?.value ?? '0',
+          averageAskPerMibPerEpoch: listing?.averageAsk ?? null,
+        },
+      });
+    }
+
+    return {
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      points,
+    };
+  }
+
+  /**
+   * Storage available per future epoch (or bucket of epochs), with the
+   * cumulative cost of buying it from the cheapest listing up
+   *
+   * A listing counts towards a bucket only if it covers the whole bucket:
+   * that is the storage a buyer can take for that window.
+   */
+  async getSupplyDepth(query: SupplyDepthQuery = {}): Promise<SupplyDepth> {
+    const { epoch } = await this.walrusService.getSystemState();
+    const currentEpoch = Number(epoch);
+    const bucketEpochs = query.bucketEpochs ?? 1;
+    const fromEpoch = query.fromEpoch ?? currentEpoch;
+
+    if (bucketEpochs < 1) {
+      throw new BadRequestException('bucketEpochs must be at least 1');
+    }
+    if (fromEpoch < currentEpoch) {
+      throw new BadRequestException(
+        `fromEpoch must not be before the current epoch (${currentEpoch})`,
+      );
+    }
+
+    let toEpoch = query.toEpoch;
+    if (toEpoch === undefined) {
+      const { _max } = await this.prisma.listedStorage.aggregate({
+        where: { status: { in: OPEN_LISTING_STATUSES } },
+        _max: { endEpoch: true },
+      });
+      toEpoch = Math.min(
+        Math.max(_max.endEpoch ?? fromEpoch, fromEpoch),
+        fromEpoch + MAX_DEPTH_BUCKETS * bucketEpochs,
+      );
+    } else if (toEpoch <= fromEpoch) {
+      throw new BadRequestException('toEpoch must be after fromEpoch');
+    } else if ((toEpoch - fromEpoch) / bucketEpochs > MAX_DEPTH_BUCKETS) {
+      throw new BadRequestException(
+        `Range too large: at most ${MAX_DEPTH_BUCKETS} buckets`,
+      );
+    }
+
+    const buckets: DepthBucket[] = [];
+    for (let start = fromEpoch; start < toEpoch; start += bucketEpochs) {
+      buckets.push({
+        startEpoch: start,
+        endEpoch: Math.min(start + bucketEpochs, toEpoch),
+        listings: 0,
+        totalSize: '0',
+        levels: [],
+      });
+    }
+    if (buckets.length === 0) {
+      return { currentEpoch, fromEpoch, toEpoch, bucketEpochs, buckets };
+    }
+
+    const excludeSellers = query.excludeSellers?.length
+      ? Prisma.sql`AND l."seller" NOT IN (${Prisma.join(query.excludeSellers)})`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<DepthLevelRow[]>`
+      WITH buckets AS (
+        SELECT
+          b AS "startEpoch",
+          LEAST(b + ${bucketEpochs}::int, ${toEpoch}::int) AS "endEpoch"
+        FROM generate_series(${fromEpoch}::int, ${toEpoch}::int - 1, ${bucketEpochs}::int) AS b
+      ),
+      levels AS (
+        SELECT
+          bk."startEpoch",
+          bk."endEpoch",
+          l."pricePerSizePerEpoch" AS "price",
+          COUNT(*)::int AS "listings",
+          SUM(l."size") AS "size"
+        FROM buckets bk
+        JOIN "listed_storage" l
+          ON l."startEpoch" <= bk."startEpoch"
+          AND l."endEpoch" >= bk."endEpoch"
+        WHERE l."status" IN (${Prisma.join(OPEN_LISTING_STATUSES)})
+        ${excludeSellers}
+        GROUP BY 1, 2, 3
+      )
+      SELECT
+        "startEpoch",
+        "endEpoch",
+        "price"::text AS "price",
+        floor("price"::numeric * 1048576 / 1000000000)::text AS "pricePerMib",
+        "listings",
+        "size"::text AS "size",
+        (SUM("size") OVER w)::text AS "cumulativeSize",
+        floor(SUM("price"::numeric * "size") OVER w * ("endEpoch" - "startEpoch") / 1000000000)::text AS "cumulativeCost"
+      FROM levels
+      WINDOW w AS (PARTITION BY "startEpoch" ORDER BY "price" ROWS UNBOUNDED PRECEDING)
+      ORDER BY "startEpoch", "price"
+    `;
+
+    const bucketsByStart = new Map(
+      buckets.map((bucket) => [bucket.startEpoch, bucket]),
+    );
+    for (const row of rows) {
+      const bucket = bucketsByStart.get(row.startEpoch)!;
+      bucket.listings += row.listings;
+      bucket.totalSize = row.cumulativeSize; // Rows are cheapest first
+      bucket.levels.push({
+        pricePerSizePerEpoch: row.price,
+        pricePerMibPerEpoch: row.pricePerMib,
+        listings: row.listings,
+        size: row.size,
+        cumulativeSize: row.cumulativeSize,
+        cumulativeCost: row.cumulativeCost,
+      });
+    }
+
+    return { currentEpoch, fromEpoch, toEpoch, bucketEpochs, buckets };
+  }
+
+  /**
+   * Every bucket overlapping [from, to), keyed like the SQL bucket
+   * expression (bucket start in ms, or epoch number)
+   */
+  private *enumerateBuckets(
+    interval: TimeSeriesInterval,
+    from: Date,
+    to: Date,
+    schedule: WalrusEpochSchedule | null,
+  ): Generator<{ key: number; start: Date }> {
+    if (schedule) {
+      const { firstEpochStartMs, epochDurationMs } = schedule;
+      const epochAt = (ms: number) =>
+        ms < firstEpochStartMs
+          ? 0
+          : Math.floor((ms - firstEpochStartMs) / epochDurationMs) + 1;
+
+      for (
+        let epoch = epochAt(from.getTime());
+        epoch <= epochAt(to.getTime() - 1);
+        epoch++
+      ) {
+        yield {
+          key: epoch,
+          start: new Date(firstEpochStartMs + (epoch - 1) * epochDurationMs),
+        };
+      }
+      return;
+    }
+
+    const bucketMs = interval === 'hour' ? HOUR_MS : DAY_MS;
+    for (
+      let ms = Math.floor(from.getTime() / bucketMs) * bucketMs;
+      ms < to.getTime();
+      ms += bucketMs
+    ) {
+      yield { key: ms, start: new Date(ms) };
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  MarketplaceEventStream,
+  MarketplaceStreamItem,
+} from './marketplace-event-stream.service';
+import { EventReplayService, ReplayResult } from './event-replay.service';
+import {
+  MarketplaceEventPayload,
+  StorageDelistedPayload,
+  StorageExpiredPayload,
+} from '../types/marketplace-events.types';
+
+describe('MarketplaceEventStream.follow', () => {
+  const delisted = (
+    sequence: string,
+    seller = '0xseller',
+  ): StorageDelistedPayload => ({
+    type: 'delisted',
+    storageId: `0x${sequence}`,
+    seller,
+    txDigest: `tx-${sequence}`,
+    eventSeq: '0',
+    blockTime: null,
+    sequence,
+    listing: null,
+    removed: true,
+  });
+
+  const expired: StorageExpiredPayload = {
+    type: 'expired',
+    storageId: '0xexpired',
+    seller: '0xseller',
+    endEpoch: 10,
+    epoch: 10,
+    expiredAt: '2025-12-01T00:00:00.000Z',
+    listing: null,
+    removed: true,
+  };
+
+  let resolveReplay: (replay: ReplayResult) => void;
+  let getEventsAfter: jest.Mock;
+  let stream: MarketplaceEventStream;
+  let received: (MarketplaceStreamItem | 'complete')[];
+
+  beforeEach(() => {
+    getEventsAfter = jest.fn(
+      () =>
+        new Promise<ReplayResult>((resolve) => {
+          resolveReplay = resolve;
+        }),
+    );
+    stream = new MarketplaceEventStream({
+      getEventsAfter,
+    } as unknown as EventReplayService);
+    received = [];
+  });
+
+  const follow = (after?: bigint) =>
+    stream.follow([{ sellers: ['0xseller'] }], after).subscribe({
+      next: (item) => received.push(item),
+      complete: () => received.push('complete'),
+    });
+
+  // Sequences of events and replay summaries received, in order
+  const timeline = () =>
+    received.map((item) =>
+      item === 'complete'
+        ? item
+        : item.type === 'replay'
+          ? `replay:${item.replay.scannedTo}`
+          : (eventSequence(item.payload) ?? item.payload.type),
+    );
+
+  const eventSequence = (payload: MarketplaceEventPayload) =>
+    payload.type === 'expired' ? null : payload.sequence;
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('forwards matching live events without a resume point', () => {
+    const subscription = follow();
+
+    stream.publish(delisted('1'));
+    stream.publish(delisted('2', '0xsomeone'));
+    subscription.unsubscribe();
+    stream.publish(delisted('3'));
+
+    expect(timeline()).toEqual(['1']);
+    expect(getEventsAfter).not.toHaveBeenCalled();
+  });
+
+  it('replays missed events before live ones and drops duplicates', async () => {
+    follow(100n);
+
+    // Committed while the replay runs: 102 is in the replay too
+    stream.publish(delisted('102'));
+    stream.publish(delisted('104'));
+    stream.publish(expired);
+    resolveReplay({
+      events: [delisted('101'), delisted('102')],
+      scannedTo: '103',
+      truncated: false,
+    });
+    await settle();
+    stream.publish(delisted('105'));
+
+    expect(getEventsAfter).toHaveBeenCalledWith(100n, [
+      { sellers: ['0xseller'] },
+    ]);
+    expect(timeline()).toEqual([
+      '101',
+      '102',
+      'replay:103',
+      '104',
+      'expired',
+      '105',
+    ]);
+  });
+
+  it('ends the stream after a truncated replay', async () => {
+    follow(0n);
+
+    stream.publish(delisted('2000'));
+    resolveReplay({
+      events: [delisted('1')],
+      scannedTo: '1000',
+      truncated: true,
+    });
+    await settle();
+    stream.publish(delisted('2001'));
+
+    // The client resumes from 1000 instead of skipping to live events
+    expect(timeline()).toEqual(['1', 'replay:1000', 'complete']);
+  });
+
+  it('fails the stream when the replay fails', async () => {
+    const errors: unknown[] = [];
+    getEventsAfter.mockRejectedValueOnce(new Error('database down'));
+
+    stream.follow([{}], 0n).subscribe({
+      error: (error: unknown) => errors.push(error),
+    });
+    await settle();
+
+    expect(errors).toEqual([new Error('database down')]);
+  });
+});
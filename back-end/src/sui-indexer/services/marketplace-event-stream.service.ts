@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import {
+  MarketplaceEventPayload,
+  SubscriptionFilter,
+} from '../types/marketplace-events.types';
+import { matchesSubscriptionFilter } from '../gateway/subscription-filter';
+import { EventReplayService, ReplayResult } from './event-replay.service';
+
+/**
+ * Outcome of the replay that precedes a resumed stream
+ */
+export type ReplaySummary = Omit<ReplayResult, 'events'> & { events: number };
+
+export type MarketplaceStreamItem =
+  | { type: 'event'; payload: MarketplaceEventPayload }
+  | { type: 'replay'; replay: ReplaySummary };
+
+/**
+ * In-process source of committed marketplace events
+ *
+ * The indexer and the expiry sweeper publish here once their changes are
+ * committed; the WebSocket gateway and the SSE endpoint consume the same
+ * stream, so both transports carry identical payloads.
+ */
+@Injectable()
+export class MarketplaceEventStream {
+  private readonly events = new Subject<MarketplaceEventPayload>();
+
+  constructor(private readonly eventReplay: EventReplayService) {}
+
+  publish(payload: MarketplaceEventPayload): void {
+    this.events.next(payload);
+  }
+
+  /**
+   * Every committed event, from now on
+   */
+  observe(): Observable<MarketplaceEventPayload> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Events matching any of the filters. With `after`, the events committed
+   * since that archive sequence are replayed first, followed by a replay
+   * summary; live events arriving meanwhile are held back and those the
+   * replay already covered are dropped.
+   *
+   * A truncated replay completes the stream after its summary: live events
+   * past the gap would move the client beyond events it never received.
+   * The client resumes from the summary's scannedTo.
+   */
+  follow(
+    filters: SubscriptionFilter[],
+    after?: bigint,
+  ): Observable<MarketplaceStreamItem> {
+    const matches = (payload: MarketplaceEventPayload) =>
+      filters.some((filter) => matchesSubscriptionFilter(filter, payload));
+
+    return new Observable<MarketplaceStreamItem>((subscriber) => {
+      let buffer: MarketplaceEventPayload[] | null =
+        after === undefined ? null : [];
+
+      const live = this.events.subscribe((payload) => {
+        if (!matches(payload)) {
+          return;
+        }
+        if (buffer) {
+          buffer.push(payload);
+        } else {
+          subscriber.next({ type: 'event', payload });
+        }
+      });
+
+      if (after !== undefined) {
+        this.eventReplay
+          .getEventsAfter(after, filters)
+          .then((replay) => {
+            for (const payload of replay.events) {
+              subscriber.next({ type: 'event', payload });
+            }
+
+            subscriber.next({
+              type: 'replay',
+              replay: {
+                events: replay.events.length,
+                scannedTo: replay.scannedTo,
+                truncated: replay.truncated,
+              },
+            });
+
+            if (replay.truncated) {
+              subscriber.complete();
+              return;
+            }
+
+            const scannedTo = BigInt(replay.scannedTo);
+            for (const payload of buffer ?? []) {
+              const sequence =
+                payload.type === 'expired' ? null : payload.sequence;
+              if (sequence === null || BigInt(sequence) > scannedTo) {
+                subscriber.next({ type: 'event', payload });
+              }
+            }
+            buffer = null;
+          })
+          .catch((error) => subscriber.error(error));
+      }
+
+      return () => live.unsubscribe();
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { ProcessingLockService } from './processing-lock.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('ProcessingLockService', () => {
+  let now: number;
+  let renew: jest.Mock;
+  let service: ProcessingLockService;
+
+  beforeEach(async () => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    renew = jest.fn().mockResolvedValue(1);
+    const prisma = {
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 'lock' }]),
+      $executeRaw: renew,
+    };
+    service = new ProcessingLockService(prisma as unknown as PrismaService);
+    await service.tryAcquireLock('lock');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a lock while renewals succeed', async () => {
+    for (let i = 0; i < 6; i++) {
+      now += 10_000;
+      await service.renewLeases();
+    }
+
+    expect(service.holdsLock('lock')).toBe(true);
+  });
+
+  it('gives up a lock it could not renew before the lease expires', async () => {
+    renew.mockRejectedValue(new Error("Can't reach database server"));
+
+    now += 20_000;
+    await service.renewLeases();
+    expect(service.holdsLock('lock')).toBe(true);
+
+    now += 10_000;
+    expect(service.holdsLock('lock')).toBe(false);
+  });
+
+  it('drops a lock whose lease was taken over', async () => {
+    renew.mockResolvedValue(0);
+
+    await service.renewLeases();
+
+    expect(service.holdsLock('lock')).toBe(false);
+  });
+});
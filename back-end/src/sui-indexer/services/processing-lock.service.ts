@@ -1,78 +1,208 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { PrismaService } from '../../prisma/prisma.service';
 
+const LEASE_TTL_MS = 30 * 1000; // 30 seconds
+const LEASE_HEARTBEAT_MS = 10 * 1000; // Renew well before the lease expires
+
+/**
+ * Held by the one instance that runs the scheduled indexer jobs
+ */
+export const LEADER_LOCK_ID = 'indexer-leader';
+
+/**
+ * Lock lease as visible to every instance
+ */
+export interface LockLease {
+  key: string;
+  holderId: string;
+  heldByThisInstance: boolean;
+  acquiredAt: Date;
+  heartbeatAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Distributed locks backed by the indexer_leases table
+ *
+ * A lock is a lease row owned by one instance. The holder renews its leases
+ * on a heartbeat; if it dies, the lease expires after LEASE_TTL_MS and any
+ * other instance can take it over. All lease timestamps come from the
+ * database clock, so instances don't need synchronized clocks.
+ *
+ * Each instance also keeps a local deadline per lease, counted from before
+ * the query that acquired or last renewed it - never later than the
+ * database's expiry. Past it, the lock is given up even if the database
+ * can't be reached to renew it, as another instance may already hold it.
+ */
 @Injectable()
-export class ProcessingLockService {
+export class ProcessingLockService implements OnModuleDestroy {
   private readonly logger = new Logger(ProcessingLockService.name);
-  private readonly locks = new Map<string, boolean>();
-  private readonly lockTimestamps = new Map<string, number>();
-  private readonly LOCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly heldLocks = new Map<string, number>(); // Key → local deadline (ms)
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleDestroy() {
+    // Hand over immediately instead of waiting for the leases to expire
+    await this.releaseAllLocks();
+  }
 
   /**
-   * Try to acquire a lock for a given key
-   * @param key Lock identifier (e.g., "marketplace::StorageListed")
-   * @returns true if lock acquired, false if already locked
+   * ID of this instance, as stored in lease rows
    */
-  tryAcquireLock(key: string): boolean {
-    this.cleanupExpiredLock(key);
+  getInstanceId(): string {
+    return this.instanceId;
+  }
 
-    if (this.locks.get(key)) {
+  /**
+   * Try to acquire a lock for a given key
+   * @param key Lock identifier (e.g., "marketplace")
+   * @returns true if lock acquired, false if held by this or another instance
+   */
+  async tryAcquireLock(key: string): Promise<boolean> {
+    if (this.holdsLock(key)) {
       this.logger.debug(`Lock already held for ${key}`);
       return false;
     }
 
-    this.locks.set(key, true);
-    this.lockTimestamps.set(key, Date.now());
+    // Reserve the key first so concurrent callers in this process can't both
+    // pass the check above
+    const ttlMs = LEASE_TTL_MS;
+    this.heldLocks.set(key, Date.now() + ttlMs);
+    let acquired: { id: string }[];
+    try {
+      acquired = await this.prisma.$queryRaw<{ id: string }[]>`
+        INSERT INTO "indexer_leases" ("id", "holderId", "acquiredAt", "heartbeatAt", "expiresAt")
+        VALUES (${key}, ${this.instanceId}, now(), now(), now() + ${ttlMs}::int * interval '1 millisecond')
+        ON CONFLICT ("id") DO UPDATE SET
+          "holderId" = EXCLUDED."holderId",
+          "acquiredAt" = EXCLUDED."acquiredAt",
+          "heartbeatAt" = EXCLUDED."heartbeatAt",
+          "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "indexer_leases"."expiresAt" < now()
+          OR "indexer_leases"."holderId" = EXCLUDED."holderId"
+        RETURNING "id"
+      `;
+    } catch (error) {
+      this.heldLocks.delete(key);
+      throw error;
+    }
+
+    if (acquired.length === 0) {
+      this.heldLocks.delete(key);
+      this.logger.debug(`Lock for ${key} is held by another instance`);
+      return false;
+    }
+
     this.logger.debug(`Lock acquired for ${key}`);
     return true;
   }
 
   /**
-   * Release a lock
+   * Release a lock held by this instance
    */
-  releaseLock(key: string): void {
-    this.locks.delete(key);
-    this.lockTimestamps.delete(key);
+  async releaseLock(key: string): Promise<void> {
+    this.heldLocks.delete(key);
+    await this.prisma.indexerLease.deleteMany({
+      where: { id: key, holderId: this.instanceId },
+    });
     this.logger.debug(`Lock released for ${key}`);
   }
 
   /**
-   * Check if a lock is held
+   * Check if this instance still holds a lock
+   *
+   * Becomes false as soon as a heartbeat finds the lease taken over, or once
+   * the lease may have expired without a successful renewal.
    */
-  isLocked(key: string): boolean {
-    this.cleanupExpiredLock(key);
-    return this.locks.get(key) || false;
+  holdsLock(key: string): boolean {
+    const deadline = this.heldLocks.get(key);
+    if (deadline === undefined) {
+      return false;
+    }
+
+    if (Date.now() >= deadline) {
+      this.heldLocks.delete(key);
+      this.logger.error(
+        `Lost lock for ${key} - lease expired without a successful renewal`,
+      );
+      return false;
+    }
+    return true;
   }
 
   /**
-   * Clean up expired locks
+   * Check if a lock is held by any instance
    */
-  private cleanupExpiredLock(key: string): void {
-    const timestamp = this.lockTimestamps.get(key);
-    if (timestamp && Date.now() - timestamp > this.LOCK_TIMEOUT_MS) {
-      this.logger.warn(`Lock for ${key} has expired, releasing...`);
-      this.releaseLock(key);
-    }
+  async isLocked(key: string): Promise<boolean> {
+    const lease = await this.prisma.indexerLease.findFirst({
+      where: { id: key, expiresAt: { gt: new Date() } },
+    });
+    return lease !== null;
   }
 
   /**
-   * Get all active locks (for debugging)
+   * Renew the leases held by this instance
    */
-  getActiveLocks(): string[] {
-    const active: string[] = [];
-    for (const [key] of this.locks.entries()) {
-      if (this.isLocked(key)) {
-        active.push(key);
+  @Interval(LEASE_HEARTBEAT_MS)
+  async renewLeases(): Promise<void> {
+    const ttlMs = LEASE_TTL_MS;
+
+    for (const key of this.heldLocks.keys()) {
+      const renewedAt = Date.now();
+      try {
+        const renewed = await this.prisma.$executeRaw`
+          UPDATE "indexer_leases"
+          SET "heartbeatAt" = now(),
+              "expiresAt" = now() + ${ttlMs}::int * interval '1 millisecond'
+          WHERE "id" = ${key} AND "holderId" = ${this.instanceId}
+        `;
+
+        if (renewed === 0) {
+          this.heldLocks.delete(key);
+          this.logger.error(
+            `Lost lock for ${key} - lease was taken over by another instance`,
+          );
+        } else if (this.heldLocks.has(key)) {
+          this.heldLocks.set(key, renewedAt + ttlMs);
+        }
+      } catch (error) {
+        // Keep the lock until its local deadline - the next heartbeat retries
+        this.logger.warn(`Failed to renew lock for ${key}:`, error);
       }
     }
-    return active;
   }
 
   /**
-   * Force release all locks (use with caution)
+   * Get all unexpired locks across instances
+   */
+  async getActiveLocks(): Promise<LockLease[]> {
+    const leases = await this.prisma.indexerLease.findMany({
+      where: { expiresAt: { gt: new Date() } },
+      orderBy: { id: 'asc' },
+    });
+
+    return leases.map((lease) => ({
+      key: lease.id,
+      holderId: lease.holderId,
+      heldByThisInstance: lease.holderId === this.instanceId,
+      acquiredAt: lease.acquiredAt,
+      heartbeatAt: lease.heartbeatAt,
+      expiresAt: lease.expiresAt,
+    }));
+  }
+
+  /**
+   * Release all locks held by this instance
    */
-  releaseAllLocks(): void {
-    this.locks.clear();
-    this.lockTimestamps.clear();
-    this.logger.warn('All locks forcefully released');
+  async releaseAllLocks(): Promise<void> {
+    this.heldLocks.clear();
+    await this.prisma.indexerLease.deleteMany({
+      where: { holderId: this.instanceId },
+    });
+    this.logger.log('All locks held by this instance released');
   }
 }
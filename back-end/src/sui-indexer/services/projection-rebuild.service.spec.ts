@@ -0,0 +1,470 @@
+import { ConflictException } from '@nestjs/common';
+import { ProjectionRebuildService } from './projection-rebuild.service';
+import { DatabaseOperationsService } from './database-operations.service';
+import { ProcessingLockService } from './processing-lock.service';
+import { EventArchiveService } from './event-archive.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WalrusService } from '../../walrus/walrus.service';
+import { Prisma } from '../../../generated/prisma';
+import {
+  StorageDelistedDto,
+  StorageListedDto,
+  StoragePurchasedDto,
+} from '../types/marketplace-events.types';
+
+type Row = Record<string, unknown>;
+
+type MarketplaceEvent =
+  | { name: 'StorageListed'; json: StorageListedDto }
+  | { name: 'StorageDelisted'; json: StorageDelistedDto }
+  | { name: 'StoragePurchased'; json: StoragePurchasedDto };
+
+interface Transaction {
+  txDigest: string;
+  timestampMs: bigint;
+  events: MarketplaceEvent[];
+}
+
+const P = '0xparent';
+const seller = '0xseller';
+const buyer = '0xbuyer';
+
+const listed = (
+  storageId: string,
+  startEpoch: number,
+  endEpoch: number,
+): MarketplaceEvent => ({
+  name: 'StorageListed',
+  json: {
+    storage_id: storageId,
+    seller,
+    price_per_size_per_epoch: '1000000000',
+    size: '1048576',
+    start_epoch: startEpoch,
+    end_epoch: endEpoch,
+    total_price: String(1_048_576 * (endEpoch - startEpoch)),
+  },
+});
+
+const delisted = (storageId: string): MarketplaceEvent => ({
+  name: 'StorageDelisted',
+  json: { storage_id: storageId, seller },
+});
+
+const purchased = (
+  purchaseType: string,
+  startEpoch: number,
+  endEpoch: number,
+): MarketplaceEvent => ({
+  name: 'StoragePurchased',
+  json: {
+    storage_id: P,
+    buyer,
+    seller,
+    amount_paid: '1',
+    purchase_type: purchaseType,
+    purchased_size: '1048576',
+    purchased_start_epoch: startEpoch,
+    purchased_end_epoch: endEpoch,
+  },
+});
+
+// Listing P, then one transaction buying from it
+const history = (...purchase: MarketplaceEvent[]): Transaction[] => [
+  { txDigest: 'list', timestampMs: 1_000n, events: [listed(P, 10, 60)] },
+  { txDigest: 'buy', timestampMs: 2_000n, events: purchase },
+];
+
+// Split sequences of DatabaseOperationsService's projection spec
+const sequences: [string, Transaction[]][] = [
+  [
+    'a purchase from the middle to the end',
+    history(delisted(P), listed(P, 10, 20), purchased('partial_epoch', 20, 60)),
+  ],
+  [
+    'a purchase in the middle',
+    history(
+      delisted(P),
+      listed(P, 10, 20),
+      listed('0xend', 30, 60),
+      purchased('partial_epoch', 20, 30),
+    ),
+  ],
+  [
+    'a purchase from the start',
+    history(
+      delisted(P),
+      listed('0xend', 30, 60),
+      purchased('partial_epoch', 10, 30),
+    ),
+  ],
+  ['a full purchase', history(purchased('full', 10, 60))],
+  [
+    'a delisting and relisting',
+    [
+      ...history(delisted(P)),
+      {
+        txDigest: 'relist',
+        timestampMs: 3_000n,
+        events: [listed(P, 20, 60)],
+      },
+    ],
+  ],
+];
+
+/**
+ * Apply the transactions through the live projection, with in-memory tables
+ */
+const applyLive = async (transactions: Transaction[]) => {
+  const tables: Record<string, Row[]> = {};
+  const matches = (row: Row, where: Row) =>
+    Object.entries(where).every(([key, value]) =>
+      value !== null && typeof value === 'object' && 'in' in value
+        ? (value.in as unknown[]).includes(row[key])
+        : row[key] === value,
+    );
+  const table = (name: string) => {
+    const rows = (tables[name] ??= []);
+    return {
+      createMany: ({ data }: { data: Row | Row[] }) => {
+        rows.push(...(Array.isArray(data) ? data : [data]));
+        return Promise.resolve({ count: 1 });
+      },
+      findMany: ({ where }: { where: Row }) =>
+        Promise.resolve(rows.filter((row) => matches(row, where))),
+      upsert: ({ where, update, create }: Record<string, Row>) => {
+        const row = rows.find((r) => matches(r, where));
+        if (row) {
+          Object.assign(row, update);
+        } else {
+          rows.push({ status: 'active', closedAt: null, ...create });
+        }
+        return Promise.resolve(row);
+      },
+      update: ({ where, data }: Record<string, Row>) =>
+        Promise.resolve(
+          Object.assign(rows.find((r) => matches(r, where))!, data),
+        ),
+      updateMany: ({ where, data }: Record<string, Row>) => {
+        const updated = rows.filter((row) => matches(row, where));
+        updated.forEach((row) => Object.assign(row, data));
+        return Promise.resolve({ count: updated.length });
+      },
+    };
+  };
+  const tx = {
+    listedStorage: table('listedStorage'),
+    storageListedEvent: table('storageListedEvent'),
+    storageDelistedEvent: table('storageDelistedEvent'),
+    storagePurchasedEvent: table('storagePurchasedEvent'),
+    storageLineage: table('storageLineage'),
+  } as unknown as Prisma.TransactionClient;
+
+  const dbOps = new DatabaseOperationsService(
+    {} as PrismaService,
+    {} as WalrusService,
+  );
+  for (const { txDigest, timestampMs, events } of transactions) {
+    for (const [i, event] of events.entries()) {
+      const base = {
+        txDigest,
+        eventSeq: String(i),
+        packageId: '0xpackage',
+        blockTime: new Date(Number(timestampMs)),
+      };
+      switch (event.name) {
+        case 'StorageListed':
+          await dbOps.processStorageListed(
+            {
+              ...base,
+              storageId: event.json.storage_id,
+              seller: event.json.seller,
+              pricePerSizePerEpoch: BigInt(event.json.price_per_size_per_epoch),
+              size: BigInt(event.json.size),
+              startEpoch: event.json.start_epoch,
+              endEpoch: event.json.end_epoch,
+              totalPrice: BigInt(event.json.total_price),
+            },
+            tx,
+          );
+          break;
+        case 'StorageDelisted':
+          await dbOps.processStorageDelisted(
+            {
+              ...base,
+              storageId: event.json.storage_id,
+              seller: event.json.seller,
+            },
+            tx,
+          );
+          break;
+        case 'StoragePurchased':
+          await dbOps.processStoragePurchased(
+            {
+              ...base,
+              storageId: event.json.storage_id,
+              buyer: event.json.buyer,
+              seller: event.json.seller,
+              amountPaid: BigInt(event.json.amount_paid),
+              purchaseType: event.json.purchase_type,
+              purchasedSize: BigInt(event.json.purchased_size),
+              purchasedStartEpoch: event.json.purchased_start_epoch,
+              purchasedEndEpoch: event.json.purchased_end_epoch,
+            },
+            tx,
+          );
+          break;
+      }
+    }
+  }
+
+  return {
+    listings: tables.listedStorage ?? [],
+    lineage: tables.storageLineage ?? [],
+  };
+};
+
+/**
+ * Archive rows of the transactions, in on-chain order
+ */
+const archive = (transactions: Transaction[]) =>
+  transactions.flatMap(({ txDigest, timestampMs, events }, txSequence) =>
+    events.map((event, i) => ({
+      sequence: BigInt(txSequence * 10 + i),
+      txSequence: BigInt(txSequence),
+      txDigest,
+      eventSeq: String(i),
+      eventType: `0xpackage::marketplace::${event.name}`,
+      packageId: '0xpackage',
+      sender: seller,
+      timestampMs,
+      rawEvent: { parsedJson: event.json },
+      archivedAt: new Date(),
+    })),
+  );
+
+const LISTING_COLUMNS = [
+  'id',
+  'storageId',
+  'seller',
+  'pricePerSizePerEpoch',
+  'size',
+  'startEpoch',
+  'endEpoch',
+  'totalPrice',
+  'listedAt',
+  'lastUpdatedAt',
+  'lastTxDigest',
+  'lastEventSeq',
+  'status',
+  'closedAt',
+];
+
+const LINEAGE_COLUMNS = [
+  'id',
+  'parentStorageId',
+  'childStorageId',
+  'kind',
+  'owner',
+  'size',
+  'startEpoch',
+  'endEpoch',
+  'txDigest',
+  'eventSeq',
+  'blockTime',
+];
+
+// Rows of a multi-row INSERT ... VALUES statement
+const insertedRows = (
+  statements: Prisma.Sql[],
+  into: string,
+  columns: string[],
+): Row[] =>
+  statements
+    .filter((statement) => statement.sql.includes(`INSERT INTO "${into}"`))
+    .flatMap((statement) =>
+      Array.from({ length: statement.values.length / columns.length }, (_, i) =>
+        Object.fromEntries(
+          columns.map((column, j) => [
+            column,
+            statement.values[i * columns.length + j],
+          ]),
+        ),
+      ),
+    );
+
+// Compare rows without their generated ids
+const withoutIds = (rows: Row[]) =>
+  rows
+    .map((row) =>
+      Object.fromEntries(Object.entries(row).filter(([key]) => key !== 'id')),
+    )
+    .sort((a, b) =>
+      `${String(a.storageId ?? a.childStorageId)}`.localeCompare(
+        `${String(b.storageId ?? b.childStorageId)}`,
+      ),
+    );
+
+describe('ProjectionRebuildService.rebuildListedStorage', () => {
+  let archived: ReturnType<typeof archive>;
+  let expired: { storageId: string; closedAt: Date }[];
+  let failedEvents: { txDigest: string; eventSeq: string }[];
+  let currentEpoch: bigint;
+  let statements: Prisma.Sql[];
+  let swap: Prisma.Sql[];
+  let tryAcquireLock: jest.Mock;
+  let releaseLock: jest.Mock;
+  let service: ProjectionRebuildService;
+
+  beforeEach(() => {
+    archived = [];
+    expired = [];
+    failedEvents = [];
+    currentEpoch = 5n;
+    statements = [];
+    swap = [];
+    tryAcquireLock = jest.fn().mockResolvedValue(true);
+    releaseLock = jest.fn().mockResolvedValue(undefined);
+
+    const prisma = {
+      $executeRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const sql = Prisma.sql(strings, ...values);
+          statements.push(sql);
+          return Promise.resolve(sql);
+        },
+      ),
+      $transaction: jest.fn(async (queries: Promise<Prisma.Sql>[]) => {
+        swap = await Promise.all(queries);
+      }),
+      listedStorage: { findMany: jest.fn(() => Promise.resolve(expired)) },
+      failedEvent: { findMany: jest.fn(() => Promise.resolve(failedEvents)) },
+    };
+    // One page of the archive after the given position
+    const eventArchive = {
+      countUnarchivedHistoryEvents: jest.fn().mockResolvedValue(0),
+      countUnsequencedEvents: jest.fn().mockResolvedValue(0),
+      getArchivedEvents: jest.fn(
+        (after: { txSequence: bigint; eventSeq: string } | null) =>
+          Promise.resolve(
+            after
+              ? archived.filter(
+                  (event) =>
+                    event.txSequence > after.txSequence ||
+                    (event.txSequence === after.txSequence &&
+                      Number(event.eventSeq) > Number(after.eventSeq)),
+                )
+              : archived,
+          ),
+      ),
+    };
+
+    service = new ProjectionRebuildService(
+      prisma as unknown as PrismaService,
+      { tryAcquireLock, releaseLock } as unknown as ProcessingLockService,
+      eventArchive as unknown as EventArchiveService,
+      {
+        getSystemState: () => Promise.resolve({ epoch: currentEpoch }),
+      } as unknown as WalrusService,
+    );
+  });
+
+  const rebuiltListings = () =>
+    insertedRows(statements, 'listed_storage_shadow', LISTING_COLUMNS);
+
+  it.each(sequences)(
+    'rebuilds the live projection of %s',
+    async (_, transactions) => {
+      archived = archive(transactions);
+      const live = await applyLive(transactions);
+
+      const result = await service.rebuildListedStorage();
+
+      expect(withoutIds(rebuiltListings())).toEqual(withoutIds(live.listings));
+      expect(
+        withoutIds(insertedRows(swap, 'storage_lineage', LINEAGE_COLUMNS)),
+      ).toEqual(withoutIds(live.lineage));
+      expect(result).toEqual(
+        expect.objectContaining({
+          listings: live.listings.length,
+          splits: live.lineage.length,
+          eventsReplayed: archived.length,
+          eventsSkipped: 0,
+        }),
+      );
+    },
+  );
+
+  it('skips dead-lettered events that were not replayed', async () => {
+    archived = archive(history(delisted(P)));
+    failedEvents = [{ txDigest: 'buy', eventSeq: '0' }];
+
+    const result = await service.rebuildListedStorage();
+
+    expect(result.eventsSkipped).toBe(1);
+    expect(rebuiltListings()).toEqual([
+      expect.objectContaining({ storageId: P, status: 'active' }),
+    ]);
+  });
+
+  it('expires open listings past their end epoch, keeping known expiry times', async () => {
+    const expiredAt = new Date('2025-12-01T00:00:00Z');
+    archived = archive([
+      {
+        txDigest: 'list',
+        timestampMs: 1_000n,
+        events: [
+          listed('0xa', 10, 20),
+          listed('0xb', 10, 20),
+          listed(P, 10, 60),
+        ],
+      },
+    ]);
+    expired = [{ storageId: '0xa', closedAt: expiredAt }];
+    currentEpoch = 20n;
+
+    await service.rebuildListedStorage();
+
+    const status = (storageId: string) => {
+      const row = rebuiltListings().find((r) => r.storageId === storageId)!;
+      return [row.status, row.closedAt];
+    };
+    expect(status('0xa')).toEqual(['expired', expiredAt]);
+    expect(status('0xb')[0]).toBe('expired');
+    expect(status('0xb')[1]).toBeInstanceOf(Date);
+    expect(status(P)).toEqual(['active', null]);
+  });
+
+  it('replaces listed_storage and storage_lineage in one transaction', async () => {
+    archived = archive(
+      history(
+        delisted(P),
+        listed('0xend', 30, 60),
+        purchased('partial_epoch', 10, 30),
+      ),
+    );
+
+    await service.rebuildListedStorage();
+
+    expect(
+      swap.map((statement) => statement.sql.trim().split(/\s+/, 3).join(' ')),
+    ).toEqual([
+      'DELETE FROM "listed_storage"',
+      'INSERT INTO "listed_storage"',
+      'DROP TABLE "listed_storage_shadow"',
+      'DELETE FROM "storage_lineage"',
+      'INSERT INTO "storage_lineage"',
+    ]);
+    expect(releaseLock).toHaveBeenCalledWith('marketplace');
+  });
+
+  it('refuses to rebuild while the indexer holds its lock', async () => {
+    tryAcquireLock.mockResolvedValue(false);
+
+    await expect(service.rebuildListedStorage()).rejects.toThrow(
+      ConflictException,
+    );
+    expect(statements).toEqual([]);
+    expect(releaseLock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,406 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SuiEvent } from '@mysten/sui/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import { MARKETPLACE_CURSOR_ID } from '../cursor/cursor.service';
+import { ProcessingLockService } from './processing-lock.service';
+import { ArchivePosition, EventArchiveService } from './event-archive.service';
+import { WalrusService } from '../../walrus/walrus.service';
+import {
+  ListingStatus,
+  OPEN_LISTING_STATUSES,
+  StorageDelistedDto,
+  StorageListedDto,
+  StoragePurchasedDto,
+} from '../types/marketplace-events.types';
+import { SplitListing } from '../types/storage-lineage.types';
+import { deriveSplitPieces, isListingSold } from './storage-lineage.service';
+
+const ARCHIVE_PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * ListedStorage row as derived from the archive
+ */
+interface ListedStorageRow {
+  id: string;
+  storageId: string;
+  seller: string;
+  pricePerSizePerEpoch: bigint;
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+  totalPrice: bigint;
+  listedAt: Date;
+  lastUpdatedAt: Date;
+  lastTxDigest: string;
+  lastEventSeq: string;
+  status: ListingStatus;
+  closedAt: Date | null;
+}
+
+/**
+ * StorageLineage row as derived from the archive
+ */
+interface StorageLineageRow {
+  id: string;
+  parentStorageId: string;
+  childStorageId: string | null;
+  kind: string;
+  owner: string;
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+  txDigest: string;
+  eventSeq: string;
+  blockTime: Date;
+}
+
+export interface RebuildResult {
+  listings: number;
+  splits: number; // Lineage rows written
+  eventsReplayed: number;
+  eventsSkipped: number; // Dead-lettered events that are not replayed
+  durationMs: number;
+}
+
+@Injectable()
+export class ProjectionRebuildService {
+  private readonly logger = new Logger(ProjectionRebuildService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lockService: ProcessingLockService,
+    private readonly eventArchive: EventArchiveService,
+    private readonly walrusService: WalrusService,
+  ) {}
+
+  /**
+   * Rebuild ListedStorage and StorageLineage from the raw event archive,
+   * without the RPC
+   *
+   * Archived events are replayed in on-chain order into a shadow table, which
+   * then replaces the contents of listed_storage in a single transaction. API
+   * readers see the old order book until the swap commits, never a partial one.
+   * Ingestion is paused for the duration by holding the marketplace lock.
+   */
+  async rebuildListedStorage(): Promise<RebuildResult> {
+    const startedAt = Date.now();
+
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      throw new ConflictException('Indexer is busy, try again shortly');
+    }
+
+    try {
+      const unarchived = await this.eventArchive.countUnarchivedHistoryEvents();
+      if (unarchived > 0) {
+        throw new ConflictException(
+          `${unarchived} indexed events are missing from the archive - run POST /indexer/reindex to backfill it first`,
+        );
+      }
+
+      const unsequenced = await this.eventArchive.countUnsequencedEvents();
+      if (unsequenced > 0) {
+        throw new ConflictException(
+          `${unsequenced} archived events have no on-chain position - run POST /indexer/reindex to backfill them first`,
+        );
+      }
+
+      this.logger.warn(
+        '🔨 Rebuilding listed_storage from the event archive...',
+      );
+
+      const { listings, lineage, eventsReplayed, eventsSkipped } =
+        await this.replayArchive();
+      await this.applyExpiry(listings);
+
+      await this.writeShadowTable([...listings.values()]);
+      await this.swapShadowTable(lineage);
+
+      const result: RebuildResult = {
+        listings: listings.size,
+        splits: lineage.length,
+        eventsReplayed,
+        eventsSkipped,
+        durationMs: Date.now() - startedAt,
+      };
+      this.logger.log(
+        `✅ Rebuilt listed_storage: ${result.listings} listings from ${result.eventsReplayed} events in ${result.durationMs}ms`,
+      );
+      return result;
+    } finally {
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
+  }
+
+  /**
+   * Derive the current listings by applying archived events in order
+   *
+   * Mirrors DatabaseOperationsService: StorageListed (re)opens the listing,
+   * StoragePurchased sells it, marks the remainders listed by the same
+   * transaction as partially filled and records the split's lineage,
+   * StorageDelisted delists it. Dead-lettered
+   * events that were never replayed are skipped, as they are in the live
+   * projection.
+   */
+  private async replayArchive() {
+    const skippedKeys = await this.getUnappliedEventKeys();
+    const listings = new Map<string, ListedStorageRow>();
+    const lineage: StorageLineageRow[] = [];
+    let eventsReplayed = 0;
+    let eventsSkipped = 0;
+    let after: ArchivePosition | null = null;
+    let currentTxDigest: string | null = null;
+    let listedInTx: SplitListing[] = []; // Listings of the current tx
+    let delistedInTx: { storageId: string; eventSeq: string }[] = [];
+
+    for (;;) {
+      const page = await this.eventArchive.getArchivedEvents(
+        after,
+        ARCHIVE_PAGE_SIZE,
+      );
+      if (page.length === 0) {
+        break;
+      }
+      const last = page[page.length - 1];
+      after = { txSequence: last.txSequence!, eventSeq: last.eventSeq };
+
+      for (const archived of page) {
+        if (skippedKeys.has(`${archived.txDigest}:${archived.eventSeq}`)) {
+          eventsSkipped++;
+          continue;
+        }
+
+        const event = archived.rawEvent as unknown as SuiEvent;
+        const blockTime = archived.timestampMs
+          ? new Date(Number(archived.timestampMs))
+          : archived.archivedAt;
+        const [, module, eventName] = archived.eventType.split('::');
+        if (module !== 'marketplace') {
+          continue;
+        }
+        if (archived.txDigest !== currentTxDigest) {
+          currentTxDigest = archived.txDigest;
+          listedInTx = [];
+          delistedInTx = [];
+        }
+
+        switch (eventName) {
+          case 'StorageListed': {
+            const dto = event.parsedJson as StorageListedDto;
+            const existing = listings.get(dto.storage_id);
+            listedInTx.push({
+              storageId: dto.storage_id,
+              seller: dto.seller,
+              size: BigInt(dto.size),
+              startEpoch: dto.start_epoch,
+              endEpoch: dto.end_epoch,
+              eventSeq: archived.eventSeq,
+            });
+            listings.set(dto.storage_id, {
+              id: existing?.id ?? randomUUID(),
+              storageId: dto.storage_id,
+              seller: dto.seller,
+              pricePerSizePerEpoch: BigInt(dto.price_per_size_per_epoch),
+              size: BigInt(dto.size),
+              startEpoch: dto.start_epoch,
+              endEpoch: dto.end_epoch,
+              totalPrice: BigInt(dto.total_price),
+              listedAt: blockTime,
+              lastUpdatedAt: blockTime,
+              lastTxDigest: archived.txDigest,
+              lastEventSeq: archived.eventSeq,
+              status: 'active',
+              closedAt: null,
+            });
+            break;
+          }
+          case 'StoragePurchased': {
+            const dto = event.parsedJson as StoragePurchasedDto;
+            const pieces = deriveSplitPieces(
+              {
+                storageId: dto.storage_id,
+                buyer: dto.buyer,
+                seller: dto.seller,
+                purchaseType: dto.purchase_type,
+                purchasedSize: BigInt(dto.purchased_size),
+                purchasedStartEpoch: dto.purchased_start_epoch,
+                purchasedEndEpoch: dto.purchased_end_epoch,
+                eventSeq: archived.eventSeq,
+              },
+              listedInTx,
+              delistedInTx
+                .filter((delisted) => delisted.storageId === dto.storage_id)
+                .map((delisted) => delisted.eventSeq),
+            );
+
+            if (isListingSold(dto.storage_id, pieces)) {
+              this.closeListing(listings.get(dto.storage_id), 'sold', {
+                ...archived,
+                blockTime,
+              });
+            }
+
+            for (const piece of pieces) {
+              lineage.push({
+                id: randomUUID(),
+                parentStorageId: dto.storage_id,
+                ...piece,
+                txDigest: archived.txDigest,
+                eventSeq: archived.eventSeq,
+                blockTime,
+              });
+
+              const remainder =
+                piece.kind === 'remainder' && piece.childStorageId
+                  ? listings.get(piece.childStorageId)
+                  : undefined;
+              if (remainder?.status === 'active') {
+                remainder.status = 'partially_filled';
+              }
+            }
+            break;
+          }
+          case 'StorageDelisted': {
+            const dto = event.parsedJson as StorageDelistedDto;
+            delistedInTx.push({
+              storageId: dto.storage_id,
+              eventSeq: archived.eventSeq,
+            });
+            this.closeListing(listings.get(dto.storage_id), 'delisted', {
+              ...archived,
+              blockTime,
+            });
+            break;
+          }
+          default:
+            continue;
+        }
+
+        eventsReplayed++;
+      }
+    }
+
+    return { listings, lineage, eventsReplayed, eventsSkipped };
+  }
+
+  private closeListing(
+    listing: ListedStorageRow | undefined,
+    status: ListingStatus,
+    closedBy: { txDigest: string; eventSeq: string; blockTime: Date },
+  ): void {
+    if (!listing) {
+      return;
+    }
+
+    listing.status = status;
+    listing.closedAt = closedBy.blockTime;
+    listing.lastUpdatedAt = closedBy.blockTime;
+    listing.lastTxDigest = closedBy.txDigest;
+    listing.lastEventSeq = closedBy.eventSeq;
+  }
+
+  /**
+   * Close open listings whose end epoch has been reached, as the expiry
+   * sweeper would. Expiry isn't an event, so listings that were already
+   * expired keep their current closedAt.
+   */
+  private async applyExpiry(
+    listings: Map<string, ListedStorageRow>,
+  ): Promise<void> {
+    const systemState = await this.walrusService.getSystemState();
+    const currentEpoch = Number(systemState.epoch);
+
+    const expired = await this.prisma.listedStorage.findMany({
+      where: { status: 'expired' },
+      select: { storageId: true, closedAt: true },
+    });
+    const expiredAt = new Map(
+      expired.map((row) => [row.storageId, row.closedAt]),
+    );
+
+    const now = new Date();
+    for (const listing of listings.values()) {
+      if (
+        OPEN_LISTING_STATUSES.includes(listing.status) &&
+        listing.endEpoch <= currentEpoch
+      ) {
+        listing.status = 'expired';
+        listing.closedAt = expiredAt.get(listing.storageId) ?? now;
+      }
+    }
+  }
+
+  /**
+   * Keys ("txDigest:eventSeq") of dead-lettered events that were not replayed
+   */
+  private async getUnappliedEventKeys(): Promise<Set<string>> {
+    const failedEvents = await this.prisma.failedEvent.findMany({
+      where: { status: { not: 'replayed' } },
+      select: { txDigest: true, eventSeq: true },
+    });
+
+    return new Set(
+      failedEvents.map((event) => `${event.txDigest}:${event.eventSeq}`),
+    );
+  }
+
+  /**
+   * Recreate the shadow table and fill it with the rebuilt listings
+   */
+  private async writeShadowTable(rows: ListedStorageRow[]): Promise<void> {
+    await this.prisma.$executeRaw`DROP TABLE IF EXISTS "listed_storage_shadow"`;
+    await this.prisma.$executeRaw`
+      CREATE UNLOGGED TABLE "listed_storage_shadow"
+        (LIKE "listed_storage" INCLUDING DEFAULTS)
+    `;
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const values = rows
+        .slice(i, i + INSERT_CHUNK_SIZE)
+        .map(
+          (row) =>
+            Prisma.sql`(${row.id}, ${row.storageId}, ${row.seller}, ${row.pricePerSizePerEpoch}, ${row.size}, ${row.startEpoch}, ${row.endEpoch}, ${row.totalPrice}, ${row.listedAt}, ${row.lastUpdatedAt}, ${row.lastTxDigest}, ${row.lastEventSeq}, ${row.status}, ${row.closedAt})`,
+        );
+
+      await this.prisma.$executeRaw`
+        INSERT INTO "listed_storage_shadow" ("id", "storageId", "seller", "pricePerSizePerEpoch", "size", "startEpoch", "endEpoch", "totalPrice", "listedAt", "lastUpdatedAt", "lastTxDigest", "lastEventSeq", "status", "closedAt")
+        VALUES ${Prisma.join(values)}
+      `;
+    }
+  }
+
+  /**
+   * Replace the contents of listed_storage with the shadow table, and of
+   * storage_lineage with the rebuilt lineage, atomically
+   */
+  private async swapShadowTable(lineage: StorageLineageRow[]): Promise<void> {
+    const lineageInserts: Prisma.PrismaPromise<number>[] = [];
+    for (let i = 0; i < lineage.length; i += INSERT_CHUNK_SIZE) {
+      const values = lineage
+        .slice(i, i + INSERT_CHUNK_SIZE)
+        .map(
+          (row) =>
+            Prisma.sql`(${row.id}, ${row.parentStorageId}, ${row.childStorageId}, ${row.kind}, ${row.owner}, ${row.size}, ${row.startEpoch}, ${row.endEpoch}, ${row.txDigest}, ${row.eventSeq}, ${row.blockTime})`,
+        );
+
+      lineageInserts.push(this.prisma.$executeRaw`
+        INSERT INTO "storage_lineage" ("id", "parentStorageId", "childStorageId", "kind", "owner", "size", "startEpoch", "endEpoch", "txDigest", "eventSeq", "blockTime")
+        VALUES ${Prisma.join(values)}
+      `);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`DELETE FROM "listed_storage"`,
+      this.prisma.$executeRaw`
+        INSERT INTO "listed_storage" ("id", "storageId", "seller", "pricePerSizePerEpoch", "size", "startEpoch", "endEpoch", "totalPrice", "listedAt", "lastUpdatedAt", "lastTxDigest", "lastEventSeq", "status", "closedAt")
+        SELECT "id", "storageId", "seller", "pricePerSizePerEpoch", "size", "startEpoch", "endEpoch", "totalPrice", "listedAt", "lastUpdatedAt", "lastTxDigest", "lastEventSeq", "status", "closedAt"
+        FROM "listed_storage_shadow"
+      `,
+      this.prisma.$executeRaw`DROP TABLE "listed_storage_shadow"`,
+      this.prisma.$executeRaw`DELETE FROM "storage_lineage"`,
+      ...lineageInserts,
+    ]);
+  }
+}
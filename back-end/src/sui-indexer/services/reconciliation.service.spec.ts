@@ -0,0 +1,285 @@
+import { ConfigService } from '@nestjs/config';
+import { ReconciliationService } from './reconciliation.service';
+import { ProcessingLockService } from './processing-lock.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SuiClientService } from '../sui-client/sui-client.service';
+import { ListingDiscrepancy } from '../types/reconciliation.types';
+
+describe('ReconciliationService.reconcile', () => {
+  const PRICE = 1_000_000_000n; // 1 FROST per byte per epoch
+
+  interface ChainListing {
+    storageId: string;
+    seller: string;
+    size: bigint;
+    startEpoch: number;
+    endEpoch: number;
+  }
+
+  interface Run {
+    id: string;
+    status: string;
+    discrepancies?: ListingDiscrepancy[];
+    [column: string]: unknown;
+  }
+
+  const listing = (storageId: string, endEpoch = 20): ChainListing => ({
+    storageId,
+    seller: '0xseller',
+    size: 1024n,
+    startEpoch: 10,
+    endEpoch,
+  });
+
+  // listed_storage row of a chain listing
+  const row = (l: ChainListing, status = 'active') => ({
+    storageId: l.storageId,
+    seller: l.seller,
+    pricePerSizePerEpoch: PRICE,
+    size: l.size,
+    startEpoch: l.startEpoch,
+    endEpoch: l.endEpoch,
+    totalPrice: l.size * BigInt(l.endEpoch - l.startEpoch),
+    status,
+  });
+
+  let chain: ChainListing[];
+  let rows: ReturnType<typeof row>[];
+  let runs: Run[];
+  let updateMany: jest.Mock;
+  let upsert: jest.Mock;
+  let tryAcquireLock: jest.Mock;
+  let releaseLock: jest.Mock;
+  let service: ReconciliationService;
+
+  beforeEach(() => {
+    chain = [];
+    rows = [];
+    runs = [];
+    updateMany = jest.fn().mockResolvedValue({ count: 1 });
+    upsert = jest.fn().mockResolvedValue({});
+    tryAcquireLock = jest.fn().mockResolvedValue(true);
+    releaseLock = jest.fn().mockResolvedValue(undefined);
+
+    // Listings table: one dynamic field per listing, keyed by storage ID
+    const client = {
+      getObject: jest.fn().mockResolvedValue({
+        data: {
+          content: {
+            dataType: 'moveObject',
+            fields: { listings: { fields: { id: { id: '0xtable' } } } },
+          },
+        },
+      }),
+      getDynamicFields: jest.fn(() =>
+        Promise.resolve({
+          data: chain.map((l) => ({ objectId: `field-${l.storageId}` })),
+          nextCursor: null,
+          hasNextPage: false,
+        }),
+      ),
+      multiGetObjects: jest.fn(({ ids }: { ids: string[] }) =>
+        Promise.resolve(
+          ids.map((id) => {
+            const l = chain.find((c) => `field-${c.storageId}` === id)!;
+            return {
+              data: {
+                content: {
+                  dataType: 'moveObject',
+                  fields: {
+                    name: l.storageId,
+                    value: {
+                      fields: {
+                        storage: {
+                          fields: {
+                            start_epoch: l.startEpoch,
+                            end_epoch: l.endEpoch,
+                            storage_size: l.size.toString(),
+                          },
+                        },
+                        seller: l.seller,
+                        price_per_size_per_epoch: PRICE.toString(),
+                      },
+                    },
+                  },
+                },
+              },
+            };
+          }),
+        ),
+      ),
+    };
+    const suiClient = {
+      getConfig: () => ({ marketplaceId: '0xmarketplace' }),
+      getClient: () => client,
+    };
+
+    const prisma = {
+      reconciliationRun: {
+        create: jest.fn(() => {
+          const run: Run = { id: `run-${runs.length}`, status: 'running' };
+          runs.push(run);
+          return Promise.resolve(run);
+        }),
+        update: jest.fn(
+          ({ where, data }: { where: { id: string }; data: object }) => {
+            const run = runs.find((r) => r.id === where.id)!;
+            Object.assign(run, data);
+            return Promise.resolve(run);
+          },
+        ),
+        // Last completed run other than the current one
+        findFirst: jest.fn(({ where }: { where: { id: { not: string } } }) =>
+          Promise.resolve(
+            [...runs]
+              .reverse()
+              .find((r) => r.status === 'completed' && r.id !== where.id.not) ??
+              null,
+          ),
+        ),
+      },
+      listedStorage: { findMany: jest.fn(() => Promise.resolve(rows)) },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+        fn({ listedStorage: { updateMany, upsert } }),
+      ),
+    };
+
+    service = new ReconciliationService(
+      {} as ConfigService,
+      prisma as unknown as PrismaService,
+      suiClient as unknown as SuiClientService,
+      { tryAcquireLock, releaseLock } as unknown as ProcessingLockService,
+    );
+  });
+
+  const discrepancies = (run: { discrepancies: unknown }) =>
+    (run.discrepancies as ListingDiscrepancy[]).map((d) => ({
+      storageId: d.storageId,
+      kind: d.kind,
+      fields: d.fields,
+      confirmed: d.confirmed,
+      repaired: d.repaired,
+    }));
+
+  it('reports missing, extra and mismatched listings', async () => {
+    const shortened = listing('0xc', 15);
+    chain = [listing('0xa'), listing('0xb'), shortened];
+    rows = [row(listing('0xa')), row(listing('0xc')), row(listing('0xd'))];
+
+    const run = await service.reconcile();
+
+    expect(run).toEqual(
+      expect.objectContaining({
+        onChainCount: 3,
+        dbCount: 3,
+        missingCount: 1,
+        extraCount: 1,
+        mismatchedCount: 1,
+        repairedCount: 0,
+      }),
+    );
+    expect(discrepancies(run)).toEqual([
+      {
+        storageId: '0xb',
+        kind: 'missing',
+        fields: [],
+        confirmed: false,
+        repaired: false,
+      },
+      {
+        storageId: '0xc',
+        kind: 'mismatched',
+        fields: ['endEpoch', 'totalPrice'],
+        confirmed: false,
+        repaired: false,
+      },
+      {
+        storageId: '0xd',
+        kind: 'extra',
+        fields: [],
+        confirmed: false,
+        repaired: false,
+      },
+    ]);
+  });
+
+  it('only repairs discrepancies confirmed by the previous run', async () => {
+    chain = [listing('0xb')];
+    rows = [row(listing('0xd'))];
+
+    const first = await service.reconcile(true);
+    expect(first.repairedCount).toBe(0);
+    expect(tryAcquireLock).not.toHaveBeenCalled();
+
+    // Resolved by the indexer in between: no longer reported
+    chain = [];
+    const second = await service.reconcile(true);
+    expect(discrepancies(second)).toEqual([
+      expect.objectContaining({ storageId: '0xd', confirmed: true }),
+    ]);
+    expect(second.repairedCount).toBe(1);
+
+    // Repaired discrepancies don't confirm the next run's
+    const third = await service.reconcile(true);
+    expect(discrepancies(third)).toEqual([
+      expect.objectContaining({ storageId: '0xd', confirmed: false }),
+    ]);
+  });
+
+  it('closes extra listings and upserts missing and mismatched ones', async () => {
+    const shortened = listing('0xc', 15);
+    chain = [listing('0xb'), shortened];
+    rows = [row(listing('0xc')), row(listing('0xd'))];
+
+    await service.reconcile(true);
+    const run = await service.reconcile(true);
+
+    expect(run.repairedCount).toBe(3);
+    expect(discrepancies(run).every((d) => d.repaired)).toBe(true);
+
+    // The extra row is closed, not deleted
+    const [[closed]] = updateMany.mock.calls as [
+      [{ where: object; data: { status: string; closedAt: Date } }],
+    ];
+    expect(closed.where).toEqual({
+      storageId: '0xd',
+      status: { in: ['active', 'partially_filled', 'expired'] },
+    });
+    expect(closed.data.status).toBe('delisted');
+    expect(closed.data.closedAt).toBeInstanceOf(Date);
+
+    // The missing row is reopened, the mismatched one overwritten
+    const [missing, mismatched] = upsert.mock.calls.map(
+      ([args]: [{ where: { storageId: string }; update: object }]) => args,
+    );
+    expect(missing.where.storageId).toBe('0xb');
+    expect(missing.update).toEqual(
+      expect.objectContaining({ status: 'active', closedAt: null }),
+    );
+    expect(mismatched.where.storageId).toBe('0xc');
+    expect(mismatched.update).toEqual(
+      expect.objectContaining({ endEpoch: 15, totalPrice: 5120n }),
+    );
+    expect(mismatched.update).not.toHaveProperty('status');
+    expect(releaseLock).toHaveBeenCalledWith('marketplace');
+  });
+
+  it('skips the repair while the indexer holds its lock', async () => {
+    rows = [row(listing('0xd'))];
+    tryAcquireLock.mockResolvedValue(false);
+
+    await service.reconcile(true);
+    const run = await service.reconcile(true);
+
+    expect(tryAcquireLock).toHaveBeenCalledWith('marketplace');
+    expect(run.repairedCount).toBe(0);
+    expect(updateMany).not.toHaveBeenCalled();
+    expect(releaseLock).not.toHaveBeenCalled();
+
+    // Still unrepaired, so still confirmed next time
+    const next = await service.reconcile(true);
+    expect(discrepancies(next)).toEqual([
+      expect.objectContaining({ storageId: '0xd', confirmed: true }),
+    ]);
+  });
+});
@@ -0,0 +1,442 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import { SuiClientService } from '../sui-client/sui-client.service';
+import { MARKETPLACE_CURSOR_ID } from '../cursor/cursor.service';
+import {
+  LEADER_LOCK_ID,
+  ProcessingLockService,
+} from './processing-lock.service';
+import {
+  ListingDiscrepancy,
+  ListingFieldObjectFields,
+  MarketplaceObjectFields,
+  ReconciledListing,
+} from '../types/reconciliation.types';
+import { ON_CHAIN_LISTING_STATUSES } from '../types/marketplace-events.types';
+import { SuiIndexerConfig } from '../../config/sui-indexer.config';
+
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const MULTI_GET_LIMIT = 50; // RPC limit for multiGetObjects
+const PRECISION_SCALE = 1_000_000_000n; // Matches the contract
+const RECONCILIATION_TX_DIGEST = 'reconciliation'; // lastTxDigest of repaired rows
+
+const COMPARED_FIELDS: (keyof ReconciledListing)[] = [
+  'seller',
+  'pricePerSizePerEpoch',
+  'size',
+  'startEpoch',
+  'endEpoch',
+  'totalPrice',
+];
+
+/**
+ * Compares listed_storage with the listings table of the shared Marketplace
+ * object and optionally repairs the differences
+ *
+ * The database trails the chain by the indexing delay, so a single run can
+ * report discrepancies that the indexer is about to resolve. Only
+ * discrepancies reported by two consecutive runs are "confirmed", and only
+ * confirmed discrepancies are repaired.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private isReconciling = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly suiClient: SuiClientService,
+    private readonly lockService: ProcessingLockService,
+  ) {}
+
+  /**
+   * Scheduled reconciliation - runs on the indexer leader only
+   */
+  @Interval(RECONCILE_INTERVAL_MS)
+  async scheduledReconcile(): Promise<void> {
+    const config = this.configService.get<SuiIndexerConfig>('suiIndexer');
+
+    if (!config?.enabled || !config.marketplaceId) {
+      return;
+    }
+
+    if (!this.lockService.holdsLock(LEADER_LOCK_ID) || this.isReconciling) {
+      return;
+    }
+
+    try {
+      await this.reconcile(config.reconcileAutoRepair);
+    } catch (error) {
+      this.logger.error('Scheduled reconciliation failed:', error);
+    }
+  }
+
+  /**
+   * Run a reconciliation and record it
+   * @param repair Fix confirmed discrepancies in listed_storage
+   */
+  async reconcile(repair: boolean = false) {
+    const { marketplaceId } = this.suiClient.getConfig();
+    if (!marketplaceId) {
+      throw new ServiceUnavailableException(
+        'SUI_MARKETPLACE_ID is not configured',
+      );
+    }
+
+    if (this.isReconciling) {
+      throw new ConflictException('Reconciliation is already running');
+    }
+    this.isReconciling = true;
+
+    const run = await this.prisma.reconciliationRun.create({
+      data: { status: 'running' },
+    });
+
+    try {
+      const previousKeys = await this.getPreviousDiscrepancyKeys(run.id);
+      const onChain = await this.fetchOnChainListings(marketplaceId);
+      const db = await this.fetchDbListings();
+
+      const discrepancies = this.diffListings(onChain, db, previousKeys);
+      const repairedCount = repair ? await this.repair(discrepancies) : 0;
+
+      const completed = await this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'completed',
+          onChainCount: onChain.size,
+          dbCount: db.size,
+          missingCount: this.countKind(discrepancies, 'missing'),
+          extraCount: this.countKind(discrepancies, 'extra'),
+          mismatchedCount: this.countKind(discrepancies, 'mismatched'),
+          repairedCount,
+          discrepancies: discrepancies as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date(),
+        },
+      });
+
+      if (discrepancies.length > 0) {
+        this.logger.warn(
+          `⚖️  Reconciliation found ${discrepancies.length} discrepancies (${completed.missingCount} missing, ${completed.extraCount} extra, ${completed.mismatchedCount} mismatched), repaired ${repairedCount}`,
+        );
+      } else {
+        this.logger.log(
+          `⚖️  Reconciliation OK: ${onChain.size} listings match the chain`,
+        );
+      }
+
+      return completed;
+    } catch (error) {
+      await this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Check if a reconciliation is running on this instance
+   */
+  isRunning(): boolean {
+    return this.isReconciling;
+  }
+
+  /**
+   * Get the most recent reconciliation run
+   */
+  async getLatestRun() {
+    return this.prisma.reconciliationRun.findFirst({
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * List recent reconciliation runs without their discrepancy details
+   */
+  async listRuns(limit: number = 20) {
+    return this.prisma.reconciliationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+      omit: { discrepancies: true },
+    });
+  }
+
+  /**
+   * Read every listing in the Marketplace listings table
+   *
+   * Table entries are dynamic fields of the table's UID, keyed by storage ID.
+   */
+  private async fetchOnChainListings(
+    marketplaceId: string,
+  ): Promise<Map<string, ReconciledListing>> {
+    const client = this.suiClient.getClient();
+
+    const marketplace = await client.getObject({
+      id: marketplaceId,
+      options: { showContent: true },
+    });
+    const content = marketplace.data?.content;
+    if (content?.dataType !== 'moveObject') {
+      throw new Error(`Marketplace object ${marketplaceId} not found`);
+    }
+    const tableId = (content.fields as unknown as MarketplaceObjectFields)
+      .listings.fields.id.id;
+
+    const fieldObjectIds: string[] = [];
+    let cursor: string | null = null;
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await client.getDynamicFields({ parentId: tableId, cursor });
+      fieldObjectIds.push(...page.data.map((field) => field.objectId));
+      cursor = page.nextCursor;
+      hasNextPage = page.hasNextPage;
+    }
+
+    const listings = new Map<string, ReconciledListing>();
+    for (let i = 0; i < fieldObjectIds.length; i += MULTI_GET_LIMIT) {
+      const objects = await client.multiGetObjects({
+        ids: fieldObjectIds.slice(i, i + MULTI_GET_LIMIT),
+        options: { showContent: true },
+      });
+
+      for (const object of objects) {
+        const fieldContent = object.data?.content;
+        if (fieldContent?.dataType !== 'moveObject') {
+          continue; // Removed between the two calls
+        }
+
+        const field =
+          fieldContent.fields as unknown as ListingFieldObjectFields;
+        const { storage, seller, price_per_size_per_epoch } =
+          field.value.fields;
+        const pricePerSizePerEpoch = BigInt(price_per_size_per_epoch);
+        const size = BigInt(storage.fields.storage_size);
+        const duration = BigInt(
+          storage.fields.end_epoch - storage.fields.start_epoch,
+        );
+
+        listings.set(field.name, {
+          storageId: field.name,
+          seller,
+          pricePerSizePerEpoch: pricePerSizePerEpoch.toString(),
+          size: size.toString(),
+          startEpoch: storage.fields.start_epoch,
+          endEpoch: storage.fields.end_epoch,
+          totalPrice: (
+            (pricePerSizePerEpoch * size * duration) /
+            PRECISION_SCALE
+          ).toString(),
+        });
+      }
+    }
+
+    return listings;
+  }
+
+  /**
+   * Read every listing that should still be in the listings table
+   * (expired listings stay there until they are delisted or bought)
+   */
+  private async fetchDbListings(): Promise<Map<string, ReconciledListing>> {
+    const rows = await this.prisma.listedStorage.findMany({
+      where: { status: { in: ON_CHAIN_LISTING_STATUSES } },
+    });
+
+    return new Map(
+      rows.map((row) => [
+        row.storageId,
+        {
+          storageId: row.storageId,
+          seller: row.seller,
+          pricePerSizePerEpoch: row.pricePerSizePerEpoch.toString(),
+          size: row.size.toString(),
+          startEpoch: row.startEpoch,
+          endEpoch: row.endEpoch,
+          totalPrice: row.totalPrice.toString(),
+        },
+      ]),
+    );
+  }
+
+  private diffListings(
+    onChain: Map<string, ReconciledListing>,
+    db: Map<string, ReconciledListing>,
+    previousKeys: Set<string>,
+  ): ListingDiscrepancy[] {
+    const discrepancies: ListingDiscrepancy[] = [];
+    const add = (
+      discrepancy: Omit<ListingDiscrepancy, 'confirmed' | 'repaired'>,
+    ) => {
+      discrepancies.push({
+        ...discrepancy,
+        confirmed: previousKeys.has(
+          `${discrepancy.kind}:${discrepancy.storageId}`,
+        ),
+        repaired: false,
+      });
+    };
+
+    for (const [storageId, chainListing] of onChain) {
+      const dbListing = db.get(storageId);
+      if (!dbListing) {
+        add({
+          storageId,
+          kind: 'missing',
+          fields: [],
+          onChain: chainListing,
+          db: null,
+        });
+        continue;
+      }
+
+      const fields = COMPARED_FIELDS.filter(
+        (key) => chainListing[key] !== dbListing[key],
+      );
+      if (fields.length > 0) {
+        add({
+          storageId,
+          kind: 'mismatched',
+          fields,
+          onChain: chainListing,
+          db: dbListing,
+        });
+      }
+    }
+
+    for (const [storageId, dbListing] of db) {
+      if (!onChain.has(storageId)) {
+        add({
+          storageId,
+          kind: 'extra',
+          fields: [],
+          onChain: null,
+          db: dbListing,
+        });
+      }
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Make listed_storage match the chain for confirmed discrepancies
+   * @returns Number of repaired listings
+   */
+  private async repair(discrepancies: ListingDiscrepancy[]): Promise<number> {
+    const confirmed = discrepancies.filter((d) => d.confirmed);
+    if (confirmed.length === 0) {
+      return 0;
+    }
+
+    // Don't race the indexer on the same rows
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      this.logger.warn('Indexer is busy - skipping reconciliation repair');
+      return 0;
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        for (const discrepancy of confirmed) {
+          if (discrepancy.kind === 'extra') {
+            // Close the row like a delist, keeping its final state
+            const closedAt = new Date();
+            await tx.listedStorage.updateMany({
+              where: {
+                storageId: discrepancy.storageId,
+                status: { in: ON_CHAIN_LISTING_STATUSES },
+              },
+              data: {
+                status: 'delisted',
+                closedAt,
+                lastUpdatedAt: closedAt,
+                lastTxDigest: RECONCILIATION_TX_DIGEST,
+                lastEventSeq: '0',
+              },
+            });
+          } else if (discrepancy.onChain) {
+            const listing = discrepancy.onChain;
+            const data = {
+              seller: listing.seller,
+              pricePerSizePerEpoch: BigInt(listing.pricePerSizePerEpoch),
+              size: BigInt(listing.size),
+              startEpoch: listing.startEpoch,
+              endEpoch: listing.endEpoch,
+              totalPrice: BigInt(listing.totalPrice),
+              lastTxDigest: RECONCILIATION_TX_DIGEST,
+              lastEventSeq: '0',
+            };
+
+            // A missing listing may exist as a closed row - reopen it. The
+            // expiry sweeper closes it again if its end epoch has passed.
+            const reopen =
+              discrepancy.kind === 'missing'
+                ? { status: 'active', closedAt: null }
+                : {};
+
+            await tx.listedStorage.upsert({
+              where: { storageId: listing.storageId },
+              update: { ...data, ...reopen },
+              create: { storageId: listing.storageId, ...data },
+            });
+          }
+
+          discrepancy.repaired = true;
+        }
+      });
+    } finally {
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
+
+    this.logger.warn(
+      `🔧 Repaired ${confirmed.length} listings from on-chain state`,
+    );
+    return confirmed.length;
+  }
+
+  /**
+   * Keys ("kind:storageId") of the unrepaired discrepancies of the last
+   * completed run
+   */
+  private async getPreviousDiscrepancyKeys(
+    currentRunId: string,
+  ): Promise<Set<string>> {
+    const previous = await this.prisma.reconciliationRun.findFirst({
+      where: { status: 'completed', id: { not: currentRunId } },
+      orderBy: { startedAt: 'desc' },
+    });
+    if (!previous) {
+      return new Set();
+    }
+
+    const discrepancies =
+      previous.discrepancies as unknown as ListingDiscrepancy[];
+    return new Set(
+      discrepancies
+        .filter((d) => !d.repaired)
+        .map((d) => `${d.kind}:${d.storageId}`),
+    );
+  }
+
+  private countKind(
+    discrepancies: ListingDiscrepancy[],
+    kind: ListingDiscrepancy['kind'],
+  ): number {
+    return discrepancies.filter((d) => d.kind === kind).length;
+  }
+}
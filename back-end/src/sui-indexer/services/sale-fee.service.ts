@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { SuiParsedData } from '@mysten/sui/client';
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SuiClientService } from '../sui-client/sui-client.service';
+import {
+  LEADER_LOCK_ID,
+  ProcessingLockService,
+} from './processing-lock.service';
+import { MarketplaceObjectFields } from '../types/reconciliation.types';
+import { SuiIndexerConfig } from '../../config/sui-indexer.config';
+
+const FEE_RESOLVE_INTERVAL_MS = 30 * 1000; // 30 seconds
+const FEE_RESOLVE_BATCH_SIZE = 50; // RPC limit for multiGetTransactionBlocks
+
+/**
+ * Records the marketplace fee that applied to each sale
+ *
+ * StoragePurchased events carry the gross amount only, and fee changes emit
+ * no event. The fee of a sale is read from the Marketplace object at the
+ * version the purchase transaction took as input, which is exactly the
+ * fee_bps the contract charged.
+ *
+ * Runs outside the indexing transaction so that projecting events never
+ * waits on extra RPC calls. Full nodes may have pruned old object versions;
+ * those sales fall back to the current fee.
+ */
+@Injectable()
+export class SaleFeeService {
+  private readonly logger = new Logger(SaleFeeService.name);
+  private isResolving = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly suiClient: SuiClientService,
+    private readonly lockService: ProcessingLockService,
+  ) {}
+
+  /**
+   * Scheduled resolution - runs on the indexer leader only
+   */
+  @Interval(FEE_RESOLVE_INTERVAL_MS)
+  async scheduledResolve(): Promise<void> {
+    const config = this.configService.get<SuiIndexerConfig>('suiIndexer');
+
+    if (!config?.enabled || !config.marketplaceId) {
+      return;
+    }
+
+    if (!this.lockService.holdsLock(LEADER_LOCK_ID) || this.isResolving) {
+      return;
+    }
+
+    this.isResolving = true;
+    try {
+      await this.resolvePendingFees(config.marketplaceId);
+    } catch (error) {
+      this.logger.error('Sale fee resolution failed:', error);
+    } finally {
+      this.isResolving = false;
+    }
+  }
+
+  /**
+   * Set feeBps on one batch of sales that don't have it yet
+   * @returns Number of sales updated
+   */
+  async resolvePendingFees(marketplaceId: string): Promise<number> {
+    const pending = await this.prisma.storagePurchasedEvent.findMany({
+      where: { feeBps: null },
+      select: { txDigest: true },
+      distinct: ['txDigest'],
+      orderBy: { txDigest: 'asc' },
+      take: FEE_RESOLVE_BATCH_SIZE,
+    });
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const client = this.suiClient.getClient();
+    const normalizedId = normalizeSuiObjectId(marketplaceId);
+    const transactions = await client.multiGetTransactionBlocks({
+      digests: pending.map((row) => row.txDigest),
+      options: { showEffects: true },
+    });
+
+    let currentFeeBps: number | null = null;
+    let updated = 0;
+
+    for (const transaction of transactions) {
+      const inputVersion = transaction.effects?.sharedObjects?.find(
+        (ref) => normalizeSuiObjectId(ref.objectId) === normalizedId,
+      )?.version;
+
+      let feeBps = inputVersion
+        ? await this.getFeeBpsAtVersion(marketplaceId, inputVersion)
+        : null;
+
+      if (feeBps === null) {
+        currentFeeBps ??= await this.getFeeBpsAtVersion(marketplaceId);
+        if (currentFeeBps === null) {
+          throw new Error(`Marketplace object ${marketplaceId} not found`);
+        }
+        this.logger.warn(
+          `Marketplace version for tx ${transaction.digest} is unavailable - using the current fee (${currentFeeBps} bps)`,
+        );
+        feeBps = currentFeeBps;
+      }
+
+      const { count } = await this.prisma.storagePurchasedEvent.updateMany({
+        where: { txDigest: transaction.digest, feeBps: null },
+        data: { feeBps },
+      });
+      updated += count;
+    }
+
+    this.logger.debug(`Resolved the marketplace fee of ${updated} sales`);
+    return updated;
+  }
+
+  /**
+   * Read fee_bps from the Marketplace object, at a past version or now
+   * @returns null if the version is no longer available
+   */
+  private async getFeeBpsAtVersion(
+    marketplaceId: string,
+    version?: string,
+  ): Promise<number | null> {
+    const client = this.suiClient.getClient();
+
+    let content: SuiParsedData | null | undefined;
+    if (version) {
+      const past = await client.tryGetPastObject({
+        id: marketplaceId,
+        version: Number(version),
+        options: { showContent: true },
+      });
+      if (past.status !== 'VersionFound') {
+        return null;
+      }
+      content = past.details.content;
+    } else {
+      const current = await client.getObject({
+        id: marketplaceId,
+        options: { showContent: true },
+      });
+      content = current.data?.content;
+    }
+
+    if (content?.dataType !== 'moveObject') {
+      return null;
+    }
+    return Number(
+      (content.fields as unknown as MarketplaceObjectFields).fee_bps,
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { matchesSavedSearch } from './saved-search.service';
+import { SavedSearchCriteria } from '../types/saved-search.types';
+
+describe('matchesSavedSearch', () => {
+  const anySearch: SavedSearchCriteria = {
+    owner: null,
+    minSize: null,
+    maxSize: null,
+    coverStartEpoch: null,
+    coverEndEpoch: null,
+    maxPricePerMibPerEpoch: null,
+  };
+
+  // 10 MiB for epochs 10-50 at ~2000 FROST per MiB per epoch
+  const listing = {
+    seller: '0xseller',
+    size: 10_485_760n,
+    startEpoch: 10,
+    endEpoch: 50,
+    pricePerSizePerEpoch: 1_907_348n,
+  };
+
+  it('matches every listing without criteria', () => {
+    expect(matchesSavedSearch(anySearch, listing)).toBe(true);
+  });
+
+  it('applies the size range', () => {
+    expect(
+      matchesSavedSearch({ ...anySearch, minSize: 10_485_760n }, listing),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch({ ...anySearch, minSize: 10_485_761n }, listing),
+    ).toBe(false);
+    expect(
+      matchesSavedSearch({ ...anySearch, maxSize: 1_048_576n }, listing),
+    ).toBe(false);
+  });
+
+  it('requires the listing to cover the epoch window', () => {
+    const window = { ...anySearch, coverStartEpoch: 20, coverEndEpoch: 50 };
+    expect(matchesSavedSearch(window, listing)).toBe(true);
+    expect(matchesSavedSearch({ ...window, coverStartEpoch: 5 }, listing)).toBe(
+      false,
+    );
+    expect(matchesSavedSearch({ ...window, coverEndEpoch: 51 }, listing)).toBe(
+      false,
+    );
+  });
+
+  it('applies the maximum price per MiB per epoch', () => {
+    expect(
+      matchesSavedSearch(
+        { ...anySearch, maxPricePerMibPerEpoch: 2000n },
+        listing,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { ...anySearch, maxPricePerMibPerEpoch: 1999n },
+        listing,
+      ),
+    ).toBe(false);
+  });
+
+  it("skips the owner's own listings", () => {
+    expect(
+      matchesSavedSearch({ ...anySearch, owner: '0xseller' }, listing),
+    ).toBe(false);
+  });
+});
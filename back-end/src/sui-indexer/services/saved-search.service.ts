@@ -0,0 +1,371 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma, SavedSearch } from '../../../generated/prisma';
+import { StorageListedUpsertData } from '../types/marketplace-events.types';
+import {
+  ListingAlertPayload,
+  SavedSearchCriteria,
+  SavedSearchInput,
+  SavedSearchView,
+  WebhookDeliveryStatus,
+} from '../types/saved-search.types';
+
+const PRICE_SCALE = 1_000_000_000n; // pricePerSizePerEpoch scale (contract)
+const BYTES_PER_MIB = 1_048_576n;
+
+/**
+ * Whether a listing matches the criteria of a saved search - the same
+ * semantics as the filters of GET /indexer/listings
+ */
+export function matchesSavedSearch(
+  search: SavedSearchCriteria,
+  listing: Pick<
+    StorageListedUpsertData,
+    'seller' | 'size' | 'startEpoch' | 'endEpoch' | 'pricePerSizePerEpoch'
+  >,
+): boolean {
+  if (search.owner !== null && listing.seller === search.owner) {
+    return false;
+  }
+  if (search.minSize !== null && listing.size < search.minSize) {
+    return false;
+  }
+  if (search.maxSize !== null && listing.size > search.maxSize) {
+    return false;
+  }
+  if (
+    search.coverStartEpoch !== null &&
+    listing.startEpoch > search.coverStartEpoch
+  ) {
+    return false;
+  }
+  if (
+    search.coverEndEpoch !== null &&
+    listing.endEpoch < search.coverEndEpoch
+  ) {
+    return false;
+  }
+  if (
+    search.maxPricePerMibPerEpoch !== null &&
+    listing.pricePerSizePerEpoch >
+      (search.maxPricePerMibPerEpoch * PRICE_SCALE) / BYTES_PER_MIB
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Saved listing searches and their webhook alerts
+ *
+ * Alerts are enqueued in the indexer transaction that projects the listing,
+ * so none is lost or sent for a rolled-back event; WebhookDeliveryService
+ * sends them. Only listings made after a search was created are alerted,
+ * and an event alerts each search at most once.
+ */
+@Injectable()
+export class SavedSearchService {
+  private readonly logger = new Logger(SavedSearchService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Register a saved search with a new signing secret
+   * @returns The search, including the secret - it is not returned again
+   */
+  async createSearch(
+    input: SavedSearchInput,
+  ): Promise<SavedSearchView & { secret: string }> {
+    if (input.webhookUrl === undefined) {
+      throw new BadRequestException('webhookUrl is required');
+    }
+    const data = this.parseInput(input);
+    this.validateCriteria(data);
+
+    const search = await this.prisma.savedSearch.create({
+      data: {
+        ...data,
+        webhookUrl: data.webhookUrl!,
+        secret: randomBytes(32).toString('hex'),
+      },
+    });
+
+    return { ...this.toView(search), secret: search.secret };
+  }
+
+  async listSearches(owner?: string): Promise<SavedSearchView[]> {
+    const searches = await this.prisma.savedSearch.findMany({
+      where: owner ? { owner } : {},
+      orderBy: { createdAt: 'desc' },
+    });
+    return searches.map((search) => this.toView(search));
+  }
+
+  async getSearch(id: string): Promise<SavedSearchView | null> {
+    const search = await this.prisma.savedSearch.findUnique({ where: { id } });
+    return search ? this.toView(search) : null;
+  }
+
+  /**
+   * Update the given fields of a saved search
+   * @returns null if the search doesn't exist
+   */
+  async updateSearch(
+    id: string,
+    input: SavedSearchInput,
+  ): Promise<SavedSearchView | null> {
+    const existing = await this.prisma.savedSearch.findUnique({
+      where: { id },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    const data = this.parseInput(input);
+    this.validateCriteria({ ...existing, ...data });
+
+    const search = await this.prisma.savedSearch.update({
+      where: { id },
+      data,
+    });
+    return this.toView(search);
+  }
+
+  /**
+   * Delete a saved search and its delivery log
+   * @returns false if the search doesn't exist
+   */
+  async deleteSearch(id: string): Promise<boolean> {
+    const { count } = await this.prisma.savedSearch.deleteMany({
+      where: { id },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Delivery log of a saved search, newest first
+   */
+  async getDeliveries(
+    id: string,
+    status?: WebhookDeliveryStatus,
+    cursor?: string,
+    limit: number = 50,
+  ) {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: { savedSearchId: id, ...(status ? { status } : {}) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = deliveries.length > limit;
+    const page = hasMore ? deliveries.slice(0, limit) : deliveries;
+
+    return {
+      deliveries: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Enqueue a webhook alert for each active search matching a listing
+   * projected by the indexer (new, re-listed or repriced)
+   * @returns Number of alerts enqueued
+   */
+  async enqueueAlerts(
+    listing: StorageListedUpsertData,
+    tx: Prisma.TransactionClient,
+  ): Promise<number> {
+    const indexedAt = listing.blockTime || new Date();
+    const searches = await tx.savedSearch.findMany({
+      where: { active: true, createdAt: { lte: indexedAt } },
+    });
+    const matching = searches.filter((search) =>
+      matchesSavedSearch(search, listing),
+    );
+    if (matching.length === 0) {
+      return 0;
+    }
+
+    const { count } = await tx.webhookDelivery.createMany({
+      data: matching.map((search) => {
+        const id = randomUUID();
+        const payload: ListingAlertPayload = {
+          id,
+          type: 'listing.matched',
+          createdAt: new Date().toISOString(),
+          savedSearch: { id: search.id, name: search.name },
+          listing: {
+            storageId: listing.storageId,
+            seller: listing.seller,
+            pricePerSizePerEpoch: listing.pricePerSizePerEpoch.toString(),
+            pricePerMibPerEpoch: (
+              (listing.pricePerSizePerEpoch * BYTES_PER_MIB) /
+              PRICE_SCALE
+            ).toString(),
+            size: listing.size.toString(),
+            startEpoch: listing.startEpoch,
+            endEpoch: listing.endEpoch,
+            totalPrice: listing.totalPrice.toString(),
+          },
+          event: {
+            txDigest: listing.txDigest,
+            eventSeq: listing.eventSeq,
+            blockTime: listing.blockTime?.toISOString() ?? null,
+          },
+        };
+
+        return {
+          id,
+          savedSearchId: search.id,
+          storageId: listing.storageId,
+          txDigest: listing.txDigest,
+          eventSeq: listing.eventSeq,
+          payload: payload as unknown as Prisma.InputJsonValue,
+        };
+      }),
+      skipDuplicates: true,
+    });
+
+    this.logger.debug(
+      `🔔 Enqueued ${count} listing alerts for ${listing.storageId}`,
+    );
+    return count;
+  }
+
+  /**
+   * Validate the fields present in a request body
+   */
+  private parseInput(input: SavedSearchInput) {
+    const data: Partial<SavedSearchCriteria> & {
+      name?: string | null;
+      webhookUrl?: string;
+      active?: boolean;
+    } = {};
+
+    if (input.owner !== undefined) {
+      data.owner = this.parseOptionalString('owner', input.owner);
+    }
+    if (input.name !== undefined) {
+      data.name = this.parseOptionalString('name', input.name);
+    }
+    if (input.minSize !== undefined) {
+      data.minSize = this.parseBigInt('minSize', input.minSize);
+    }
+    if (input.maxSize !== undefined) {
+      data.maxSize = this.parseBigInt('maxSize', input.maxSize);
+    }
+    if (input.coverStartEpoch !== undefined) {
+      data.coverStartEpoch = this.parseEpoch(
+        'coverStartEpoch',
+        input.coverStartEpoch,
+      );
+    }
+    if (input.coverEndEpoch !== undefined) {
+      data.coverEndEpoch = this.parseEpoch(
+        'coverEndEpoch',
+        input.coverEndEpoch,
+      );
+    }
+    if (input.maxPricePerMibPerEpoch !== undefined) {
+      data.maxPricePerMibPerEpoch = this.parseBigInt(
+        'maxPricePerMibPerEpoch',
+        input.maxPricePerMibPerEpoch,
+      );
+    }
+    if (input.webhookUrl !== undefined) {
+      data.webhookUrl = this.parseWebhookUrl(input.webhookUrl);
+    }
+    if (input.active !== undefined) {
+      if (typeof input.active !== 'boolean') {
+        throw new BadRequestException('active must be a boolean');
+      }
+      data.active = input.active;
+    }
+
+    return data;
+  }
+
+  private validateCriteria(criteria: Partial<SavedSearchCriteria>): void {
+    if (
+      criteria.minSize != null &&
+      criteria.maxSize != null &&
+      criteria.minSize > criteria.maxSize
+    ) {
+      throw new BadRequestException('minSize must not exceed maxSize');
+    }
+    if (
+      criteria.coverStartEpoch != null &&
+      criteria.coverEndEpoch != null &&
+      criteria.coverStartEpoch > criteria.coverEndEpoch
+    ) {
+      throw new BadRequestException(
+        'coverStartEpoch must not exceed coverEndEpoch',
+      );
+    }
+  }
+
+  private parseOptionalString(name: string, value: unknown): string | null {
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new BadRequestException(`${name} must be a non-empty string`);
+    }
+    return value.trim();
+  }
+
+  private parseBigInt(name: string, value: unknown): bigint | null {
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      throw new BadRequestException(
+        `${name} must be a non-negative integer string`,
+      );
+    }
+    return BigInt(value);
+  }
+
+  private parseEpoch(name: string, value: unknown): number | null {
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new BadRequestException(`${name} must be a non-negative integer`);
+    }
+    return value;
+  }
+
+  private parseWebhookUrl(value: unknown): string {
+    let url: URL;
+    try {
+      url = new URL(String(value));
+    } catch {
+      throw new BadRequestException('webhookUrl must be a valid URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new BadRequestException('webhookUrl must be an http(s) URL');
+    }
+    return url.toString();
+  }
+
+  private toView(search: SavedSearch): SavedSearchView {
+    return {
+      id: search.id,
+      owner: search.owner,
+      name: search.name,
+      minSize: search.minSize?.toString() ?? null,
+      maxSize: search.maxSize?.toString() ?? null,
+      coverStartEpoch: search.coverStartEpoch,
+      coverEndEpoch: search.coverEndEpoch,
+      maxPricePerMibPerEpoch: search.maxPricePerMibPerEpoch?.toString() ?? null,
+      webhookUrl: search.webhookUrl,
+      active: search.active,
+      createdAt: search.createdAt,
+      updatedAt: search.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { SellerEarningsService } from './seller-earnings.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+
+describe('SellerEarningsService', () => {
+  const noSales = {
+    bucket: null,
+    sales: 0,
+    gross: null,
+    fees: null,
+    byteEpochs: null,
+    pendingFeeSales: 0,
+  };
+
+  let queries: Prisma.Sql[];
+  let results: unknown[][];
+  let service: SellerEarningsService;
+
+  beforeEach(() => {
+    queries = [];
+    results = [];
+    const prisma = {
+      // Answer the totals query, then the bucket query
+      $queryRaw: jest.fn(
+        (strings: TemplateStringsArray, ...values: unknown[]) => {
+          queries.push(Prisma.sql(strings, ...values));
+          return Promise.resolve(results.shift() ?? []);
+        },
+      ),
+    };
+    service = new SellerEarningsService(prisma as unknown as PrismaService);
+  });
+
+  it('applies the block time range to the totals and the buckets', async () => {
+    const from = new Date('2025-11-01T00:00:00Z');
+    const to = new Date('2025-12-01T00:00:00Z');
+    results = [[noSales], []];
+
+    const report = await service.getSellerEarnings('0xseller', 'day', {
+      from,
+      to,
+    });
+
+    expect(queries).toHaveLength(2);
+    for (const query of queries) {
+      expect(query.sql).toContain('"blockTime" >= ?');
+      expect(query.sql).toContain('"blockTime" < ?');
+      expect(query.values).toEqual(
+        expect.arrayContaining(['0xseller', from, to]),
+      );
+    }
+    expect(report.from).toBe('2025-11-01T00:00:00.000Z');
+    expect(report.to).toBe('2025-12-01T00:00:00.000Z');
+  });
+
+  it('leaves out missing bounds', async () => {
+    results = [[noSales], []];
+
+    const report = await service.getSellerEarnings('0xseller', 'week');
+
+    expect(queries[0].sql).not.toContain('"blockTime" >=');
+    expect(queries[0].sql).not.toContain('"blockTime" <');
+    expect(report.from).toBeNull();
+    expect(report.to).toBeNull();
+  });
+
+  it('rounds fees down per sale and counts unresolved fees', async () => {
+    results = [[noSales], []];
+
+    await service.getSellerEarnings('0xseller', 'epoch');
+
+    // floor(amountPaid * feeBps / 10000) per sale, as the contract does
+    expect(queries[0].sql).toContain(
+      'SUM(floor("amountPaid"::numeric * "feeBps" / 10000))',
+    );
+    expect(queries[0].sql).toContain('FILTER (WHERE "feeBps" IS NULL)');
+  });
+
+  it('derives net proceeds and average prices from the sums', async () => {
+    // 3 WAL for 2 MiB over 10 epochs, 2.5% fee on all but one sale
+    results = [
+      [
+        {
+          bucket: null,
+          sales: 2,
+          gross: '3000000000',
+          fees: '75000000',
+          byteEpochs: '20971520',
+          pendingFeeSales: 1,
+        },
+      ],
+      [],
+    ];
+
+    const { totals } = await service.getSellerEarnings('0xseller', 'day');
+
+    expect(totals).toEqual({
+      sales: 2,
+      grossProceeds: '3000000000',
+      feesDeducted: '75000000',
+      netProceeds: '2925000000',
+      byteEpochsSold: '20971520',
+      averagePricePerSizePerEpoch: '143051147460',
+      averagePricePerMibPerEpoch: '150000000',
+      pendingFeeSales: 1,
+    });
+  });
+
+  it('reports zeros for a seller without sales', async () => {
+    results = [[noSales], []];
+
+    const report = await service.getSellerEarnings('0xseller', 'day');
+
+    expect(report.totals).toEqual({
+      sales: 0,
+      grossProceeds: '0',
+      feesDeducted: '0',
+      netProceeds: '0',
+      byteEpochsSold: '0',
+      averagePricePerSizePerEpoch: '0',
+      averagePricePerMibPerEpoch: '0',
+      pendingFeeSales: 0,
+    });
+    expect(report.buckets).toEqual([]);
+  });
+
+  it('buckets by UTC week start', async () => {
+    results = [
+      [noSales],
+      [{ ...noSales, bucket: new Date('2025-11-24T00:00:00Z'), sales: 1 }],
+    ];
+
+    const { buckets } = await service.getSellerEarnings('0xseller', 'week');
+
+    expect(queries[1].sql).toContain('date_trunc(?, "blockTime")');
+    expect(queries[1].values).toContain('week');
+    expect(buckets.map((bucket) => bucket.bucket)).toEqual([
+      '2025-11-24T00:00:00.000Z',
+    ]);
+  });
+
+  it('spreads each sale over the epochs it sold', async () => {
+    results = [
+      [noSales],
+      [
+        { ...noSales, bucket: 10, sales: 1, gross: '100' },
+        { ...noSales, bucket: 11, sales: 1, gross: '100' },
+      ],
+    ];
+
+    const { buckets } = await service.getSellerEarnings('0xseller', 'epoch');
+
+    // The last epoch sold is purchasedEndEpoch - 1
+    expect(queries[1].sql).toContain(
+      'generate_series("purchasedStartEpoch", "purchasedEndEpoch" - 1)',
+    );
+    expect(
+      buckets.map((bucket) => [bucket.bucket, bucket.grossProceeds]),
+    ).toEqual([
+      [10, '100'],
+      [11, '100'],
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Prisma } from '../../../generated/prisma';
+import {
+  EarningsBucket,
+  EarningsBucketFigures,
+  EarningsFigures,
+  EarningsFilters,
+  SellerEarningsReport,
+} from '../types/seller-earnings.types';
+
+const PRICE_SCALE = 1_000_000_000n; // pricePerSizePerEpoch scale (contract)
+const BYTES_PER_MIB = 1_048_576n;
+
+/**
+ * Aggregated purchase rows as returned by Postgres (sums as text)
+ */
+interface EarningsRow {
+  bucket: Date | number | null;
+  sales: number;
+  gross: string | null;
+  fees: string | null;
+  byteEpochs: string | null;
+  pendingFeeSales: number;
+}
+
+/**
+ * Seller earnings, aggregated from storage_purchased_events
+ *
+ * Fees are computed per sale as the contract does -
+ * floor(amountPaid * feeBps / 10000) - using the fee recorded by
+ * SaleFeeService. Day and week buckets group sales by block time (UTC, weeks
+ * start on Monday). Epoch buckets spread each sale evenly over the Walrus
+ * epochs of storage it sold, so they show what each epoch of storage earned.
+ */
+@Injectable()
+export class SellerEarningsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getSellerEarnings(
+    seller: string,
+    bucket: EarningsBucket,
+    filters: EarningsFilters = {},
+  ): Promise<SellerEarningsReport> {
+    const where = Prisma.sql`
+      WHERE "seller" = ${seller}
+      ${filters.from ? Prisma.sql`AND "blockTime" >= ${filters.from}` : Prisma.empty}
+      ${filters.to ? Prisma.sql`AND "blockTime" < ${filters.to}` : Prisma.empty}
+    `;
+
+    const [[totals], rows] = await Promise.all([
+      this.prisma.$queryRaw<EarningsRow[]>`
+        SELECT
+          NULL AS "bucket",
+          COUNT(*)::int AS "sales",
+          SUM("amountPaid")::text AS "gross",
+          SUM(floor("amountPaid"::numeric * "feeBps" / 10000))::text AS "fees",
+          SUM("purchasedSize"::numeric * ("purchasedEndEpoch" - "purchasedStartEpoch"))::text AS "byteEpochs",
+          (COUNT(*) FILTER (WHERE "feeBps" IS NULL))::int AS "pendingFeeSales"
+        FROM "storage_purchased_events"
+        ${where}
+      `,
+      bucket === 'epoch'
+        ? this.queryEpochBuckets(where)
+        : this.queryTimeBuckets(where, bucket),
+    ]);
+
+    return {
+      seller,
+      bucket,
+      from: filters.from?.toISOString() ?? null,
+      to: filters.to?.toISOString() ?? null,
+      totals: this.toFigures(totals),
+      buckets: rows.map(
+        (row): EarningsBucketFigures => ({
+          bucket:
+            row.bucket instanceof Date
+              ? row.bucket.toISOString()
+              : (row.bucket as number),
+          ...this.toFigures(row),
+        }),
+      ),
+    };
+  }
+
+  private queryTimeBuckets(
+    where: Prisma.Sql,
+    unit: 'day' | 'week',
+  ): Promise<EarningsRow[]> {
+    return this.prisma.$queryRaw<EarningsRow[]>`
+      SELECT
+        date_trunc(${unit}, "blockTime") AS "bucket",
+        COUNT(*)::int AS "sales",
+        SUM("amountPaid")::text AS "gross",
+        SUM(floor("amountPaid"::numeric * "feeBps" / 10000))::text AS "fees",
+        SUM("purchasedSize"::numeric * ("purchasedEndEpoch" - "purchasedStartEpoch"))::text AS "byteEpochs",
+        (COUNT(*) FILTER (WHERE "feeBps" IS NULL))::int AS "pendingFeeSales"
+      FROM "storage_purchased_events"
+      ${where}
+      AND "blockTime" IS NOT NULL
+      GROUP BY 1
+      ORDER BY 1
+    `;
+  }
+
+  /**
+   * One row per (sale, epoch sold), amounts divided by the epochs sold
+   */
+  private queryEpochBuckets(where: Prisma.Sql): Promise<EarningsRow[]> {
+    return this.prisma.$queryRaw<EarningsRow[]>`
+      SELECT
+        e."epoch" AS "bucket",
+        COUNT(*)::int AS "sales",
+        floor(SUM("amountPaid"::numeric / ("purchasedEndEpoch" - "purchasedStartEpoch")))::text AS "gross",
+        floor(SUM(floor("amountPaid"::numeric * "feeBps" / 10000) / ("purchasedEndEpoch" - "purchasedStartEpoch")))::text AS "fees",
+        SUM("purchasedSize")::text AS "byteEpochs",
+        (COUNT(*) FILTER (WHERE "feeBps" IS NULL))::int AS "pendingFeeSales"
+      FROM "storage_purchased_events"
+      CROSS JOIN LATERAL generate_series("purchasedStartEpoch", "purchasedEndEpoch" - 1) AS e("epoch")
+      ${where}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+  }
+
+  private toFigures(row: EarningsRow): EarningsFigures {
+    const gross = BigInt(row.gross ?? 0);
+    const fees = BigInt(row.fees ?? 0);
+    const byteEpochs = BigInt(row.byteEpochs ?? 0);
+
+    return {
+      sales: row.sales,
+      grossProceeds: gross.toString(),
+      feesDeducted: fees.toString(),
+      netProceeds: (gross - fees).toString(),
+      byteEpochsSold: byteEpochs.toString(),
+      averagePricePerSizePerEpoch:
+        byteEpochs > 0n ? ((gross * PRICE_SCALE) / byteEpochs).toString() : '0',
+      averagePricePerMibPerEpoch:
+        byteEpochs > 0n
+          ? ((gross * BYTES_PER_MIB) / byteEpochs).toString()
+          : '0',
+      pendingFeeSales: row.pendingFeeSales,
+    };
+  }
+}
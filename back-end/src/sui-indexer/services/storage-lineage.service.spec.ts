@@ -0,0 +1,162 @@
+import { deriveSplitPieces, isListingSold } from './storage-lineage.service';
+import { SplitListing } from '../types/storage-lineage.types';
+
+describe('deriveSplitPieces', () => {
+  const P = '0xparent';
+  const seller = '0xseller';
+  const buyer = '0xbuyer';
+  const MIB = 1_048_576n;
+
+  // Listing P: 1 MiB for epochs 10-60
+  const purchase = (
+    purchaseType: string,
+    startEpoch: number,
+    endEpoch: number,
+    eventSeq: string,
+    purchasedSize = MIB,
+  ) => ({
+    storageId: P,
+    buyer,
+    seller,
+    purchaseType,
+    purchasedSize,
+    purchasedStartEpoch: startEpoch,
+    purchasedEndEpoch: endEpoch,
+    eventSeq,
+  });
+
+  const listed = (
+    storageId: string,
+    startEpoch: number,
+    endEpoch: number,
+    eventSeq: string,
+    size = MIB,
+  ): SplitListing => ({
+    storageId,
+    seller,
+    size,
+    startEpoch,
+    endEpoch,
+    eventSeq,
+  });
+
+  const sold = (
+    childStorageId: string | null,
+    startEpoch: number,
+    endEpoch: number,
+    size = MIB,
+  ) => ({
+    childStorageId,
+    kind: 'sold',
+    owner: buyer,
+    size,
+    startEpoch,
+    endEpoch,
+  });
+
+  const remainder = (listing: SplitListing) => ({
+    childStorageId: listing.storageId,
+    kind: 'remainder',
+    owner: seller,
+    size: listing.size,
+    startEpoch: listing.startEpoch,
+    endEpoch: listing.endEpoch,
+  });
+
+  it('splits a purchase in the middle into the sold piece and two remainders', () => {
+    // Delisted(P), Listed(P), Listed(end), Purchased(P)
+    const start = listed(P, 10, 20, '1');
+    const end = listed('0xend', 30, 60, '2');
+
+    const pieces = deriveSplitPieces(
+      purchase('partial_epoch', 20, 30, '3'),
+      [start, end],
+      ['0'],
+    );
+
+    // The sold piece is a new object whose ID no event carries
+    expect(pieces).toEqual([
+      sold(null, 20, 30),
+      remainder(start),
+      remainder(end),
+    ]);
+    expect(isListingSold(P, pieces)).toBe(false);
+  });
+
+  it('keeps P for the start remainder of a purchase to the end', () => {
+    // Delisted(P), Listed(P), Purchased(P)
+    const start = listed(P, 10, 20, '1');
+
+    const pieces = deriveSplitPieces(
+      purchase('partial_epoch', 20, 60, '2'),
+      [start],
+      ['0'],
+    );
+
+    expect(pieces).toEqual([sold(null, 20, 60), remainder(start)]);
+    expect(isListingSold(P, pieces)).toBe(false);
+  });
+
+  it('keeps P for the sold piece of a purchase from the start', () => {
+    // Delisted(P), Listed(end), Purchased(P)
+    const end = listed('0xend', 30, 60, '1');
+
+    const pieces = deriveSplitPieces(
+      purchase('partial_epoch', 10, 30, '2'),
+      [end],
+      ['0'],
+    );
+
+    expect(pieces).toEqual([sold(P, 10, 30), remainder(end)]);
+    expect(isListingSold(P, pieces)).toBe(true);
+  });
+
+  it('keeps P for the sold piece of a partial_size purchase', () => {
+    // Delisted(P), Listed(rest), Purchased(P)
+    const rest = listed('0xrest', 10, 60, '1', MIB - 262_144n);
+
+    const pieces = deriveSplitPieces(
+      purchase('partial_size', 10, 60, '2', 262_144n),
+      [rest],
+      ['0'],
+    );
+
+    expect(pieces).toEqual([sold(P, 10, 60, 262_144n), remainder(rest)]);
+    expect(isListingSold(P, pieces)).toBe(true);
+  });
+
+  it('does not split full purchases or purchases of the whole period', () => {
+    expect(deriveSplitPieces(purchase('full', 10, 60, '0'), [], [])).toEqual(
+      [],
+    );
+    // partial_epoch over the whole period emits no StorageDelisted
+    expect(
+      deriveSplitPieces(purchase('partial_epoch', 10, 60, '0'), [], []),
+    ).toEqual([]);
+    expect(isListingSold(P, [])).toBe(true);
+  });
+
+  it('only takes listings between its delist and the purchase', () => {
+    // One PTB buying P, then Q of the same seller, then R of another:
+    // Delisted(P), Listed(a), Purchased(P),
+    // Delisted(Q), Listed(b), Purchased(Q),
+    // Delisted(R), Listed(c), Purchased(R)
+    const a = listed('0xa', 30, 60, '1');
+    const b = listed('0xb', 30, 60, '4');
+    const c = { ...listed('0xc', 30, 60, '7'), seller: '0xsomeone' };
+
+    const first = deriveSplitPieces(
+      purchase('partial_epoch', 10, 30, '2'),
+      [a, b, c],
+      ['0'],
+    );
+    const second = deriveSplitPieces(
+      { ...purchase('partial_epoch', 10, 30, '5'), storageId: '0xq' },
+      [a, b, c],
+      ['3'],
+    );
+
+    expect(first).toEqual([sold(P, 10, 30), remainder(a)]);
+    expect(second.map((piece) => piece.childStorageId)).toEqual(['0xq', '0xb']);
+  });
+});
@@ -0,0 +1,304 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StorageLineage } from '../../../generated/prisma';
+import {
+  ListingStatus,
+  StoragePurchasedInsertData,
+} from '../types/marketplace-events.types';
+import {
+  LineageEdge,
+  LineageNode,
+  SplitListing,
+  SplitPiece,
+  StorageLineageGraph,
+} from '../types/storage-lineage.types';
+
+const MAX_LINEAGE_ROWS = 500;
+
+/**
+ * Pieces a partial purchase split the listed storage object into
+ *
+ * The contract mirrors a split with StorageDelisted(P) + StorageListed
+ * (remainders) before StoragePurchased(P), all in the purchase transaction:
+ * - partial_size and start-to-middle partial_epoch: the sold piece keeps P,
+ *   the remainder is listed under a new ID
+ * - middle-to-end and middle partial_epoch: the start remainder keeps P, the
+ *   sold piece is a new object whose ID no event carries
+ *
+ * Full purchases, and partial_epoch purchases of the whole period (no
+ * StorageDelisted), don't split anything and yield no pieces.
+ *
+ * @param listedInTx - StorageListed events of the purchase transaction
+ * @param delistedSeqs - Event sequences of StorageDelisted(P) in the transaction
+ */
+export function deriveSplitPieces(
+  purchase: Pick<
+    StoragePurchasedInsertData,
+    | 'storageId'
+    | 'buyer'
+    | 'seller'
+    | 'purchaseType'
+    | 'purchasedSize'
+    | 'purchasedStartEpoch'
+    | 'purchasedEndEpoch'
+    | 'eventSeq'
+  >,
+  listedInTx: SplitListing[],
+  delistedSeqs: string[],
+): SplitPiece[] {
+  if (purchase.purchaseType === 'full') {
+    return [];
+  }
+
+  const purchaseSeq = BigInt(purchase.eventSeq);
+  const delistSeq = delistedSeqs
+    .map((seq) => BigInt(seq))
+    .filter((seq) => seq < purchaseSeq)
+    .reduce((latest, seq) => (seq > latest ? seq : latest), -1n);
+  if (delistSeq < 0n) {
+    return [];
+  }
+
+  const remainders = listedInTx.filter(
+    (listing) =>
+      listing.seller === purchase.seller &&
+      BigInt(listing.eventSeq) > delistSeq &&
+      BigInt(listing.eventSeq) < purchaseSeq,
+  );
+  const soldKeepsId = !remainders.some(
+    (listing) => listing.storageId === purchase.storageId,
+  );
+
+  return [
+    {
+      childStorageId: soldKeepsId ? purchase.storageId : null,
+      kind: 'sold',
+      owner: purchase.buyer,
+      size: purchase.purchasedSize,
+      startEpoch: purchase.purchasedStartEpoch,
+      endEpoch: purchase.purchasedEndEpoch,
+    },
+    ...remainders.map(
+      (listing): SplitPiece => ({
+        childStorageId: listing.storageId,
+        kind: 'remainder',
+        owner: listing.seller,
+        size: listing.size,
+        startEpoch: listing.startEpoch,
+        endEpoch: listing.endEpoch,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Whether the purchased listing itself was bought - false when a remainder
+ * was re-listed under its storage ID
+ */
+export function isListingSold(
+  storageId: string,
+  pieces: SplitPiece[],
+): boolean {
+  return !pieces.some(
+    (piece) => piece.kind === 'remainder' && piece.childStorageId === storageId,
+  );
+}
+
+/**
+ * Split trees of storage objects, from storage_lineage
+ */
+@Injectable()
+export class StorageLineageService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Every split connected to a storage ID - its ancestors, descendants and
+   * their siblings - as a graph of pieces
+   *
+   * Roots are storage objects listed as a whole; their size and period are
+   * those of the pieces they were split into. Returns null for unknown
+   * storage IDs.
+   */
+  async getLineage(storageId: string): Promise<StorageLineageGraph | null> {
+    const { rows, truncated } = await this.collectLineageRows(storageId);
+
+    if (rows.length === 0) {
+      const listing = await this.prisma.listedStorage.findUnique({
+        where: { storageId },
+      });
+      if (!listing) {
+        return null;
+      }
+
+      return {
+        storageId,
+        nodes: [
+          {
+            id: `root:${storageId}`,
+            storageId,
+            kind: 'root',
+            owner: listing.seller,
+            size: listing.size.toString(),
+            startEpoch: listing.startEpoch,
+            endEpoch: listing.endEpoch,
+            txDigest: null,
+            blockTime: null,
+            status: listing.status as ListingStatus,
+          },
+        ],
+        edges: [],
+        truncated: false,
+      };
+    }
+
+    return { storageId, ...(await this.buildGraph(rows)), truncated };
+  }
+
+  /**
+   * Breadth-first walk of the lineage rows sharing storage IDs with the
+   * requested one
+   */
+  private async collectLineageRows(storageId: string) {
+    const rows = new Map<string, StorageLineage>();
+    const visited = new Set<string>([storageId]);
+    let frontier = [storageId];
+    let truncated = false;
+
+    while (frontier.length > 0 && !truncated) {
+      const found = await this.prisma.storageLineage.findMany({
+        where: {
+          OR: [
+            { parentStorageId: { in: frontier } },
+            { childStorageId: { in: frontier } },
+          ],
+        },
+        take: MAX_LINEAGE_ROWS + 1,
+      });
+
+      frontier = [];
+      for (const row of found) {
+        if (rows.has(row.id)) {
+          continue;
+        }
+        if (rows.size === MAX_LINEAGE_ROWS) {
+          truncated = true;
+          break;
+        }
+        rows.set(row.id, row);
+
+        for (const id of [row.parentStorageId, row.childStorageId]) {
+          if (id && !visited.has(id)) {
+            visited.add(id);
+            frontier.push(id);
+          }
+        }
+      }
+    }
+
+    return { rows: [...rows.values()], truncated };
+  }
+
+  /**
+   * Replay the splits in order. Each split hangs its pieces under the latest
+   * node of the parent storage ID, which becomes a root if the ID has none.
+   */
+  private async buildGraph(
+    rows: StorageLineage[],
+  ): Promise<Pick<StorageLineageGraph, 'nodes' | 'edges'>> {
+    rows.sort(
+      (a, b) =>
+        (a.blockTime?.getTime() ?? 0) - (b.blockTime?.getTime() ?? 0) ||
+        a.txDigest.localeCompare(b.txDigest) ||
+        Number(a.eventSeq) - Number(b.eventSeq),
+    );
+
+    const pieceNodes: LineageNode[] = [];
+    const edges: LineageEdge[] = [];
+    const latestNode = new Map<string, string>(); // Storage ID -> node ID
+    const rootPieces = new Map<string, StorageLineage[]>(); // Root node ID -> pieces
+
+    for (const row of rows) {
+      let parentId = latestNode.get(row.parentStorageId);
+      if (!parentId) {
+        parentId = `root:${row.parentStorageId}`;
+        latestNode.set(row.parentStorageId, parentId);
+        rootPieces.set(parentId, []);
+      }
+      rootPieces.get(parentId)?.push(row);
+
+      pieceNodes.push({
+        id: row.id,
+        storageId: row.childStorageId,
+        kind: row.kind as LineageNode['kind'],
+        owner: row.owner,
+        size: row.size.toString(),
+        startEpoch: row.startEpoch,
+        endEpoch: row.endEpoch,
+        txDigest: row.txDigest,
+        blockTime: row.blockTime,
+        status: null,
+      });
+      edges.push({ source: parentId, target: row.id, txDigest: row.txDigest });
+
+      if (row.childStorageId) {
+        latestNode.set(row.childStorageId, row.id);
+      }
+    }
+
+    const nodes = [
+      ...[...rootPieces].map(([rootId, pieces]) =>
+        this.buildRootNode(rootId, pieces),
+      ),
+      ...pieceNodes,
+    ];
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+    // Only the latest node of a storage ID is its current listing
+    const listings = await this.prisma.listedStorage.findMany({
+      where: { storageId: { in: [...latestNode.keys()] } },
+      select: { storageId: true, status: true },
+    });
+    for (const listing of listings) {
+      const node = nodesById.get(latestNode.get(listing.storageId) ?? '');
+      if (node) {
+        node.status = listing.status as ListingStatus;
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * A root covers the pieces of its first split: their whole period, and
+   * their total size when they split the size rather than the period
+   */
+  private buildRootNode(rootId: string, pieces: StorageLineage[]): LineageNode {
+    const split = pieces.filter(
+      (piece) =>
+        piece.txDigest === pieces[0].txDigest &&
+        piece.eventSeq === pieces[0].eventSeq,
+    );
+    const startEpoch = Math.min(...split.map((piece) => piece.startEpoch));
+    const endEpoch = Math.max(...split.map((piece) => piece.endEpoch));
+    const splitsSize = split.every(
+      (piece) => piece.startEpoch === startEpoch && piece.endEpoch === endEpoch,
+    );
+    const size = splitsSize
+      ? split.reduce((total, piece) => total + piece.size, 0n)
+      : split[0].size;
+    const remainder = split.find((piece) => piece.kind === 'remainder');
+
+    return {
+      id: rootId,
+      storageId: pieces[0].parentStorageId,
+      kind: 'root',
+      owner: remainder?.owner ?? '',
+      size: size.toString(),
+      startEpoch,
+      endEpoch,
+      txDigest: null,
+      blockTime: null,
+      status: null,
+    };
+  }
+}
@@ -0,0 +1,200 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  postWebhook,
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookDeliveryService,
+} from './webhook-delivery.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ProcessingLockService } from './processing-lock.service';
+import { WebhookPingPayload } from '../types/saved-search.types';
+
+const SECRET = 'test-secret';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook delivery', () => {
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  const payload: WebhookPingPayload = {
+    id: 'delivery-1',
+    type: 'ping',
+    createdAt: '2025-12-03T09:00:00.000Z',
+    savedSearch: { id: 'search-1', name: 'Renewals' },
+  };
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 200;
+
+    // Local receiver recording each request
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/hooks`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('POSTs the payload with a verifiable signature', async () => {
+    const result = await postWebhook(url, SECRET, payload);
+
+    expect(result).toEqual({ ok: true, statusCode: 200, error: null });
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(request.headers[DELIVERY_HEADER]).toBe('delivery-1');
+    expect(request.headers[EVENT_HEADER]).toBe('ping');
+
+    const signature = request.headers[SIGNATURE_HEADER] as string;
+    expect(verifyWebhookSignature(SECRET, signature, request.body)).toBe(true);
+    expect(
+      verifyWebhookSignature('other-secret', signature, request.body),
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(SECRET, signature, request.body.replace('1', '2')),
+    ).toBe(false);
+  });
+
+  it('reports non-2xx responses as failures', async () => {
+    responseStatus = 503;
+
+    const result = await postWebhook(url, SECRET, payload);
+
+    expect(result).toEqual({ ok: false, statusCode: 503, error: 'HTTP 503' });
+  });
+
+  it('reports unreachable receivers without a status code', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+
+    const result = await postWebhook(url, SECRET, payload, 1000);
+
+    expect(result.ok).toBe(false);
+    expect(result.statusCode).toBeNull();
+    expect(result.error).toBeTruthy();
+  });
+
+  describe('WebhookDeliveryService', () => {
+    let update: jest.Mock;
+    let service: WebhookDeliveryService;
+
+    const pendingDelivery = (attempts: number) => ({
+      id: 'delivery-1',
+      attempts,
+      payload,
+      savedSearch: { webhookUrl: url, secret: SECRET },
+    });
+
+    const withDeliveries = (deliveries: unknown[]) => {
+      update = jest.fn().mockResolvedValue({});
+      const prisma = {
+        webhookDelivery: {
+          findMany: jest.fn().mockResolvedValue(deliveries),
+          update,
+        },
+      };
+      service = new WebhookDeliveryService(
+        {} as ConfigService,
+        prisma as unknown as PrismaService,
+        {} as ProcessingLockService,
+      );
+    };
+
+    it('marks a delivery delivered on a 2xx response', async () => {
+      withDeliveries([pendingDelivery(0)]);
+
+      await expect(service.deliverDue()).resolves.toBe(1);
+
+      expect(received).toHaveLength(1);
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'delivered',
+          attempts: 1,
+          lastStatusCode: 200,
+        }) as unknown,
+      });
+    });
+
+    it('schedules a retry with backoff on failure', async () => {
+      responseStatus = 500;
+      withDeliveries([pendingDelivery(2)]);
+      const before = Date.now();
+
+      await service.deliverDue();
+
+      const [[{ data }]] = update.mock.calls as [
+        [{ data: { status: string; attempts: number; nextAttemptAt: Date } }],
+      ];
+      expect(data.status).toBe('pending');
+      expect(data.attempts).toBe(3);
+      // 30s doubled twice
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+        before + 120_000,
+      );
+    });
+
+    it('gives up after the last attempt', async () => {
+      responseStatus = 500;
+      withDeliveries([pendingDelivery(7)]);
+
+      await service.deliverDue();
+
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'failed',
+          attempts: 8,
+          lastError: 'HTTP 500',
+        }) as unknown,
+      });
+    });
+  });
+
+  it('rejects signatures outside the tolerance window', () => {
+    const body = JSON.stringify(payload);
+    const timestamp = 1_764_752_400; // 2025-12-03T09:00:00Z
+    const signature = signWebhookPayload(SECRET, timestamp, body);
+
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature,
+        body,
+        timestamp * 1000 + 60_000,
+      ),
+    ).toBe(true);
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature,
+        body,
+        timestamp * 1000 + 10 * 60_000,
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  LEADER_LOCK_ID,
+  ProcessingLockService,
+} from './processing-lock.service';
+import {
+  WebhookAttemptResult,
+  WebhookPayload,
+  WebhookPingPayload,
+} from '../types/saved-search.types';
+import { SuiIndexerConfig } from '../../config/sui-indexer.config';
+
+const DELIVERY_INTERVAL_MS = 10 * 1000; // 10 seconds
+const DELIVERY_BATCH_SIZE = 50;
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // Doubles after each failed attempt
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const SIGNATURE_HEADER = 'x-storewave-signature';
+export const DELIVERY_HEADER = 'x-storewave-delivery';
+export const EVENT_HEADER = 'x-storewave-event';
+
+/**
+ * Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256 of
+ * '<t>.<body>'>" - the timestamp lets receivers reject replayed requests
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Receiver-side check of a signature header, for the raw request body
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  now: number = Date.now(),
+): boolean {
+  const parts = new Map(
+    (header ?? '').split(',').map((part) => {
+      const [key, ...value] = part.split('=');
+      return [key.trim(), value.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, timestamp, body).split('v1=')[1],
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST a signed webhook payload. Redirects are not followed.
+ */
+export async function postWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload,
+  timeoutMs: number = WEBHOOK_TIMEOUT_MS,
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'Storewave-Webhooks/1.0',
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+        [DELIVERY_HEADER]: payload.id,
+        [EVENT_HEADER]: payload.type,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+
+    return response.ok
+      ? { ok: true, statusCode: response.status, error: null }
+      : {
+          ok: false,
+          statusCode: response.status,
+          error: `HTTP ${response.status}`,
+        };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Sends the listing alerts enqueued by SavedSearchService
+ *
+ * Due deliveries are POSTed by the indexer leader. A failed attempt is
+ * retried with exponential backoff; after MAX_DELIVERY_ATTEMPTS the
+ * delivery is marked failed. Deliveries of paused searches wait until the
+ * search is resumed.
+ */
+@Injectable()
+export class WebhookDeliveryService {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private isDelivering = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly lockService: ProcessingLockService,
+  ) {}
+
+  /**
+   * Scheduled delivery - runs on the indexer leader only
+   */
+  @Interval(DELIVERY_INTERVAL_MS)
+  async scheduledDelivery(): Promise<void> {
+    const config = this.configService.get<SuiIndexerConfig>('suiIndexer');
+
+    if (
+      !config?.enabled ||
+      this.isDelivering ||
+      !this.lockService.holdsLock(LEADER_LOCK_ID)
+    ) {
+      return;
+    }
+
+    this.isDelivering = true;
+    try {
+      await this.deliverDue();
+    } catch (error) {
+      this.logger.error('Webhook delivery failed:', error);
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  /**
+   * Attempt every due delivery once
+   * @returns Number of deliveries attempted
+   */
+  async deliverDue(): Promise<number> {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() },
+        savedSearch: { active: true },
+      },
+      include: { savedSearch: { select: { webhookUrl: true, secret: true } } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+    });
+
+    await Promise.all(
+      due.map(async (delivery) => {
+        const result = await postWebhook(
+          delivery.savedSearch.webhookUrl,
+          delivery.savedSearch.secret,
+          delivery.payload as unknown as WebhookPayload,
+        );
+        await this.recordAttempt(delivery.id, delivery.attempts + 1, result);
+      }),
+    );
+
+    return due.length;
+  }
+
+  /**
+   * Send a signed ping to a saved search's webhook, outside the delivery log
+   * @returns null if the search doesn't exist
+   */
+  async sendTestPing(
+    savedSearchId: string,
+  ): Promise<WebhookAttemptResult | null> {
+    const search = await this.prisma.savedSearch.findUnique({
+      where: { id: savedSearchId },
+    });
+    if (!search) {
+      return null;
+    }
+
+    const payload: WebhookPingPayload = {
+      id: randomUUID(),
+      type: 'ping',
+      createdAt: new Date().toISOString(),
+      savedSearch: { id: search.id, name: search.name },
+    };
+    return postWebhook(search.webhookUrl, search.secret, payload);
+  }
+
+  /**
+   * Queue a failed delivery for another round of attempts
+   * @returns false if there is no failed delivery with that ID
+   */
+  async retryDelivery(
+    savedSearchId: string,
+    deliveryId: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, savedSearchId, status: 'failed' },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        deliveredAt: null,
+      },
+    });
+    return count > 0;
+  }
+
+  private async recordAttempt(
+    id: string,
+    attempts: number,
+    result: WebhookAttemptResult,
+  ): Promise<void> {
+    const now = new Date();
+
+    if (result.ok) {
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: 'delivered',
+          attempts,
+          lastStatusCode: result.statusCode,
+          lastError: null,
+          deliveredAt: now,
+        },
+      });
+      return;
+    }
+
+    const givenUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+    const delay = Math.min(
+      RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      RETRY_MAX_DELAY_MS,
+    );
+    await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: givenUp ? 'failed' : 'pending',
+        attempts,
+        lastStatusCode: result.statusCode,
+        lastError: result.error,
+        nextAttemptAt: new Date(now.getTime() + delay),
+        deliveredAt: givenUp ? now : null,
+      },
+    });
+
+    if (givenUp) {
+      this.logger.warn(
+        `Webhook delivery ${id} failed after ${attempts} attempts: ${result.error}`,
+      );
+    }
+  }
+}
@@ -1,8 +1,11 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { SuiClient } from '@mysten/sui/client';
+import { Checkpoint, SuiClient } from '@mysten/sui/client';
 import { SuiIndexerConfig } from '../../config/sui-indexer.config';
 
+// Most digests the RPC accepts per multiGetTransactionBlocks call
+const MULTI_GET_LIMIT = 50;
+
 @Injectable()
 export class SuiClientService implements OnModuleInit {
   private readonly logger = new Logger(SuiClientService.name);
@@ -26,7 +29,9 @@ export class SuiClientService implements OnModuleInit {
       this.logger.log(
         `✅ Connected to Sui ${this.config.network} (Chain ID: ${chainId})`,
       );
-      this.logger.log(`📦 Monitoring Package: ${this.config.packageId}`);
+      this.logger.log(
+        `📦 Monitoring Packages: ${this.config.packageIds.join(', ')}`,
+      );
     } catch (error) {
       this.logger.error('❌ Failed to connect to Sui RPC:', error);
       throw error;
@@ -44,6 +49,52 @@ export class SuiClientService implements OnModuleInit {
     return this.config;
   }
 
+  /**
+   * Get each transaction's position in the chain's total transaction order
+   *
+   * A checkpoint's networkTotalTransactions counts every transaction up to
+   * and including it, so a transaction's position is that total less the
+   * transactions from it to the end of its checkpoint.
+   * @throws Error if a transaction is not in a checkpoint yet
+   */
+  async getTransactionSequences(
+    digests: string[],
+  ): Promise<Map<string, bigint>> {
+    const client = this.getClient();
+    const checkpoints = new Map<string, Promise<Checkpoint>>();
+    const sequences = new Map<string, bigint>();
+
+    for (let i = 0; i < digests.length; i += MULTI_GET_LIMIT) {
+      const transactions = await client.multiGetTransactionBlocks({
+        digests: digests.slice(i, i + MULTI_GET_LIMIT),
+      });
+
+      for (const transaction of transactions) {
+        if (!transaction.checkpoint) {
+          throw new Error(
+            `Transaction ${transaction.digest} is not in a checkpoint yet`,
+          );
+        }
+
+        let pending = checkpoints.get(transaction.checkpoint);
+        if (!pending) {
+          pending = client.getCheckpoint({ id: transaction.checkpoint });
+          checkpoints.set(transaction.checkpoint, pending);
+        }
+        const checkpoint = await pending;
+
+        const index = checkpoint.transactions.indexOf(transaction.digest);
+        sequences.set(
+          transaction.digest,
+          BigInt(checkpoint.networkTotalTransactions) -
+            BigInt(checkpoint.transactions.length - index),
+        );
+      }
+    }
+
+    return sequences;
+  }
+
   /**
    * Health check for Sui connection
    */
@@ -12,6 +12,21 @@ import { EventRegistryService } from './registry/event-registry.service';
 import { CursorService } from './cursor/cursor.service';
 import { ProcessingLockService } from './services/processing-lock.service';
 import { DatabaseOperationsService } from './services/database-operations.service';
+import { FailedEventService } from './services/failed-event.service';
+import { EventArchiveService } from './services/event-archive.service';
+import { ProjectionRebuildService } from './services/projection-rebuild.service';
+import { ReconciliationService } from './services/reconciliation.service';
+import { ListingExpiryService } from './services/listing-expiry.service';
+import { IndexerMetricsService } from './services/indexer-metrics.service';
+import { SaleFeeService } from './services/sale-fee.service';
+import { SellerEarningsService } from './services/seller-earnings.service';
+import { MarketAnalyticsService } from './services/market-analytics.service';
+import { StorageLineageService } from './services/storage-lineage.service';
+import { ActivityFeedService } from './services/activity-feed.service';
+import { EventReplayService } from './services/event-replay.service';
+import { MarketplaceEventStream } from './services/marketplace-event-stream.service';
+import { SavedSearchService } from './services/saved-search.service';
+import { WebhookDeliveryService } from './services/webhook-delivery.service';
 
 // Handlers
 import { StorageListedHandler } from './handlers/storage-listed.handler';
@@ -37,6 +52,21 @@ import { IndexerController } from './controllers/indexer.controller';
     CursorService,
     ProcessingLockService,
     DatabaseOperationsService,
+    FailedEventService,
+    EventArchiveService,
+    ProjectionRebuildService,
+    ReconciliationService,
+    ListingExpiryService,
+    IndexerMetricsService,
+    SaleFeeService,
+    SellerEarningsService,
+    MarketAnalyticsService,
+    StorageLineageService,
+    ActivityFeedService,
+    EventReplayService,
+    MarketplaceEventStream,
+    SavedSearchService,
+    WebhookDeliveryService,
 
     // Event handlers
     StorageListedHandler,
@@ -1,14 +1,85 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Interval } from '@nestjs/schedule';
+import { SuiEvent } from '@mysten/sui/client';
+import { Counter } from 'prom-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '../../generated/prisma';
 import { SuiClientService } from './sui-client/sui-client.service';
-import { EventRegistryService } from './registry/event-registry.service';
-import { CursorService, EventId } from './cursor/cursor.service';
-import { ProcessingLockService } from './services/processing-lock.service';
+import {
+  EventRegistryService,
+  RegisteredEvent,
+} from './registry/event-registry.service';
+import {
+  CursorService,
+  EventId,
+  MARKETPLACE_CURSOR_ID,
+  getStreamCursorId,
+} from './cursor/cursor.service';
+import {
+  LEADER_LOCK_ID,
+  ProcessingLockService,
+} from './services/processing-lock.service';
+import {
+  FailedEventService,
+  isTransientError,
+} from './services/failed-event.service';
+import { EventArchiveService } from './services/event-archive.service';
 import { StorageListedHandler } from './handlers/storage-listed.handler';
 import { StoragePurchasedHandler } from './handlers/storage-purchased.handler';
 import { StorageDelistedHandler } from './handlers/storage-delisted.handler';
+import { MarketplaceEventStream } from './services/marketplace-event-stream.service';
+import { MarketplaceEventPayload } from './types/marketplace-events.types';
 import { SuiIndexerConfig } from '../config/sui-indexer.config';
+import { MetricsService } from '../metrics/metrics.service';
+
+const MARKETPLACE_MODULE = 'marketplace';
+
+/**
+ * Position of one package version's event stream
+ */
+interface StreamCursor {
+  cursorId: string;
+  eventId: EventId;
+}
+
+/**
+ * Complete Sui transactions read from one package version's event stream
+ */
+interface StreamPage {
+  streamIndex: number;
+  cursorId: string;
+  transactions: SuiEvent[][];
+  hasNextPage: boolean;
+}
+
+/**
+ * Events of one Sui transaction merged across package version streams
+ */
+interface MergedTransaction {
+  txDigest: string;
+  txSequence: bigint; // Position in the chain's transaction order
+  events: SuiEvent[]; // In eventSeq order
+  cursors: StreamCursor[]; // Stream positions after this transaction
+}
+
+/**
+ * Events of one Sui transaction, ready to be applied
+ */
+interface TransactionPlan {
+  txDigest: string;
+  txSequence: bigint;
+  events: SuiEvent[]; // Every event of the transaction, for the archive
+  entries: RegisteredEvent[];
+  retiredCursors: string[]; // Legacy cursors passed by this transaction
+  cursors: StreamCursor[];
+}
 
 @Injectable()
 export class SuiIndexerService implements OnModuleInit {
@@ -17,13 +88,18 @@ export class SuiIndexerService implements OnModuleInit {
 
   constructor(
     private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
     private readonly suiClient: SuiClientService,
     private readonly eventRegistry: EventRegistryService,
     private readonly cursorService: CursorService,
     private readonly lockService: ProcessingLockService,
+    private readonly failedEventService: FailedEventService,
+    private readonly eventArchive: EventArchiveService,
     private readonly storageListedHandler: StorageListedHandler,
     private readonly storagePurchasedHandler: StoragePurchasedHandler,
     private readonly storageDelistedHandler: StorageDelistedHandler,
+    private readonly eventStream: MarketplaceEventStream,
+    private readonly metrics: MetricsService,
   ) {}
 
   async onModuleInit() {
@@ -45,31 +121,30 @@ export class SuiIndexerService implements OnModuleInit {
    * Register all event handlers
    */
   private async registerEventHandlers(): Promise<void> {
-    const config = this.suiClient.getConfig();
-    const packageId = config.packageId;
+    const { packageIds } = this.suiClient.getConfig();
 
     // Register StorageListed handler
     this.eventRegistry.registerHandler(
-      packageId,
-      'marketplace',
+      packageIds,
+      MARKETPLACE_MODULE,
       'StorageListed',
-      (event) => this.storageListedHandler.handle(event),
+      (event, tx) => this.storageListedHandler.handle(event, tx),
     );
 
     // Register StoragePurchased handler
     this.eventRegistry.registerHandler(
-      packageId,
-      'marketplace',
+      packageIds,
+      MARKETPLACE_MODULE,
       'StoragePurchased',
-      (event) => this.storagePurchasedHandler.handle(event),
+      (event, tx) => this.storagePurchasedHandler.handle(event, tx),
     );
 
     // Register StorageDelisted handler
     this.eventRegistry.registerHandler(
-      packageId,
-      'marketplace',
+      packageIds,
+      MARKETPLACE_MODULE,
       'StorageDelisted',
-      (event) => this.storageDelistedHandler.handle(event),
+      (event, tx) => this.storageDelistedHandler.handle(event, tx),
     );
 
     this.logger.log(
@@ -97,11 +172,14 @@ export class SuiIndexerService implements OnModuleInit {
     this.isIndexing = true;
 
     try {
-      const eventTypes = this.eventRegistry.getAllEventTypes();
-
-      for (const eventType of eventTypes) {
-        await this.processEventType(eventType);
+      // Only the leader polls. Leadership is kept across polls by the lease
+      // heartbeat and taken over by another instance once the lease expires.
+      if (!(await this.ensureLeadership())) {
+        this.logger.debug('Not the indexer leader, skipping this interval');
+        return;
       }
+
+      await this.processMarketplaceEvents();
     } catch (error) {
       this.logger.error('Error in polling loop:', error);
     } finally {
@@ -110,112 +188,612 @@ export class SuiIndexerService implements OnModuleInit {
   }
 
   /**
-   * Process events for a specific event type
+   * Acquire the leader lease unless this instance already holds it
    */
-  private async processEventType(eventType: string): Promise<void> {
+  private async ensureLeadership(): Promise<boolean> {
+    if (this.lockService.holdsLock(LEADER_LOCK_ID)) {
+      return true;
+    }
+
+    const acquired = await this.lockService.tryAcquireLock(LEADER_LOCK_ID);
+    if (acquired) {
+      this.logger.log(
+        `👑 ${this.lockService.getInstanceId()} is now the indexer leader`,
+      );
+    }
+    return acquired;
+  }
+
+  /**
+   * Process the next batch of marketplace events
+   *
+   * The package versions' event streams are merged in on-chain order
+   * (txSequence, eventSeq). Each Sui transaction's events are
+   * projected in a single database transaction that also advances the
+   * marketplace cursor.
+   */
+  private async processMarketplaceEvents(): Promise<void> {
     // Try to acquire lock
-    if (!this.lockService.tryAcquireLock(eventType)) {
-      this.logger.debug(`Skipping ${eventType} - already processing`);
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      this.logger.debug('Skipping marketplace events - already processing');
       return;
     }
 
+    const stopTimer = this.metrics.pollDuration.startTimer();
     try {
-      const config = this.suiClient.getConfig();
-      const client = this.suiClient.getClient();
-      const handler = this.eventRegistry.getHandler(eventType);
-      const fullEventType = this.eventRegistry.getFullEventType(eventType);
+      await this.ingestNextBatch();
+    } catch (error) {
+      this.logger.error('Error processing marketplace events:', error);
+      throw error;
+    } finally {
+      stopTimer();
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
+  }
 
-      if (!handler || !fullEventType) {
-        this.logger.warn(`No handler or event type found for ${eventType}`);
-        return;
+  /**
+   * Fetch and apply the next batch - caller must hold the marketplace lock
+   */
+  private async ingestNextBatch(): Promise<void> {
+    const legacyCursors = await this.getLegacyCursors();
+
+    const transactions = await this.fetchTransactions();
+
+    // Skip if no new events
+    if (transactions.length === 0) {
+      this.logger.debug('No new marketplace events');
+      return;
+    }
+
+    const eventCount = transactions.reduce(
+      (count, transaction) => count + transaction.events.length,
+      0,
+    );
+    this.logger.log(
+      `📦 Processing ${eventCount} events from ${transactions.length} transactions`,
+    );
+
+    // Apply transactions sequentially to maintain order
+    for (const transaction of transactions) {
+      // Stop if the lease was taken over - another instance now owns the cursor
+      if (!this.lockService.holdsLock(MARKETPLACE_CURSOR_ID)) {
+        throw new Error('Lost the marketplace lock while indexing');
+      }
+      await this.applyTransactionWithRetry(transaction, legacyCursors);
+    }
+
+    this.logger.log(
+      `✅ Processed ${eventCount} events from ${transactions.length} transactions`,
+    );
+  }
+
+  /**
+   * Fetch the next batch of marketplace transactions from every package
+   * version and merge them in on-chain order
+   *
+   * Struct types keep the ID of the package version that defined them, so
+   * each version that defines event structs has its own stream. Streams are
+   * merged by txSequence - checkpoint, then transaction order within it. A
+   * transaction later than the last one read from a stream with more pages
+   * is left for the next poll, as an earlier one may follow on that page.
+   */
+  private async fetchTransactions(): Promise<MergedTransaction[]> {
+    const { packageIds } = this.suiClient.getConfig();
+
+    const pages: StreamPage[] = [];
+    for (const [streamIndex, packageId] of packageIds.entries()) {
+      const cursorId = getStreamCursorId(packageId, packageIds[0]);
+      const cursor = await this.cursorService.getLatestCursor(cursorId);
+      const { transactions, hasNextPage } = await this.fetchStreamTransactions(
+        packageId,
+        cursor,
+      );
+      pages.push({ streamIndex, cursorId, transactions, hasNextPage });
+    }
+
+    const txSequences = await this.suiClient.getTransactionSequences([
+      ...new Set(
+        pages.flatMap((page) =>
+          page.transactions.map((events) => events[0].id.txDigest),
+        ),
+      ),
+    ]);
+    const getTxSequence = (events: SuiEvent[]) =>
+      txSequences.get(events[0].id.txDigest)!;
+
+    // Nothing after the horizon is safe to apply yet
+    let horizon: bigint | null = null;
+    for (const page of pages) {
+      const last = page.transactions[page.transactions.length - 1];
+      if (page.hasNextPage && last) {
+        const txSequence = getTxSequence(last);
+        if (horizon === null || txSequence < horizon) {
+          horizon = txSequence;
+        }
       }
+    }
+
+    const ordered = pages
+      .flatMap((page) =>
+        page.transactions.map((events) => ({
+          page,
+          events,
+          txSequence: getTxSequence(events),
+        })),
+      )
+      .filter((item) => horizon === null || item.txSequence <= horizon)
+      .sort((a, b) =>
+        a.txSequence === b.txSequence
+          ? a.page.streamIndex - b.page.streamIndex
+          : a.txSequence < b.txSequence
+            ? -1
+            : 1,
+      );
 
-      // Get latest cursor
-      const cursor = await this.cursorService.getLatestCursor(eventType);
+    // A transaction can emit events of several streams - merge them
+    const merged = new Map<string, MergedTransaction>();
+    for (const { page, events, txSequence } of ordered) {
+      const txDigest = events[0].id.txDigest;
+      const transaction = merged.get(txDigest) ?? {
+        txDigest,
+        txSequence,
+        events: [],
+        cursors: [],
+      };
+
+      transaction.events.push(...events);
+      transaction.cursors.push({
+        cursorId: page.cursorId,
+        eventId: {
+          txDigest,
+          eventSeq: events[events.length - 1].id.eventSeq,
+        },
+      });
+      merged.set(txDigest, transaction);
+    }
+
+    const transactions = [...merged.values()];
+    for (const transaction of transactions) {
+      transaction.events.sort(
+        (a, b) => Number(a.id.eventSeq) - Number(b.id.eventSeq),
+      );
+    }
 
-      // Query events from Sui
+    return transactions;
+  }
+
+  /**
+   * Fetch the next batch of one package version's events grouped by
+   * transaction
+   *
+   * Only complete transactions are returned: a transaction that may continue
+   * on the next page is left for the next poll, unless it is the only one in
+   * the batch, in which case paging continues until it is complete.
+   */
+  private async fetchStreamTransactions(
+    packageId: string,
+    cursor: EventId | null,
+  ): Promise<{ transactions: SuiEvent[][]; hasNextPage: boolean }> {
+    const config = this.suiClient.getConfig();
+    const client = this.suiClient.getClient();
+
+    const events: SuiEvent[] = [];
+    let nextCursor: EventId | null | undefined = cursor;
+    let hasNextPage = false;
+
+    do {
       const response = await client.queryEvents({
         query: {
-          MoveEventType: fullEventType,
+          MoveEventModule: {
+            package: packageId,
+            module: MARKETPLACE_MODULE,
+          },
         },
-        cursor: cursor
-          ? { txDigest: cursor.txDigest, eventSeq: cursor.eventSeq }
-          : undefined,
+        cursor: nextCursor,
         limit: config.batchSize,
         order: 'ascending',
       });
 
-      // Skip if no new events
-      if (!response.data || response.data.length === 0) {
-        this.logger.debug(`No new events for ${eventType}`);
-        return;
+      events.push(...response.data);
+      nextCursor = response.nextCursor;
+      hasNextPage = response.hasNextPage;
+    } while (
+      hasNextPage &&
+      events.length > 0 &&
+      events[events.length - 1].id.txDigest === events[0].id.txDigest
+    );
+
+    const transactions: SuiEvent[][] = [];
+    for (const event of events) {
+      // Skip if we've already processed this event
+      if (
+        cursor &&
+        event.id.txDigest === cursor.txDigest &&
+        event.id.eventSeq === cursor.eventSeq
+      ) {
+        continue;
       }
 
-      this.logger.log(
-        `📦 Processing ${response.data.length} ${eventType} events`,
-      );
+      const current = transactions[transactions.length - 1];
+      if (current && current[0].id.txDigest === event.id.txDigest) {
+        current.push(event);
+      } else {
+        transactions.push([event]);
+      }
+    }
+
+    // The last transaction may continue on the next page
+    if (hasNextPage && transactions.length > 1) {
+      transactions.pop();
+    }
+
+    return { transactions, hasNextPage };
+  }
+
+  /**
+   * Split a Sui transaction's events into events to project and legacy
+   * cursors the transaction passes
+   */
+  private planTransaction(
+    transaction: MergedTransaction,
+    legacyCursors: Map<string, EventId>,
+  ): TransactionPlan {
+    const plan: TransactionPlan = {
+      txDigest: transaction.txDigest,
+      txSequence: transaction.txSequence,
+      events: transaction.events,
+      entries: [],
+      retiredCursors: [],
+      cursors: transaction.cursors,
+    };
+
+    const { packageIds } = this.suiClient.getConfig();
+
+    for (const event of transaction.events) {
+      // MoveEventModule matches the emitting package, so no stream reads an
+      // upgrade missing from SUI_PACKAGE_IDS - its events are missed entirely.
+      // This only catches one that slips in through a configured stream.
+      if (!packageIds.includes(event.packageId)) {
+        this.logger.warn(
+          `Event ${event.id.txDigest}:${event.id.eventSeq} emitted by unconfigured package version ${event.packageId} - add it to SUI_PACKAGE_IDS`,
+        );
+      }
+
+      const eventType = this.eventRegistry.getEventTypeFor(event.type);
+
+      if (!eventType || !this.eventRegistry.hasHandler(eventType)) {
+        this.logger.debug(`No handler for ${event.type}, skipping`);
+        continue;
+      }
+
+      // Events up to a legacy per-type cursor were already projected
+      const legacyCursor = legacyCursors.get(eventType);
+      if (legacyCursor) {
+        if (
+          event.id.txDigest === legacyCursor.txDigest &&
+          event.id.eventSeq === legacyCursor.eventSeq
+        ) {
+          plan.retiredCursors.push(eventType);
+        }
+        continue;
+      }
+
+      plan.entries.push({ eventType, event });
+    }
 
-      // Process events sequentially
-      for (const event of response.data) {
-        try {
-          // Skip if we've already processed this event
-          if (
-            cursor &&
-            event.id.txDigest === cursor.txDigest &&
-            event.id.eventSeq === cursor.eventSeq
-          ) {
-            this.logger.debug(
-              `Skipping already processed event: ${event.id.eventSeq}`,
+    return plan;
+  }
+
+  /**
+   * Apply a Sui transaction, retrying with exponential backoff. After
+   * maxRetries failed retries its events go to the dead-letter queue and the
+   * cursor moves past them, so one poison event cannot stall indexing.
+   *
+   * Transient failures (database or RPC unavailable, serialization
+   * conflicts) are not the events' fault: the batch stops without moving
+   * the cursor and the next poll tries the transaction again, so later
+   * events never project over a gap.
+   */
+  private async applyTransactionWithRetry(
+    transaction: MergedTransaction,
+    legacyCursors: Map<string, EventId>,
+  ): Promise<void> {
+    const { maxRetries, retryDelayMs } = this.suiClient.getConfig();
+    const plan = this.planTransaction(transaction, legacyCursors);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.applyTransaction(plan);
+        break;
+      } catch (error) {
+        if (attempt > maxRetries) {
+          if (isTransientError(error)) {
+            this.logger.warn(
+              `Transaction ${plan.txDigest} still failing after ${attempt} attempts on a transient error - stopping until the next poll`,
             );
-            continue;
+            throw error;
           }
-
-          // Process the event
-          await handler(event);
-
-          // Update cursor after successful processing
-          const newCursor: EventId = {
-            txDigest: event.id.txDigest,
-            eventSeq: event.id.eventSeq,
-          };
-          await this.cursorService.saveLatestCursor(eventType, newCursor);
-        } catch (error) {
-          this.logger.error(
-            `Error processing event ${event.id.eventSeq} for ${eventType}:`,
-            error,
-          );
-          // Stop processing this batch on error to maintain order
-          throw error;
+          await this.deadLetterTransaction(plan, error, attempt);
+          break;
         }
+
+        const delayMs = retryDelayMs * 2 ** (attempt - 1);
+        this.logger.warn(
+          `Retrying transaction ${plan.txDigest} in ${delayMs}ms (attempt ${attempt}/${maxRetries})`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
       }
+    }
 
-      this.logger.log(
-        `✅ Processed ${response.data.length} ${eventType} events`,
-      );
+    for (const eventType of plan.retiredCursors) {
+      legacyCursors.delete(eventType);
+      this.logger.log(`Retired legacy cursor for ${eventType}`);
+    }
+  }
+
+  /**
+   * Apply all events of one Sui transaction atomically and advance the cursor,
+   * then publish the resulting payloads to the marketplace event stream
+   */
+  private async applyTransaction(plan: TransactionPlan): Promise<void> {
+    let payloads: MarketplaceEventPayload[];
+
+    try {
+      payloads = await this.prisma.$transaction(async (tx) => {
+        await this.eventArchive.archive(plan.events, plan.txSequence, tx);
+        await this.retireLegacyCursors(plan, tx);
+        const applied = await this.projectEvents(plan.entries, tx);
+        await this.saveStreamCursors(plan, tx);
+        await this.assignSequences(plan.txDigest, applied, tx);
+
+        return applied;
+      });
     } catch (error) {
-      this.logger.error(`Error processing ${eventType}:`, error);
+      this.logger.error(`Error applying transaction ${plan.txDigest}:`, error);
       throw error;
+    }
+
+    this.countEvents(this.metrics.eventsProcessed, plan.entries);
+    this.publishPayloads(payloads);
+  }
+
+  /**
+   * Move a failed transaction's events to the dead-letter queue and advance
+   * the cursor past them
+   */
+  private async deadLetterTransaction(
+    plan: TransactionPlan,
+    error: unknown,
+    attempts: number,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.eventArchive.archive(plan.events, plan.txSequence, tx);
+      await this.retireLegacyCursors(plan, tx);
+      await this.failedEventService.deadLetter(
+        plan.entries,
+        error,
+        attempts,
+        tx,
+      );
+      await this.saveStreamCursors(plan, tx);
+    });
+
+    this.countEvents(this.metrics.eventsDeadLettered, plan.entries);
+  }
+
+  private async saveStreamCursors(
+    plan: TransactionPlan,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    for (const { cursorId, eventId } of plan.cursors) {
+      await this.cursorService.saveLatestCursor(cursorId, eventId, tx);
+    }
+  }
+
+  private async retireLegacyCursors(
+    plan: TransactionPlan,
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    for (const eventType of plan.retiredCursors) {
+      await this.cursorService.deleteCursor(eventType, tx);
+    }
+  }
+
+  /**
+   * Run the handlers of the given events in order inside a transaction
+   */
+  private async projectEvents(
+    entries: RegisteredEvent[],
+    tx: Prisma.TransactionClient,
+  ): Promise<MarketplaceEventPayload[]> {
+    const payloads: MarketplaceEventPayload[] = [];
+
+    for (const { eventType, event } of entries) {
+      const handler = this.eventRegistry.getHandler(eventType);
+      if (!handler) {
+        throw new Error(`No handler registered for ${eventType}`);
+      }
+      let payload: MarketplaceEventPayload | null;
+      try {
+        payload = await handler(event, tx);
+      } catch (error) {
+        this.metrics.handlerFailures.inc({
+          event_type: this.getEventName(eventType),
+        });
+        throw error;
+      }
+      if (payload) {
+        payloads.push(payload);
+      }
+    }
+
+    return payloads;
+  }
+
+  /**
+   * Stamp payloads with the archive sequence of their event - clients pass
+   * the last one they saw to resume a WebSocket subscription
+   */
+  private async assignSequences(
+    txDigest: string,
+    payloads: MarketplaceEventPayload[],
+    tx: Prisma.TransactionClient,
+  ): Promise<void> {
+    if (payloads.length === 0) {
+      return;
+    }
+
+    const archived = await tx.rawEvent.findMany({
+      where: { txDigest },
+      select: { eventSeq: true, sequence: true },
+    });
+    const sequences = new Map(
+      archived.map((row) => [row.eventSeq, row.sequence.toString()]),
+    );
+
+    for (const payload of payloads) {
+      if (payload.type !== 'expired') {
+        payload.sequence = sequences.get(payload.eventSeq) ?? null;
+      }
+    }
+  }
+
+  /**
+   * Count committed events per event type
+   */
+  private countEvents(
+    counter: Counter<'event_type'>,
+    entries: RegisteredEvent[],
+  ): void {
+    for (const { eventType } of entries) {
+      counter.inc({ event_type: this.getEventName(eventType) });
+    }
+  }
+
+  /**
+   * Event name of a registered type (`marketplace::StorageListed`)
+   */
+  private getEventName(eventType: string): string {
+    return eventType.split('::')[1] ?? eventType;
+  }
+
+  /**
+   * Publish committed state only
+   */
+  private publishPayloads(payloads: MarketplaceEventPayload[]): void {
+    for (const payload of payloads) {
+      this.eventStream.publish(payload);
+    }
+  }
+
+  /**
+   * Replay the pending dead-lettered events of a failed event's transaction
+   *
+   * All pending events of the transaction are re-applied together in
+   * eventSeq order. Discard a poison event first to replay the rest.
+   */
+  async replayFailedEvent(id: string) {
+    const failedEvent = await this.failedEventService.getFailedEvent(id);
+    if (!failedEvent) {
+      throw new NotFoundException(`Failed event ${id} not found`);
+    }
+    if (failedEvent.status !== 'pending') {
+      throw new ConflictException(
+        `Failed event ${id} is already ${failedEvent.status}`,
+      );
+    }
+
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      throw new ConflictException('Indexer is busy, try again shortly');
+    }
+
+    try {
+      const pending = await this.failedEventService.getPendingForTransaction(
+        failedEvent.txDigest,
+      );
+      const ids = pending.map((entry) => entry.id);
+      const entries: RegisteredEvent[] = pending.map((entry) => ({
+        eventType: entry.eventType,
+        event: entry.rawEvent as unknown as SuiEvent,
+      }));
+
+      this.logger.log(
+        `Replaying ${entries.length} failed events from ${failedEvent.txDigest}`,
+      );
+
+      let payloads: MarketplaceEventPayload[];
+      try {
+        payloads = await this.prisma.$transaction(async (tx) => {
+          const applied = await this.projectEvents(entries, tx);
+          await this.failedEventService.markReplayed(ids, tx);
+          await this.assignSequences(failedEvent.txDigest, applied, tx);
+          return applied;
+        });
+      } catch (error) {
+        await this.failedEventService.recordReplayFailure(ids, error);
+        throw error;
+      }
+
+      this.countEvents(this.metrics.eventsProcessed, entries);
+      this.publishPayloads(payloads);
+
+      return { txDigest: failedEvent.txDigest, replayedEventIds: ids };
     } finally {
-      this.lockService.releaseLock(eventType);
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
+  }
+
+  /**
+   * Get per-event-type cursors left by the previous indexer
+   *
+   * The marketplace cursor starts from genesis and skips every event up to
+   * and including each legacy cursor, so no event is applied twice. A legacy
+   * cursor is deleted once the marketplace cursor passes it.
+   */
+  private async getLegacyCursors(): Promise<Map<string, EventId>> {
+    const cursors = await this.cursorService.getAllCursors();
+    const legacyCursors = new Map<string, EventId>();
+
+    for (const eventType of this.eventRegistry.getAllEventTypes()) {
+      if (cursors[eventType]) {
+        legacyCursors.set(eventType, cursors[eventType]);
+      }
     }
+
+    return legacyCursors;
   }
 
   /**
-   * Manually trigger indexing for a specific event type
+   * Manually trigger indexing of the next batch of marketplace events
    */
-  async indexEventType(eventType: string): Promise<void> {
-    this.logger.log(`Manual indexing triggered for ${eventType}`);
-    await this.processEventType(eventType);
+  async indexEvents(): Promise<void> {
+    this.logger.log('Manual indexing triggered');
+    await this.processMarketplaceEvents();
   }
 
   /**
-   * Reindex an event type from genesis
+   * Reindex marketplace events from genesis
    */
-  async reindexEventType(eventType: string): Promise<void> {
-    this.logger.warn(`Reindexing ${eventType} from genesis...`);
-    await this.cursorService.deleteCursor(eventType);
-    await this.processEventType(eventType);
-    this.logger.log(`✅ Reindexing complete for ${eventType}`);
+  async reindex(): Promise<void> {
+    // Hold the lock across the cursor reset so no poll on any instance can
+    // interleave with it
+    if (!(await this.lockService.tryAcquireLock(MARKETPLACE_CURSOR_ID))) {
+      throw new ConflictException('Indexer is busy, try again shortly');
+    }
+
+    try {
+      this.logger.warn('Reindexing marketplace events from genesis...');
+      const { packageIds } = this.suiClient.getConfig();
+      for (const packageId of packageIds) {
+        await this.cursorService.deleteCursor(
+          getStreamCursorId(packageId, packageIds[0]),
+        );
+      }
+      await this.ingestNextBatch();
+      this.logger.log('✅ Reindexing started from genesis');
+    } finally {
+      await this.lockService.releaseLock(MARKETPLACE_CURSOR_ID);
+    }
   }
 
   /**
@@ -223,15 +801,23 @@ export class SuiIndexerService implements OnModuleInit {
    */
   async getStatus() {
     const cursors = await this.cursorService.getAllCursors();
-    const activeLocks = this.lockService.getActiveLocks();
+    const activeLocks = await this.lockService.getActiveLocks();
     const eventTypes = this.eventRegistry.getAllEventTypes();
+    const pendingFailedEvents =
+      await this.failedEventService.countPendingFailedEvents();
+    const archivedEvents = await this.eventArchive.countArchivedEvents();
 
     return {
+      packageIds: this.suiClient.getConfig().packageIds,
+      instanceId: this.lockService.getInstanceId(),
+      isLeader: this.lockService.holdsLock(LEADER_LOCK_ID),
       isIndexing: this.isIndexing,
       eventTypes,
       cursors,
       activeLocks,
       handlerCount: this.eventRegistry.getHandlerCount(),
+      pendingFailedEvents,
+      archivedEvents,
     };
   }
 
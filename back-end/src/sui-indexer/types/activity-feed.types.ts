@@ -0,0 +1,34 @@
+/**
+ * Activity feed - GET /indexer/activity
+ */
+
+export const ACTIVITY_KINDS = ['listed', 'purchased', 'delisted'] as const;
+
+export type ActivityKind = (typeof ACTIVITY_KINDS)[number];
+
+export interface ActivityFilters {
+  address?: string; // Seller of listed/delisted events, buyer or seller of purchases
+  kinds?: ActivityKind[]; // Default: every kind
+  from?: Date; // Block time, inclusive
+  to?: Date; // Block time, exclusive
+}
+
+/**
+ * One marketplace event (BigInt values as strings)
+ */
+export interface ActivityItem {
+  id: string; // "<kind>:<history row ID>"
+  kind: ActivityKind;
+  storageId: string;
+  seller: string;
+  buyer: string | null; // Purchases only
+  size: string | null; // Bytes - listed or purchased piece, delisted listing
+  startEpoch: number | null;
+  endEpoch: number | null;
+  amount: string | null; // Listing total price or amount paid (FROST)
+  purchaseType: string | null; // Purchases only
+  txDigest: string;
+  eventSeq: string;
+  blockTime: Date;
+  summary: string; // Human-readable description
+}
@@ -0,0 +1,54 @@
+import { ListingStatus } from './marketplace-events.types';
+
+/**
+ * Order book search - filters and sort orders of GET /indexer/listings
+ */
+
+export const LISTING_SORT_FIELDS = [
+  'listedAt',
+  'unitPrice',
+  'size',
+  'endEpoch',
+  'totalPrice',
+] as const;
+
+export type ListingSortField = (typeof LISTING_SORT_FIELDS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListingSearchFilters {
+  statuses?: ListingStatus[]; // Default: open listings
+  sellers?: string[]; // Include only these sellers
+  excludeSellers?: string[];
+  minSize?: bigint; // Bytes
+  maxSize?: bigint;
+  coverStartEpoch?: number; // Listing starts at or before this epoch
+  coverEndEpoch?: number; // Listing ends at or after this epoch
+  maxPricePerMibPerEpoch?: bigint; // FROST per MiB per epoch
+}
+
+export interface ListingSort {
+  field: ListingSortField;
+  order: SortOrder;
+}
+
+/**
+ * Listings the storage optimizer can buy from: open listings overlapping the
+ * requested epochs
+ */
+export interface OptimizerCandidateQuery {
+  startEpoch: number; // Requested epochs
+  endEpoch: number;
+  maxPricePerSizePerEpoch?: bigint; // Exclusive, scaled by 1e9
+}
+
+export interface OptimizerCandidate {
+  id: string;
+  storageId: string;
+  seller: string;
+  pricePerSizePerEpoch: bigint;
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+  totalPrice: bigint;
+}
@@ -0,0 +1,98 @@
+/**
+ * Market time series - GET /indexer/analytics/timeseries
+ *
+ * Prices are in FROST per MiB per epoch (1 WAL = 1e9 FROST), amounts in
+ * FROST, sizes in bytes - BigInt values as strings.
+ */
+
+export const TIMESERIES_INTERVALS = ['hour', 'day', 'epoch'] as const;
+
+export type TimeSeriesInterval = (typeof TIMESERIES_INTERVALS)[number];
+
+export interface TimeSeriesRange {
+  from?: Date; // Block time, inclusive
+  to?: Date; // Block time, exclusive
+}
+
+/**
+ * Traded price per MiB per epoch, in trade order
+ */
+export interface PriceCandle {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  vwap: string; // Volume-weighted by MiB-epochs traded
+}
+
+export interface TradedVolume {
+  trades: number;
+  value: string; // Amount paid
+  size: string; // Bytes purchased
+  byteEpochs: string;
+}
+
+/**
+ * Supply newly listed in the interval (remainders relisted by partial
+ * purchases are not new supply and are left out)
+ */
+export interface ListedSupply {
+  listings: number;
+  size: string;
+  value: string; // Total asking price
+  averageAskPerMibPerEpoch: string | null; // Size-weighted, null if none
+}
+
+export interface MarketTimeSeriesPoint {
+  bucket: string | number; // Bucket start (ISO, UTC) or Walrus epoch
+  start: string; // Bucket start (ISO, UTC)
+  price: PriceCandle | null; // null if nothing traded
+  volume: TradedVolume;
+  listed: ListedSupply;
+}
+
+export interface MarketTimeSeries {
+  interval: TimeSeriesInterval;
+  from: string;
+  to: string;
+  points: MarketTimeSeriesPoint[];
+}
+
+/**
+ * Supply depth - GET /indexer/analytics/depth
+ */
+
+export interface SupplyDepthQuery {
+  fromEpoch?: number; // Default: current epoch
+  toEpoch?: number; // Exclusive. Default: last epoch covered by a listing
+  bucketEpochs?: number; // Epochs per bucket. Default: 1
+  excludeSellers?: string[]; // E.g. the buyer's own listings
+}
+
+/**
+ * Open listings at one unit price, with everything cheaper
+ */
+export interface DepthLevel {
+  pricePerSizePerEpoch: string; // Listing scale (per byte, x 1e9)
+  pricePerMibPerEpoch: string; // FROST
+  listings: number;
+  size: string; // Bytes at this price
+  cumulativeSize: string; // Bytes at this price or cheaper
+  cumulativeCost: string; // FROST to buy cumulativeSize for the whole bucket
+}
+
+export interface DepthBucket {
+  startEpoch: number;
+  endEpoch: number; // Exclusive
+  listings: number;
+  totalSize: string; // Bytes available for the whole bucket
+  levels: DepthLevel[]; // Cheapest first
+}
+
+export interface SupplyDepth {
+  currentEpoch: number;
+  fromEpoch: number;
+  toEpoch: number;
+  bucketEpochs: number;
+  buckets: DepthBucket[];
+}
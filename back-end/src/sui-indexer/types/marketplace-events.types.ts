@@ -42,6 +42,7 @@ export interface StorageListedUpsertData {
   totalPrice: bigint;
   txDigest: string;
   eventSeq: string;
+  packageId: string; // Package version that emitted the event
   blockTime?: Date;
 }
 
@@ -56,6 +57,7 @@ export interface StoragePurchasedInsertData {
   purchasedEndEpoch: number;
   txDigest: string;
   eventSeq: string;
+  packageId: string; // Package version that emitted the event
   blockTime?: Date;
 }
 
@@ -64,5 +66,154 @@ export interface StorageDelistedInsertData {
   seller: string;
   txDigest: string;
   eventSeq: string;
+  packageId: string; // Package version that emitted the event
   blockTime?: Date;
 }
+
+/**
+ * Listing lifecycle - status of a listed_storage row
+ * - active: listed and untouched
+ * - partially_filled: remainder re-listed by a partial purchase
+ * - sold: the storage object was bought (in whole or in part)
+ * - delisted: withdrawn by the seller
+ * - expired: end epoch reached while listed. The storage has no epochs left
+ *   to use, so the listing is hidden from buyers, but it stays in the
+ *   on-chain table and the contract still sells it - it moves to sold or
+ *   delisted if bought or delisted.
+ */
+export const LISTING_STATUSES = [
+  'active',
+  'partially_filled',
+  'sold',
+  'delisted',
+  'expired',
+] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+/**
+ * Statuses of listings that can still be bought
+ */
+export const OPEN_LISTING_STATUSES: ListingStatus[] = [
+  'active',
+  'partially_filled',
+];
+
+/**
+ * Statuses of listings still in the on-chain listings table
+ */
+export const ON_CHAIN_LISTING_STATUSES: ListingStatus[] = [
+  ...OPEN_LISTING_STATUSES,
+  'expired',
+];
+
+/**
+ * WebSocket payloads - published after a projection commits
+ * Mirrored in storewave-sdk (src/types/events.ts)
+ */
+
+/**
+ * Current order book state of a listing (BigInt values as strings)
+ */
+export interface ListingState {
+  storageId: string;
+  seller: string;
+  pricePerSizePerEpoch: string;
+  size: string;
+  startEpoch: number;
+  endEpoch: number;
+  totalPrice: string;
+}
+
+interface MarketplaceEventPayloadBase {
+  storageId: string;
+  txDigest: string;
+  eventSeq: string;
+  blockTime: string | null; // ISO timestamp
+  sequence: string | null; // Raw event archive sequence - resume token for replay
+}
+
+/**
+ * storage:listed - a listing was added or replaced (including remainders
+ * re-listed by partial purchases)
+ */
+export interface StorageListedPayload extends MarketplaceEventPayloadBase {
+  type: 'listed';
+  seller: string;
+  listing: ListingState;
+  removed: false;
+}
+
+/**
+ * storage:purchased - the purchased storage ID is no longer listed, unless a
+ * remainder was re-listed under it (removed: false). Remainders arrive as
+ * storage:listed before the purchase.
+ */
+export interface StoragePurchasedPayload extends MarketplaceEventPayloadBase {
+  type: 'purchased';
+  buyer: string;
+  seller: string;
+  amountPaid: string;
+  purchaseType: string; // "full", "partial_epoch", or "partial_size"
+  purchasedSize: string;
+  purchasedStartEpoch: number;
+  purchasedEndEpoch: number;
+  listing: null;
+  removed: boolean;
+}
+
+/**
+ * storage:delisted - the listing was removed from the order book
+ */
+export interface StorageDelistedPayload extends MarketplaceEventPayloadBase {
+  type: 'delisted';
+  seller: string;
+  listing: null;
+  removed: true;
+}
+
+/**
+ * storage:expired - the listing reached its end epoch and is no longer
+ * offered to buyers (the contract would still sell it). Published by the
+ * expiry sweeper, not by an on-chain event.
+ */
+export interface StorageExpiredPayload {
+  type: 'expired';
+  storageId: string;
+  seller: string;
+  endEpoch: number;
+  epoch: number; // Walrus epoch at which the expiry was detected
+  expiredAt: string; // ISO timestamp
+  listing: null;
+  removed: true;
+}
+
+export type MarketplaceEventPayload =
+  | StorageListedPayload
+  | StoragePurchasedPayload
+  | StorageDelistedPayload
+  | StorageExpiredPayload;
+
+export const SUBSCRIPTION_EVENT_TYPES = [
+  'listed',
+  'purchased',
+  'delisted',
+  'expired',
+] as const;
+
+export type SubscriptionEventType = (typeof SUBSCRIPTION_EVENT_TYPES)[number];
+
+/**
+ * WebSocket subscription - an event is delivered if it matches every
+ * criterion given. List criteria match any of their values.
+ */
+export interface SubscriptionFilter {
+  eventTypes?: SubscriptionEventType[]; // Default: every type
+  sellers?: string[];
+  buyers?: string[]; // Purchases only
+  storageIds?: string[];
+  minSize?: string; // Bytes - listed storage or purchased piece
+  maxSize?: string;
+  coverStartEpoch?: number; // Period starts at or before this epoch
+  coverEndEpoch?: number; // Period ends at or after this epoch
+}
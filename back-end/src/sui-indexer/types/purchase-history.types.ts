@@ -0,0 +1,9 @@
+/**
+ * Buyer purchase history - filters of GET /indexer/buyers/:address/purchases
+ */
+export interface PurchaseHistoryFilters {
+  from?: Date; // Block time, inclusive
+  to?: Date; // Block time, exclusive
+  fromEpoch?: number; // Purchased period overlaps [fromEpoch, toEpoch)
+  toEpoch?: number;
+}
@@ -0,0 +1,59 @@
+/**
+ * Move object shapes read from the shared Marketplace object
+ */
+
+export interface MarketplaceObjectFields {
+  fee_bps: string;
+  listings: {
+    fields: {
+      id: { id: string }; // Table UID - parent of the listing dynamic fields
+      size: string;
+    };
+  };
+}
+
+export interface ListingFieldObjectFields {
+  name: string; // Storage object ID (table key)
+  value: {
+    fields: {
+      storage: {
+        fields: {
+          start_epoch: number;
+          end_epoch: number;
+          storage_size: string;
+        };
+      };
+      seller: string;
+      price_per_size_per_epoch: string;
+    };
+  };
+}
+
+/**
+ * Listing state compared between the chain and listed_storage
+ * (BigInt values as strings)
+ */
+export interface ReconciledListing {
+  storageId: string;
+  seller: string;
+  pricePerSizePerEpoch: string;
+  size: string;
+  startEpoch: number;
+  endEpoch: number;
+  totalPrice: string;
+}
+
+export type DiscrepancyKind = 'missing' | 'extra' | 'mismatched';
+
+/**
+ * One listing that differs between the chain and listed_storage
+ */
+export interface ListingDiscrepancy {
+  storageId: string;
+  kind: DiscrepancyKind; // missing: only on chain, extra: only in the DB
+  fields: string[]; // Differing fields (mismatched only)
+  onChain: ReconciledListing | null;
+  db: ReconciledListing | null;
+  confirmed: boolean; // Also reported by the previous run
+  repaired: boolean;
+}
@@ -0,0 +1,93 @@
+import { ListingState } from './marketplace-events.types';
+
+/**
+ * Saved searches and listing alerts - /indexer/saved-searches
+ */
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'delivered',
+  'failed',
+] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * Request body of POST / PATCH /indexer/saved-searches (BigInt values as
+ * strings). null clears a criterion on update.
+ */
+export interface SavedSearchInput {
+  owner?: string | null; // Wallet address - their own listings are not alerted
+  name?: string | null;
+  minSize?: string | null; // Bytes
+  maxSize?: string | null;
+  coverStartEpoch?: number | null; // Listing starts at or before this epoch
+  coverEndEpoch?: number | null; // Listing ends at or after this epoch
+  maxPricePerMibPerEpoch?: string | null; // FROST per MiB per epoch
+  webhookUrl?: string;
+  active?: boolean;
+}
+
+/**
+ * Criteria a listing is matched against
+ */
+export interface SavedSearchCriteria {
+  owner: string | null;
+  minSize: bigint | null;
+  maxSize: bigint | null;
+  coverStartEpoch: number | null;
+  coverEndEpoch: number | null;
+  maxPricePerMibPerEpoch: bigint | null;
+}
+
+/**
+ * Saved search as returned by the API - the secret is only returned on
+ * creation
+ */
+export interface SavedSearchView {
+  id: string;
+  owner: string | null;
+  name: string | null;
+  minSize: string | null;
+  maxSize: string | null;
+  coverStartEpoch: number | null;
+  coverEndEpoch: number | null;
+  maxPricePerMibPerEpoch: string | null;
+  webhookUrl: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook request body for a listing matching a saved search
+ */
+export interface ListingAlertPayload {
+  id: string; // Delivery ID - identical on every attempt, for deduplication
+  type: 'listing.matched';
+  createdAt: string; // ISO timestamp
+  savedSearch: { id: string; name: string | null };
+  listing: ListingState & { pricePerMibPerEpoch: string };
+  event: { txDigest: string; eventSeq: string; blockTime: string | null };
+}
+
+/**
+ * Webhook request body sent by POST /indexer/saved-searches/:id/test
+ */
+export interface WebhookPingPayload {
+  id: string;
+  type: 'ping';
+  createdAt: string;
+  savedSearch: { id: string; name: string | null };
+}
+
+export type WebhookPayload = ListingAlertPayload | WebhookPingPayload;
+
+/**
+ * Outcome of one webhook request
+ */
+export interface WebhookAttemptResult {
+  ok: boolean; // 2xx response
+  statusCode: number | null; // null if no response was received
+  error: string | null;
+}
@@ -0,0 +1,39 @@
+/**
+ * Seller earnings report - GET /indexer/sellers/:address/earnings
+ */
+
+export const EARNINGS_BUCKETS = ['day', 'week', 'epoch'] as const;
+
+export type EarningsBucket = (typeof EARNINGS_BUCKETS)[number];
+
+export interface EarningsFilters {
+  from?: Date; // Block time, inclusive
+  to?: Date; // Block time, exclusive
+}
+
+/**
+ * Aggregated sales (BigInt values as strings, amounts in FROST)
+ */
+export interface EarningsFigures {
+  sales: number;
+  grossProceeds: string; // Paid by buyers
+  feesDeducted: string; // Kept by the marketplace
+  netProceeds: string; // Received by the seller
+  byteEpochsSold: string;
+  averagePricePerSizePerEpoch: string; // Gross, scaled by 1e9 like listings
+  averagePricePerMibPerEpoch: string; // Gross
+  pendingFeeSales: number; // Sales whose fee is not resolved yet (counted as 0)
+}
+
+export interface EarningsBucketFigures extends EarningsFigures {
+  bucket: string | number; // Bucket start (ISO, UTC) or Walrus epoch
+}
+
+export interface SellerEarningsReport {
+  seller: string;
+  bucket: EarningsBucket;
+  from: string | null;
+  to: string | null;
+  totals: EarningsFigures;
+  buckets: EarningsBucketFigures[];
+}
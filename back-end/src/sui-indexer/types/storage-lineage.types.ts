@@ -0,0 +1,63 @@
+import { ListingStatus } from './marketplace-events.types';
+
+/**
+ * Storage lineage - pieces produced by partial purchases
+ * Served by GET /indexer/listings/:storageId/lineage
+ */
+
+export type LineageKind = 'sold' | 'remainder';
+
+/**
+ * Listing emitted by the transaction of a purchase
+ */
+export interface SplitListing {
+  storageId: string;
+  seller: string;
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+  eventSeq: string;
+}
+
+/**
+ * Piece a listed storage object was split into
+ */
+export interface SplitPiece {
+  childStorageId: string | null; // null: the sold piece got an ID the events don't reveal
+  kind: LineageKind;
+  owner: string; // Buyer (sold) or seller (remainder)
+  size: bigint;
+  startEpoch: number;
+  endEpoch: number;
+}
+
+/**
+ * A storage ID can appear as several nodes: a piece may keep the ID of the
+ * object it was split from, and a bought piece may be re-listed and split
+ * again. Node IDs are unique, storage IDs are not.
+ */
+export interface LineageNode {
+  id: string;
+  storageId: string | null;
+  kind: 'root' | LineageKind;
+  owner: string;
+  size: string; // Bytes
+  startEpoch: number;
+  endEpoch: number;
+  txDigest: string | null; // Purchase that produced the piece (null for roots)
+  blockTime: Date | null;
+  status: ListingStatus | null; // Listing status of the latest node of the storage ID
+}
+
+export interface LineageEdge {
+  source: string; // Parent node ID
+  target: string; // Child node ID
+  txDigest: string;
+}
+
+export interface StorageLineageGraph {
+  storageId: string;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  truncated: boolean; // Lineage larger than the row limit
+}
@@ -3,5 +3,17 @@
  */
 export interface IWalrusService {
   storageCost(size: number, epochs: number): Promise<{ storageCost: bigint }>;
-  getSystemState(): Promise<{ epoch: bigint }>;
+  getSystemState(): Promise<{ epoch: bigint; maxEpochsAhead: number }>;
+  getEpochSchedule(): Promise<WalrusEpochSchedule>;
+}
+
+/**
+ * Walrus epoch timing, from the staking object
+ *
+ * Epoch 0 lasts until firstEpochStartMs; epoch n >= 1 is scheduled to start
+ * at firstEpochStartMs + (n - 1) * epochDurationMs.
+ */
+export interface WalrusEpochSchedule {
+  firstEpochStartMs: number;
+  epochDurationMs: number;
 }
@@ -6,16 +6,19 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { WalrusClient } from '@mysten/walrus';
 import { SuiClientService } from '../sui-indexer/sui-client/sui-client.service';
-import { IWalrusService } from './types/walrus.types';
+import { IWalrusService, WalrusEpochSchedule } from './types/walrus.types';
+import { MetricsService } from '../metrics/metrics.service';
 
 @Injectable()
 export class WalrusService implements IWalrusService {
   private readonly logger = new Logger(WalrusService.name);
   private walrusClient: WalrusClient | null = null;
+  private epochSchedule: WalrusEpochSchedule | null = null;
 
   constructor(
     private readonly suiClientService: SuiClientService,
     private readonly configService: ConfigService,
+    private readonly metrics: MetricsService,
   ) {}
 
   private getWalrusClient(): WalrusClient {
@@ -52,6 +55,7 @@ export class WalrusService implements IWalrusService {
     size: number,
     epochs: number,
   ): Promise<{ storageCost: bigint }> {
+    const stopTimer = this.metrics.walrusStorageCostDuration.startTimer();
     try {
       this.logger.debug(
         `Calculating storage cost for ${size} bytes, ${epochs} epochs`,
@@ -61,8 +65,10 @@ export class WalrusService implements IWalrusService {
       const result = await walrusClient.storageCost(size, epochs);
 
       this.logger.debug(`Storage cost calculated: ${result.storageCost} FROST`);
+      stopTimer({ outcome: 'success' });
       return { storageCost: result.storageCost };
     } catch (error) {
+      stopTimer({ outcome: 'error' });
       this.logger.error(
         `Failed to calculate storage cost: ${error.message}`,
         error.stack,
@@ -75,9 +81,9 @@ export class WalrusService implements IWalrusService {
 
   /**
    * Get Walrus system state including current epoch
-   * @returns System state with current epoch information
+   * @returns Current epoch, and how many epochs ahead storage can be reserved
    */
-  async getSystemState(): Promise<{ epoch: bigint }> {
+  async getSystemState(): Promise<{ epoch: bigint; maxEpochsAhead: number }> {
     try {
       this.logger.debug('Getting Walrus system state');
 
@@ -85,7 +91,10 @@ export class WalrusService implements IWalrusService {
       const systemState = await walrusClient.systemState();
 
       this.logger.debug(`Current Walrus epoch: ${systemState.committee.epoch}`);
-      return { epoch: BigInt(systemState.committee.epoch) };
+      return {
+        epoch: BigInt(systemState.committee.epoch),
+        maxEpochsAhead: systemState.future_accounting.length,
+      };
     } catch (error) {
       this.logger.error(
         `Failed to get Walrus system state: ${error.message}`,
@@ -96,4 +105,33 @@ export class WalrusService implements IWalrusService {
       );
     }
   }
+
+  /**
+   * Get the Walrus epoch schedule (fixed at deployment, cached)
+   * @returns First epoch start and epoch duration in milliseconds
+   */
+  async getEpochSchedule(): Promise<WalrusEpochSchedule> {
+    if (this.epochSchedule) {
+      return this.epochSchedule;
+    }
+
+    try {
+      const walrusClient = this.getWalrusClient();
+      const stakingState = await walrusClient.stakingState();
+
+      this.epochSchedule = {
+        firstEpochStartMs: Number(stakingState.first_epoch_start),
+        epochDurationMs: Number(stakingState.epoch_duration),
+      };
+      return this.epochSchedule;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get Walrus epoch schedule: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException(
+        `Failed to get Walrus epoch schedule: ${error.message}`,
+      );
+    }
+  }
 }
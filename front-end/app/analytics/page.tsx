@@ -0,0 +1,30 @@
+"use client";
+
+import { AppShell } from "@/components/layouts/AppShell";
+import { DashboardLayout } from "@/components/layouts/DashboardLayout";
+import { MarketplaceAnalytics } from "@/components/MarketplaceAnalytics";
+import { MarketCharts } from "@/components/MarketCharts";
+
+export default function AnalyticsPage() {
+  return (
+    <AppShell>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-4xl font-black">
+              Market <span className="text-secondary">Analytics</span>
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Storage prices, trading volume and listed supply over time
+            </p>
+          </div>
+
+          <MarketplaceAnalytics />
+
+          <MarketCharts />
+        </div>
+      </DashboardLayout>
+    </AppShell>
+  );
+}
@@ -1,5 +1,6 @@
 import StorageReservation from "@/components/storage-reservation";
 import { MarketplaceAnalytics } from "@/components/MarketplaceAnalytics";
+import { SupplyDepthChart } from "@/components/SupplyDepthChart";
 import { AppShell } from "@/components/layouts/AppShell";
 import { DashboardLayout } from "@/components/layouts/DashboardLayout";
 
@@ -18,7 +19,12 @@ export default function Dashboard() {
             </p>
           </div>
 
-          <StorageReservation />
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 items-start">
+            <div className="xl:col-span-2">
+              <StorageReservation />
+            </div>
+            <SupplyDepthChart />
+          </div>
 
           <MarketplaceAnalytics />
         </div>
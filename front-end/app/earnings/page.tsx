@@ -0,0 +1,40 @@
+"use client";
+
+import { AppShell } from "@/components/layouts/AppShell";
+import { DashboardLayout } from "@/components/layouts/DashboardLayout";
+import { SellerEarnings } from "@/components/SellerEarnings";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+
+export default function EarningsPage() {
+  const currentAccount = useCurrentAccount();
+
+  return (
+    <AppShell>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-4xl font-black">
+              <span className="text-secondary">My</span> Earnings
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Proceeds, fees and realised prices of your marketplace sales
+            </p>
+          </div>
+
+          {currentAccount ? (
+            <SellerEarnings />
+          ) : (
+            <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+              <div className="text-center py-12">
+                <p className="text-gray-600">
+                  Connect your wallet to see your earnings.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </AppShell>
+  );
+}
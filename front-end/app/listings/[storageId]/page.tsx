@@ -0,0 +1,91 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { AppShell } from "@/components/layouts/AppShell";
+import { DashboardLayout } from "@/components/layouts/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { StorageLineageGraph } from "@/components/StorageLineageGraph";
+import { useListingLineage } from "@/hooks/useListingLineage";
+
+export default function ListingDetailPage() {
+  const { storageId } = useParams<{ storageId: string }>();
+  const { lineage, isLoading, error, refetch } = useListingLineage(storageId);
+
+  // Only the latest node of a storage ID carries its listing status
+  const latest = lineage?.nodes.find(
+    (node) => node.storageId === storageId && node.status !== null
+  );
+
+  return (
+    <AppShell>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-4xl font-black">
+              Storage <span className="text-secondary">Lineage</span>
+            </h1>
+            <p className="text-gray-600 mt-2 font-mono break-all">{storageId}</p>
+          </div>
+
+          {error ? (
+            <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+              <div className="text-center py-12">
+                <p className="text-red-500">Error loading lineage: {error}</p>
+                <div className="mt-4 flex justify-center gap-3">
+                  <Button
+                    onClick={refetch}
+                    className="rounded-xl border-2 border-[#97f0e5] bg-[#97f0e5]/50"
+                  >
+                    Retry
+                  </Button>
+                  <Link href="/my-listings">
+                    <Button className="rounded-xl border-2 border-[#97f0e5] bg-white">
+                      My Listings
+                    </Button>
+                  </Link>
+                </div>
+              </div>
+            </div>
+          ) : isLoading || !lineage ? (
+            <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+              <div className="text-center py-12">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-[#97f0e5] border-r-transparent"></div>
+                <p className="mt-4 text-gray-600">Loading lineage...</p>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Stats */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="backdrop-blur-md bg-[#97f0e5]/5 border-2 border-[#97f0e5] rounded-xl p-4">
+                  <div className="text-sm text-gray-600">Status</div>
+                  <div className="text-2xl font-bold mt-1 capitalize">
+                    {latest?.status?.replace("_", " ") ?? "Not listed"}
+                  </div>
+                </div>
+
+                <div className="backdrop-blur-md bg-[#97f0e5]/5 border-2 border-[#97f0e5] rounded-xl p-4">
+                  <div className="text-sm text-gray-600">Pieces</div>
+                  <div className="text-2xl font-bold mt-1">
+                    {lineage.nodes.length}
+                  </div>
+                </div>
+
+                <div className="backdrop-blur-md bg-[#97f0e5]/5 border-2 border-[#97f0e5] rounded-xl p-4">
+                  <div className="text-sm text-gray-600">Sold Pieces</div>
+                  <div className="text-2xl font-bold mt-1">
+                    {lineage.nodes.filter((node) => node.kind === "sold").length}
+                  </div>
+                </div>
+              </div>
+
+              <StorageLineageGraph lineage={lineage} />
+            </>
+          )}
+        </div>
+      </DashboardLayout>
+    </AppShell>
+  );
+}
@@ -13,6 +13,7 @@ import {
   Sparkles,
 } from "lucide-react";
 import { useMarketplaceAnalytics } from "@/hooks/useMarketplaceAnalytics";
+import { ActivityFeed } from "@/components/ActivityFeed";
 
 // Helper function to format storage size
 const BYTES_PER_UNIT_SIZE = 1024 * 1024; // 1 MiB
@@ -207,6 +208,13 @@ export default function LandingPage() {
         </div>
       </section>
 
+      {/* Activity Section */}
+      <section className="pb-20 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto">
+          <ActivityFeed title="Marketplace Activity" />
+        </div>
+      </section>
+
       {/* Features Section */}
       <section id="features" className="py-20 px-4 sm:px-6 lg:px-8 bg-white">
         <div className="max-w-7xl mx-auto">
@@ -1,11 +1,13 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
 import { AppShell } from "@/components/layouts/AppShell";
 import { DashboardLayout } from "@/components/layouts/DashboardLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { WalletTable } from "@/components/wallet-table";
+import { ActivityFeed } from "@/components/ActivityFeed";
 import { ListStorageDialog } from "@/components/ListStorageDialog";
 import { DestroyExpiredDialog } from "@/components/DestroyExpiredDialog";
 import { DestroyExpiredBlobsDialog } from "@/components/DestroyExpiredBlobsDialog";
@@ -37,6 +39,7 @@ const formatStorageSize = (bytes: bigint): string => {
 };
 
 export default function WalletPage() {
+  const currentAccount = useCurrentAccount();
   const [activeTab, setActiveTab] = useState<ItemType>("storage");
   const [selectedStorageIds, setSelectedStorageIds] = useState<string[]>([]);
   const [selectedBlobIds, setSelectedBlobIds] = useState<string[]>([]);
@@ -285,6 +288,11 @@ export default function WalletPage() {
               />
             </TabsContent>
           </Tabs>
+
+          {/* Marketplace activity of the connected wallet */}
+          {currentAccount && (
+            <ActivityFeed address={currentAccount.address} title="My Activity" />
+          )}
         </div>
 
         {/* Fixed Action Buttons - Side by Side */}
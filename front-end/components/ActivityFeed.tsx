@@ -0,0 +1,126 @@
+"use client";
+
+import Link from "next/link";
+import { ShoppingCart, Tag, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  useActivityFeed,
+  type ActivityItem,
+  type ActivityKind,
+} from "@/hooks/useActivityFeed";
+
+interface ActivityFeedProps {
+  address?: string; // Only events of this wallet
+  title?: string;
+  limit?: number;
+}
+
+const KIND_ICONS: Record<ActivityKind, typeof Tag> = {
+  listed: Tag,
+  purchased: ShoppingCart,
+  delisted: XCircle,
+};
+
+// Format relative time (e.g., "5m ago")
+const formatRelativeTime = (iso: string) => {
+  const diffInSeconds = Math.floor((Date.now() - new Date(iso).getTime()) / 1000);
+
+  if (diffInSeconds < 60) return "just now";
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  return `${Math.floor(diffInSeconds / 86400)}d ago`;
+};
+
+function ActivityRow({ item }: { item: ActivityItem }) {
+  const Icon = KIND_ICONS[item.kind];
+
+  return (
+    <li className="flex items-start gap-3 py-3 border-b border-[#97f0e5]/20 last:border-b-0">
+      <div
+        className={`mt-0.5 rounded-lg border-2 border-[#97f0e5] p-1.5 ${
+          item.kind === "purchased" ? "bg-[#97f0e5]/50" : "bg-white"
+        }`}
+      >
+        <Icon className="w-4 h-4" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-gray-800 break-words">
+          {item.summary}
+        </p>
+        <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+          <span>{formatRelativeTime(item.blockTime)}</span>
+          <Link
+            href={`/listings/${item.storageId}`}
+            className="font-mono hover:text-secondary"
+          >
+            {item.storageId.slice(0, 6)}...{item.storageId.slice(-4)}
+          </Link>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Live feed of listings, purchases and delistings, refreshed every 15 seconds
+ */
+export function ActivityFeed({
+  address,
+  title = "Live Activity",
+  limit = 10,
+}: ActivityFeedProps) {
+  const { activity, isLoading, error, hasMore, refetch, loadMore } =
+    useActivityFeed({ address, limit });
+
+  return (
+    <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-black">{title}</h2>
+        <span className="flex items-center gap-2 text-xs font-bold text-secondary uppercase">
+          <span className="h-2 w-2 rounded-full bg-[#97f0e5] animate-pulse"></span>
+          Live
+        </span>
+      </div>
+
+      {error && activity.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-red-500 text-sm">Error loading activity: {error}</p>
+          <Button
+            onClick={refetch}
+            className="mt-4 rounded-xl border-2 border-[#97f0e5] bg-[#97f0e5]/50"
+          >
+            Retry
+          </Button>
+        </div>
+      ) : isLoading && activity.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="inline-block h-6 w-6 animate-spin rounded-full border-4 border-solid border-[#97f0e5] border-r-transparent"></div>
+        </div>
+      ) : activity.length === 0 ? (
+        <p className="text-center py-8 text-sm text-gray-600">
+          No marketplace activity yet
+        </p>
+      ) : (
+        <>
+          <ul>
+            {activity.map((item) => (
+              <ActivityRow key={item.id} item={item} />
+            ))}
+          </ul>
+
+          {hasMore && (
+            <div className="flex justify-center mt-4">
+              <Button
+                onClick={loadMore}
+                disabled={isLoading}
+                className="rounded-xl border-2 border-[#97f0e5] bg-[#97f0e5]/50 font-bold shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] hover:shadow-[2px_2px_0px_0px_rgba(151,240,229,1)] hover:translate-x-[2px] hover:translate-y-[2px] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
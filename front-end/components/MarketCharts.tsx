@@ -0,0 +1,179 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useMarketTimeSeries,
+  type TimeSeriesInterval,
+} from "@/hooks/useMarketTimeSeries";
+
+const FROST_PER_WAL = 1_000_000_000;
+const BYTES_PER_MIB = 1024 * 1024;
+
+const priceConfig = {
+  close: { label: "Close", color: "var(--secondary)" },
+  vwap: { label: "VWAP", color: "#97f0e5" },
+  high: { label: "High", color: "#9ca3af" },
+  low: { label: "Low", color: "#d1d5db" },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  volume: { label: "Volume (WAL)", color: "#97f0e5" },
+} satisfies ChartConfig;
+
+const supplyConfig = {
+  listed: { label: "Newly listed (MiB)", color: "var(--secondary)" },
+} satisfies ChartConfig;
+
+const frostToWal = (frost: string | null | undefined): number | null =>
+  frost == null ? null : Number(frost) / FROST_PER_WAL;
+
+const formatBucketLabel = (
+  start: string,
+  bucket: string | number,
+  interval: TimeSeriesInterval
+): string => {
+  if (interval === "epoch") {
+    return `Epoch ${bucket}`;
+  }
+  const date = new Date(start);
+  return interval === "hour"
+    ? date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+function ChartCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+      <h3 className="text-lg font-black">{title}</h3>
+      <p className="text-sm text-gray-600 mb-4">{description}</p>
+      {children}
+    </div>
+  );
+}
+
+export function MarketCharts() {
+  const [interval, setSelectedInterval] = useState<TimeSeriesInterval>("day");
+  const { timeSeries, isLoading, error } = useMarketTimeSeries(interval);
+
+  // Prices in WAL per MiB per epoch, volume in WAL, supply in MiB
+  const chartData = useMemo(
+    () =>
+      (timeSeries?.points || []).map((point) => ({
+        label: formatBucketLabel(point.start, point.bucket, interval),
+        close: frostToWal(point.price?.close),
+        vwap: frostToWal(point.price?.vwap),
+        high: frostToWal(point.price?.high),
+        low: frostToWal(point.price?.low),
+        volume: frostToWal(point.volume.value),
+        listed: Number(point.listed.size) / BYTES_PER_MIB,
+      })),
+    [timeSeries, interval]
+  );
+
+  const hasTrades = chartData.some((point) => point.close !== null);
+
+  return (
+    <div className="space-y-4">
+      <Tabs
+        value={interval}
+        onValueChange={(value) => setSelectedInterval(value as TimeSeriesInterval)}
+      >
+        <TabsList className="bg-white/50 border-2 border-[#97f0e5] rounded-xl p-1">
+          {(["hour", "day", "epoch"] as const).map((value) => (
+            <TabsTrigger
+              key={value}
+              value={value}
+              className="rounded-lg capitalize data-[state=active]:bg-[#97f0e5] data-[state=active]:text-black font-bold cursor-pointer transition-all duration-300 ease-in-out"
+            >
+              {value}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {error ? (
+        <div className="backdrop-blur-md bg-white/80 border-2 border-red-500 rounded-xl p-6 text-center">
+          <p className="text-red-500">Error loading market data: {error}</p>
+        </div>
+      ) : isLoading || !timeSeries ? (
+        <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+          <div className="text-center py-12">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-[#97f0e5] border-r-transparent"></div>
+            <p className="mt-4 text-gray-600">Loading market data...</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <ChartCard
+            title="Price"
+            description="Traded price in WAL per MiB per epoch"
+          >
+            {hasTrades ? (
+              <ChartContainer config={priceConfig} className="h-[320px] w-full aspect-auto">
+                <LineChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} tickMargin={8} width={80} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="high" stroke="var(--color-high)" strokeDasharray="4 4" dot={false} connectNulls />
+                  <Line dataKey="low" stroke="var(--color-low)" strokeDasharray="4 4" dot={false} connectNulls />
+                  <Line dataKey="vwap" stroke="var(--color-vwap)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="close" stroke="var(--color-close)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-center py-12 text-gray-600">
+                No purchases in this period.
+              </p>
+            )}
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartCard title="Volume" description="Amount paid by buyers, in WAL">
+              <ChartContainer config={volumeConfig} className="h-[240px] w-full aspect-auto">
+                <BarChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} tickMargin={8} width={64} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="volume" fill="var(--color-volume)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Listed Supply" description="Storage newly listed, in MiB">
+              <ChartContainer config={supplyConfig} className="h-[240px] w-full aspect-auto">
+                <BarChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} tickMargin={8} width={64} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="listed" fill="var(--color-listed)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useSellerEarnings,
+  type EarningsBucket,
+} from "@/hooks/useSellerEarnings";
+import { formatWalPrice } from "@/lib/utils/storagePrice";
+
+const FROST_PER_WAL = 1_000_000_000;
+
+const chartConfig = {
+  net: {
+    label: "Net proceeds",
+    color: "#97f0e5",
+  },
+  fees: {
+    label: "Marketplace fees",
+    color: "var(--secondary)",
+  },
+} satisfies ChartConfig;
+
+const formatBucketLabel = (
+  bucket: string | number,
+  bucketType: EarningsBucket
+): string => {
+  if (bucketType === "epoch") {
+    return `Epoch ${bucket}`;
+  }
+  const date = new Date(bucket);
+  return bucketType === "week"
+    ? `Week of ${date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+};
+
+export function SellerEarnings() {
+  const [bucket, setBucket] = useState<EarningsBucket>("day");
+  const { report, isLoading, error } = useSellerEarnings(bucket);
+
+  // Chart values in WAL
+  const chartData = useMemo(
+    () =>
+      (report?.buckets || []).map((row) => ({
+        label: formatBucketLabel(row.bucket, bucket),
+        net: Number(row.netProceeds) / FROST_PER_WAL,
+        fees: Number(row.feesDeducted) / FROST_PER_WAL,
+      })),
+    [report, bucket]
+  );
+
+  const totals = report?.totals;
+
+  const stats = totals
+    ? [
+        { label: "Gross Proceeds", value: formatWalPrice(BigInt(totals.grossProceeds), 4), unit: "WAL" },
+        { label: "Fees Deducted", value: formatWalPrice(BigInt(totals.feesDeducted), 4), unit: "WAL" },
+        { label: "Net Proceeds", value: formatWalPrice(BigInt(totals.netProceeds), 4), unit: "WAL" },
+        {
+          label: "Avg. Price / MiB / Epoch",
+          value: formatWalPrice(BigInt(totals.averagePricePerMibPerEpoch), 6),
+          unit: "WAL",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black">
+            Seller <span className="text-secondary">Earnings</span>
+          </h2>
+          <p className="text-gray-600 mt-2">
+            What your storage sales earned, after marketplace fees
+          </p>
+        </div>
+
+        <Tabs
+          value={bucket}
+          onValueChange={(value) => setBucket(value as EarningsBucket)}
+        >
+          <TabsList className="bg-white/50 border-2 border-[#97f0e5] rounded-xl p-1">
+            {(["day", "week", "epoch"] as const).map((value) => (
+              <TabsTrigger
+                key={value}
+                value={value}
+                className="rounded-lg capitalize data-[state=active]:bg-[#97f0e5] data-[state=active]:text-black font-bold cursor-pointer transition-all duration-300 ease-in-out"
+              >
+                {value}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {error ? (
+        <div className="backdrop-blur-md bg-white/80 border-2 border-red-500 rounded-xl p-6 text-center">
+          <p className="text-red-500">Error loading earnings: {error}</p>
+        </div>
+      ) : isLoading || !report || !totals ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <div
+              key={i}
+              className="backdrop-blur-md bg-[#97f0e5]/5 border-2 border-[#97f0e5] rounded-xl p-4"
+            >
+              <div className="text-sm text-gray-600">Loading...</div>
+              <div className="text-2xl font-bold mt-1">--</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="backdrop-blur-md bg-[#97f0e5]/5 border-2 border-[#97f0e5] rounded-xl p-4"
+              >
+                <div className="text-sm text-gray-600">{stat.label}</div>
+                <div className="text-2xl font-bold mt-1">
+                  <span className="text-black">{stat.value}</span>{" "}
+                  <span className="text-secondary">{stat.unit}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Proceeds per bucket */}
+          <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6">
+            {chartData.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-semibold">No sales yet</h3>
+                <p className="mt-2 text-gray-600">
+                  Earnings appear here once buyers purchase your listed storage.
+                </p>
+              </div>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+                <BarChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="label"
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    width={64}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) => (
+                          <div className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">
+                              {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                            </span>
+                            <span className="font-mono font-medium">
+                              {Number(value).toFixed(4)} WAL
+                            </span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="net" stackId="proceeds" fill="var(--color-net)" />
+                  <Bar
+                    dataKey="fees"
+                    stackId="proceeds"
+                    fill="var(--color-fees)"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+            <span>
+              Sales: <span className="font-bold text-black">{totals.sales.toLocaleString()}</span>
+            </span>
+            {totals.pendingFeeSales > 0 && (
+              <span>
+                {totals.pendingFeeSales.toLocaleString()} recent sales are still
+                being settled; their fees are not deducted yet.
+              </span>
+            )}
+            {bucket === "epoch" && (
+              <span>
+                Epoch view spreads each sale evenly over the epochs of storage it sold.
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
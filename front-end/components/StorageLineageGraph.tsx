@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import cytoscape from "cytoscape";
+import dagre from "cytoscape-dagre";
+import type { ListingLineage, LineageNode } from "@/hooks/useListingLineage";
+
+// Register the dagre layout
+cytoscape.use(dagre);
+
+interface StorageLineageGraphProps {
+  lineage: ListingLineage;
+}
+
+// Define colors for the kinds of pieces
+const NODE_COLORS: Record<LineageNode["kind"], string> = {
+  root: "#97f0e5", // teal
+  sold: "#60A5FA", // blue
+  remainder: "#FBBF24", // yellow
+};
+
+const BYTES_PER_MIB = 1024 * 1024;
+
+const formatId = (id: string) =>
+  id.length <= 10 ? id : `${id.slice(0, 6)}...${id.slice(-4)}`;
+
+const formatSize = (bytes: string) =>
+  `${Math.ceil(Number(bytes) / BYTES_PER_MIB).toLocaleString()} MiB`;
+
+export function StorageLineageGraph({ lineage }: StorageLineageGraphProps) {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isMobile, setIsMobile] = useState(false);
+  const [selectedNode, setSelectedNode] = useState<LineageNode | null>(null);
+
+  // Handle responsive behavior
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth < 640);
+    };
+
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const elements: cytoscape.ElementDefinition[] = [
+      ...lineage.nodes.map((node) => ({
+        data: {
+          id: node.id,
+          label: `${node.kind}\n${node.storageId ? formatId(node.storageId) : "new object"}\n${formatSize(node.size)} · ${node.startEpoch}-${node.endEpoch}`,
+          kind: node.kind,
+          current: node.storageId === lineage.storageId ? "true" : "false",
+        },
+      })),
+      ...lineage.edges.map((edge) => ({
+        data: {
+          id: `edge-${edge.source}-${edge.target}`,
+          source: edge.source,
+          target: edge.target,
+          label: formatId(edge.txDigest),
+        },
+      })),
+    ];
+
+    const cy = cytoscape({
+      container: containerRef.current,
+      elements,
+      style: [
+        {
+          selector: "node",
+          style: {
+            "background-color": (ele) =>
+              NODE_COLORS[ele.data("kind") as LineageNode["kind"]] || "#94A3B8",
+            label: "data(label)",
+            color: "#1F2937",
+            "text-valign": "center",
+            "text-halign": "center",
+            "font-size": isMobile ? "8px" : "10px",
+            "font-weight": "bold",
+            "text-wrap": "wrap",
+            "text-max-width": isMobile ? "90px" : "120px",
+            width: isMobile ? 100 : 130,
+            height: isMobile ? 55 : 65,
+            "border-width": 2,
+            "border-color": "#1F2937",
+            shape: "roundrectangle",
+          },
+        },
+        {
+          selector: 'node[current="true"]',
+          style: {
+            "border-width": 4,
+            "border-color": "#059669",
+          },
+        },
+        {
+          selector: "edge",
+          style: {
+            width: isMobile ? 1.5 : 2,
+            "line-color": "#94A3B8",
+            "target-arrow-color": "#94A3B8",
+            "target-arrow-shape": "triangle",
+            "curve-style": "bezier",
+            "arrow-scale": isMobile ? 1.2 : 1.5,
+            label: "data(label)",
+            "font-size": isMobile ? "7px" : "8px",
+            color: "#6B7280",
+            "text-rotation": "autorotate",
+            "text-margin-y": -10,
+          },
+        },
+      ],
+      layout: {
+        name: "dagre",
+        rankDir: "TB", // Top to bottom
+        nodeSep: isMobile ? 20 : 30,
+        rankSep: isMobile ? 50 : 70,
+        padding: isMobile ? 10 : 20,
+      } as any,
+      userZoomingEnabled: true,
+      userPanningEnabled: true,
+      boxSelectionEnabled: false,
+    });
+
+    cy.fit(undefined, 20);
+
+    cy.on("tap", "node", (event) => {
+      const node = lineage.nodes.find((n) => n.id === event.target.id());
+      setSelectedNode(node ?? null);
+    });
+
+    // Open the lineage of another storage object on double tap
+    cy.on("dbltap", "node", (event) => {
+      const node = lineage.nodes.find((n) => n.id === event.target.id());
+      if (node?.storageId && node.storageId !== lineage.storageId) {
+        router.push(`/listings/${node.storageId}`);
+      }
+    });
+
+    return () => {
+      cy.destroy();
+    };
+  }, [lineage, isMobile, router]);
+
+  return (
+    <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-4 sm:p-6">
+      <div className="text-xs font-bold text-gray-600 mb-1">LINEAGE</div>
+      <div className="text-sm text-gray-700 font-medium mb-4">
+        {lineage.edges.length === 0
+          ? "This storage object has never been split"
+          : `${lineage.nodes.length} piece${lineage.nodes.length !== 1 ? "s" : ""} from ${new Set(lineage.edges.map((e) => e.txDigest)).size} split purchase(s)`}
+        {lineage.truncated && " (truncated)"}
+      </div>
+
+      {/* Graph Canvas */}
+      <div
+        ref={containerRef}
+        className="w-full bg-gradient-to-br from-gray-50 to-white rounded-lg border-2 border-[#97f0e5]/50"
+        style={{ height: isMobile ? "320px" : "460px" }}
+      />
+
+      {/* Legend */}
+      <div className="mt-4 grid grid-cols-3 gap-2 text-xs">
+        {(Object.keys(NODE_COLORS) as LineageNode["kind"][]).map((kind) => (
+          <div
+            key={kind}
+            className="flex items-center gap-2 p-2 rounded-lg bg-white/70 border border-[#97f0e5]/30"
+          >
+            <div
+              className="w-3 h-3 sm:w-4 sm:h-4 rounded border border-gray-300"
+              style={{ backgroundColor: NODE_COLORS[kind] }}
+            ></div>
+            <span className="font-semibold text-gray-700 capitalize">{kind}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Selected piece */}
+      {selectedNode && (
+        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div className="rounded-lg bg-[#97f0e5]/5 border border-[#97f0e5]/50 p-3">
+            <div className="text-xs text-gray-600">Object ID</div>
+            <div className="font-mono break-all">
+              {selectedNode.storageId ?? "Not in events"}
+            </div>
+          </div>
+          <div className="rounded-lg bg-[#97f0e5]/5 border border-[#97f0e5]/50 p-3">
+            <div className="text-xs text-gray-600">Owner</div>
+            <div className="font-mono">{formatId(selectedNode.owner)}</div>
+          </div>
+          <div className="rounded-lg bg-[#97f0e5]/5 border border-[#97f0e5]/50 p-3">
+            <div className="text-xs text-gray-600">Storage</div>
+            <div className="font-bold">
+              {formatSize(selectedNode.size)}, epochs {selectedNode.startEpoch}-
+              {selectedNode.endEpoch}
+            </div>
+          </div>
+          <div className="rounded-lg bg-[#97f0e5]/5 border border-[#97f0e5]/50 p-3">
+            <div className="text-xs text-gray-600">Status</div>
+            <div className="font-bold capitalize">
+              {selectedNode.status?.replace("_", " ") ?? "—"}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Info text */}
+      <div className="mt-3 text-xs text-center text-gray-600 font-medium">
+        Click a piece for details • Double-click to open its lineage • Scroll to zoom
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useSupplyDepth } from "@/hooks/useSupplyDepth";
+
+const FROST_PER_WAL = 1_000_000_000;
+const BYTES_PER_MIB = 1024 * 1024;
+
+const capacityConfig = {
+  available: { label: "Available (MiB)", color: "#97f0e5" },
+  cheapest: { label: "Cheapest (WAL/MiB/epoch)", color: "var(--secondary)" },
+} satisfies ChartConfig;
+
+const curveConfig = {
+  price: { label: "WAL/MiB/epoch", color: "var(--secondary)" },
+} satisfies ChartConfig;
+
+/**
+ * Marketplace storage available per future epoch, and the price curve of
+ * the selected epoch: how much storage is on offer at each price or cheaper
+ */
+export function SupplyDepthChart() {
+  const { depth, isLoading, error } = useSupplyDepth();
+  const [selectedEpoch, setSelectedEpoch] = useState<number | null>(null);
+
+  const capacityData = useMemo(
+    () =>
+      (depth?.buckets || []).map((bucket) => ({
+        epoch: bucket.startEpoch,
+        available: Number(bucket.totalSize) / BYTES_PER_MIB,
+        cheapest: bucket.levels[0]
+          ? Number(bucket.levels[0].pricePerMibPerEpoch) / FROST_PER_WAL
+          : null,
+      })),
+    [depth]
+  );
+
+  const selectedBucket =
+    depth?.buckets.find((bucket) => bucket.startEpoch === selectedEpoch) ??
+    depth?.buckets[0];
+
+  // Step curve: price of the marginal MiB as the bought size grows
+  const curveData = useMemo(
+    () =>
+      (selectedBucket?.levels || []).flatMap((level, index, levels) => {
+        const price = Number(level.pricePerMibPerEpoch) / FROST_PER_WAL;
+        const previousSize =
+          index === 0 ? 0 : Number(levels[index - 1].cumulativeSize);
+        return [
+          { size: previousSize / BYTES_PER_MIB, price },
+          { size: Number(level.cumulativeSize) / BYTES_PER_MIB, price },
+        ];
+      }),
+    [selectedBucket]
+  );
+
+  return (
+    <div className="backdrop-blur-md bg-white/80 border-2 border-[#97f0e5] rounded-xl shadow-[4px_4px_0px_0px_rgba(151,240,229,1)] p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-black">
+          Supply <span className="text-secondary">Depth</span>
+        </h2>
+        <p className="text-gray-600 mt-2 text-sm">
+          Marketplace storage available for each upcoming epoch. Select an
+          epoch to see how price grows with size.
+        </p>
+      </div>
+
+      {error ? (
+        <p className="text-red-500 text-center py-8">
+          Error loading supply depth: {error}
+        </p>
+      ) : isLoading || !depth ? (
+        <div className="text-center py-12">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-[#97f0e5] border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading supply depth...</p>
+        </div>
+      ) : depth.buckets.length === 0 ? (
+        <p className="text-center py-12 text-gray-600">
+          No storage is listed on the marketplace right now.
+        </p>
+      ) : (
+        <>
+          <div>
+            <h3 className="text-sm font-bold mb-2">Available per epoch</h3>
+            <ChartContainer config={capacityConfig} className="h-[200px] w-full aspect-auto">
+              <ComposedChart
+                data={capacityData}
+                onClick={(state) => {
+                  if (state?.activeLabel !== undefined) {
+                    setSelectedEpoch(Number(state.activeLabel));
+                  }
+                }}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="epoch" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                <YAxis yAxisId="size" tickLine={false} axisLine={false} width={48} />
+                <YAxis yAxisId="price" orientation="right" tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(label) => `Epoch ${label}`} />}
+                />
+                <Bar
+                  yAxisId="size"
+                  dataKey="available"
+                  fill="var(--color-available)"
+                  radius={[4, 4, 0, 0]}
+                  className="cursor-pointer"
+                />
+                <Line
+                  yAxisId="price"
+                  dataKey="cheapest"
+                  stroke="var(--color-cheapest)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+
+          {selectedBucket && (
+            <div>
+              <h3 className="text-sm font-bold mb-2">
+                Price curve for epoch {selectedBucket.startEpoch}
+              </h3>
+              {curveData.length === 0 ? (
+                <p className="text-sm text-gray-600 py-6 text-center">
+                  Nothing listed covers this epoch.
+                </p>
+              ) : (
+                <ChartContainer config={curveConfig} className="h-[200px] w-full aspect-auto">
+                  <AreaChart data={curveData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="size"
+                      type="number"
+                      tickLine={false}
+                      axisLine={false}
+                      tickMargin={8}
+                      tickFormatter={(value) => `${Math.round(value)} MiB`}
+                    />
+                    <YAxis tickLine={false} axisLine={false} width={56} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) =>
+                            `Up to ${Math.round(Number(payload?.[0]?.payload?.size ?? 0))} MiB`
+                          }
+                        />
+                      }
+                    />
+                    <Area
+                      dataKey="price"
+                      type="linear"
+                      stroke="var(--color-price)"
+                      fill="var(--color-price)"
+                      fillOpacity={0.15}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
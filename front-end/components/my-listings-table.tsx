@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
@@ -172,8 +173,13 @@ export function MyListingsTable({
                           }`}
                       />
                     </TableCell>
-                    <TableCell className="font-mono text-sm">
-                      {formatObjectId(item.objectId)}
+                    <TableCell className="font-mono text-sm" onClick={(e) => e.stopPropagation()}>
+                      <Link
+                        href={`/listings/${item.objectId}`}
+                        className="underline decoration-[#97f0e5] decoration-2 underline-offset-4 hover:text-secondary"
+                      >
+                        {formatObjectId(item.objectId)}
+                      </Link>
                     </TableCell>
                     <TableCell className="font-bold">{item.size}</TableCell>
                     <TableCell className={expired ? "font-bold text-red-600" : ""}>
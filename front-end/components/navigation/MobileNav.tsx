@@ -23,6 +23,8 @@ const defaultNavItems: NavItem[] = [
   { href: "/buy-storage", label: "Buy Storage" },
   { href: "/wallet", label: "My Wallet" },
   { href: "/my-listings", label: "My Listings" },
+  { href: "/earnings", label: "My Earnings" },
+  { href: "/analytics", label: "Analytics" },
 ];
 
 const platforms = [
@@ -32,7 +34,7 @@ const platforms = [
 
 /**
  * Mobile navigation drawer content for Storewave
- * Displays Logo + Storewave branding, navigation links to Buy Storage/My Wallet/My Listings,
+ * Displays Logo + Storewave branding, navigation links to Buy Storage/My Wallet/My Listings/My Earnings/Analytics,
  * useful links, and connect button
  */
 export function MobileNav({
@@ -19,6 +19,8 @@ const defaultNavItems: NavItem[] = [
   { href: "/buy-storage", label: "Buy Storage" },
   { href: "/wallet", label: "My Wallet" },
   { href: "/my-listings", label: "My Listings" },
+  { href: "/earnings", label: "My Earnings" },
+  { href: "/analytics", label: "Analytics" },
 ];
 
 const platforms = [
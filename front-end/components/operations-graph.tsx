@@ -61,6 +61,7 @@ const OPERATION_COLORS: Record<string, string> = {
   split_by_epoch: "#F59E0B", // orange
   fuse_amount: "#A78BFA", // purple
   fuse_period: "#A78BFA", // purple
+  fuse_periods: "#A78BFA", // purple
 };
 
 export default function OperationsGraph({ optimizationResult }: OperationsGraphProps) {
@@ -264,6 +264,14 @@ export default function StorageReservation() {
         totalCost: optimizationResult.systemOnlyPrice,
         systemOnlyPrice: optimizationResult.systemOnlyPrice,
         allocations: [],
+        reservations: [{
+          size: sizeInBytes.toString(),
+          startEpoch,
+          endEpoch,
+          epochs: endEpoch - startEpoch,
+          cost: optimizationResult.systemOnlyPrice,
+        }],
+        solver: optimizationResult.solver,
         ptbMetadata: {
           paymentAmounts: [optimizationResult.systemOnlyPrice],
           executionFlow: [{
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export type ActivityKind = "listed" | "purchased" | "delisted";
+
+export interface ActivityItem {
+  id: string;
+  kind: ActivityKind;
+  storageId: string;
+  seller: string;
+  buyer: string | null; // Purchases only
+  size: string | null; // BigInt as string (bytes)
+  startEpoch: number | null;
+  endEpoch: number | null;
+  amount: string | null; // BigInt as string (FROST)
+  purchaseType: string | null;
+  txDigest: string;
+  eventSeq: string;
+  blockTime: string;
+  summary: string;
+}
+
+interface UseActivityFeedResult {
+  activity: ActivityItem[];
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  refetch: () => Promise<void>;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the marketplace activity feed, newest first
+ * Calls backend API endpoint: GET /indexer/activity
+ *
+ * @param options.address - Only events of this wallet (as buyer or seller)
+ * @param options.kinds - Only these event kinds
+ * @param options.limit - Events per page (default: 20)
+ * @param options.refreshInterval - Refresh interval in milliseconds (default: 15000, 0 to disable)
+ */
+export function useActivityFeed(options?: {
+  address?: string;
+  kinds?: ActivityKind[];
+  limit?: number;
+  refreshInterval?: number;
+}): UseActivityFeedResult {
+  const { address, kinds, limit = 20, refreshInterval = 15000 } = options || {};
+  const kindsParam = kinds?.join(",");
+
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (address) params.set("address", address);
+      if (kindsParam) params.set("kind", kindsParam);
+      if (cursor) params.set("cursor", cursor);
+
+      const response = await fetch(`${apiUrl}/indexer/activity?${params}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch activity: ${response.statusText}`);
+      }
+
+      return response.json() as Promise<{
+        data: ActivityItem[];
+        nextCursor: string | null;
+        hasMore: boolean;
+      }>;
+    },
+    [address, kindsParam, limit]
+  );
+
+  const fetchActivity = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const page = await fetchPage(null);
+      setActivity(page.data);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch activity";
+      setError(errorMessage);
+      console.error("Error fetching activity:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading) return;
+
+    try {
+      setIsLoading(true);
+      const page = await fetchPage(nextCursor);
+      setActivity((prev) => [...prev, ...page.data]);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch activity";
+      setError(errorMessage);
+      console.error("Error fetching activity:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage, nextCursor, isLoading]);
+
+  // Fetch on mount and when the filters change
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  // Keep the newest events live: merge the first page into the feed
+  useEffect(() => {
+    if (!refreshInterval) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const page = await fetchPage(null);
+        setActivity((prev) => {
+          const known = new Set(prev.map((item) => item.id));
+          const fresh = page.data.filter((item) => !known.has(item.id));
+          return fresh.length ? [...fresh, ...prev] : prev;
+        });
+      } catch (err) {
+        console.error("Error refreshing activity:", err);
+      }
+    }, refreshInterval);
+
+    return () => clearInterval(interval);
+  }, [refreshInterval, fetchPage]);
+
+  return {
+    activity,
+    isLoading,
+    error,
+    hasMore,
+    refetch: fetchActivity,
+    loadMore,
+  };
+}
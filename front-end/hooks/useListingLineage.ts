@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export type LineageNodeKind = "root" | "sold" | "remainder";
+
+export interface LineageNode {
+  id: string; // Node ID - a storage ID can appear in several nodes
+  storageId: string | null; // null: sold piece with an ID no event carries
+  kind: LineageNodeKind;
+  owner: string; // Buyer (sold) or seller (root, remainder)
+  size: string; // BigInt as string (bytes)
+  startEpoch: number;
+  endEpoch: number;
+  txDigest: string | null; // Purchase that produced the piece
+  blockTime: string | null;
+  status: string | null; // Listing status of the latest node of the storage ID
+}
+
+export interface LineageEdge {
+  source: string;
+  target: string;
+  txDigest: string;
+}
+
+export interface ListingLineage {
+  storageId: string;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  truncated: boolean;
+}
+
+interface UseListingLineageResult {
+  lineage: ListingLineage | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the split tree of a storage object
+ * Calls backend API endpoint: GET /indexer/listings/{storageId}/lineage
+ */
+export function useListingLineage(storageId: string): UseListingLineageResult {
+  const [lineage, setLineage] = useState<ListingLineage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLineage = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+      const response = await fetch(
+        `${apiUrl}/indexer/listings/${storageId}/lineage`
+      );
+
+      if (response.status === 404) {
+        throw new Error("Listing not found");
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch lineage: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setLineage(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch lineage";
+      setError(errorMessage);
+      console.error("Error fetching listing lineage:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storageId]);
+
+  useEffect(() => {
+    fetchLineage();
+  }, [fetchLineage]);
+
+  return {
+    lineage,
+    isLoading,
+    error,
+    refetch: fetchLineage,
+  };
+}
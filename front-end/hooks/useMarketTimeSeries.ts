@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export type TimeSeriesInterval = "hour" | "day" | "epoch";
+
+export interface PriceCandle {
+  open: string; // FROST per MiB per epoch
+  high: string;
+  low: string;
+  close: string;
+  vwap: string; // Volume-weighted average
+}
+
+export interface MarketTimeSeriesPoint {
+  bucket: string | number; // Bucket start (ISO) or Walrus epoch
+  start: string; // Bucket start (ISO)
+  price: PriceCandle | null; // null if nothing traded
+  volume: {
+    trades: number;
+    value: string; // BigInt as string (FROST)
+    size: string; // BigInt as string (bytes)
+    byteEpochs: string; // BigInt as string
+  };
+  listed: {
+    listings: number;
+    size: string; // BigInt as string (bytes)
+    value: string; // BigInt as string (FROST)
+    averageAskPerMibPerEpoch: string | null; // FROST per MiB per epoch
+  };
+}
+
+export interface MarketTimeSeries {
+  interval: TimeSeriesInterval;
+  from: string;
+  to: string;
+  points: MarketTimeSeriesPoint[];
+}
+
+interface UseMarketTimeSeriesResult {
+  timeSeries: MarketTimeSeries | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch market prices, volume and listed supply over time
+ * Calls backend API endpoint: GET /indexer/analytics/timeseries?interval={interval}
+ */
+export function useMarketTimeSeries(
+  interval: TimeSeriesInterval = "day"
+): UseMarketTimeSeriesResult {
+  const [timeSeries, setTimeSeries] = useState<MarketTimeSeries | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTimeSeries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+      const response = await fetch(
+        `${apiUrl}/indexer/analytics/timeseries?interval=${interval}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch market data: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setTimeSeries(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch market data";
+      setError(errorMessage);
+      console.error("Error fetching market time series:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [interval]);
+
+  useEffect(() => {
+    fetchTimeSeries();
+  }, [fetchTimeSeries]);
+
+  return {
+    timeSeries,
+    isLoading,
+    error,
+    refetch: fetchTimeSeries,
+  };
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+
+export type EarningsBucket = "day" | "week" | "epoch";
+
+export interface EarningsFigures {
+  sales: number;
+  grossProceeds: string; // BigInt as string (FROST)
+  feesDeducted: string; // BigInt as string (FROST)
+  netProceeds: string; // BigInt as string (FROST)
+  byteEpochsSold: string; // BigInt as string
+  averagePricePerSizePerEpoch: string; // BigInt as string (scaled by 1e9)
+  averagePricePerMibPerEpoch: string; // BigInt as string (FROST)
+  pendingFeeSales: number; // Sales whose marketplace fee is not known yet
+}
+
+export interface EarningsBucketFigures extends EarningsFigures {
+  bucket: string | number; // Bucket start (ISO) or Walrus epoch
+}
+
+export interface SellerEarningsReport {
+  seller: string;
+  bucket: EarningsBucket;
+  from: string | null;
+  to: string | null;
+  totals: EarningsFigures;
+  buckets: EarningsBucketFigures[];
+}
+
+interface UseSellerEarningsResult {
+  report: SellerEarningsReport | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the earnings of the current user as a seller
+ * Calls backend API endpoint: GET /indexer/sellers/{address}/earnings?bucket={bucket}
+ */
+export function useSellerEarnings(
+  bucket: EarningsBucket = "day"
+): UseSellerEarningsResult {
+  const currentAccount = useCurrentAccount();
+  const [report, setReport] = useState<SellerEarningsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEarnings = useCallback(async () => {
+    if (!currentAccount?.address) {
+      setReport(null);
+      setError(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+      const response = await fetch(
+        `${apiUrl}/indexer/sellers/${currentAccount.address}/earnings?bucket=${bucket}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch earnings: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setReport(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch earnings";
+      setError(errorMessage);
+      console.error("Error fetching seller earnings:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address, bucket]);
+
+  useEffect(() => {
+    fetchEarnings();
+  }, [fetchEarnings]);
+
+  return {
+    report,
+    isLoading,
+    error,
+    refetch: fetchEarnings,
+  };
+}
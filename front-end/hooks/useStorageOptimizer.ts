@@ -35,6 +35,7 @@ interface Allocation {
   usedSize: string;
   usedStartEpoch: number;
   usedEndEpoch: number;
+  purchaseType: "full" | "partial_size" | "partial_epoch";
   cost: string;
   sellerPayment: string;
   seller?: string;
@@ -42,6 +43,8 @@ interface Allocation {
 
 interface NewReservation {
   size: string;
+  startEpoch: number;
+  endEpoch: number;
   epochs: number;
   cost: string;
 }
@@ -70,7 +73,9 @@ interface OptimizationResult {
   totalCost: string; // bigint as string (in FROST)
   systemOnlyPrice: string; // bigint as string (in FROST)
   allocations: Allocation[];
+  reservations: NewReservation[];
   needsNewReservation?: NewReservation;
+  solver: 'exact' | 'heuristic'; // exact if no cheaper plan exists
   ptbMetadata: PTBMetadata;
 }
 
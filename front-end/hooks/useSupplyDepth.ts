@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+
+export interface DepthLevel {
+  pricePerSizePerEpoch: string; // BigInt as string (scaled by 1e9)
+  pricePerMibPerEpoch: string; // BigInt as string (FROST)
+  listings: number;
+  size: string; // BigInt as string (bytes)
+  cumulativeSize: string; // BigInt as string (bytes)
+  cumulativeCost: string; // BigInt as string (FROST, whole bucket)
+}
+
+export interface DepthBucket {
+  startEpoch: number;
+  endEpoch: number; // Exclusive
+  listings: number;
+  totalSize: string; // BigInt as string (bytes)
+  levels: DepthLevel[]; // Cheapest first
+}
+
+export interface SupplyDepth {
+  currentEpoch: number;
+  fromEpoch: number;
+  toEpoch: number;
+  bucketEpochs: number;
+  buckets: DepthBucket[];
+}
+
+interface UseSupplyDepthResult {
+  depth: SupplyDepth | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to fetch the marketplace storage available per future epoch
+ * Calls backend API endpoint: GET /indexer/analytics/depth
+ * The connected wallet's own listings are left out.
+ */
+export function useSupplyDepth(): UseSupplyDepthResult {
+  const currentAccount = useCurrentAccount();
+  const [depth, setDepth] = useState<SupplyDepth | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDepth = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+      const query = currentAccount?.address
+        ? `?excludeSeller=${currentAccount.address}`
+        : "";
+      const response = await fetch(`${apiUrl}/indexer/analytics/depth${query}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch supply depth: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setDepth(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch supply depth";
+      setError(errorMessage);
+      console.error("Error fetching supply depth:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address]);
+
+  useEffect(() => {
+    fetchDepth();
+  }, [fetchDepth]);
+
+  return {
+    depth,
+    isLoading,
+    error,
+    refetch: fetchDepth,
+  };
+}
@@ -1,4 +1,4 @@
-import { Transaction, TransactionArgument } from "@mysten/sui/transactions";
+import { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
 
 /**
@@ -11,6 +11,7 @@ export interface ExecutionFlow {
   storageRef?: string;
   paymentIndex?: number;
   sellerAddress?: string;
+  inputStorageFromOperation?: number;
   fuseTargets?: {
     first: number;
     second: number;
@@ -27,6 +28,9 @@ export interface StorageOperation {
   description: string;
   storageObjectId?: string;
   splitSize?: string;
+  splitStartEpoch?: number;
+  splitEndEpoch?: number;
+  splitEpoch?: number;
   reserveSize?: string;
   startEpoch?: number;
   endEpoch?: number;
@@ -38,6 +42,7 @@ export interface OptimizationResult {
   totalCost: string;
   systemOnlyPrice: string;
   allocations: any[];
+  reservations: any[];
   needsNewReservation?: any;
   ptbMetadata: PTBMetadata;
 }
@@ -66,20 +71,21 @@ export class MixedOperationFailureError extends Error {
 }
 
 /**
- * SIMPLIFIED: Build a Programmable Transaction Block for storage purchase
+ * Build a Programmable Transaction Block for storage purchase
  *
- * This function constructs a simple PTB that:
+ * This function constructs a PTB that:
  * 1. Merges all user WAL coins into one
  * 2. Splits payment for all operations in a single call
  * 3. Executes buy/reserve operations
- * 4. Fuses all pieces together if multiple
- * 5. Transfers final Storage object to sender
+ * 4. Splits pieces by size or epoch
+ * 5. Fuses all pieces together if multiple
+ * 6. Transfers the final Storage object, and any split-off excess, to sender
  *
- * Only handles 4 operation types:
- * - buy_full_storage
- * - buy_partial_storage_size
+ * Handles these operation types:
+ * - buy_full_storage / buy_partial_storage_size / buy_partial_storage_epoch
  * - reserve_space
- * - fuse_amount
+ * - split_by_size / split_by_epoch
+ * - fuse_amount / fuse_periods
  *
  * @param optimizationResult - Result from backend optimizer
  * @param walCoinIds - Array of WAL Coin object IDs to use for payment
@@ -98,7 +104,7 @@ export function buildStoragePurchasePTB(
   const { paymentAmounts, executionFlow } = ptbMetadata;
 
   // Track Storage results from each operation
-  const storageRefs = new Map<number, TransactionArgument>();
+  const storageRefs = new Map<number, TransactionResult>();
 
   // Step 1: Payment coin handling
   // Merge all WAL coins into one, then split for all payments in single operation
@@ -165,6 +171,31 @@ export function buildStoragePurchasePTB(
         break;
       }
 
+      case "buy_partial_storage_epoch": {
+        if (
+          flow.paymentIndex === undefined ||
+          !op.storageObjectId ||
+          op.splitStartEpoch === undefined ||
+          op.splitEndEpoch === undefined
+        ) {
+          throw new Error(`Invalid buy_partial_storage_epoch operation at index ${flow.operationIndex}`);
+        }
+
+        const storage = tx.moveCall({
+          target: `${contractConfig.marketplacePackageId}::marketplace::buy_partial_storage_epoch`,
+          arguments: [
+            tx.object(contractConfig.marketplaceObjectId),
+            tx.pure.id(op.storageObjectId),
+            tx.pure.u32(op.splitStartEpoch),
+            tx.pure.u32(op.splitEndEpoch),
+            paymentCoins[flow.paymentIndex],
+          ],
+        });
+
+        storageRefs.set(flow.operationIndex, storage);
+        break;
+      }
+
       case "reserve_space": {
         if (
           flow.paymentIndex === undefined ||
@@ -195,26 +226,51 @@ export function buildStoragePurchasePTB(
         break;
       }
 
-      case "fuse_amount": {
+      case "split_by_size":
+      case "split_by_epoch": {
+        const input =
+          flow.inputStorageFromOperation !== undefined
+            ? storageRefs.get(flow.inputStorageFromOperation)
+            : undefined;
+        const splitArgument =
+          op.type === "split_by_size"
+            ? op.splitSize && tx.pure.u64(op.splitSize)
+            : op.splitEpoch !== undefined && tx.pure.u32(op.splitEpoch);
+
+        if (!input || !splitArgument) {
+          throw new Error(`Invalid ${op.type} operation at index ${flow.operationIndex}`);
+        }
+
+        // The input keeps the first part (splitSize bytes / epochs before
+        // splitEpoch); the returned Storage is the rest
+        const storage = tx.moveCall({
+          target: `${contractConfig.walrusPackageId}::storage_resource::${op.type}`,
+          arguments: [input, splitArgument],
+        });
+
+        storageRefs.set(flow.operationIndex, storage);
+        break;
+      }
+
+      case "fuse_amount":
+      case "fuse_periods": {
         if (!flow.fuseTargets) {
-          throw new Error(`Invalid fuse_amount operation at index ${flow.operationIndex}`);
+          throw new Error(`Invalid ${op.type} operation at index ${flow.operationIndex}`);
         }
 
         const firstStorage = storageRefs.get(flow.fuseTargets.first);
         const secondStorage = storageRefs.get(flow.fuseTargets.second);
 
         if (!firstStorage || !secondStorage) {
-          throw new Error(`Storage references not found for fuse_amount at index ${flow.operationIndex}`);
+          throw new Error(`Storage references not found for ${op.type} at index ${flow.operationIndex}`);
         }
 
-        const fusedResult = tx.moveCall({
-          target: `${contractConfig.walrusPackageId}::storage_resource::fuse_amount`,
+        // The first storage is modified in place
+        tx.moveCall({
+          target: `${contractConfig.walrusPackageId}::storage_resource::${op.type}`,
           arguments: [firstStorage, secondStorage],
         });
 
-        // Update the first storage reference to point to the fused result
-        storageRefs.set(flow.fuseTargets.first, fusedResult);
-
         // Second storage is consumed
         storageRefs.delete(flow.fuseTargets.second);
         break;
@@ -225,15 +281,14 @@ export function buildStoragePurchasePTB(
     }
   }
 
-  // Step 3: Transfer final Storage object to sender
-  // The final storage is the last remaining reference (should be at index 0 after all fuses)
-  const finalStorageEntry = Array.from(storageRefs.entries()).pop();
-  if (!finalStorageEntry) {
+  // Step 3: Transfer remaining Storage objects to sender
+  // The fused storage (the first piece) plus any excess split off a purchase
+  const remainingStorage: TransactionResult[] = Array.from(storageRefs.values());
+  if (remainingStorage.length === 0) {
     throw new Error("No final storage object found after executing operations");
   }
 
-  const finalStorage = finalStorageEntry[1];
-  tx.transferObjects([finalStorage] as any, senderAddress);
+  tx.transferObjects(remainingStorage, senderAddress);
 
   return tx;
 }
@@ -242,7 +297,7 @@ export function buildStoragePurchasePTB(
  * Check if optimization result contains mixed operations (marketplace + system)
  */
 export function isMixedOperation(result: OptimizationResult): boolean {
-  return result.allocations.length > 0 && result.needsNewReservation !== undefined;
+  return result.allocations.length > 0 && result.reservations.length > 0;
 }
 
 /**
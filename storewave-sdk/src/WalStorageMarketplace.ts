@@ -39,6 +39,8 @@ import type {
   PaginatedStorage,
   PaginatedBlobs,
   PaginatedListings,
+  PaginatedPurchases,
+  ListingStatus,
   OptimizationResult,
 } from './types/index.js';
 import { UnsupportedNetworkError, NoWalCoinsError } from './types/index.js';
@@ -265,11 +267,14 @@ export class WalStorageMarketplace {
   /**
    * Get marketplace listings for a seller
    *
-   * @param params - Query parameters
+   * @param params - Query parameters. `status` filters by lifecycle status
+   *   (default: active, partially_filled and expired - every listing the
+   *   seller still has on chain), e.g. `['sold']` for sold listings.
    * @returns Paginated listings
    */
   async getListingsByAddress(params: {
     address: string;
+    status?: ListingStatus[];
     cursor?: string;
     limit?: number;
   }): Promise<PaginatedListings> {
@@ -278,6 +283,40 @@ export class WalStorageMarketplace {
 
     return this.backendClient.getListings({
       seller: params.address,
+      status: params.status,
+      cursor: params.cursor,
+      limit: params.limit || DEFAULT_PAGINATION_LIMIT,
+    });
+  }
+
+  /**
+   * Get marketplace purchases made by an address, newest first
+   *
+   * Each purchase includes the effective unit price paid.
+   *
+   * @param params - Query parameters. `from`/`to` filter by block time
+   *   (`to` exclusive); `fromEpoch`/`toEpoch` keep purchases whose storage
+   *   period overlaps [fromEpoch, toEpoch).
+   * @returns Paginated purchases
+   */
+  async getPurchasesByAddress(params: {
+    address: string;
+    from?: Date;
+    to?: Date;
+    fromEpoch?: number;
+    toEpoch?: number;
+    cursor?: string;
+    limit?: number;
+  }): Promise<PaginatedPurchases> {
+    validateSuiAddress(params.address);
+    validatePaginationLimit(params.limit, MAX_PAGINATION_LIMIT);
+
+    return this.backendClient.getPurchases({
+      buyer: params.address,
+      from: params.from,
+      to: params.to,
+      fromEpoch: params.fromEpoch,
+      toEpoch: params.toEpoch,
       cursor: params.cursor,
       limit: params.limit || DEFAULT_PAGINATION_LIMIT,
     });
@@ -603,6 +642,7 @@ export class WalStorageMarketplace {
       operations: [
         {
           type: 'reserve_space',
+          description: `Reserve ${sizeInBytes} bytes for epochs ${startEpoch}-${endEpoch}`,
           reserveSize: sizeInBytes.toString(),
           startEpoch,
           endEpoch,
@@ -613,17 +653,16 @@ export class WalStorageMarketplace {
       systemOnlyPrice: cost.toString(),
       allocations: [],
       ptbMetadata: {
-        operations: [
+        paymentAmounts: [cost.toString()],
+        executionFlow: [
           {
+            operationIndex: 0,
             type: 'reserve_space',
-            reserveSize: sizeInBytes.toString(),
-            startEpoch,
-            endEpoch,
-            cost: cost.toString(),
+            producesStorage: true,
+            storageRef: 'storage_0',
+            paymentIndex: 0,
           },
         ],
-        expectedCost: cost.toString(),
-        paymentAmounts: [cost.toString()],
       },
     };
   }
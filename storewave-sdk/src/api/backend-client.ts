@@ -6,7 +6,9 @@ import type {
   OptimizationRequest,
   OptimizationResult,
   ListedStorage,
+  ListingStatus,
   PaginatedListings,
+  PaginatedPurchases,
 } from '../types/index.js';
 import { BackendError } from '../types/index.js';
 
@@ -62,12 +64,14 @@ export class BackendClient {
    */
   async getListings(params: {
     seller?: string;
+    status?: ListingStatus[];
     cursor?: string;
     limit?: number;
   }): Promise<PaginatedListings> {
     try {
       const query = new URLSearchParams();
       if (params.seller) query.set('seller', params.seller);
+      if (params.status?.length) query.set('status', params.status.join(','));
       if (params.cursor) query.set('cursor', params.cursor);
       if (params.limit) query.set('limit', params.limit.toString());
 
@@ -92,6 +96,65 @@ export class BackendClient {
           ...listing,
           listedAt: new Date(listing.listedAt),
           lastUpdatedAt: new Date(listing.lastUpdatedAt),
+          closedAt: listing.closedAt ? new Date(listing.closedAt) : null,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof BackendError) {
+        throw error;
+      }
+      throw new BackendError(
+        `Failed to connect to backend: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Get the purchases of a buyer, newest first
+   *
+   * @param params - Query parameters
+   * @returns Paginated purchases
+   * @throws {BackendError} If the API request fails
+   */
+  async getPurchases(params: {
+    buyer: string;
+    from?: Date;
+    to?: Date;
+    fromEpoch?: number;
+    toEpoch?: number;
+    cursor?: string;
+    limit?: number;
+  }): Promise<PaginatedPurchases> {
+    try {
+      const query = new URLSearchParams();
+      if (params.from) query.set('from', params.from.toISOString());
+      if (params.to) query.set('to', params.to.toISOString());
+      if (params.fromEpoch !== undefined) query.set('fromEpoch', params.fromEpoch.toString());
+      if (params.toEpoch !== undefined) query.set('toEpoch', params.toEpoch.toString());
+      if (params.cursor) query.set('cursor', params.cursor);
+      if (params.limit) query.set('limit', params.limit.toString());
+
+      const url = `${this.baseUrl}/indexer/buyers/${encodeURIComponent(params.buyer)}/purchases${query.toString() ? `?${query}` : ''}`;
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new BackendError(
+          `Failed to fetch purchases: ${response.statusText}`,
+          response.status,
+          errorText,
+        );
+      }
+
+      const data = (await response.json()) as PaginatedPurchases;
+
+      // Parse date strings to Date objects to match TypeScript types
+      return {
+        ...data,
+        data: data.data.map((purchase) => ({
+          ...purchase,
+          blockTime: purchase.blockTime ? new Date(purchase.blockTime) : null,
+          createdAt: new Date(purchase.createdAt),
         })),
       };
     } catch (error) {
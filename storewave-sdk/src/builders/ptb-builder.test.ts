@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '@mysten/sui/transactions';
+import { buildStoragePurchasePTB } from './ptb-builder.js';
+import { NETWORKS } from '../config/networks.js';
+import { ValidationError, type OptimizationResult } from '../types/index.js';
+
+const config = NETWORKS.testnet;
+const sender = '0x' + 'a'.repeat(64);
+const walCoin = '0x' + 'c'.repeat(64);
+const early = '0x' + '1'.repeat(64);
+const late = '0x' + '2'.repeat(64);
+
+// Backend optimizer result for 4 MiB over epochs 10-30: 4 MiB of a listing
+// covering epochs 5-20, with epochs 5-10 split off, fused with a listing
+// covering epochs 20-30
+const result: OptimizationResult = {
+  operations: [
+    {
+      type: 'buy_partial_storage_size',
+      description: `Buy 4194304 bytes from ${early.slice(0, 10)}...`,
+      storageObjectId: early,
+      splitSize: '4194304',
+    },
+    {
+      type: 'split_by_epoch',
+      description: 'Split off unused epochs 5-10',
+      splitEpoch: 10,
+    },
+    {
+      type: 'buy_full_storage',
+      description: 'Buy full storage (4194304 bytes)',
+      storageObjectId: late,
+    },
+    {
+      type: 'fuse_periods',
+      description: 'Fuse periods of piece 2 into piece 1',
+    },
+  ],
+  totalCost: '146800640',
+  systemOnlyPrice: '8388608000000',
+  allocations: [],
+  ptbMetadata: {
+    paymentAmounts: ['62914560', '83886080'],
+    executionFlow: [
+      {
+        operationIndex: 0,
+        type: 'buy_partial_storage_size',
+        producesStorage: true,
+        storageRef: 'storage_0',
+        paymentIndex: 0,
+        sellerAddress: '0xseller-early',
+      },
+      {
+        operationIndex: 1,
+        type: 'split_by_epoch',
+        producesStorage: true,
+        storageRef: 'storage_1',
+        inputStorageFromOperation: 0,
+      },
+      {
+        operationIndex: 2,
+        type: 'buy_full_storage',
+        producesStorage: true,
+        storageRef: 'storage_2',
+        paymentIndex: 1,
+        sellerAddress: '0xseller-late',
+      },
+      {
+        operationIndex: 3,
+        type: 'fuse_periods',
+        producesStorage: false,
+        fuseTargets: { first: 1, second: 2 },
+      },
+    ],
+  },
+};
+
+const build = (optimizationResult: OptimizationResult) =>
+  buildStoragePurchasePTB(new Transaction(), optimizationResult, [walCoin], sender, config)
+    .getData()
+    .commands.map((command) =>
+      command.MoveCall
+        ? {
+            call: `${command.MoveCall.module}::${command.MoveCall.function}`,
+            arguments: command.MoveCall.arguments.filter((arg) => arg.$kind !== 'Input'),
+          }
+        : { call: command.$kind },
+    );
+
+describe('buildStoragePurchasePTB', () => {
+  it('wires splits and fuses by the execution flow', () => {
+    expect(build(result)).toEqual([
+      { call: 'SplitCoins' },
+      {
+        call: 'marketplace::buy_partial_storage_size',
+        arguments: [{ $kind: 'NestedResult', NestedResult: [0, 0] }],
+      },
+      // The purchase keeps epochs 5-10, the split returns epochs 10-20
+      {
+        call: 'storage_resource::split_by_epoch',
+        arguments: [{ $kind: 'Result', Result: 1 }],
+      },
+      {
+        call: 'marketplace::buy_full_storage',
+        arguments: [{ $kind: 'NestedResult', NestedResult: [0, 1] }],
+      },
+      {
+        call: 'storage_resource::fuse_periods',
+        arguments: [
+          { $kind: 'Result', Result: 2 },
+          { $kind: 'Result', Result: 3 },
+        ],
+      },
+      { call: 'TransferObjects' },
+    ]);
+  });
+
+  it('transfers the fused storage and the split-off excess', () => {
+    const tx = buildStoragePurchasePTB(new Transaction(), result, [walCoin], sender, config);
+    const transfer = tx.getData().commands.at(-1)!.TransferObjects!;
+
+    expect(transfer.objects).toEqual([
+      { $kind: 'Result', Result: 1 },
+      { $kind: 'Result', Result: 2 },
+    ]);
+  });
+
+  it('rejects a split whose input was never produced', () => {
+    const [purchase, split, ...rest] = result.ptbMetadata.executionFlow;
+
+    expect(() =>
+      build({
+        ...result,
+        ptbMetadata: {
+          ...result.ptbMetadata,
+          executionFlow: [purchase, { ...split, inputStorageFromOperation: 2 }, ...rest],
+        },
+      }),
+    ).toThrow(ValidationError);
+  });
+});
@@ -2,10 +2,10 @@
  * Programmable Transaction Block (PTB) builder for storage operations
  */
 
-import { Transaction } from '@mysten/sui/transactions';
+import { Transaction, type TransactionResult } from '@mysten/sui/transactions';
 import type { SuiClient } from '@mysten/sui/client';
 import type { NetworkConfig } from '../config/networks.js';
-import type { Operation, OptimizationResult } from '../types/index.js';
+import type { ExecutionFlow, Operation, OptimizationResult } from '../types/index.js';
 import { ValidationError } from '../types/index.js';
 
 /**
@@ -44,52 +44,87 @@ export function buildStoragePurchasePTB(
     paymentAmounts.map((amount) => tx.pure.u64(amount)),
   );
 
-  // Step 3: Execute operations and collect storage results
-  const storageResults: any[] = [];
-  let paymentIndex = 0;
+  // Step 3: Execute operations in execution flow order, tracking the
+  // storage each one produces by operation index
+  const storageResults = new Map<number, TransactionResult>();
+
+  for (const flow of ptbMetadata.executionFlow) {
+    const operation = operations[flow.operationIndex];
+    if (!operation) {
+      throw new ValidationError(`Operation ${flow.operationIndex} not found`);
+    }
 
-  for (const operation of operations) {
     const result = executeOperation(
       tx,
       operation,
+      flow,
       splitCoins,
-      paymentIndex,
       senderAddress,
       config,
       storageResults,
     );
 
     if (result) {
-      storageResults.push(result);
-    }
-
-    // Increment payment index for operations that require payment
-    if (operation.type !== 'fuse_amount') {
-      paymentIndex++;
+      storageResults.set(flow.operationIndex, result);
     }
   }
 
-  // Step 4: Transfer final storage to sender
-  if (storageResults.length > 0) {
-    const finalStorage = storageResults[storageResults.length - 1];
-    tx.transferObjects([finalStorage], senderAddress);
+  // Step 4: Transfer remaining storage to sender
+  // The fused storage plus any excess split off a purchase
+  const remainingStorage = Array.from(storageResults.values());
+  if (remainingStorage.length > 0) {
+    tx.transferObjects(remainingStorage, senderAddress);
   }
 
   return tx;
 }
 
+/**
+ * Payment coin of a buy or reserve operation
+ */
+function getPaymentCoin(paymentCoins: any, operation: Operation, flow: ExecutionFlow) {
+  if (flow.paymentIndex === undefined) {
+    throw new ValidationError(
+      `Invalid ${operation.type} operation ${flow.operationIndex}: no payment`,
+    );
+  }
+  return paymentCoins[flow.paymentIndex];
+}
+
+/**
+ * Storage produced by an earlier operation
+ */
+function getStorage(
+  storageResults: Map<number, TransactionResult>,
+  operation: Operation,
+  flow: ExecutionFlow,
+  operationIndex: number | undefined,
+): TransactionResult {
+  const storage =
+    operationIndex !== undefined ? storageResults.get(operationIndex) : undefined;
+  if (!storage) {
+    throw new ValidationError(
+      `Invalid ${operation.type} operation ${flow.operationIndex}: storage of operation ${operationIndex} not found`,
+    );
+  }
+  return storage;
+}
+
 /**
  * Execute a single operation in the PTB
+ *
+ * @returns The storage the operation produces, or undefined for fuses,
+ * which modify their first input in place and consume the second
  */
 function executeOperation(
   tx: Transaction,
   operation: Operation,
+  flow: ExecutionFlow,
   paymentCoins: any,
-  paymentIndex: number,
   senderAddress: string,
   config: NetworkConfig,
-  storageResults: any[],
-): any {
+  storageResults: Map<number, TransactionResult>,
+): TransactionResult | undefined {
   switch (operation.type) {
     case 'buy_full_storage': {
       const storage = tx.moveCall({
@@ -97,7 +132,7 @@ function executeOperation(
         arguments: [
           tx.object(config.marketplaceConfigId),
           tx.pure.id(operation.storageObjectId),
-          paymentCoins[paymentIndex],
+          getPaymentCoin(paymentCoins, operation, flow),
         ],
       });
       return storage;
@@ -109,14 +144,29 @@ function executeOperation(
         arguments: [
           tx.object(config.marketplaceConfigId),
           tx.pure.id(operation.storageObjectId),
-          tx.pure.u64(BigInt(operation.size)),
-          paymentCoins[paymentIndex],
+          tx.pure.u64(BigInt(operation.splitSize)),
+          getPaymentCoin(paymentCoins, operation, flow),
+        ],
+      });
+      return storage;
+    }
+
+    case 'buy_partial_storage_epoch': {
+      const storage = tx.moveCall({
+        target: `${config.marketplacePackageId}::marketplace::buy_partial_storage_epoch`,
+        arguments: [
+          tx.object(config.marketplaceConfigId),
+          tx.pure.id(operation.storageObjectId),
+          tx.pure.u32(operation.splitStartEpoch),
+          tx.pure.u32(operation.splitEndEpoch),
+          getPaymentCoin(paymentCoins, operation, flow),
         ],
       });
       return storage;
     }
 
     case 'reserve_space': {
+      const paymentCoin = getPaymentCoin(paymentCoins, operation, flow);
       const storage = tx.moveCall({
         target: `${config.walrusPackageId}::system::reserve_space_for_epochs`,
         arguments: [
@@ -124,36 +174,54 @@ function executeOperation(
           tx.pure.u64(BigInt(operation.reserveSize)),
           tx.pure.u32(operation.startEpoch),
           tx.pure.u32(operation.endEpoch),
-          paymentCoins[paymentIndex],
+          paymentCoin,
         ],
       });
 
       // IMPORTANT: Transfer payment coin back to sender
       // reserve_space uses &mut Coin, so we need to return it
-      tx.transferObjects([paymentCoins[paymentIndex]], senderAddress);
+      tx.transferObjects([paymentCoin], senderAddress);
 
       return storage;
     }
 
-    case 'fuse_amount': {
-      const storage1 = storageResults[operation.storage1Index];
-      const storage2 = storageResults[operation.storage2Index];
+    case 'split_by_size':
+    case 'split_by_epoch': {
+      const input = getStorage(
+        storageResults,
+        operation,
+        flow,
+        flow.inputStorageFromOperation,
+      );
+
+      // The input keeps the first part (splitSize bytes / epochs before
+      // splitEpoch); the returned storage is the rest
+      const storage = tx.moveCall({
+        target: `${config.walrusPackageId}::storage_resource::${operation.type}`,
+        arguments: [
+          input,
+          operation.type === 'split_by_size'
+            ? tx.pure.u64(BigInt(operation.splitSize))
+            : tx.pure.u32(operation.splitEpoch),
+        ],
+      });
+      return storage;
+    }
 
-      if (!storage1 || !storage2) {
-        throw new ValidationError(
-          `Invalid fuse operation: storage indices ${operation.storage1Index} and ${operation.storage2Index} not found`,
-        );
-      }
+    case 'fuse_amount':
+    case 'fuse_periods': {
+      const storage1 = getStorage(storageResults, operation, flow, flow.fuseTargets?.first);
+      const storage2 = getStorage(storageResults, operation, flow, flow.fuseTargets?.second);
 
-      const fusedStorage = tx.moveCall({
-        target: `${config.walrusPackageId}::storage_resource::fuse_amount`,
+      // storage1 is modified in place, storage2 is consumed
+      tx.moveCall({
+        target: `${config.walrusPackageId}::storage_resource::${operation.type}`,
         arguments: [storage1, storage2],
       });
 
-      // Update the result at storage1Index to be the fused storage
-      storageResults[operation.storage1Index] = fusedStorage;
+      storageResults.delete(flow.fuseTargets!.second);
 
-      return fusedStorage;
+      return undefined;
     }
 
     default:
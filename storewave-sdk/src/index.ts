@@ -21,18 +21,36 @@ export type {
   PaginatedStorage,
   PaginatedBlobs,
   PaginatedListings,
+  PaginatedPurchases,
+  StoragePurchase,
   // API types
   OperationType,
   BuyFullStorageOperation,
   BuyPartialStorageOperation,
+  BuyPartialStorageEpochOperation,
   ReserveSpaceOperation,
+  SplitBySizeOperation,
+  SplitByEpochOperation,
   FuseAmountOperation,
+  FusePeriodsOperation,
   Operation,
   Allocation,
   NewReservation,
+  ExecutionFlow,
   PTBMetadata,
   OptimizationResult,
   OptimizationRequest,
+  // Real-time event types
+  MarketplaceEventName,
+  ListingState,
+  MarketplaceEventPayloadBase,
+  StorageListedPayload,
+  StoragePurchasedPayload,
+  StorageDelistedPayload,
+  StorageExpiredPayload,
+  MarketplaceEventPayload,
+  SubscriptionEventType,
+  SubscriptionFilter,
 } from './types/index.js';
 
 // Error exports
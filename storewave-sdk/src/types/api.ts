@@ -8,16 +8,20 @@
 export type OperationType =
   | 'buy_full_storage'
   | 'buy_partial_storage_size'
+  | 'buy_partial_storage_epoch'
   | 'reserve_space'
-  | 'fuse_amount';
+  | 'split_by_size'
+  | 'split_by_epoch'
+  | 'fuse_amount'
+  | 'fuse_periods';
 
 /**
  * Buy full storage operation
  */
 export interface BuyFullStorageOperation {
   type: 'buy_full_storage';
+  description: string;
   storageObjectId: string;
-  cost: string;
 }
 
 /**
@@ -25,9 +29,20 @@ export interface BuyFullStorageOperation {
  */
 export interface BuyPartialStorageOperation {
   type: 'buy_partial_storage_size';
+  description: string;
   storageObjectId: string;
-  size: string;
-  cost: string;
+  splitSize: string;
+}
+
+/**
+ * Buy partial storage by epoch range operation
+ */
+export interface BuyPartialStorageEpochOperation {
+  type: 'buy_partial_storage_epoch';
+  description: string;
+  storageObjectId: string;
+  splitStartEpoch: number;
+  splitEndEpoch: number;
 }
 
 /**
@@ -35,6 +50,7 @@ export interface BuyPartialStorageOperation {
  */
 export interface ReserveSpaceOperation {
   type: 'reserve_space';
+  description: string;
   reserveSize: string;
   startEpoch: number;
   endEpoch: number;
@@ -42,12 +58,39 @@ export interface ReserveSpaceOperation {
 }
 
 /**
- * Fuse storage pieces operation
+ * Split storage by size operation - the input keeps splitSize bytes,
+ * the operation produces the rest
+ */
+export interface SplitBySizeOperation {
+  type: 'split_by_size';
+  description: string;
+  splitSize: string;
+}
+
+/**
+ * Split storage by epoch operation - the input keeps the epochs before
+ * splitEpoch, the operation produces the rest
+ */
+export interface SplitByEpochOperation {
+  type: 'split_by_epoch';
+  description: string;
+  splitEpoch: number;
+}
+
+/**
+ * Fuse storage pieces of the same period operation
  */
 export interface FuseAmountOperation {
   type: 'fuse_amount';
-  storage1Index: number;
-  storage2Index: number;
+  description: string;
+}
+
+/**
+ * Fuse storage pieces of consecutive periods operation
+ */
+export interface FusePeriodsOperation {
+  type: 'fuse_periods';
+  description: string;
 }
 
 /**
@@ -56,8 +99,12 @@ export interface FuseAmountOperation {
 export type Operation =
   | BuyFullStorageOperation
   | BuyPartialStorageOperation
+  | BuyPartialStorageEpochOperation
   | ReserveSpaceOperation
-  | FuseAmountOperation;
+  | SplitBySizeOperation
+  | SplitByEpochOperation
+  | FuseAmountOperation
+  | FusePeriodsOperation;
 
 /**
  * Allocation from marketplace
@@ -81,13 +128,30 @@ export interface NewReservation {
   cost: string;
 }
 
+/**
+ * How an operation is wired into the PTB - storage is referenced by the
+ * index of the operation that produced it
+ */
+export interface ExecutionFlow {
+  operationIndex: number;
+  type: OperationType;
+  producesStorage: boolean;
+  storageRef?: string;
+  paymentIndex?: number; // Index into paymentAmounts (buy/reserve operations)
+  sellerAddress?: string; // Marketplace purchases
+  inputStorageFromOperation?: number; // Splits - the input keeps the first part
+  fuseTargets?: {
+    first: number; // Modified in place
+    second: number; // Consumed
+  };
+}
+
 /**
  * PTB metadata from optimizer
  */
 export interface PTBMetadata {
-  operations: Operation[];
-  expectedCost: string;
   paymentAmounts: string[];
+  executionFlow: ExecutionFlow[];
 }
 
 /**
@@ -0,0 +1,184 @@
+/**
+ * Real-time marketplace event type definitions
+ *
+ * Payloads emitted by the backend on the `/marketplace-events` WebSocket
+ * namespace after each indexed event is committed
+ */
+
+/**
+ * Real-time event names
+ */
+export type MarketplaceEventName =
+  | 'storage:listed'
+  | 'storage:purchased'
+  | 'storage:delisted'
+  | 'storage:expired';
+
+/**
+ * Current order book state of a listing
+ */
+export interface ListingState {
+  /** Object ID of the listed storage */
+  storageId: string;
+
+  /** Address of the seller */
+  seller: string;
+
+  /** Price per size per epoch in FROST (scaled by 1e9) */
+  pricePerSizePerEpoch: string;
+
+  /** Size of the storage in bytes (as string for JSON compatibility) */
+  size: string;
+
+  /** Starting epoch for the storage period */
+  startEpoch: number;
+
+  /** Ending epoch for the storage period */
+  endEpoch: number;
+
+  /** Total price in FROST (as string for JSON compatibility) */
+  totalPrice: string;
+}
+
+/**
+ * Fields shared by every marketplace event payload
+ */
+export interface MarketplaceEventPayloadBase {
+  /** Object ID of the storage the event refers to */
+  storageId: string;
+
+  /** Digest of the transaction that emitted the event */
+  txDigest: string;
+
+  /** Sequence of the event within its transaction */
+  eventSeq: string;
+
+  /** Block timestamp (ISO string, null if unknown) */
+  blockTime: string | null;
+
+  /**
+   * Position in the backend's event archive - pass the last one received as
+   * `lastSequence` when resubscribing to replay missed events
+   */
+  sequence: string | null;
+}
+
+/**
+ * `storage:listed` - a listing was added or replaced, including remainders
+ * re-listed by partial purchases
+ */
+export interface StorageListedPayload extends MarketplaceEventPayloadBase {
+  type: 'listed';
+  seller: string;
+
+  /** New listing state - upsert into the local order book */
+  listing: ListingState;
+  removed: false;
+}
+
+/**
+ * `storage:purchased` - the purchased storage ID is no longer listed, unless
+ * a remainder was re-listed under it (`removed: false`). Remainders arrive as
+ * `storage:listed` before the purchase.
+ */
+export interface StoragePurchasedPayload extends MarketplaceEventPayloadBase {
+  type: 'purchased';
+  buyer: string;
+  seller: string;
+
+  /** Amount paid in FROST */
+  amountPaid: string;
+
+  /** "full", "partial_epoch", or "partial_size" */
+  purchaseType: string;
+  purchasedSize: string;
+  purchasedStartEpoch: number;
+  purchasedEndEpoch: number;
+
+  /**
+   * Removal marker - when true, delete `storageId` from the local order book.
+   * False when a remainder was re-listed under `storageId` (a partial_epoch
+   * purchase starting after the listing's start epoch): keep the listing.
+   */
+  listing: null;
+  removed: boolean;
+}
+
+/**
+ * `storage:delisted` - the listing was removed from the order book
+ */
+export interface StorageDelistedPayload extends MarketplaceEventPayloadBase {
+  type: 'delisted';
+  seller: string;
+
+  /** Removal marker - delete `storageId` from the local order book */
+  listing: null;
+  removed: true;
+}
+
+/**
+ * `storage:expired` - the listing reached its end epoch and is no longer
+ * offered to buyers (the contract would still sell it). Published by the
+ * backend's expiry sweeper rather than by an on-chain event, so it carries
+ * no transaction digest.
+ */
+export interface StorageExpiredPayload {
+  type: 'expired';
+
+  /** Object ID of the expired listing */
+  storageId: string;
+  seller: string;
+
+  /** End epoch of the listing */
+  endEpoch: number;
+
+  /** Walrus epoch at which the expiry was detected */
+  epoch: number;
+
+  /** When the listing was marked expired (ISO string) */
+  expiredAt: string;
+
+  /** Removal marker - delete `storageId` from the local order book */
+  listing: null;
+  removed: true;
+}
+
+/**
+ * Union type for all marketplace event payloads
+ */
+export type MarketplaceEventPayload =
+  | StorageListedPayload
+  | StoragePurchasedPayload
+  | StorageDelistedPayload
+  | StorageExpiredPayload;
+
+/**
+ * Marketplace event types a subscription can select
+ */
+export type SubscriptionEventType = MarketplaceEventPayload['type'];
+
+/**
+ * WebSocket subscription filter - an event is delivered if it matches every
+ * criterion given. List criteria match any of their values.
+ */
+export interface SubscriptionFilter {
+  /** Event types (default: all) */
+  eventTypes?: SubscriptionEventType[];
+  sellers?: string[];
+
+  /** Buyer addresses - matches purchases only */
+  buyers?: string[];
+  storageIds?: string[];
+
+  /** Minimum size in bytes of the listing or purchased piece */
+  minSize?: string;
+
+  /** Maximum size in bytes of the listing or purchased piece */
+  maxSize?: string;
+
+  /** Listing or purchased piece starts at or before this epoch */
+  coverStartEpoch?: number;
+
+  /** Listing or purchased piece ends at or after this epoch */
+  coverEndEpoch?: number;
+}
@@ -7,11 +7,14 @@ export type {
   SizeUnit,
   WalrusStorage,
   WalrusBlob,
+  ListingStatus,
   ListedStorage,
+  StoragePurchase,
   PaginatedResponse,
   PaginatedStorage,
   PaginatedBlobs,
   PaginatedListings,
+  PaginatedPurchases,
 } from './storage.js';
 
 // API types
@@ -19,16 +22,35 @@ export type {
   OperationType,
   BuyFullStorageOperation,
   BuyPartialStorageOperation,
+  BuyPartialStorageEpochOperation,
   ReserveSpaceOperation,
+  SplitBySizeOperation,
+  SplitByEpochOperation,
   FuseAmountOperation,
+  FusePeriodsOperation,
   Operation,
   Allocation,
   NewReservation,
+  ExecutionFlow,
   PTBMetadata,
   OptimizationResult,
   OptimizationRequest,
 } from './api.js';
 
+// Real-time event types
+export type {
+  MarketplaceEventName,
+  ListingState,
+  MarketplaceEventPayloadBase,
+  StorageListedPayload,
+  StoragePurchasedPayload,
+  StorageDelistedPayload,
+  StorageExpiredPayload,
+  MarketplaceEventPayload,
+  SubscriptionEventType,
+  SubscriptionFilter,
+} from './events.js';
+
 // Network types
 export type { Network, SDKOptions } from './network.js';
 
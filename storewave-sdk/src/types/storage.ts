@@ -58,6 +58,18 @@ export interface WalrusBlob {
   };
 }
 
+/**
+ * Listing lifecycle status
+ * - `active` / `partially_filled` - open (a remainder of a partial purchase)
+ * - `sold`, `delisted`, `expired` - closed
+ */
+export type ListingStatus =
+  | 'active'
+  | 'partially_filled'
+  | 'sold'
+  | 'delisted'
+  | 'expired';
+
 /**
  * Listed storage on the marketplace
  */
@@ -97,6 +109,68 @@ export interface ListedStorage {
 
   /** Event sequence number of the last update */
   lastEventSeq: string;
+
+  /** Lifecycle status of the listing */
+  status: ListingStatus;
+
+  /** When the listing was sold, delisted, or expired (null while open) */
+  closedAt: Date | null;
+}
+
+/**
+ * Storage purchased on the marketplace
+ */
+export interface StoragePurchase {
+  /** Database ID (UUID) */
+  id: string;
+
+  /** Object ID of the purchased storage */
+  storageId: string;
+
+  /** Address of the buyer */
+  buyer: string;
+
+  /** Address of the seller */
+  seller: string;
+
+  /** Amount paid in FROST (as string for JSON compatibility) */
+  amountPaid: string;
+
+  /** "full", "partial_epoch", or "partial_size" */
+  purchaseType: string;
+
+  /** Purchased size in bytes (as string for JSON compatibility) */
+  purchasedSize: string;
+
+  /** Starting epoch of the purchased storage */
+  purchasedStartEpoch: number;
+
+  /** Ending epoch of the purchased storage */
+  purchasedEndEpoch: number;
+
+  /** Number of epochs purchased */
+  epochs: number;
+
+  /** Effective price per size per epoch in FROST (scaled by 1e9, as listed) */
+  effectivePricePerSizePerEpoch: string;
+
+  /** Effective price per MiB per epoch in FROST */
+  effectivePricePerMibPerEpoch: string;
+
+  /** Transaction digest of the purchase */
+  txDigest: string;
+
+  /** Event sequence number of the purchase */
+  eventSeq: string;
+
+  /** Marketplace package version that emitted the purchase */
+  packageId: string | null;
+
+  /** Block time of the purchase (null if unknown) */
+  blockTime: Date | null;
+
+  /** When the purchase was indexed */
+  createdAt: Date;
 }
 
 /**
@@ -127,3 +201,8 @@ export type PaginatedBlobs = PaginatedResponse<WalrusBlob>;
  * Paginated listings
  */
 export type PaginatedListings = PaginatedResponse<ListedStorage>;
+
+/**
+ * Paginated purchases
+ */
+export type PaginatedPurchases = PaginatedResponse<StoragePurchase>;